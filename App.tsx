@@ -1,72 +1,156 @@
 import React, { useState, useEffect } from 'react';
-import { Gamepad2, History, Trash2, AlertTriangle, Plus, Zap } from 'lucide-react';
+import { Gamepad2, AlertTriangle, Plus, Zap, Tags, Coffee, Lock, Archive, Bell, Database, BarChart3, Users, CalendarDays, UserCog, LogOut, ScrollText, Printer, Percent, Settings2, Filter, Tv, Wifi, WifiOff, BellOff } from 'lucide-react';
 import ScreenCard from './components/ScreenCard';
-import { SessionRecord, Screen } from './types';
+import RatePlanManager from './components/RatePlanManager';
+import ProductManager from './components/ProductManager';
+import CloseShiftDialog from './components/CloseShiftDialog';
+import ShiftArchive from './components/ShiftArchive';
+import SessionLogs from './components/SessionLogs';
+import DataTools from './components/DataTools';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import CustomerManager from './components/CustomerManager';
+import DebtorsPanel from './components/DebtorsPanel';
+import ReservationCalendar from './components/ReservationCalendar';
+import LoginScreen from './components/LoginScreen';
+import StaffManager from './components/StaffManager';
+import AuditLog from './components/AuditLog';
+import PrintTools from './components/PrintTools';
+import DiscountManager from './components/DiscountManager';
+import StationManager from './components/StationManager';
+import AlarmSettingsPanel from './components/AlarmSettingsPanel';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import { useI18n } from './components/LocaleProvider';
+import { ConsoleType, SessionRecord } from './types';
+import { useLoungeStore } from './store/useLoungeStore';
+import { useStaffLogin } from './store/useStaffLogin';
+import { LoungeDispatch } from './store/reducer';
+import { getItemsTotal } from './utils/records';
+import { buildZReport } from './utils/reports';
+import { entriesBetween } from './utils/accounts';
+import { priceActiveSession } from './utils/session';
+import { can, stampOf } from './utils/staff';
+import { withAudit } from './utils/audit';
+import { buildReceipt, printReceipt } from './utils/receipt';
+import { ALARM_DELAY_NOTICE_MS, THROTTLE_GAP_MS, buildAlarmSchedule, getNotifyPermission, postAlarmSchedule, requestNotifyPermission } from './utils/alarms';
+import { MessageKey } from './utils/i18n';
+import { CONSOLE_TYPES, NO_ZONE, StationGrouping, StationStatus, createScreen, getStationStatus, getZones, groupStations } from './utils/stations';
 
 interface ConfirmationState {
   isOpen: boolean;
-  type: 'delete_one' | 'delete_all' | null;
+  type: 'delete_one' | 'delete_all' | 'merge' | null;
   targetId?: string;
-  message: string;
+  targetIds?: [string, string];
+  message: MessageKey;
 }
 
 const App: React.FC = () => {
-  // Initialize state from localStorage if available, else default
-  const [screens, setScreens] = useState<Screen[]>(() => {
-    const saved = localStorage.getItem('ps_screens');
-    return saved ? JSON.parse(saved) : [
-      { id: '1', name: 'STATION 01' },
-      { id: '2', name: 'STATION 02' },
-      { id: '3', name: 'STATION 03' }
-    ];
-  });
+  const [state, storeDispatch, isHydrated, syncInfo] = useLoungeStore();
+  const { screens, sessions, history: sessionHistory, ratePlans, products, customers, loyalty, discountRules, ledger, reservations, staff, audit, receipt, alarms, currentShift, closedShifts } = state;
+  const [currentMember, setLogin] = useStaffLogin(staff);
+  const { t, amount, clock, number } = useI18n();
+  // Everything below dispatches through here so sensitive actions are logged against the signed-in member
+  const dispatch: LoungeDispatch = React.useMemo(
+    () => withAudit(storeDispatch, currentMember && stampOf(currentMember)),
+    [storeDispatch, currentMember]
+  );
 
-  const [sessionHistory, setSessionHistory] = useState<SessionRecord[]>(() => {
-    const saved = localStorage.getItem('ps_history');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const [isRatePlansOpen, setIsRatePlansOpen] = useState(false);
+  const [isProductsOpen, setIsProductsOpen] = useState(false);
+  const [isCloseShiftOpen, setIsCloseShiftOpen] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isDataOpen, setIsDataOpen] = useState(false);
+  const [isAnalyticsOpen, setIsAnalyticsOpen] = useState(false);
+  const [isCustomersOpen, setIsCustomersOpen] = useState(false);
+  const [isReservationsOpen, setIsReservationsOpen] = useState(false);
+  const [isStaffOpen, setIsStaffOpen] = useState(false);
+  const [isAuditOpen, setIsAuditOpen] = useState(false);
+  const [isPrintOpen, setIsPrintOpen] = useState(false);
+  const [isDiscountsOpen, setIsDiscountsOpen] = useState(false);
+  const [isStationsOpen, setIsStationsOpen] = useState(false);
+  const [isAlarmsOpen, setIsAlarmsOpen] = useState(false);
+
+  // Grid filters
+  const [consoleFilter, setConsoleFilter] = useState<ConsoleType | ''>('');
+  const [zoneFilter, setZoneFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StationStatus | ''>('');
+  const [grouping, setGrouping] = useState<StationGrouping>('NONE');
 
   const [confirmState, setConfirmState] = useState<ConfirmationState>({
     isOpen: false,
     type: null,
-    message: ''
+    message: 'app.confirmDelete'
   });
 
-  // Persist Screens
+  // Clock for the running-revenue readout; only ticks while something is running
+  const activeSessions = Object.values(sessions);
+  const [now, setNow] = useState(Date.now());
+  // Last time the clock ticked late: the browser is throttling this tab, so alarms ring late too
+  const [throttledAt, setThrottledAt] = useState<number | null>(null);
   useEffect(() => {
-    localStorage.setItem('ps_screens', JSON.stringify(screens));
-  }, [screens]);
+    if (activeSessions.length === 0) return;
+    let last = Date.now();
+    const timer = window.setInterval(() => {
+      const tick = Date.now();
+      if (tick - last > THROTTLE_GAP_MS) setThrottledAt(tick);
+      last = tick;
+      setNow(tick);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [activeSessions.length]);
 
-  // Persist History
+  // Keep the service worker's alarm schedule current. Resending every half minute also
+  // wakes the worker if the browser put it to sleep and lets it correct for pauses
   useEffect(() => {
-    localStorage.setItem('ps_history', JSON.stringify(sessionHistory));
-  }, [sessionHistory]);
-  
-  const handleSessionComplete = (record: SessionRecord) => {
-    setSessionHistory(prev => [record, ...prev]);
-  };
+    if (!isHydrated) return;
+    const send = () => postAlarmSchedule(buildAlarmSchedule(sessions, screens, alarms, Date.now(), t), alarms.repeatSeconds);
+    send();
+    const timer = window.setInterval(send, 30000);
+    return () => clearInterval(timer);
+  }, [isHydrated, sessions, screens, alarms, t]);
 
   const handleAddScreen = () => {
+    if (!can(currentMember, 'MANAGE_TERMINALS')) return;
     const newId = Date.now().toString();
-    const newScreen: Screen = {
-      id: newId,
-      name: `STATION ${String(screens.length + 1).padStart(2, '0')}`
-    };
-    setScreens(prev => [...prev, newScreen]);
+    dispatch({ type: 'ADD_SCREEN', screen: createScreen(newId, t('app.newStation', { n: String(screens.length + 1).padStart(2, '0') })) });
   };
 
-  const handleRenameScreen = (id: string, newName: string) => {
-    setScreens(prev => prev.map(s => s.id === id ? { ...s, name: newName } : s));
+  const handleCloseShift = (closedBy: string, nextOpenedBy: string) => {
+    if (!can(currentMember, 'CLOSE_SHIFT')) return;
+    dispatch({ type: 'CLOSE_SHIFT', closedBy, nextOpenedBy, at: Date.now() });
+    setIsCloseShiftOpen(false);
   };
 
-  const totalRevenue = sessionHistory.reduce((acc, curr) => acc + curr.totalCost, 0);
+  const playRevenue = sessionHistory.reduce((acc, curr) => acc + curr.totalCost, 0);
+  const itemsRevenue = sessionHistory.reduce((acc, curr) => acc + (curr.itemsTotal ?? 0), 0);
+  const totalRevenue = playRevenue + itemsRevenue;
 
-  // Helper to format time for history
-  const formatDuration = (seconds: number) => {
-    const hrs = Math.floor(seconds / 3600);
-    const mins = Math.floor((seconds % 3600) / 60);
-    return `${hrs}س ${mins}د`;
-  };
+  // Live floor status, straight from the store
+  const runningRevenue = activeSessions.reduce(
+    (acc, s) => acc + priceActiveSession(s, ratePlans, now).total + getItemsTotal(s.orders), 0
+  );
+  const alarmCount = activeSessions.filter(s => s.isTimeUp).length;
+  // Without notifications only this page can ring, and a throttled page rings late
+  const alarmsMayBeDelayed = activeSessions.some(s => s.sessionType === 'FIXED') &&
+    (getNotifyPermission() !== 'granted' || (throttledAt !== null && now - throttledAt < ALARM_DELAY_NOTICE_MS));
+
+  const zones = getZones(screens);
+  const visibleScreens = screens.filter(screen =>
+    (!consoleFilter || screen.consoleType === consoleFilter) &&
+    (!zoneFilter || screen.zone === zoneFilter) &&
+    (!statusFilter || getStationStatus(screen, sessions[screen.id]) === statusFilter)
+  );
+  const isFiltered = !!(consoleFilter || zoneFilter || statusFilter);
+  const stationGroups = groupStations(visibleScreens, grouping);
+  const toolbarClass = 'bg-black/40 border border-white/10 px-2 py-1.5 text-cyan-300 focus:outline-none focus:border-cyan-500/50';
+
+  const archivedRecords: SessionRecord[] = React.useMemo(
+    () => closedShifts.flatMap(shift => shift.sessions),
+    [closedShifts]
+  );
+  const allRecords: SessionRecord[] = React.useMemo(
+    () => [...sessionHistory, ...archivedRecords],
+    [sessionHistory, archivedRecords]
+  );
 
   // --- Modal Handlers ---
 
@@ -75,7 +159,16 @@ const App: React.FC = () => {
       isOpen: true,
       type: 'delete_one',
       targetId: sessionId,
-      message: 'هل أنت متأكد من حذف هذا السجل؟'
+      message: 'app.confirmDelete'
+    });
+  };
+
+  const requestMergeRecords = (recordIds: [string, string]) => {
+    setConfirmState({
+      isOpen: true,
+      type: 'merge',
+      targetIds: recordIds,
+      message: 'app.confirmMerge'
     });
   };
 
@@ -83,7 +176,7 @@ const App: React.FC = () => {
     setConfirmState({
       isOpen: true,
       type: 'delete_all',
-      message: 'WARNING: System reset initiated. All records will be wiped.'
+      message: 'app.confirmWipe'
     });
   };
 
@@ -92,14 +185,29 @@ const App: React.FC = () => {
   };
 
   const executeConfirmAction = () => {
-    if (confirmState.type === 'delete_one' && confirmState.targetId) {
-      setSessionHistory(prev => prev.filter(s => s.id !== confirmState.targetId));
-    } else if (confirmState.type === 'delete_all') {
-      setSessionHistory([]);
+    const canEditHistory = can(currentMember, 'EDIT_HISTORY');
+    if (confirmState.type === 'delete_one' && confirmState.targetId && canEditHistory) {
+      dispatch({ type: 'DELETE_RECORD', recordId: confirmState.targetId });
+    } else if (confirmState.type === 'merge' && confirmState.targetIds && canEditHistory) {
+      dispatch({ type: 'MERGE_RECORDS', recordIds: confirmState.targetIds });
+    } else if (confirmState.type === 'delete_all' && can(currentMember, 'RESET_HISTORY')) {
+      dispatch({ type: 'CLEAR_HISTORY' });
     }
     closeConfirm();
   };
 
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-cyan-500 font-tech tracking-[0.3em] uppercase animate-pulse">
+        {t('common.loading')}
+      </div>
+    );
+  }
+
+  if (!currentMember) {
+    return <LoginScreen staff={staff} dispatch={dispatch} onLogin={setLogin} />;
+  }
+
   return (
     <div className="min-h-screen text-slate-200 pb-20 relative overflow-x-hidden">
       
@@ -115,27 +223,173 @@ const App: React.FC = () => {
             </div>
             <div>
               <h1 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-fuchsia-400 tracking-wider uppercase font-tech neon-glow">
-                CYBER PS
+                {t('app.title')}
               </h1>
-              <p className="text-[10px] text-fuchsia-400/70 tracking-[0.2em] uppercase">System Online v2.0</p>
+              <p className="text-[10px] text-fuchsia-400/70 tracking-[0.2em] uppercase">{t('app.tagline')}</p>
             </div>
           </div>
 
           <div className="flex items-center gap-6 bg-black/60 rounded-none border-x border-fuchsia-500/30 px-6 py-2 skew-x-[-12deg]">
             <div className="flex flex-col items-end skew-x-[12deg]">
-              <span className="text-[10px] text-cyan-500 uppercase tracking-widest">Daily Revenue</span>
+              <span className="text-[10px] text-cyan-500 uppercase tracking-widest">
+                {t('app.shiftRevenue', { time: clock(currentShift.openedAt) })}
+              </span>
               <div className="text-2xl font-bold text-fuchsia-400 font-tech drop-shadow-[0_0_5px_rgba(232,121,249,0.8)]">
-                {totalRevenue.toFixed(2)} <span className="text-sm">EGP</span>
+                {amount(totalRevenue)} <span className="text-sm">{t('common.currency')}</span>
               </div>
+              <span className="text-[10px] text-slate-500 font-mono">
+                {t('app.revenueSplit', { play: amount(playRevenue), items: amount(itemsRevenue) })}
+              </span>
+              <span className="text-[10px] text-cyan-400/80 font-mono flex items-center gap-2">
+                {t('app.live', { active: activeSessions.length, total: screens.length, running: amount(runningRevenue) })}
+                {alarmCount > 0 && (
+                  <span className="flex items-center gap-0.5 text-red-500 font-bold animate-pulse">
+                    <Bell className="w-3 h-3 fill-current" /> {number(alarmCount)}
+                  </span>
+                )}
+                {alarmsMayBeDelayed && (
+                  <button
+                    onClick={() => requestNotifyPermission()}
+                    className="flex items-center gap-0.5 text-yellow-500"
+                    title={t('app.alarmsDelayedHint')}
+                  >
+                    <BellOff className="w-3 h-3" /> {t('app.alarmsDelayed')}
+                  </button>
+                )}
+              </span>
+              {syncInfo.status !== 'OFF' && (
+                <span
+                  className={`text-[10px] font-mono flex items-center gap-1 ${syncInfo.status === 'ONLINE' ? 'text-green-500' : 'text-yellow-500'}`}
+                  title={syncInfo.url}
+                >
+                  {syncInfo.status === 'ONLINE' ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+                  {t('app.sync', { status: t(`sync.${syncInfo.status}` as MessageKey) })}
+                  {syncInfo.queued > 0 && t('app.syncQueued', { n: syncInfo.queued })}
+                  {syncInfo.conflicts > 0 && <span className="text-red-500">{t('app.syncConflicts', { n: syncInfo.conflicts })}</span>}
+                </span>
+              )}
             </div>
             <div className="h-8 w-px bg-fuchsia-500/30 skew-x-[12deg]"></div>
+            {can(currentMember, 'EDIT_RATES') && (
+              <button 
+                onClick={() => setIsRatePlansOpen(true)}
+                className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+                title={t('app.ratePlans')}
+              >
+                <Tags className="w-5 h-5" />
+                <span className="text-xs font-bold hidden md:inline uppercase tracking-widest">{t('app.rates')}</span>
+              </button>
+            )}
+            {can(currentMember, 'EDIT_RATES') && (
+              <button 
+                onClick={() => setIsDiscountsOpen(true)}
+                className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+                title={t('app.discounts')}
+              >
+                <Percent className="w-5 h-5" />
+              </button>
+            )}
             <button 
-              onClick={requestResetRevenue}
-              className="skew-x-[12deg] text-red-500 hover:text-red-400 hover:bg-red-500/10 p-2 transition-all flex items-center gap-2 group"
-              title="تصفير العداد اليومي"
+              onClick={() => setIsProductsOpen(true)}
+              className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+              title={t('app.snackBar')}
             >
-              <Trash2 className="w-5 h-5 group-hover:animate-pulse" />
-              <span className="text-xs font-bold hidden md:inline uppercase tracking-widest">Reset</span>
+              <Coffee className="w-5 h-5" />
+              <span className="text-xs font-bold hidden md:inline uppercase tracking-widest">{t('app.bar')}</span>
+            </button>
+            <button 
+              onClick={() => setIsReservationsOpen(true)}
+              className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+              title={t('app.reservations')}
+            >
+              <CalendarDays className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsCustomersOpen(true)}
+              className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+              title={t('app.customers')}
+            >
+              <Users className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsAnalyticsOpen(true)}
+              className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+              title={t('app.analytics')}
+            >
+              <BarChart3 className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => window.open('#/display', '_blank')}
+              className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+              title={t('app.wallDisplay')}
+            >
+              <Tv className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsDataOpen(true)}
+              className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+              title={t('app.dataTools')}
+            >
+              <Database className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsArchiveOpen(true)}
+              className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+              title={t('app.shiftArchive')}
+            >
+              <Archive className="w-5 h-5" />
+            </button>
+            {can(currentMember, 'MANAGE_STAFF') && (
+              <button 
+                onClick={() => setIsStaffOpen(true)}
+                className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+                title={t('app.staff')}
+              >
+                <UserCog className="w-5 h-5" />
+              </button>
+            )}
+            {can(currentMember, 'VIEW_AUDIT') && (
+              <button 
+                onClick={() => setIsAuditOpen(true)}
+                className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+                title={t('app.auditLog')}
+              >
+                <ScrollText className="w-5 h-5" />
+              </button>
+            )}
+            {(can(currentMember, 'MANAGE_TERMINALS') || can(currentMember, 'CLOSE_SHIFT')) && (
+              <button 
+                onClick={() => setIsPrintOpen(true)}
+                className="skew-x-[12deg] text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 p-2 transition-all flex items-center gap-2"
+                title={t('app.printing')}
+              >
+                <Printer className="w-5 h-5" />
+              </button>
+            )}
+            {can(currentMember, 'CLOSE_SHIFT') && (
+              <button 
+                onClick={() => setIsCloseShiftOpen(true)}
+                className="skew-x-[12deg] text-fuchsia-500 hover:text-fuchsia-400 hover:bg-fuchsia-500/10 p-2 transition-all flex items-center gap-2 group"
+                title={t('app.closeShift')}
+              >
+                <Lock className="w-5 h-5 group-hover:animate-pulse" />
+                <span className="text-xs font-bold hidden md:inline uppercase tracking-widest">{t('app.closeShift')}</span>
+              </button>
+            )}
+            <div className="h-8 w-px bg-fuchsia-500/30 skew-x-[12deg]"></div>
+            <div className="skew-x-[12deg]">
+              <LanguageSwitcher />
+            </div>
+            <button 
+              onClick={() => setLogin(null)}
+              className="skew-x-[12deg] text-slate-400 hover:text-white hover:bg-white/10 p-2 transition-all flex items-center gap-2"
+              title={t('app.signOut')}
+            >
+              <span className="flex flex-col items-end leading-none">
+                <span className="text-xs font-bold">{currentMember.name}</span>
+                <span className="text-[9px] text-slate-500 font-tech uppercase tracking-widest">{t(`role.${currentMember.role}` as MessageKey)}</span>
+              </span>
+              <LogOut className="w-4 h-4" />
             </button>
           </div>
         </div>
@@ -143,103 +397,252 @@ const App: React.FC = () => {
 
       <main className="max-w-7xl mx-auto px-4 py-8">
         
+        {/* Grid toolbar */}
+        <div className="flex flex-wrap items-center gap-2 mb-6 text-xs font-mono">
+          <Filter className="w-4 h-4 text-cyan-600" />
+          <select value={consoleFilter} onChange={(e) => setConsoleFilter(e.target.value as ConsoleType | '')} className={toolbarClass}>
+            <option value="" className="bg-black">{t('app.allConsoles')}</option>
+            {CONSOLE_TYPES.map(type => <option key={type} value={type} className="bg-black">{type}</option>)}
+          </select>
+          {zones.length > 0 && (
+            <select value={zoneFilter} onChange={(e) => setZoneFilter(e.target.value)} className={toolbarClass}>
+              <option value="" className="bg-black">{t('app.allZones')}</option>
+              {zones.map(zone => <option key={zone} value={zone} className="bg-black">{zone}</option>)}
+            </select>
+          )}
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as StationStatus | '')} className={toolbarClass}>
+            <option value="" className="bg-black">{t('app.anyStatus')}</option>
+            <option value="FREE" className="bg-black">{t('app.statusFree')}</option>
+            <option value="BUSY" className="bg-black">{t('app.statusBusy')}</option>
+            <option value="MAINTENANCE" className="bg-black">{t('app.statusMaintenance')}</option>
+          </select>
+          <select value={grouping} onChange={(e) => setGrouping(e.target.value as StationGrouping)} className={toolbarClass}>
+            <option value="NONE" className="bg-black">{t('app.noGrouping')}</option>
+            <option value="ZONE" className="bg-black">{t('app.groupByZone')}</option>
+            <option value="CONSOLE" className="bg-black">{t('app.groupByConsole')}</option>
+          </select>
+          {isFiltered && (
+            <span className="text-slate-500">{number(visibleScreens.length)}/{number(screens.length)}</span>
+          )}
+          {can(currentMember, 'MANAGE_TERMINALS') && (
+            <button
+              onClick={() => setIsStationsOpen(true)}
+              className="ms-auto flex items-center gap-2 border border-cyan-500/30 px-3 py-1.5 text-cyan-500 hover:text-cyan-400 hover:bg-cyan-500/10 font-tech uppercase tracking-widest transition-all"
+            >
+              <Settings2 className="w-4 h-4" /> {t('app.stations')}
+            </button>
+          )}
+          {can(currentMember, 'MANAGE_TERMINALS') && (
+            <button
+              onClick={() => setIsAlarmsOpen(true)}
+              className="flex items-center gap-2 border border-yellow-500/30 px-3 py-1.5 text-yellow-500 hover:text-yellow-400 hover:bg-yellow-500/10 font-tech uppercase tracking-widest transition-all"
+            >
+              <Bell className="w-4 h-4" /> {t('app.alarms')}
+            </button>
+          )}
+        </div>
+
         {/* Screen Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 mb-16">
-          {screens.map((screen) => (
-            <ScreenCard 
-              key={screen.id} 
-              id={screen.id} 
-              name={screen.name}
-              onRename={(newName) => handleRenameScreen(screen.id, newName)}
-              onSessionComplete={handleSessionComplete} 
-            />
-          ))}
+        <div className="flex flex-col gap-10 mb-16">
+          {stationGroups.map((group, i) => (
+            <section key={group.label || 'all'}>
+              {group.label && (
+                <h2 className="mb-4 text-sm font-tech uppercase tracking-[0.3em] text-fuchsia-400/80 border-b border-fuchsia-500/20 pb-2">
+                  {group.label === NO_ZONE ? t('app.noZone') : group.label} <span className="text-slate-600">· {number(group.screens.length)}</span>
+                </h2>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                {group.screens.map((screen) => (
+                  <ScreenCard 
+                    key={screen.id} 
+                    screen={screen}
+                    session={sessions[screen.id]}
+                    ratePlans={ratePlans}
+                    products={products}
+                    customers={customers}
+                    loyalty={loyalty}
+                    discountRules={discountRules}
+                    idleScreens={screens.filter(s => s.id !== screen.id && !sessions[s.id] && !s.maintenance)}
+                    reservations={reservations.filter(r => r.screenId === screen.id)}
+                    operator={stampOf(currentMember)}
+                    canManageTerminals={can(currentMember, 'MANAGE_TERMINALS')}
+                    canDiscount={can(currentMember, 'GIVE_DISCOUNT')}
+                    receipt={receipt}
+                    alarms={alarms}
+                    dispatch={dispatch}
+                  />
+                ))}
 
-          {/* Add Screen Button */}
-          <button 
-            onClick={handleAddScreen}
-            className="flex flex-col items-center justify-center gap-4 min-h-[420px] rounded-sm border border-dashed border-cyan-500/30 bg-black/20 hover:bg-cyan-900/10 hover:border-cyan-400 transition-all duration-300 group relative overflow-hidden"
-          >
-            <div className="absolute inset-0 bg-[url('https://grainy-gradients.vercel.app/noise.svg')] opacity-10"></div>
-            <div className="w-16 h-16 rounded-full border border-cyan-500/30 bg-black group-hover:border-cyan-400 group-hover:shadow-[0_0_15px_rgba(34,211,238,0.5)] flex items-center justify-center transition-all z-10">
-              <Plus className="w-8 h-8 text-cyan-600 group-hover:text-cyan-400" />
+                {/* Add Screen Button */}
+                {i === stationGroups.length - 1 && !isFiltered && can(currentMember, 'MANAGE_TERMINALS') && (
+                  <button 
+                    onClick={handleAddScreen}
+                    className="flex flex-col items-center justify-center gap-4 min-h-[420px] rounded-sm border border-dashed border-cyan-500/30 bg-black/20 hover:bg-cyan-900/10 hover:border-cyan-400 transition-all duration-300 group relative overflow-hidden"
+                  >
+                    <div className="absolute inset-0 bg-[url('https://grainy-gradients.vercel.app/noise.svg')] opacity-10"></div>
+                    <div className="w-16 h-16 rounded-full border border-cyan-500/30 bg-black group-hover:border-cyan-400 group-hover:shadow-[0_0_15px_rgba(34,211,238,0.5)] flex items-center justify-center transition-all z-10">
+                      <Plus className="w-8 h-8 text-cyan-600 group-hover:text-cyan-400" />
+                    </div>
+                    <span className="font-bold text-lg text-cyan-700 group-hover:text-cyan-400 tracking-widest font-tech z-10">{t('app.addTerminal')}</span>
+                  </button>
+                )}
+              </div>
+            </section>
+          ))}
+          {visibleScreens.length === 0 && isFiltered && (
+            <div className="py-12 text-center text-slate-600 font-tech text-xs uppercase tracking-widest border border-dashed border-white/10">
+              {t('app.noMatches')}
             </div>
-            <span className="font-bold text-lg text-cyan-700 group-hover:text-cyan-400 tracking-widest font-tech z-10">ADD TERMINAL</span>
-          </button>
+          )}
         </div>
 
+        <DebtorsPanel customers={customers} onOpen={() => setIsCustomersOpen(true)} />
+
         {/* History Section */}
-        <div className="relative border border-fuchsia-500/30 bg-black/80 backdrop-blur-xl rounded-sm overflow-hidden shadow-[0_0_30px_-10px_rgba(192,38,211,0.2)]">
-          {/* Decorative bar */}
-          <div className="absolute top-0 left-0 w-full h-0.5 bg-gradient-to-r from-cyan-500 via-fuchsia-500 to-cyan-500"></div>
-
-          <div className="p-5 border-b border-white/5 flex items-center justify-between bg-white/[0.02]">
-            <div className="flex items-center gap-3">
-              <History className="w-5 h-5 text-fuchsia-500" />
-              <h3 className="font-bold text-white tracking-wider uppercase font-tech">Session Logs</h3>
-            </div>
-            <span className="text-xs text-cyan-400 bg-cyan-950/30 border border-cyan-500/30 px-3 py-1 font-mono">
-              ENTRIES: {sessionHistory.length}
-            </span>
-          </div>
-          
-          <div className="overflow-x-auto">
-            <table className="w-full text-right">
-              <thead className="bg-white/[0.03] text-cyan-500/70 text-xs uppercase tracking-wider font-tech">
-                <tr>
-                  <th className="px-6 py-4 font-medium">TERMINAL</th>
-                  <th className="px-6 py-4 font-medium">START TIME</th>
-                  <th className="px-6 py-4 font-medium">DURATION</th>
-                  <th className="px-6 py-4 font-medium">RATE</th>
-                  <th className="px-6 py-4 font-medium text-left">TOTAL</th>
-                  <th className="px-6 py-4 font-medium text-center">ACTION</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-white/10 font-mono text-sm">
-                {sessionHistory.length === 0 ? (
-                  <tr>
-                    <td colSpan={6} className="px-6 py-12 text-center text-slate-500 font-tech">
-                      NO DATA AVAILABLE
-                    </td>
-                  </tr>
-                ) : (
-                  sessionHistory.map((session) => (
-                    <tr key={session.id} className="hover:bg-cyan-500/5 transition-colors group border-l-2 border-transparent hover:border-cyan-400">
-                      <td className="px-6 py-4">
-                        <span className="text-white font-bold">
-                          {session.screenName}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 text-slate-400">
-                        {new Date(session.startTime).toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit' })}
-                      </td>
-                      <td className="px-6 py-4 text-slate-400">
-                        {formatDuration(session.durationSeconds)}
-                      </td>
-                      <td className="px-6 py-4 text-slate-500">
-                        {session.hourlyRate}
-                      </td>
-                      <td className="px-6 py-4 text-left font-bold text-fuchsia-400 drop-shadow-[0_0_8px_rgba(192,38,211,0.4)]">
-                        {session.totalCost.toFixed(2)}
-                      </td>
-                      <td className="px-6 py-4 text-center">
-                        <button
-                          onClick={() => requestDeleteSession(session.id)}
-                          className="text-slate-600 hover:text-red-500 transition-colors opacity-50 group-hover:opacity-100"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </td>
-                    </tr>
-                  ))
-                )}
-              </tbody>
-            </table>
-          </div>
-        </div>
+        <SessionLogs
+          currentRecords={sessionHistory}
+          archivedRecords={archivedRecords}
+          screens={screens}
+          onPrint={(record) => printReceipt(buildReceipt(record, receipt), receipt)}
+          onDelete={can(currentMember, 'EDIT_HISTORY') ? requestDeleteSession : undefined}
+          onMerge={can(currentMember, 'EDIT_HISTORY') ? requestMergeRecords : undefined}
+          onWipe={can(currentMember, 'RESET_HISTORY') ? requestResetRevenue : undefined}
+        />
 
       </main>
 
+      {isRatePlansOpen && (
+        <RatePlanManager
+          ratePlans={ratePlans}
+          onSave={(plans) => dispatch({ type: 'SET_RATE_PLANS', ratePlans: plans })}
+          onClose={() => setIsRatePlansOpen(false)}
+        />
+      )}
+
+      {isDiscountsOpen && (
+        <DiscountManager
+          discountRules={discountRules}
+          onSave={(rules) => dispatch({ type: 'SET_DISCOUNT_RULES', discountRules: rules })}
+          onClose={() => setIsDiscountsOpen(false)}
+        />
+      )}
+
+      {isStationsOpen && (
+        <StationManager
+          screens={screens}
+          sessions={sessions}
+          ratePlans={ratePlans}
+          reservations={reservations}
+          onSave={(list) => dispatch({ type: 'SET_SCREENS', screens: list })}
+          onClose={() => setIsStationsOpen(false)}
+        />
+      )}
+
+      {isAlarmsOpen && (
+        <AlarmSettingsPanel
+          alarms={alarms}
+          onSave={(settings) => dispatch({ type: 'SET_ALARM_SETTINGS', alarms: settings })}
+          onClose={() => setIsAlarmsOpen(false)}
+        />
+      )}
+
+      {isProductsOpen && (
+        <ProductManager
+          products={products}
+          onSave={(items) => dispatch({ type: 'SET_PRODUCTS', products: items })}
+          onClose={() => setIsProductsOpen(false)}
+        />
+      )}
+
+      {isCloseShiftOpen && (
+        <CloseShiftDialog
+          shift={currentShift}
+          report={buildZReport(sessionHistory, entriesBetween(ledger, currentShift.openedAt))}
+          operatorName={currentMember.name}
+          onConfirm={handleCloseShift}
+          onClose={() => setIsCloseShiftOpen(false)}
+        />
+      )}
+
+      {isArchiveOpen && (
+        <ShiftArchive
+          shifts={closedShifts}
+          onClose={() => setIsArchiveOpen(false)}
+        />
+      )}
+
+      {isDataOpen && (
+        <DataTools
+          state={state}
+          allRecords={allRecords}
+          canRestore={can(currentMember, 'RESTORE_BACKUP')}
+          syncInfo={syncInfo}
+          dispatch={dispatch}
+          onClose={() => setIsDataOpen(false)}
+        />
+      )}
+
+      {isCustomersOpen && (
+        <CustomerManager
+          customers={customers}
+          loyalty={loyalty}
+          ledger={ledger}
+          records={allRecords}
+          dispatch={dispatch}
+          onClose={() => setIsCustomersOpen(false)}
+        />
+      )}
+
+      {isReservationsOpen && (
+        <ReservationCalendar
+          reservations={reservations}
+          screens={screens}
+          sessions={sessions}
+          customers={customers}
+          dispatch={dispatch}
+          onClose={() => setIsReservationsOpen(false)}
+        />
+      )}
+
+      {isStaffOpen && (
+        <StaffManager
+          staff={staff}
+          currentMember={currentMember}
+          dispatch={dispatch}
+          onClose={() => setIsStaffOpen(false)}
+        />
+      )}
+
+      {isAuditOpen && (
+        <AuditLog
+          audit={audit}
+          history={sessionHistory}
+          closedShifts={closedShifts}
+          canRestore={can(currentMember, 'EDIT_HISTORY')}
+          dispatch={dispatch}
+          onClose={() => setIsAuditOpen(false)}
+        />
+      )}
+
+      {isPrintOpen && (
+        <PrintTools
+          receipt={receipt}
+          allRecords={allRecords}
+          ledger={ledger}
+          canEditSettings={can(currentMember, 'MANAGE_TERMINALS')}
+          canPrintSummary={can(currentMember, 'CLOSE_SHIFT')}
+          dispatch={dispatch}
+          onClose={() => setIsPrintOpen(false)}
+        />
+      )}
+
+      {isAnalyticsOpen && (
+        <AnalyticsDashboard
+          records={allRecords}
+          onClose={() => setIsAnalyticsOpen(false)}
+        />
+      )}
+
       {/* Custom Confirmation Modal */}
       {confirmState.isOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
@@ -251,11 +654,11 @@ const App: React.FC = () => {
                <div className="relative z-10">
                 <div className="flex items-center gap-3 mb-4 text-red-500">
                   <AlertTriangle className="w-8 h-8 animate-pulse" />
-                  <h3 className="text-xl font-bold font-tech uppercase tracking-widest">System Alert</h3>
+                  <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('app.systemAlert')}</h3>
                 </div>
                 
-                <p className="text-slate-300 mb-8 leading-relaxed font-mono text-sm border-l-2 border-red-900/50 pl-4">
-                  {confirmState.message}
+                <p className="text-slate-300 mb-8 leading-relaxed font-mono text-sm border-s-2 border-red-900/50 ps-4">
+                  {t(confirmState.message)}
                 </p>
                 
                 <div className="flex gap-3 font-tech uppercase tracking-wider">
@@ -263,13 +666,13 @@ const App: React.FC = () => {
                     onClick={executeConfirmAction}
                     className="flex-1 bg-red-600/20 hover:bg-red-600 text-red-500 hover:text-white border border-red-600 py-3 font-bold transition-all duration-300"
                   >
-                    Confirm
+                    {t('common.confirm')}
                   </button>
                   <button 
                     onClick={closeConfirm}
                     className="flex-1 bg-transparent hover:bg-white/10 text-slate-400 py-3 font-bold transition-colors border border-white/10"
                   >
-                    Cancel
+                    {t('common.cancel')}
                   </button>
                 </div>
               </div>
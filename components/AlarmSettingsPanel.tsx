@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Plus, X, Save, AlertTriangle } from 'lucide-react';
+import { AlarmSettings } from '../types';
+import { NotifyPermission, REPEAT_OPTIONS, getNotifyPermission, normalizeAlarmSettings, requestNotifyPermission } from '../utils/alarms';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface AlarmSettingsPanelProps {
+  alarms: AlarmSettings;
+  onSave: (alarms: AlarmSettings) => void;
+  onClose: () => void;
+}
+
+// Time alerts for fixed sessions, shared by every station
+const AlarmSettingsPanel: React.FC<AlarmSettingsPanelProps> = ({ alarms, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AlarmSettings>(alarms);
+  const [newWarning, setNewWarning] = useState('');
+  const [permission, setPermission] = useState<NotifyPermission>(getNotifyPermission);
+  const { t } = useI18n();
+
+  const handleAddWarning = () => {
+    const minutes = parseInt(newWarning);
+    if (!minutes || minutes <= 0) return;
+    setDraft(prev => normalizeAlarmSettings({ ...prev, warningMinutes: [...prev.warningMinutes, minutes] }));
+    setNewWarning('');
+  };
+
+  const handleSave = () => {
+    onSave(normalizeAlarmSettings(draft));
+    onClose();
+  };
+
+  const inputClass = 'bg-black border border-white/10 text-white text-xs px-2 py-1 focus:outline-none focus:border-cyan-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-yellow-500/50 p-1 max-w-lg w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(234,179,8,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-yellow-400">
+              <Bell className="w-6 h-6" />
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('alarmSettings.title')}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto flex flex-col gap-5">
+            <section className="flex flex-col gap-2">
+              <h4 className="text-[10px] text-yellow-500 font-tech uppercase tracking-widest">{t('alarmSettings.warnAt')}</h4>
+              <div className="flex items-center gap-2 flex-wrap">
+                {draft.warningMinutes.map(minutes => (
+                  <span key={minutes} className="flex items-center gap-1 border border-yellow-500/40 text-yellow-400 text-[10px] font-mono px-2 py-0.5">
+                    {t('alarmSettings.minutesLeft', { m: minutes })}
+                    <button
+                      onClick={() => setDraft(prev => ({ ...prev, warningMinutes: prev.warningMinutes.filter(m => m !== minutes) }))}
+                      className="text-slate-500 hover:text-red-500"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <input
+                  type="number"
+                  min="1"
+                  value={newWarning}
+                  onChange={(e) => setNewWarning(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleAddWarning(); }}
+                  placeholder={t('alarmSettings.min')}
+                  className={`${inputClass} w-16 text-end font-mono`}
+                />
+                <button onClick={handleAddWarning} className="text-slate-500 hover:text-yellow-400" title={t('alarmSettings.addWarning')}>
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </section>
+
+            <section className="flex flex-col gap-2">
+              <h4 className="text-[10px] text-yellow-500 font-tech uppercase tracking-widest">{t('alarmSettings.repeat')}</h4>
+              <div className="flex items-center gap-1">
+                {REPEAT_OPTIONS.map(seconds => (
+                  <button
+                    key={seconds}
+                    onClick={() => setDraft(prev => ({ ...prev, repeatSeconds: seconds }))}
+                    className={`px-2 py-0.5 text-[10px] font-mono border ${draft.repeatSeconds === seconds ? 'border-yellow-500/50 text-yellow-400 bg-yellow-950/30' : 'border-white/10 text-slate-600'}`}
+                  >
+                    {t('alarmSettings.seconds', { s: seconds })}
+                  </button>
+                ))}
+              </div>
+            </section>
+
+            {/* What can and can't be promised while the tab is in the background */}
+            <section className="border border-yellow-500/20 bg-yellow-950/10 p-3 flex flex-col gap-2 text-[10px] font-mono leading-relaxed">
+              <div className="flex items-center gap-2 text-yellow-500 font-tech uppercase">
+                <AlertTriangle className="w-4 h-4 shrink-0" /> {t('alarmSettings.mayBeDelayed')}
+              </div>
+              <p className="text-slate-400">{t('alarmSettings.delivery')}</p>
+              <div className="flex items-center gap-2 text-slate-500">
+                {permission === 'granted' ? <Bell className="w-3 h-3 text-green-500" /> : <BellOff className="w-3 h-3" />}
+                {t(`alarmSettings.notify.${permission}` as MessageKey)}
+                {permission === 'default' && (
+                  <button
+                    onClick={() => requestNotifyPermission().then(setPermission)}
+                    className="ms-auto border border-yellow-500/50 text-yellow-400 hover:bg-yellow-500/10 px-2 py-0.5 font-tech uppercase tracking-wider"
+                  >
+                    {t('alarmSettings.enableNotify')}
+                  </button>
+                )}
+              </div>
+            </section>
+          </div>
+
+          <div className="p-5 border-t border-white/5 flex gap-3 font-tech uppercase tracking-wider">
+            <button
+              onClick={handleSave}
+              className="flex-1 flex items-center justify-center gap-2 bg-green-600/20 hover:bg-green-600 text-green-400 hover:text-white border border-green-600 py-3 font-bold transition-all duration-300"
+            >
+              <Save className="w-4 h-4" /> {t('common.save')}
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-transparent hover:bg-white/10 text-slate-400 py-3 font-bold transition-colors border border-white/10"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlarmSettingsPanel;
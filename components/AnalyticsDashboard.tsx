@@ -0,0 +1,285 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, X, TrendingUp, TrendingDown } from 'lucide-react';
+import { SessionRecord, StationTotal } from '../types';
+import {
+  DiscountTotal,
+  Granularity,
+  PeriodComparison,
+  RevenueBucket,
+  comparePeriods,
+  discountBreakdown,
+  filterByPeriod,
+  occupancyHeatmap,
+  revenueByPeriod,
+  stationBreakdown
+} from '../utils/analytics';
+import { Formatters, MessageKey } from '../utils/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface AnalyticsDashboardProps {
+  records: SessionRecord[]; // Current shift plus archived shifts
+  onClose: () => void;
+}
+
+const DAY = 24 * 3600 * 1000;
+const PERIODS = [7, 30, 90, 365];
+// Rows start on Saturday to match the working week
+const WEEKDAY_ORDER = [6, 0, 1, 2, 3, 4, 5];
+
+const bucketLabel = (start: number, granularity: Granularity, { month, shortDate }: Formatters) =>
+  granularity === 'month' ? month(start) : shortDate(start);
+
+interface BarChartProps {
+  values: number[];
+  labels: string[];
+  color: string;
+  height?: number;
+}
+
+// Plain SVG so the dashboard works offline
+const BarChart: React.FC<BarChartProps> = ({ values, labels, color, height = 160 }) => {
+  const { amount } = useI18n();
+  const max = Math.max(...values, 1);
+  const barWidth = 100 / Math.max(values.length, 1);
+  // Avoid overlapping labels on long ranges
+  const labelEvery = Math.ceil(values.length / 12);
+
+  return (
+    <svg viewBox={`0 0 100 ${height + 14}`} preserveAspectRatio="none" className="w-full" style={{ height: height + 14 }}>
+      <line x1="0" y1={height} x2="100" y2={height} stroke="rgba(255,255,255,0.1)" strokeWidth="0.3" />
+      {values.map((value, i) => {
+        const barHeight = (value / max) * (height - 4);
+        return (
+          <rect
+            key={i}
+            x={i * barWidth + barWidth * 0.15}
+            y={height - barHeight}
+            width={barWidth * 0.7}
+            height={barHeight}
+            fill={color}
+            opacity={0.8}
+          >
+            <title>{`${labels[i]}: ${amount(value)}`}</title>
+          </rect>
+        );
+      })}
+      {labels.map((label, i) => i % labelEvery === 0 && (
+        <text
+          key={i}
+          x={i * barWidth + barWidth / 2}
+          y={height + 10}
+          fontSize="3"
+          textAnchor="middle"
+          fill="#64748b"
+          fontFamily="monospace"
+        >
+          {label}
+        </text>
+      ))}
+    </svg>
+  );
+};
+
+interface KpiProps {
+  label: string;
+  value: string;
+  previous: string;
+  change: number | null;
+}
+
+const Kpi: React.FC<KpiProps> = ({ label, value, previous, change }) => {
+  const { t, number } = useI18n();
+  const up = change !== null && change >= 0;
+  return (
+    <div className="border border-white/10 bg-black/40 p-3 flex flex-col gap-1">
+      <span className="text-[10px] text-slate-500 font-tech uppercase tracking-widest">{label}</span>
+      <span className="text-xl text-white font-mono font-bold">{value}</span>
+      <span className="flex items-center gap-1 text-[10px] font-mono text-slate-500">
+        {change === null ? (
+          <span>—</span>
+        ) : (
+          <span className={`flex items-center gap-1 ${up ? 'text-green-400' : 'text-red-400'}`}>
+            {up ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+            {number(Math.round(change * 100))}%
+          </span>
+        )}
+        <span>{t('analytics.vs', { previous })}</span>
+      </span>
+    </div>
+  );
+};
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ records, onClose }) => {
+  const formatters = useI18n();
+  const { t, number, amount, dayName, clock } = formatters;
+  const [periodDays, setPeriodDays] = useState(30);
+  const [granularity, setGranularity] = useState<Granularity>('day');
+
+  // Periods end at the next midnight so today is included
+  const to = useMemo(() => {
+    const d = new Date();
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime();
+  }, []);
+  const from = to - periodDays * DAY;
+
+  const comparison: PeriodComparison = useMemo(
+    () => comparePeriods(records, { from, to }, { from: from - periodDays * DAY, to: from }),
+    [records, from, to, periodDays]
+  );
+  const periodRecords: SessionRecord[] = useMemo(() => filterByPeriod(records, from, to), [records, from, to]);
+  const buckets: RevenueBucket[] = useMemo(
+    () => revenueByPeriod(records, granularity, from, to),
+    [records, granularity, from, to]
+  );
+  const stations: StationTotal[] = useMemo(() => stationBreakdown(periodRecords), [periodRecords]);
+  const discounts: DiscountTotal[] = useMemo(() => discountBreakdown(periodRecords), [periodRecords]);
+  const heatmap: number[][] = useMemo(() => occupancyHeatmap(periodRecords), [periodRecords]);
+  const heatMax = Math.max(...heatmap.flat(), 0.01);
+  const stationMax = Math.max(...stations.map(s => s.revenue), 1);
+
+  const { current, previous, change } = comparison;
+
+  // One decimal, as the owner reads hours
+  const hours = (h: number) => number(Math.round(h * 10) / 10);
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1 text-xs font-tech uppercase tracking-wider border transition-colors ${
+      active ? 'border-cyan-500 bg-cyan-500/20 text-cyan-300' : 'border-white/10 text-slate-500 hover:text-cyan-400'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-cyan-500/50 p-1 max-w-5xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(34,211,238,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-cyan-400">
+              <BarChart3 className="w-6 h-6" />
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('analytics.title')}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto flex flex-col gap-6">
+            {/* Period */}
+            <div className="flex flex-wrap items-center gap-2">
+              {PERIODS.map(days => (
+                <button key={days} onClick={() => setPeriodDays(days)} className={toggleClass(periodDays === days)}>
+                  {t('analytics.periodDays', { n: days })}
+                </button>
+              ))}
+              <span className="text-[10px] text-slate-600 font-mono mx-2">
+                {t('analytics.vsPrevious', { n: periodDays })}
+              </span>
+            </div>
+
+            {/* KPIs */}
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+              <Kpi label={t('analytics.revenue')} value={amount(current.revenue)} previous={amount(previous.revenue)} change={change.revenue} />
+              <Kpi label={t('analytics.sessions')} value={number(current.sessions)} previous={number(previous.sessions)} change={change.sessions} />
+              <Kpi label={t('analytics.hours')} value={hours(current.hours)} previous={hours(previous.hours)} change={change.hours} />
+              <Kpi
+                label={t('analytics.avgSession')}
+                value={t('format.minutes', { m: Math.round(current.avgSessionMinutes) })}
+                previous={t('format.minutes', { m: Math.round(previous.avgSessionMinutes) })}
+                change={change.avgSessionMinutes}
+              />
+              <Kpi label={t('analytics.avgTicket')} value={amount(current.avgTicket)} previous={amount(previous.avgTicket)} change={change.avgTicket} />
+              <Kpi label={t('analytics.discounts')} value={amount(current.discounts)} previous={amount(previous.discounts)} change={change.discounts} />
+            </div>
+
+            {/* Revenue over time */}
+            <section className="flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest">{t('analytics.revenue')}</h4>
+                <div className="flex gap-1">
+                  {(['day', 'week', 'month'] as Granularity[]).map(g => (
+                    <button key={g} onClick={() => setGranularity(g)} className={toggleClass(granularity === g)}>
+                      {t(`analytics.granularity.${g}` as MessageKey)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <BarChart
+                values={buckets.map(b => b.revenue)}
+                labels={buckets.map(b => bucketLabel(b.start, granularity, formatters))}
+                color="#d946ef"
+              />
+            </section>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              {/* Stations */}
+              <section className="flex flex-col gap-3">
+                <h4 className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest">{t('analytics.stations')}</h4>
+                {stations.length === 0 ? (
+                  <div className="py-6 text-center text-slate-600 font-tech text-xs">{t('analytics.noData')}</div>
+                ) : (
+                  <div className="flex flex-col gap-2 font-mono text-xs">
+                    {stations.map(station => (
+                      <div key={String(station.screenId)} className="flex flex-col gap-1">
+                        <div className="flex justify-between text-slate-300">
+                          <span>{station.screenName}</span>
+                          <span>
+                            <span className="text-slate-500">{t('analytics.stationHours', { n: hours(station.seconds / 3600) })}</span>
+                            <span className="text-fuchsia-400">{amount(station.revenue)}</span>
+                          </span>
+                        </div>
+                        <div className="h-1.5 bg-white/5">
+                          <div className="h-full bg-cyan-500/70" style={{ width: `${(station.revenue / stationMax) * 100}%` }} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              {/* Occupancy heatmap */}
+              <section className="flex flex-col gap-3">
+                <h4 className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest">{t('analytics.occupancy')}</h4>
+                <div className="flex flex-col gap-[2px] font-mono text-[8px] text-slate-600">
+                  {WEEKDAY_ORDER.map(day => (
+                    <div key={day} className="flex items-center gap-[2px]">
+                      <span className="w-7 shrink-0">{dayName(day)}</span>
+                      {heatmap[day].map((cellHours, hour) => (
+                        <div
+                          key={hour}
+                          className="flex-1 h-4 bg-cyan-400"
+                          style={{ opacity: 0.05 + (cellHours / heatMax) * 0.95 }}
+                          title={`${dayName(day)} ${clock(new Date(1970, 0, 1, hour).getTime())} — ${t('analytics.cellHours', { n: hours(cellHours) })}`}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                  <div className="flex gap-[2px] ps-[30px]">
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <span key={hour} className="flex-1 text-center">{hour % 3 === 0 ? number(hour) : ''}</span>
+                    ))}
+                  </div>
+                </div>
+              </section>
+            </div>
+
+            {/* Discounts */}
+            {discounts.length > 0 && (
+              <section className="flex flex-col gap-3">
+                <h4 className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest">{t('analytics.discounts')}</h4>
+                <div className="flex flex-col gap-1 font-mono text-xs">
+                  {discounts.map(d => (
+                    <div key={d.name} className="flex justify-between text-slate-300">
+                      <span>{d.name}</span>
+                      <span>
+                        <span className="text-slate-500">{t('analytics.uses', { n: d.uses })}</span>
+                        <span className="text-green-400">-{amount(d.amount)}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
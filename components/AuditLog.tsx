@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { ScrollText, X, ShieldCheck, ShieldAlert, RotateCcw, ChevronDown, ChevronUp, ChevronLeft, ChevronRight } from 'lucide-react';
+import { AuditEntry, AuditEvent, ClosedShift, SessionRecord } from '../types';
+import { LoungeDispatch } from '../store/reducer';
+import { AUDIT_EVENTS, AuditProblem, formatSummary, getRestorableRecords, verifyAudit } from '../utils/audit';
+import { getRecordTotal } from '../utils/records';
+import { paginate } from '../utils/history';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface AuditLogProps {
+  audit: AuditEntry[];
+  history: SessionRecord[];
+  closedShifts: ClosedShift[];
+  canRestore: boolean;
+  dispatch: LoungeDispatch;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const EVENT_STYLES: Partial<Record<AuditEvent, string>> = {
+  RECORD_DELETE: 'text-red-400 border-red-500/40',
+  HISTORY_RESET: 'text-red-400 border-red-500/40',
+  BACKUP_IMPORT: 'text-yellow-500 border-yellow-500/40',
+  RATES_CHANGE: 'text-yellow-500 border-yellow-500/40',
+  RECORD_RESTORE: 'text-green-400 border-green-500/40',
+  SHIFT_CLOSE: 'text-fuchsia-400 border-fuchsia-500/40'
+};
+
+const PROBLEM_LABELS: Record<AuditProblem, MessageKey> = {
+  HASH: 'audit.problem.HASH',
+  LINK: 'audit.problem.LINK',
+  GAP: 'audit.problem.GAP'
+};
+
+const eventLabel = (event: AuditEvent): MessageKey => `audit.event.${event}` as MessageKey;
+
+const AuditLog: React.FC<AuditLogProps> = ({ audit, history, closedShifts, canRestore, dispatch, onClose }) => {
+  const { t, dir, amount, dateTime, duration } = useI18n();
+  const [event, setEvent] = useState<AuditEvent | ''>('');
+  const [staffId, setStaffId] = useState('');
+  const [query, setQuery] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+
+  const problems: Record<string, AuditProblem> = useMemo(() => verifyAudit(audit), [audit]);
+  const brokenCount = Object.keys(problems).length;
+
+  const actors = Array.from(new Map(audit.filter(e => e.by).map(e => [e.by!.id, e.by!.name])).entries());
+
+  const q = query.trim().toLowerCase();
+  const fromTs = from ? new Date(`${from}T00:00`).getTime() : -Infinity;
+  const toTs = to ? new Date(`${to}T00:00`).getTime() + 24 * 3600 * 1000 : Infinity;
+  const filtered: AuditEntry[] = audit.filter(e =>
+    (!event || e.event === event) &&
+    (!staffId || e.by?.id === staffId) &&
+    (!q || formatSummary(e.summary, t).toLowerCase().includes(q)) &&
+    e.at >= fromTs && e.at < toTs
+  );
+  const paged = paginate(filtered, page, PAGE_SIZE);
+  const visible: AuditEntry[] = paged.items;
+
+  const PrevIcon = dir === 'rtl' ? ChevronRight : ChevronLeft;
+  const NextIcon = dir === 'rtl' ? ChevronLeft : ChevronRight;
+  const inputClass = 'bg-black/40 border border-white/10 px-2 py-1.5 text-xs font-mono text-cyan-300 focus:outline-none focus:border-cyan-500/50';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-cyan-500/50 p-1 max-w-5xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(6,182,212,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-cyan-400">
+              <ScrollText className="w-6 h-6" />
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('audit.title')}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          {/* Chain verification */}
+          <div className={`px-5 py-3 border-b border-white/5 flex items-center gap-2 text-xs font-mono ${brokenCount ? 'bg-red-950/30 text-red-400' : 'text-green-400'}`}>
+            {brokenCount ? <ShieldAlert className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
+            {brokenCount
+              ? t('audit.chainBroken', { broken: brokenCount, total: audit.length })
+              : t('audit.chainVerified', { total: audit.length })}
+          </div>
+
+          <div className="p-5 border-b border-white/5 grid grid-cols-2 md:grid-cols-5 gap-2">
+            <select value={event} onChange={(e) => { setEvent(e.target.value as AuditEvent | ''); setPage(0); }} className={inputClass}>
+              <option value="" className="bg-black">{t('audit.allEvents')}</option>
+              {AUDIT_EVENTS.map(ev => <option key={ev} value={ev} className="bg-black">{t(eventLabel(ev))}</option>)}
+            </select>
+            <select value={staffId} onChange={(e) => { setStaffId(e.target.value); setPage(0); }} className={inputClass}>
+              <option value="" className="bg-black">{t('audit.allStaff')}</option>
+              {actors.map(([id, name]) => <option key={id} value={id} className="bg-black">{name}</option>)}
+            </select>
+            <input type="date" value={from} onChange={(e) => { setFrom(e.target.value); setPage(0); }} className={inputClass} />
+            <input type="date" value={to} onChange={(e) => { setTo(e.target.value); setPage(0); }} className={inputClass} />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => { setQuery(e.target.value); setPage(0); }}
+              placeholder={t('audit.search')}
+              className={`${inputClass} col-span-2 md:col-span-1`}
+            />
+          </div>
+
+          <div className="overflow-y-auto flex-1">
+            <ul className="divide-y divide-white/5 font-mono text-xs">
+              {visible.length === 0 && (
+                <li className="px-5 py-8 text-center text-slate-600">{t('audit.empty')}</li>
+              )}
+              {visible.map(entry => {
+                const problem = problems[entry.id];
+                const restorable = canRestore ? getRestorableRecords(entry, { history, closedShifts }) : [];
+                const isExpanded = expandedId === entry.id;
+                const summary = formatSummary(entry.summary, t);
+                return (
+                  <li key={entry.id} className={problem ? 'bg-red-950/20' : ''}>
+                    <div className="px-5 py-2 flex items-center gap-3">
+                      <span className="text-slate-600 w-10 text-end">#{entry.seq}</span>
+                      <span className="text-slate-500 w-36 shrink-0">{dateTime(entry.at)}</span>
+                      <span className={`px-1 border text-[10px] shrink-0 ${EVENT_STYLES[entry.event] ?? 'text-cyan-400 border-cyan-500/30'}`}>
+                        {t(eventLabel(entry.event))}
+                      </span>
+                      <span className="text-slate-300 flex-1 truncate" title={summary}>{summary}</span>
+                      {entry.amount !== undefined && <span className="text-fuchsia-400">{amount(entry.amount)}</span>}
+                      <span className="text-slate-500 w-24 truncate text-end">{entry.by?.name ?? '—'}</span>
+                      {entry.records && entry.records.length > 0 ? (
+                        <button onClick={() => setExpandedId(isExpanded ? null : entry.id)} className="text-slate-500 hover:text-white">
+                          {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                        </button>
+                      ) : <span className="w-3" />}
+                    </div>
+                    {problem && (
+                      <div className="px-5 pb-2 ps-[4.5rem] text-[10px] text-red-400 flex items-center gap-1">
+                        <ShieldAlert className="w-3 h-3" /> {t(PROBLEM_LABELS[problem])}
+                      </div>
+                    )}
+                    {isExpanded && entry.records && (
+                      <div className="px-5 pb-3 ps-[4.5rem] flex flex-col gap-1">
+                        {entry.records.map(r => (
+                          <div key={r.id} className="flex items-center gap-3 text-[10px] text-slate-400">
+                            <span className="w-32">{dateTime(r.startTime)}</span>
+                            <span className="flex-1">{r.screenName}{r.customerName && ` · ${r.customerName}`}</span>
+                            <span>{duration(r.durationSeconds)}</span>
+                            <span className="text-fuchsia-400">{amount(getRecordTotal(r))}</span>
+                          </div>
+                        ))}
+                        {restorable.length > 0 && (
+                          <button
+                            onClick={() => dispatch({ type: 'RESTORE_RECORDS', auditEntryId: entry.id })}
+                            className="self-start mt-1 flex items-center gap-1 px-3 py-1 border border-green-600 text-green-400 hover:bg-green-600 hover:text-white text-[10px] font-tech uppercase tracking-wider transition-colors"
+                            title={t('audit.restoreHint')}
+                          >
+                            <RotateCcw className="w-3 h-3" /> {t('audit.restore', { n: restorable.length })}
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          {paged.pageCount > 1 && (
+            <div className="p-3 border-t border-white/5 flex items-center justify-center gap-4 font-mono text-xs text-slate-400">
+              <button
+                onClick={() => setPage(paged.page - 1)}
+                disabled={paged.page === 0}
+                className="p-1 hover:text-cyan-400 disabled:opacity-30"
+              >
+                <PrevIcon className="w-4 h-4" />
+              </button>
+              <span>{t('audit.page', { page: paged.page + 1, count: paged.pageCount })}</span>
+              <button
+                onClick={() => setPage(paged.page + 1)}
+                disabled={paged.page >= paged.pageCount - 1}
+                className="p-1 hover:text-cyan-400 disabled:opacity-30"
+              >
+                <NextIcon className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,373 @@
+import React, { useState } from 'react';
+import { Receipt, X, Gift, Wallet, Printer, Percent, Users, Plus, Minus } from 'lucide-react';
+import { Customer, DiscountRule, LoyaltySettings, PaymentMethod, PaymentSplit, ReceiptSettings, SessionRecord } from '../types';
+import { applyLoyalty, maxRedeemableMinutes } from '../utils/loyalty';
+import { getRecordTotal } from '../utils/records';
+import { CASH_ONLY, applyPayment, availableCredit, settlePayment } from '../utils/accounts';
+import { buildReceipt, buildShareReceipt, printReceipt } from '../utils/receipt';
+import { ManualDiscount, RuleProblem, applyDiscounts, checkRule, findPromo } from '../utils/discounts';
+import { ShareDraft, resolveShares } from '../utils/shares';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface CheckoutDialogProps {
+  record: SessionRecord; // Preview of the record the stop will produce
+  customer?: Customer;
+  loyalty: LoyaltySettings;
+  discountRules: DiscountRule[];
+  canDiscount: boolean; // Signed-in staff may give a one-off discount
+  receipt: ReceiptSettings;
+  onConfirm: (redeemMinutes: number, payment: PaymentSplit, promoCode?: string, manualDiscount?: ManualDiscount, shares?: ShareDraft[]) => void;
+  onClose: () => void;
+}
+
+const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'WALLET', 'TAB', 'SPLIT'];
+
+const PROMO_PROBLEMS: Record<RuleProblem, MessageKey> = {
+  UNKNOWN: 'promo.UNKNOWN',
+  INACTIVE: 'promo.INACTIVE',
+  NOT_YET: 'promo.NOT_YET',
+  EXPIRED: 'promo.EXPIRED',
+  USED_UP: 'promo.USED_UP',
+  CONDITIONS: 'promo.CONDITIONS'
+};
+
+const CheckoutDialog: React.FC<CheckoutDialogProps> = ({ record, customer, loyalty, discountRules, canDiscount, receipt, onConfirm, onClose }) => {
+  const { t, amount, duration, arrow } = useI18n();
+  const [redeemMinutes, setRedeemMinutes] = useState(0);
+  const [method, setMethod] = useState<PaymentMethod>('CASH');
+  const [splitWallet, setSplitWallet] = useState('');
+  const [splitTab, setSplitTab] = useState('');
+
+  const [promoCode, setPromoCode] = useState('');
+  const [manualKind, setManualKind] = useState<ManualDiscount['kind']>('PERCENT');
+  const [manualValue, setManualValue] = useState('');
+
+  // Split bill: one row per player, an empty amount takes an even part of the rest
+  const [isSplit, setIsSplit] = useState(false);
+  const [shareRows, setShareRows] = useState<{ name: string; amount: string }[]>([]);
+
+  // Same order as the stop: discounts first, then free minutes on what's left
+  const manual: ManualDiscount | undefined = canDiscount && parseFloat(manualValue) > 0
+    ? { kind: manualKind, value: parseFloat(manualValue) }
+    : undefined;
+  const discounted = applyDiscounts(record, discountRules, { code: promoCode, manual, at: record.endTime });
+  const promoProblem = promoCode.trim() ? checkRule(findPromo(discountRules, promoCode), record, record.endTime) : null;
+
+  const maxMinutes = customer ? maxRedeemableMinutes(discounted, customer.points, loyalty) : 0;
+  const preview = customer ? applyLoyalty(discounted, customer, loyalty, redeemMinutes) : null;
+  const settled = preview?.record ?? discounted;
+  const total = getRecordTotal(settled);
+
+  const requested: PaymentSplit =
+    method === 'WALLET' ? { ...CASH_ONLY, wallet: total }
+    : method === 'TAB' ? { ...CASH_ONLY, tab: total }
+    : method === 'SPLIT' ? { cash: 0, wallet: parseFloat(splitWallet) || 0, tab: parseFloat(splitTab) || 0 }
+    : CASH_ONLY;
+  const payment = settlePayment(total, requested, customer);
+
+  const shareDrafts: ShareDraft[] = shareRows.map(r => ({
+    name: r.name,
+    amount: r.amount.trim() ? Math.max(0, parseFloat(r.amount) || 0) : undefined
+  }));
+  const shares = isSplit ? resolveShares(record.id, total, shareDrafts) : null;
+  const isSplitInvalid = isSplit && !shares;
+
+  const handleToggleSplit = () => {
+    if (!isSplit && shareRows.length === 0) {
+      const players = Math.max(2, record.controllers ?? 2);
+      setShareRows(Array.from({ length: players }, (_, i) => ({ name: i === 0 ? record.customerName ?? '' : '', amount: '' })));
+    }
+    setIsSplit(!isSplit);
+  };
+
+  const updateShareRow = (index: number, patch: Partial<{ name: string; amount: string }>) => {
+    setShareRows(prev => prev.map((r, i) => i === index ? { ...r, ...patch } : r));
+  };
+
+  const isMethodAvailable = (m: PaymentMethod) =>
+    m === 'CASH' || (!!customer && (
+      m === 'WALLET' ? customer.wallet > 0
+      : m === 'TAB' ? availableCredit(customer) > 0
+      : customer.wallet > 0 || availableCredit(customer) > 0
+    ));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-red-500/50 p-1 max-w-sm w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(220,38,38,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-red-500">
+              <Receipt className="w-6 h-6" />
+              <div>
+                <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('checkout.title')}</h3>
+                <p className="text-[10px] text-slate-500 font-mono">{record.screenName}{record.customerName && ` · ${record.customerName}`}</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 flex flex-col gap-4 font-mono text-sm overflow-y-auto">
+            <div className="flex flex-col gap-1">
+              <div className="flex justify-between text-slate-400">
+                <span>{t('checkout.time')}</span>
+                <span>
+                  {duration(record.durationSeconds)}
+                  {record.billedSeconds !== undefined && record.billedSeconds !== record.durationSeconds && (
+                    <span className="text-slate-600">{arrow}{t('checkout.billed', { duration: duration(record.billedSeconds) })}</span>
+                  )}
+                </span>
+              </div>
+              <div className="flex justify-between text-slate-400">
+                <span>{record.packageName ?? t('checkout.play')}</span>
+                <span>{amount(record.totalCost - (record.overtimeCost ?? 0))}</span>
+              </div>
+              {!!record.billingAdjustment && (
+                <div className="flex justify-between text-[10px] text-slate-600">
+                  <span>{t('checkout.rounding')}</span>
+                  <span>{record.billingAdjustment > 0 ? '+' : ''}{amount(record.billingAdjustment)}</span>
+                </div>
+              )}
+              {!!record.overtimeSeconds && (
+                <div className="flex justify-between text-red-400">
+                  <span>{t('checkout.overtime', { duration: duration(record.overtimeSeconds) })}</span>
+                  <span>{amount(record.overtimeCost ?? 0)}</span>
+                </div>
+              )}
+              {(record.itemsTotal ?? 0) > 0 && (
+                <div className="flex justify-between text-slate-400">
+                  <span>{t('checkout.items')}</span>
+                  <span>{amount(record.itemsTotal!)}</span>
+                </div>
+              )}
+              {(discounted.discounts ?? []).map(d => (
+                <div key={d.ruleId} className="flex justify-between text-green-400">
+                  <span>{d.code ?? d.name}</span>
+                  <span>-{amount(d.amount)}</span>
+                </div>
+              ))}
+              {(settled.freeMinutes ?? 0) > 0 && (
+                <div className="flex justify-between text-green-400">
+                  <span>{t('checkout.freeMinutes', { n: settled.freeMinutes })}</span>
+                  <span>-{amount(settled.loyaltyDiscount)}</span>
+                </div>
+              )}
+            </div>
+
+            {/* Discounts */}
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={promoCode}
+                  onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                  placeholder={t('checkout.promoCode')}
+                  className="flex-1 bg-black/40 border border-white/10 px-2 py-1 text-xs uppercase text-green-300 focus:outline-none focus:border-green-500/50"
+                />
+                {canDiscount && (
+                  <>
+                    <button
+                      onClick={() => setManualKind(manualKind === 'PERCENT' ? 'FIXED' : 'PERCENT')}
+                      className="px-2 py-1 border border-white/10 text-[10px] text-slate-400 hover:text-green-400 font-tech uppercase"
+                      title={t('checkout.discountKind')}
+                    >
+                      {manualKind === 'PERCENT' ? <Percent className="w-3 h-3" /> : t('common.currency')}
+                    </button>
+                    <input
+                      type="number"
+                      min={0}
+                      max={manualKind === 'PERCENT' ? 100 : undefined}
+                      value={manualValue}
+                      onChange={(e) => setManualValue(e.target.value)}
+                      placeholder={t('checkout.off')}
+                      className="w-16 bg-black/40 border border-white/10 px-2 py-1 text-end text-xs text-green-300 focus:outline-none focus:border-green-500/50"
+                    />
+                  </>
+                )}
+              </div>
+              {promoProblem && <span className="text-[10px] text-red-400">{t(PROMO_PROBLEMS[promoProblem])}</span>}
+            </div>
+
+            {/* Loyalty */}
+            {customer && (
+              <div className="border border-fuchsia-500/30 bg-fuchsia-950/10 p-3 flex flex-col gap-2">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="flex items-center gap-2 text-fuchsia-400 font-tech uppercase tracking-wider">
+                    <Gift className="w-4 h-4" /> {t('checkout.points', { n: customer.points })}
+                  </span>
+                  <span className="text-slate-500">{t('checkout.pointsPerMinute', { n: loyalty.pointsPerFreeMinute })}</span>
+                </div>
+                {maxMinutes > 0 ? (
+                  <label className="flex items-center justify-between gap-2 text-xs text-slate-400">
+                    {t('checkout.redeem', { n: maxMinutes })}
+                    <input
+                      type="number"
+                      min={0}
+                      max={maxMinutes}
+                      value={redeemMinutes}
+                      onChange={(e) => setRedeemMinutes(Math.min(maxMinutes, Math.max(0, parseInt(e.target.value) || 0)))}
+                      className="w-20 bg-black/40 border border-white/10 px-2 py-1 text-end text-fuchsia-300 focus:outline-none focus:border-fuchsia-500/50"
+                    />
+                  </label>
+                ) : (
+                  <span className="text-[10px] text-slate-600">{t('checkout.notEnoughPoints')}</span>
+                )}
+                <span className="text-[10px] text-green-500">{t('checkout.pointsEarned', { earned: preview!.record.pointsEarned, total: preview!.points, arrow })}</span>
+              </div>
+            )}
+
+            {/* Payment */}
+            <div className="flex flex-col gap-2">
+              <div className="grid grid-cols-4 gap-1">
+                {PAYMENT_METHODS.map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMethod(m)}
+                    disabled={!isMethodAvailable(m)}
+                    className={`py-1.5 text-[10px] font-tech uppercase tracking-wider border transition-colors disabled:opacity-20 ${
+                      method === m ? 'border-cyan-500 bg-cyan-500/20 text-cyan-300' : 'border-white/10 text-slate-500 hover:text-cyan-400'
+                    }`}
+                  >
+                    {t(`payment.${m}` as MessageKey)}
+                  </button>
+                ))}
+              </div>
+              {customer && (
+                <div className="flex items-center justify-between text-[10px] text-slate-500">
+                  <span className="flex items-center gap-1"><Wallet className="w-3 h-3" /> {amount(customer.wallet)}</span>
+                  <span>{t('checkout.tabBalance', { tab: amount(customer.tab), limit: amount(customer.creditLimit) })}</span>
+                </div>
+              )}
+              {method === 'SPLIT' && (
+                <div className="grid grid-cols-2 gap-2 text-[10px] text-slate-500 font-tech uppercase">
+                  <label className="flex flex-col gap-1">
+                    {t('payment.WALLET')}
+                    <input
+                      type="number"
+                      min={0}
+                      value={splitWallet}
+                      onChange={(e) => setSplitWallet(e.target.value)}
+                      className="bg-black/40 border border-white/10 px-2 py-1 font-mono text-sm text-cyan-300 focus:outline-none focus:border-cyan-500/50"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    {t('payment.TAB')}
+                    <input
+                      type="number"
+                      min={0}
+                      value={splitTab}
+                      onChange={(e) => setSplitTab(e.target.value)}
+                      className="bg-black/40 border border-white/10 px-2 py-1 font-mono text-sm text-cyan-300 focus:outline-none focus:border-cyan-500/50"
+                    />
+                  </label>
+                </div>
+              )}
+              {method !== 'CASH' && (
+                <div className="flex flex-col gap-0.5 text-xs">
+                  {payment.wallet > 0 && (
+                    <div className="flex justify-between text-cyan-400"><span>{t('payment.WALLET')}</span><span>{amount(payment.wallet)}</span></div>
+                  )}
+                  {payment.tab > 0 && (
+                    <div className="flex justify-between text-yellow-500"><span>{t('checkout.onTab')}</span><span>{amount(payment.tab)}</span></div>
+                  )}
+                  <div className="flex justify-between text-slate-300"><span>{t('payment.CASH')}</span><span>{amount(payment.cash)}</span></div>
+                </div>
+              )}
+            </div>
+
+            {/* Split bill */}
+            <div className="flex flex-col gap-2">
+              <button
+                onClick={handleToggleSplit}
+                className={`flex items-center justify-center gap-2 py-1.5 text-[10px] font-tech uppercase tracking-wider border transition-colors ${
+                  isSplit ? 'border-fuchsia-500 bg-fuchsia-500/20 text-fuchsia-300' : 'border-white/10 text-slate-500 hover:text-fuchsia-400'
+                }`}
+              >
+                <Users className="w-3 h-3" /> {t('checkout.split')}
+              </button>
+              {isSplit && (
+                <div className="flex flex-col gap-1">
+                  {shareRows.map((r, i) => (
+                    <div key={i} className="flex items-center gap-1">
+                      <input
+                        type="text"
+                        dir="auto"
+                        value={r.name}
+                        onChange={(e) => updateShareRow(i, { name: e.target.value })}
+                        placeholder={t('checkout.playerN', { n: i + 1 })}
+                        className="flex-1 min-w-0 bg-black/40 border border-white/10 px-2 py-1 text-xs text-fuchsia-300 focus:outline-none focus:border-fuchsia-500/50"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        value={r.amount}
+                        onChange={(e) => updateShareRow(i, { amount: e.target.value })}
+                        placeholder={shares ? amount(shares[i].amount) : ''}
+                        className="w-20 bg-black/40 border border-white/10 px-2 py-1 text-end text-xs text-fuchsia-300 focus:outline-none focus:border-fuchsia-500/50"
+                      />
+                      <button
+                        onClick={() => shares && printReceipt(buildShareReceipt({ ...settled, shares }, shares[i], receipt), receipt)}
+                        disabled={!shares}
+                        className="p-1 text-slate-600 hover:text-cyan-400 disabled:opacity-30"
+                        title={t('checkout.printSlip')}
+                      >
+                        <Printer className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => setShareRows(prev => prev.filter((_, j) => j !== i))}
+                        disabled={shareRows.length <= 2}
+                        className="p-1 text-slate-600 hover:text-red-500 disabled:opacity-30"
+                        title={t('checkout.removePlayer')}
+                      >
+                        <Minus className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <button
+                      onClick={() => setShareRows(prev => [...prev, { name: '', amount: '' }])}
+                      className="flex items-center gap-1 text-[10px] text-slate-500 hover:text-fuchsia-400 font-tech uppercase"
+                    >
+                      <Plus className="w-3 h-3" /> {t('checkout.addPlayer')}
+                    </button>
+                    {isSplitInvalid && <span className="text-[10px] text-red-400">{t('checkout.sharesTooHigh')}</span>}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-between items-end border-t border-white/10 pt-3">
+              <span className="text-[10px] text-slate-500 font-tech uppercase tracking-widest">{t('checkout.total')}</span>
+              <span className="text-2xl font-bold text-fuchsia-400">{amount(total)}</span>
+            </div>
+          </div>
+
+          <div className="p-5 pt-0 flex gap-3 font-tech uppercase tracking-wider">
+            <button
+              onClick={() => onConfirm(redeemMinutes, payment, promoProblem ? undefined : promoCode.trim() || undefined, manual, isSplit ? shareDrafts : undefined)}
+              disabled={isSplitInvalid}
+              className="flex-1 bg-red-600/20 hover:bg-red-600 text-red-500 hover:text-white border border-red-600 py-3 font-bold transition-all duration-300 disabled:opacity-30 disabled:hover:bg-red-600/20 disabled:hover:text-red-500"
+            >
+              {t('checkout.terminate')}
+            </button>
+            <button
+              onClick={() => printReceipt(buildReceipt({ ...applyPayment(settled, payment), shares: shares ?? undefined }, receipt), receipt)}
+              className="px-4 bg-transparent hover:bg-cyan-500/10 text-cyan-500 border border-cyan-500/50 transition-colors"
+              title={t('checkout.printBill')}
+            >
+              <Printer className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-transparent hover:bg-white/10 text-slate-400 py-3 font-bold transition-colors border border-white/10"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CheckoutDialog;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Lock, X } from 'lucide-react';
+import { Shift, ZReport } from '../types';
+import ZReportView from './ZReportView';
+import { useI18n } from './LocaleProvider';
+
+interface CloseShiftDialogProps {
+  shift: Shift;
+  report: ZReport;
+  operatorName?: string; // Signed-in staff member, proposed as the one closing
+  onConfirm: (closedBy: string, nextOpenedBy: string) => void;
+  onClose: () => void;
+}
+
+const CloseShiftDialog: React.FC<CloseShiftDialogProps> = ({ shift, report, operatorName, onConfirm, onClose }) => {
+  const [closedBy, setClosedBy] = useState(operatorName || shift.openedBy);
+  const [nextOpenedBy, setNextOpenedBy] = useState('');
+  const { t, dateTime } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-fuchsia-500/50 p-1 max-w-2xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(192,38,211,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-fuchsia-400">
+              <Lock className="w-6 h-6" />
+              <div>
+                <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('shift.zReport')}</h3>
+                <p className="text-[10px] text-slate-500 font-mono">
+                  {t('shift.opened', { time: dateTime(shift.openedAt) })}{shift.openedBy && ` · ${shift.openedBy}`}
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto flex flex-col gap-5">
+            <ZReportView report={report} />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1">
+                <span className="text-[10px] text-slate-500 font-tech uppercase tracking-wider">{t('shift.closedBy')}</span>
+                <input
+                  type="text"
+                  value={closedBy}
+                  onChange={(e) => setClosedBy(e.target.value)}
+                  className="bg-black/30 border border-white/10 py-2 px-3 text-xs font-mono text-cyan-300 focus:outline-none focus:border-cyan-500/50"
+                  placeholder={t('shift.staffName')}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-[10px] text-slate-500 font-tech uppercase tracking-wider">{t('shift.nextOpenedBy')}</span>
+                <input
+                  type="text"
+                  value={nextOpenedBy}
+                  onChange={(e) => setNextOpenedBy(e.target.value)}
+                  className="bg-black/30 border border-white/10 py-2 px-3 text-xs font-mono text-cyan-300 focus:outline-none focus:border-cyan-500/50"
+                  placeholder={t('shift.staffName')}
+                />
+              </label>
+            </div>
+          </div>
+
+          <div className="p-5 border-t border-white/5 flex gap-3 font-tech uppercase tracking-wider">
+            <button
+              onClick={() => onConfirm(closedBy.trim(), nextOpenedBy.trim())}
+              disabled={!closedBy.trim()}
+              className="flex-1 bg-fuchsia-600/20 hover:bg-fuchsia-600 text-fuchsia-400 hover:text-white border border-fuchsia-600 py-3 font-bold transition-all duration-300 disabled:opacity-40 disabled:hover:bg-fuchsia-600/20 disabled:hover:text-fuchsia-400"
+            >
+              {t('shift.close')}
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-transparent hover:bg-white/10 text-slate-400 py-3 font-bold transition-colors border border-white/10"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CloseShiftDialog;
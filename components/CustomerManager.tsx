@@ -0,0 +1,385 @@
+import React, { useMemo, useState } from 'react';
+import { Users, X, Plus, Search, ChevronLeft, ChevronRight, Save, Trash2, Star, Wallet } from 'lucide-react';
+import { Customer, LedgerEntry, LedgerEntryType, LoyaltySettings, SessionRecord } from '../types';
+import { LoungeDispatch } from '../store/reducer';
+import { CustomerStats, createCustomer, getCustomerStats } from '../utils/loyalty';
+import { getRecordTotal } from '../utils/records';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface CustomerManagerProps {
+  customers: Customer[];
+  loyalty: LoyaltySettings;
+  ledger: LedgerEntry[];
+  records: SessionRecord[]; // Current shift plus archived shifts
+  dispatch: LoungeDispatch;
+  onClose: () => void;
+}
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+const CustomerManager: React.FC<CustomerManagerProps> = ({ customers, loyalty, ledger, records, dispatch, onClose }) => {
+  const { t, dir, amount: formatAmount, number, dateTime, duration } = useI18n();
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Customer | null>(null);
+  const [loyaltyDraft, setLoyaltyDraft] = useState<LoyaltySettings>(loyalty);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+
+  const stats: Record<string, CustomerStats> = useMemo(
+    () => Object.fromEntries(customers.map(c => [c.id, getCustomerStats(records, c.id)])),
+    [customers, records]
+  );
+
+  const q = query.trim().toLowerCase();
+  const visible = customers
+    .filter(c => !q || c.name.toLowerCase().includes(q) || c.phone.includes(q))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const selected = customers.find(c => c.id === selectedId);
+  const visits = selected
+    ? records.filter(r => r.customerId === selected.id).sort((a, b) => b.startTime - a.startTime)
+    : [];
+  const entries = selected ? ledger.filter(e => e.customerId === selected.id) : [];
+
+  const openCustomer = (customer: Customer) => {
+    setSelectedId(customer.id);
+    setDraft({ ...customer });
+  };
+
+  const handleAdd = () => {
+    const customer = createCustomer(newId(), query.trim(), Date.now());
+    dispatch({ type: 'ADD_CUSTOMER', customer });
+    openCustomer(customer);
+  };
+
+  // Only profile fields come from the draft; points and balances may have moved since it was opened
+  const handleSave = () => {
+    if (!selected || !draft || !draft.name.trim()) return;
+    dispatch({
+      type: 'UPDATE_CUSTOMER',
+      customer: {
+        ...selected,
+        name: draft.name.trim(),
+        phone: draft.phone.trim(),
+        notes: draft.notes,
+        creditLimit: Math.max(0, draft.creditLimit)
+      }
+    });
+  };
+
+  const postEntry = (type: LedgerEntryType, wallet: number, tab: number, cash: number) => {
+    if (!selected) return;
+    dispatch({
+      type: 'POST_LEDGER_ENTRY',
+      entry: { id: newId(), customerId: selected.id, at: Date.now(), type, wallet, tab, cash, note: note.trim() }
+    });
+    setAmount('');
+    setNote('');
+  };
+
+  const value = parseFloat(amount) || 0;
+  const handleTopUp = () => value > 0 && postEntry('TOP_UP', value, 0, value);
+  const handlePayTab = () => {
+    const paid = Math.min(value, selected?.tab ?? 0);
+    if (paid > 0) postEntry('TAB_PAYMENT', 0, -paid, paid);
+  };
+  // Corrections move the balance without any cash changing hands
+  const handleAdjust = (target: 'wallet' | 'tab') => {
+    if (!value || !note.trim()) return;
+    postEntry('ADJUSTMENT', target === 'wallet' ? value : 0, target === 'tab' ? value : 0, 0);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    dispatch({ type: 'DELETE_CUSTOMER', customerId: selected.id });
+    setSelectedId(null);
+  };
+
+  const loyaltyChanged = JSON.stringify(loyaltyDraft) !== JSON.stringify(loyalty);
+  const inputClass = 'bg-black border border-white/10 text-white text-sm px-2 py-1.5 focus:outline-none focus:border-cyan-500';
+  const selectedStats = selected ? stats[selected.id] : null;
+  const BackIcon = dir === 'rtl' ? ChevronRight : ChevronLeft;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-cyan-500/50 p-1 max-w-3xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(34,211,238,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-cyan-400">
+              {selected ? (
+                <button onClick={() => setSelectedId(null)} className="hover:text-white"><BackIcon className="w-6 h-6" /></button>
+              ) : (
+                <Users className="w-6 h-6" />
+              )}
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">
+                {selected ? selected.name : t('customers.title')}
+              </h3>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto">
+            {selected && draft && selectedStats ? (
+              <div className="flex flex-col gap-6">
+                {/* Profile */}
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className={inputClass}
+                    placeholder={t('customers.name')}
+                  />
+                  <input
+                    type="tel"
+                    value={draft.phone}
+                    onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+                    className={`${inputClass} font-mono`}
+                    placeholder={t('customers.phone')}
+                  />
+                  <label className="col-span-2 flex items-center gap-2 text-[10px] text-slate-500 font-tech uppercase">
+                    {t('customers.creditLimit')}
+                    <input
+                      type="number"
+                      min={0}
+                      value={draft.creditLimit}
+                      onChange={(e) => setDraft({ ...draft, creditLimit: parseFloat(e.target.value) || 0 })}
+                      className={`${inputClass} font-mono w-28`}
+                    />
+                    <span className="normal-case">{t('customers.noTab')}</span>
+                  </label>
+                  <textarea
+                    value={draft.notes}
+                    onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                    className={`${inputClass} col-span-2 h-20 resize-none`}
+                    placeholder={t('customers.notes')}
+                  />
+                </div>
+                <div className="flex gap-3 font-tech uppercase tracking-wider text-sm">
+                  <button
+                    onClick={handleSave}
+                    disabled={!draft.name.trim()}
+                    className="flex-1 flex items-center justify-center gap-2 bg-cyan-600/20 hover:bg-cyan-600 text-cyan-400 hover:text-white border border-cyan-600 py-2 font-bold transition-all duration-300 disabled:opacity-30"
+                  >
+                    <Save className="w-4 h-4" /> {t('common.save')}
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    disabled={selected.wallet !== 0 || selected.tab !== 0}
+                    title={selected.wallet !== 0 || selected.tab !== 0 ? t('customers.settleFirst') : undefined}
+                    className="flex items-center justify-center gap-2 px-4 text-slate-500 hover:text-red-500 border border-white/10 hover:border-red-600 py-2 transition-colors disabled:opacity-30 disabled:hover:text-slate-500 disabled:hover:border-white/10"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {/* Stats */}
+                <div className="grid grid-cols-4 gap-3 font-mono">
+                  {[
+                    ['customers.visits', number(selectedStats.visits)],
+                    ['customers.hours', number(Math.round(selectedStats.seconds / 360) / 10)],
+                    ['customers.lifetime', formatAmount(selectedStats.spend)],
+                    ['customers.points', number(selected.points)]
+                  ].map(([label, value]) => (
+                    <div key={label} className="border border-white/10 bg-black/40 p-3 flex flex-col gap-1">
+                      <span className="text-[10px] text-slate-500 font-tech uppercase tracking-widest">{t(label as MessageKey)}</span>
+                      <span className="text-lg text-white font-bold">{value}</span>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Account */}
+                <section className="flex flex-col gap-3 border border-white/10 bg-black/40 p-3">
+                  <div className="flex items-center justify-between font-mono">
+                    <span className="flex items-center gap-2 text-cyan-400">
+                      <Wallet className="w-4 h-4" /> {formatAmount(selected.wallet)}
+                    </span>
+                    <span className={selected.tab > 0 ? 'text-yellow-500 font-bold' : 'text-slate-500'}>
+                      {t('customers.owes', { amount: formatAmount(selected.tab) })}
+                      <span className="text-[10px] text-slate-600"> / {formatAmount(selected.creditLimit)}</span>
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <input
+                      type="number"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      className={`${inputClass} font-mono w-28`}
+                      placeholder={t('customers.amount')}
+                    />
+                    <input
+                      type="text"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      className={`${inputClass} flex-1 min-w-[8rem]`}
+                      placeholder={t('customers.note')}
+                    />
+                  </div>
+                  <div className="grid grid-cols-4 gap-2 text-[10px] font-tech uppercase tracking-wider">
+                    <button onClick={handleTopUp} disabled={value <= 0} className="border border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 py-1.5 disabled:opacity-30">
+                      {t('customers.topUp')}
+                    </button>
+                    <button onClick={handlePayTab} disabled={value <= 0 || selected.tab <= 0} className="border border-yellow-500/50 text-yellow-500 hover:bg-yellow-500/10 py-1.5 disabled:opacity-30">
+                      {t('customers.payTab')}
+                    </button>
+                    <button onClick={() => handleAdjust('wallet')} disabled={!value || !note.trim()} className="border border-white/10 text-slate-400 hover:text-white py-1.5 disabled:opacity-30">
+                      {t('customers.adjustWallet')}
+                    </button>
+                    <button onClick={() => handleAdjust('tab')} disabled={!value || !note.trim()} className="border border-white/10 text-slate-400 hover:text-white py-1.5 disabled:opacity-30">
+                      {t('customers.adjustTab')}
+                    </button>
+                  </div>
+                  {entries.length > 0 && (
+                    <ul className="flex flex-col divide-y divide-white/5 font-mono text-xs max-h-40 overflow-y-auto">
+                      {entries.map(e => (
+                        <li key={e.id} className="flex items-center justify-between gap-2 py-1.5">
+                          <span className="text-slate-500">{dateTime(e.at)}</span>
+                          <span className="text-slate-400 font-tech">{t(`customers.entry.${e.type}` as MessageKey)}</span>
+                          <span className="flex-1 truncate text-slate-600">{e.note}</span>
+                          {e.wallet !== 0 && <span className="text-cyan-400">{t('customers.walletShort')} {e.wallet > 0 ? '+' : ''}{formatAmount(e.wallet)}</span>}
+                          {e.tab !== 0 && <span className="text-yellow-500">{t('customers.tabShort')} {e.tab > 0 ? '+' : ''}{formatAmount(e.tab)}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+
+                {/* Visits */}
+                {visits.length === 0 ? (
+                  <div className="py-6 text-center text-slate-600 font-tech text-xs">{t('customers.noVisits')}</div>
+                ) : (
+                  <table className="w-full text-start font-mono text-sm">
+                    <thead className="text-cyan-500/70 text-[10px] uppercase tracking-wider font-tech">
+                      <tr>
+                        <th className="py-2 font-medium">{t('customers.terminal')}</th>
+                        <th className="py-2 font-medium">{t('customers.start')}</th>
+                        <th className="py-2 font-medium">{t('customers.duration')}</th>
+                        <th className="py-2 font-medium">{t('customers.points')}</th>
+                        <th className="py-2 font-medium text-end">{t('customers.total')}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/10">
+                      {visits.map(r => (
+                        <tr key={r.id}>
+                          <td className="py-2 text-white">{r.screenName}</td>
+                          <td className="py-2 text-slate-400">{dateTime(r.startTime)}</td>
+                          <td className="py-2 text-slate-400">{duration(r.durationSeconds)}</td>
+                          <td className="py-2 text-slate-400">
+                            {r.pointsEarned ? <span className="text-green-500">+{number(r.pointsEarned)}</span> : null}
+                            {r.pointsRedeemed ? <span className="text-fuchsia-400"> -{number(r.pointsRedeemed)}</span> : null}
+                          </td>
+                          <td className="py-2 text-end text-fuchsia-400">{formatAmount(getRecordTotal(r))}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ) : (
+              <div className="flex flex-col gap-6">
+                {/* Search */}
+                <div className="flex gap-2">
+                  <div className="flex-1 flex items-center gap-2 border border-white/10 bg-black/30 px-3">
+                    <Search className="w-4 h-4 text-slate-600" />
+                    <input
+                      type="text"
+                      value={query}
+                      onChange={(e) => setQuery(e.target.value)}
+                      className="w-full bg-transparent py-2 text-sm font-mono text-cyan-300 placeholder-slate-700 focus:outline-none"
+                      placeholder={t('customers.search')}
+                    />
+                  </div>
+                  <button
+                    onClick={handleAdd}
+                    className="flex items-center gap-2 border border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 px-3 text-xs font-tech uppercase tracking-wider"
+                  >
+                    <Plus className="w-4 h-4" /> {t('customers.new')}
+                  </button>
+                </div>
+
+                {visible.length === 0 ? (
+                  <div className="py-12 text-center text-slate-500 font-tech">{t('customers.empty')}</div>
+                ) : (
+                  <ul className="flex flex-col divide-y divide-white/10 font-mono text-sm">
+                    {visible.map(customer => (
+                      <li key={customer.id}>
+                        <button
+                          onClick={() => openCustomer(customer)}
+                          className="w-full flex items-center justify-between gap-4 py-3 px-2 hover:bg-cyan-500/5 transition-colors text-start"
+                        >
+                          <div className="flex flex-col">
+                            <span className="text-white">{customer.name}</span>
+                            <span className="text-[10px] text-slate-500">
+                              {customer.phone || '—'} · {t('customers.visitCount', { n: stats[customer.id].visits })}
+                              {stats[customer.id].lastVisit && ` · ${dateTime(stats[customer.id].lastVisit!)}`}
+                            </span>
+                          </div>
+                          <div className="flex flex-col items-end">
+                            <span className="text-fuchsia-400 font-bold">{formatAmount(stats[customer.id].spend)}</span>
+                            <span className="flex items-center gap-1 text-[10px] text-fuchsia-500">
+                              <Star className="w-3 h-3 fill-current" /> {number(customer.points)}
+                            </span>
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {/* Loyalty settings */}
+                <section className="flex flex-col gap-3 border-t border-white/5 pt-5">
+                  <h4 className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest">{t('customers.loyalty')}</h4>
+                  <div className="flex flex-wrap items-end gap-2">
+                    <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+                      {t('customers.earn')}
+                      <select
+                        value={loyaltyDraft.earnMode}
+                        onChange={(e) => setLoyaltyDraft({ ...loyaltyDraft, earnMode: e.target.value as LoyaltySettings['earnMode'] })}
+                        className={`${inputClass} font-mono`}
+                      >
+                        <option value="PER_HOUR" className="bg-black">{t('customers.perHour')}</option>
+                        <option value="PER_EGP" className="bg-black">{t('customers.perEgp')}</option>
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+                      {t('customers.points')}
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={loyaltyDraft.earnRate}
+                        onChange={(e) => setLoyaltyDraft({ ...loyaltyDraft, earnRate: parseFloat(e.target.value) || 0 })}
+                        className={`${inputClass} font-mono w-24`}
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+                      {t('customers.pointsPerFreeMinute')}
+                      <input
+                        type="number"
+                        min={0}
+                        value={loyaltyDraft.pointsPerFreeMinute}
+                        onChange={(e) => setLoyaltyDraft({ ...loyaltyDraft, pointsPerFreeMinute: parseInt(e.target.value) || 0 })}
+                        className={`${inputClass} font-mono w-24`}
+                      />
+                    </label>
+                    <button
+                      onClick={() => dispatch({ type: 'SET_LOYALTY', loyalty: loyaltyDraft })}
+                      disabled={!loyaltyChanged}
+                      className="flex items-center gap-2 border border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 px-3 py-1.5 text-xs font-tech uppercase tracking-wider disabled:opacity-30"
+                    >
+                      <Save className="w-4 h-4" /> {t('common.save')}
+                    </button>
+                  </div>
+                </section>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerManager;
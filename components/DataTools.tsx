@@ -0,0 +1,232 @@
+import React, { useRef, useState } from 'react';
+import { Database, Download, Upload, FileSpreadsheet, X, AlertTriangle, Wifi } from 'lucide-react';
+import { LoungeState, SessionRecord } from '../types';
+import { LoungeDispatch } from '../store/reducer';
+import { migrateState } from '../store/migrations';
+import { SyncInfo, clearSyncUrl, getSavedSyncToken, getSavedSyncUrl, saveSyncToken, saveSyncUrl } from '../store/serverSync';
+import { EMPTY_FILTER, filterRecords } from '../utils/history';
+import { BackupValidation, RestoreMode, buildBackup, downloadFile, recordsToCSV, validateBackup } from '../utils/backup';
+import { MessageKey, formatMessage, message } from '../utils/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface DataToolsProps {
+  state: LoungeState;
+  allRecords: SessionRecord[]; // Current shift plus archived shifts
+  canRestore: boolean;
+  syncInfo: SyncInfo;
+  dispatch: LoungeDispatch;
+  onClose: () => void;
+}
+
+// Local YYYY-MM-DD
+const today = () => new Date().toLocaleDateString('en-CA');
+
+const DataTools: React.FC<DataToolsProps> = ({ state, allRecords, canRestore, syncInfo, dispatch, onClose }) => {
+  const { t } = useI18n();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [validation, setValidation] = useState<BackupValidation | null>(null);
+  const [fileName, setFileName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [syncUrl, setSyncUrl] = useState(() => syncInfo.url || getSavedSyncUrl() || '');
+  const [syncToken, setSyncToken] = useState(getSavedSyncToken);
+
+  const exportCount = filterRecords(allRecords, { ...EMPTY_FILTER, from, to }).length;
+
+  const handleExportCSV = () => {
+    const records = filterRecords(allRecords, { ...EMPTY_FILTER, from, to })
+      .sort((a, b) => a.startTime - b.startTime);
+    const range = from || to ? `_${from || 'start'}_${to || 'now'}` : '';
+    downloadFile(`sessions${range}.csv`, recordsToCSV(records), 'text/csv;charset=utf-8');
+  };
+
+  const handleExportBackup = () => {
+    downloadFile(`ps-lounge-backup_${today()}.json`, JSON.stringify(buildBackup(state), null, 2), 'application/json');
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      setValidation(validateBackup(JSON.parse(await file.text()), migrateState));
+    } catch (err) {
+      setValidation({ state: null, errors: [message('data.invalidJson')] });
+    }
+  };
+
+  const handleRestore = (mode: RestoreMode) => {
+    if (!validation?.state) return;
+    dispatch({ type: 'IMPORT_BACKUP', state: validation.state, mode });
+    setValidation(null);
+    onClose();
+  };
+
+  // The store connects once at start-up, so a new server address takes effect on reload
+  const handleSyncChange = (change: () => void) => {
+    change();
+    window.location.reload();
+  };
+
+  const inputClass = 'bg-black/40 border border-white/10 px-2 py-1.5 text-xs font-mono text-cyan-300 focus:outline-none focus:border-cyan-500/50';
+  const imported = validation?.state;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-cyan-500/50 p-1 max-w-xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(34,211,238,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-cyan-400">
+              <Database className="w-6 h-6" />
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('data.title')}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto flex flex-col gap-6">
+            {/* Export */}
+            <section className="flex flex-col gap-3">
+              <h4 className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest">{t('data.export')}</h4>
+              <div className="flex flex-wrap items-end gap-2">
+                <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+                  {t('data.from')}
+                  <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+                  {t('data.to')}
+                  <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+                </label>
+                <button
+                  onClick={handleExportCSV}
+                  disabled={exportCount === 0}
+                  className="flex items-center gap-2 border border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 px-3 py-1.5 text-xs font-tech uppercase tracking-wider disabled:opacity-30"
+                >
+                  <FileSpreadsheet className="w-4 h-4" /> {t('data.csv', { n: exportCount })}
+                </button>
+              </div>
+              <button
+                onClick={handleExportBackup}
+                className="flex items-center justify-center gap-2 border border-fuchsia-500/50 text-fuchsia-400 hover:bg-fuchsia-500/10 py-2 text-xs font-tech uppercase tracking-wider"
+              >
+                <Download className="w-4 h-4" /> {t('data.fullBackup')}
+              </button>
+            </section>
+
+            {/* Import */}
+            {canRestore && (
+              <section className="flex flex-col gap-3 border-t border-white/5 pt-5">
+                <h4 className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest">{t('data.restore')}</h4>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileSelected} className="hidden" />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center justify-center gap-2 border border-dashed border-cyan-500/30 text-cyan-600 hover:text-cyan-400 hover:border-cyan-400 py-3 text-xs font-tech uppercase tracking-wider"
+                >
+                  <Upload className="w-4 h-4" /> {fileName || t('data.chooseFile')}
+                </button>
+
+                {validation && (
+                  <div className="flex flex-col gap-3 font-mono text-xs">
+                    {imported && (
+                      <div className="text-slate-300">
+                        {t('data.contents', {
+                          screens: imported.screens.length,
+                          active: Object.keys(imported.sessions).length,
+                          sessions: imported.history.length,
+                          shifts: imported.closedShifts.length
+                        })}
+                      </div>
+                    )}
+
+                    {validation.errors.length > 0 && (
+                      <div className="border border-yellow-500/30 bg-yellow-950/20 p-3 flex flex-col gap-1 max-h-40 overflow-y-auto">
+                        <div className="flex items-center gap-2 text-yellow-500 font-tech uppercase">
+                          <AlertTriangle className="w-4 h-4" /> {t('data.issues', { n: validation.errors.length })}{imported && t('data.skipped')}
+                        </div>
+                        {validation.errors.map((error, i) => (
+                          <div key={i} className="text-yellow-200/70">{formatMessage(t, error)}</div>
+                        ))}
+                      </div>
+                    )}
+
+                    {imported && (
+                      <div className="flex gap-3 font-tech uppercase tracking-wider">
+                        <button
+                          onClick={() => handleRestore('merge')}
+                          className="flex-1 bg-cyan-600/20 hover:bg-cyan-600 text-cyan-400 hover:text-white border border-cyan-600 py-3 font-bold transition-all duration-300"
+                          title={t('data.mergeHint')}
+                        >
+                          {t('data.merge')}
+                        </button>
+                        <button
+                          onClick={() => handleRestore('replace')}
+                          className="flex-1 bg-red-600/20 hover:bg-red-600 text-red-500 hover:text-white border border-red-600 py-3 font-bold transition-all duration-300"
+                          title={t('data.replaceHint')}
+                        >
+                          {t('data.replace')}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </section>
+            )}
+
+            {/* LAN sync */}
+            {canRestore && (
+              <section className="flex flex-col gap-3 border-t border-white/5 pt-5">
+                <h4 className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest flex items-center gap-2">
+                  <Wifi className="w-3 h-3" /> {t('data.lanSync', { status: t(`sync.${syncInfo.status}` as MessageKey) })}
+                </h4>
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    type="url"
+                    value={syncUrl}
+                    onChange={(e) => setSyncUrl(e.target.value)}
+                    placeholder="http://192.168.1.10:8787"
+                    className={`${inputClass} flex-1 min-w-[12rem]`}
+                    dir="ltr"
+                  />
+                  <input
+                    type="text"
+                    value={syncToken}
+                    onChange={(e) => setSyncToken(e.target.value)}
+                    placeholder={t('data.pairingCode')}
+                    className={`${inputClass} w-36`}
+                    dir="ltr"
+                  />
+                  <button
+                    onClick={() => handleSyncChange(() => { saveSyncUrl(syncUrl); saveSyncToken(syncToken); })}
+                    disabled={!syncUrl.trim() || !syncToken.trim()}
+                    className="border border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 px-3 py-1.5 text-xs font-tech uppercase tracking-wider disabled:opacity-30"
+                  >
+                    {t('data.connect')}
+                  </button>
+                  {syncInfo.status !== 'OFF' && (
+                    <button
+                      onClick={() => handleSyncChange(() => saveSyncUrl(''))}
+                      className="border border-red-600/50 text-red-500 hover:bg-red-600/10 px-3 py-1.5 text-xs font-tech uppercase tracking-wider"
+                    >
+                      {t('data.disconnect')}
+                    </button>
+                  )}
+                </div>
+                <p className="text-[10px] text-slate-500 font-mono leading-relaxed">
+                  {t('data.syncHelp')}
+                  {getSavedSyncUrl() !== null && (
+                    <button onClick={() => handleSyncChange(clearSyncUrl)} className="ms-1 text-cyan-600 hover:text-cyan-400 underline">
+                      {t('data.autoDetect')}
+                    </button>
+                  )}
+                </p>
+              </section>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataTools;
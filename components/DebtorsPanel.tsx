@@ -0,0 +1,52 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Customer } from '../types';
+import { getDebtors } from '../utils/accounts';
+import { useI18n } from './LocaleProvider';
+
+interface DebtorsPanelProps {
+  customers: Customer[];
+  onOpen: () => void;
+}
+
+// Customers with an open tab; hidden while nobody owes anything
+const DebtorsPanel: React.FC<DebtorsPanelProps> = ({ customers, onOpen }) => {
+  const { t, amount } = useI18n();
+  const debtors = getDebtors(customers);
+  if (debtors.length === 0) return null;
+
+  const totalOwed = debtors.reduce((acc, c) => acc + c.tab, 0);
+
+  return (
+    <div className="mb-16 border border-yellow-500/30 bg-black/40 backdrop-blur-md">
+      <div className="px-5 py-3 border-b border-yellow-500/20 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-yellow-500">
+          <AlertTriangle className="w-4 h-4" />
+          <h2 className="font-tech font-bold uppercase tracking-widest text-sm">{t('debtors.title')}</h2>
+        </div>
+        <span className="font-mono font-bold text-yellow-500">{amount(totalOwed)}</span>
+      </div>
+      <ul className="divide-y divide-white/5 font-mono text-sm">
+        {debtors.map(customer => (
+          <li key={customer.id}>
+            <button
+              onClick={onOpen}
+              className="w-full flex items-center justify-between gap-4 px-5 py-2 hover:bg-yellow-500/5 transition-colors text-start"
+            >
+              <span className="text-white">
+                {customer.name}
+                {customer.phone && <span className="text-slate-600 text-xs"> · {customer.phone}</span>}
+              </span>
+              <span className={customer.tab >= customer.creditLimit ? 'text-red-400' : 'text-yellow-500'}>
+                {amount(customer.tab)}
+                <span className="text-[10px] text-slate-600"> / {amount(customer.creditLimit)}</span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DebtorsPanel;
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { Percent, Plus, Trash2, X, Save } from 'lucide-react';
+import { DiscountKind, DiscountRule } from '../types';
+import { DISCOUNT_KINDS, createDiscountRule, normalizeCode } from '../utils/discounts';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface DiscountManagerProps {
+  discountRules: DiscountRule[];
+  onSave: (rules: DiscountRule[]) => void;
+  onClose: () => void;
+}
+
+const DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const KIND_LABELS: Record<DiscountKind, MessageKey> = {
+  PERCENT: 'discounts.kindPercent',
+  FIXED: 'discounts.kindFixed',
+  FREE_MINUTES: 'discounts.kindFreeMinutes'
+};
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateInput = (ts?: number) => {
+  if (!ts) return '';
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+// Valid from the start of the first day until the end of the last
+const fromDateInput = (value: string, endOfDay = false) => {
+  if (!value) return undefined;
+  const d = new Date(`${value}T00:00`);
+  if (endOfDay) d.setDate(d.getDate() + 1);
+  return d.getTime() - (endOfDay ? 1 : 0);
+};
+
+const DiscountManager: React.FC<DiscountManagerProps> = ({ discountRules, onSave, onClose }) => {
+  // Edit a draft copy so Cancel leaves the live rules untouched
+  const [draft, setDraft] = useState<DiscountRule[]>(() => JSON.parse(JSON.stringify(discountRules)));
+  const { t, dayName, arrow } = useI18n();
+
+  const updateRule = (ruleId: string, patch: Partial<DiscountRule>) => {
+    setDraft(prev => prev.map(r => r.id === ruleId ? { ...r, ...patch } : r));
+  };
+
+  const toggleDay = (rule: DiscountRule, day: number) => {
+    const days = rule.days.includes(day) ? rule.days.filter(d => d !== day) : [...rule.days, day].sort();
+    updateRule(rule.id, { days });
+  };
+
+  const handleSave = () => {
+    onSave(draft.map(r => ({
+      ...r,
+      name: r.name.trim() || t('discounts.unnamed'),
+      code: r.code && normalizeCode(r.code) ? normalizeCode(r.code) : undefined,
+      maxUses: r.maxUses && r.maxUses > 0 ? r.maxUses : undefined
+    })));
+    onClose();
+  };
+
+  const inputClass = 'bg-black border border-white/10 text-white text-xs px-2 py-1 focus:outline-none focus:border-cyan-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-green-500/50 p-1 max-w-3xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(34,197,94,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-green-400">
+              <Percent className="w-6 h-6" />
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('discounts.title')}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto flex flex-col gap-4">
+            {draft.length === 0 && (
+              <div className="py-6 text-center text-slate-600 font-tech text-xs uppercase tracking-widest">
+                {t('discounts.empty')}
+              </div>
+            )}
+
+            {draft.map(rule => (
+              <div key={rule.id} className={`border p-4 flex flex-col gap-3 ${rule.active ? 'border-white/10 bg-black/40' : 'border-white/5 opacity-60'}`}>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <input
+                    type="text"
+                    value={rule.name}
+                    onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                    className="flex-1 min-w-[8rem] bg-black border border-green-500/30 text-green-400 text-sm px-2 py-1 focus:outline-none focus:border-green-500 font-tech uppercase"
+                  />
+                  <button
+                    onClick={() => updateRule(rule.id, { active: !rule.active })}
+                    className={`px-2 py-1 text-[10px] font-tech uppercase border ${rule.active ? 'border-green-500/50 text-green-400 bg-green-950/30' : 'border-white/10 text-slate-600'}`}
+                  >
+                    {t(rule.active ? 'discounts.active' : 'discounts.off')}
+                  </button>
+                  <button
+                    onClick={() => setDraft(prev => prev.filter(r => r.id !== rule.id))}
+                    className="text-slate-600 hover:text-red-500"
+                    title={t('discounts.deleteRule')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {/* What it takes off */}
+                <div className="flex items-center gap-2 flex-wrap">
+                  <div className="flex gap-1">
+                    {DISCOUNT_KINDS.map(kind => (
+                      <button
+                        key={kind}
+                        onClick={() => updateRule(rule.id, { kind })}
+                        className={`px-2 py-0.5 text-[10px] font-tech uppercase border ${rule.kind === kind ? 'border-cyan-500/50 text-cyan-400 bg-cyan-950/30' : 'border-white/10 text-slate-600'}`}
+                      >
+                        {t(KIND_LABELS[kind])}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    type="number"
+                    min="0"
+                    max={rule.kind === 'PERCENT' ? 100 : undefined}
+                    value={rule.value}
+                    onChange={(e) => updateRule(rule.id, { value: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className={`${inputClass} w-20 text-end font-mono`}
+                  />
+                  <label className="flex items-center gap-1 text-[10px] text-slate-500 font-tech uppercase ms-auto">
+                    {t('discounts.after')}
+                    <input
+                      type="number"
+                      min="0"
+                      value={rule.minMinutes}
+                      onChange={(e) => updateRule(rule.id, { minMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className={`${inputClass} w-16 text-end font-mono`}
+                    />
+                    {t('discounts.minPlayed')}
+                  </label>
+                </div>
+
+                {/* When it applies */}
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-[10px] text-slate-500 font-tech uppercase w-14">{t('discounts.starts')}</span>
+                  <input type="time" value={rule.from} onChange={(e) => updateRule(rule.id, { from: e.target.value })} className={`${inputClass} font-mono`} />
+                  <span className="text-slate-600 text-xs">{arrow.trim()}</span>
+                  <input type="time" value={rule.to} onChange={(e) => updateRule(rule.id, { to: e.target.value })} className={`${inputClass} font-mono`} />
+                  <div className="flex gap-1">
+                    {DAYS.map(day => (
+                      <button
+                        key={day}
+                        onClick={() => toggleDay(rule, day)}
+                        className={`px-1.5 py-0.5 text-[10px] font-tech border ${rule.days.includes(day) ? 'border-cyan-500/50 text-cyan-400 bg-cyan-950/30' : 'border-white/10 text-slate-600'}`}
+                      >
+                        {dayName(day)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Promo code and limits */}
+                <div className="flex items-center gap-2 flex-wrap border-t border-white/5 pt-3">
+                  <input
+                    type="text"
+                    value={rule.code ?? ''}
+                    onChange={(e) => updateRule(rule.id, { code: e.target.value.toUpperCase() })}
+                    placeholder={t('discounts.code')}
+                    className={`${inputClass} w-48 font-mono uppercase`}
+                  />
+                  <input
+                    type="date"
+                    value={toDateInput(rule.validFrom)}
+                    onChange={(e) => updateRule(rule.id, { validFrom: fromDateInput(e.target.value) })}
+                    className={`${inputClass} font-mono`}
+                    title={t('discounts.validFrom')}
+                  />
+                  <span className="text-slate-600 text-xs">{arrow.trim()}</span>
+                  <input
+                    type="date"
+                    value={toDateInput(rule.validUntil)}
+                    onChange={(e) => updateRule(rule.id, { validUntil: fromDateInput(e.target.value, true) })}
+                    className={`${inputClass} font-mono`}
+                    title={t('discounts.validUntil')}
+                  />
+                  <label className="flex items-center gap-1 text-[10px] text-slate-500 font-tech uppercase ms-auto">
+                    {t('discounts.used', { n: rule.uses })}
+                    <input
+                      type="number"
+                      min="0"
+                      value={rule.maxUses ?? ''}
+                      onChange={(e) => updateRule(rule.id, { maxUses: parseInt(e.target.value) || undefined })}
+                      placeholder="∞"
+                      className={`${inputClass} w-16 text-end font-mono`}
+                    />
+                  </label>
+                </div>
+              </div>
+            ))}
+
+            <button
+              onClick={() => setDraft(prev => [...prev, createDiscountRule(newId())])}
+              className="flex items-center justify-center gap-2 border border-dashed border-cyan-500/30 py-3 text-cyan-700 hover:text-cyan-400 hover:border-cyan-400 font-tech uppercase tracking-widest text-sm"
+            >
+              <Plus className="w-4 h-4" /> {t('discounts.newRule')}
+            </button>
+          </div>
+
+          <div className="p-5 border-t border-white/5 flex gap-3 font-tech uppercase tracking-wider">
+            <button
+              onClick={handleSave}
+              className="flex-1 flex items-center justify-center gap-2 bg-green-600/20 hover:bg-green-600 text-green-400 hover:text-white border border-green-600 py-3 font-bold transition-all duration-300"
+            >
+              <Save className="w-4 h-4" /> {t('common.save')}
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-transparent hover:bg-white/10 text-slate-400 py-3 font-bold transition-colors border border-white/10"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiscountManager;
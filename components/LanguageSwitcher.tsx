@@ -0,0 +1,35 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import { LANGS } from '../utils/i18n';
+
+const LANG_LABELS = { ar: 'ع', en: 'EN' };
+
+// Language and digit style for this device
+const LanguageSwitcher: React.FC = () => {
+  const { lang, arabicDigits, setLang, setArabicDigits, t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-1 text-xs font-bold" title={t('locale.switch')}>
+      <Languages className="w-4 h-4 text-slate-500" />
+      {LANGS.map(code => (
+        <button
+          key={code}
+          onClick={() => setLang(code)}
+          className={`px-2 py-1 border transition-colors ${lang === code ? 'border-cyan-500 text-cyan-300 bg-cyan-950/40' : 'border-white/10 text-slate-500 hover:text-white'}`}
+        >
+          {LANG_LABELS[code]}
+        </button>
+      ))}
+      <button
+        onClick={() => setArabicDigits(!arabicDigits)}
+        className={`px-2 py-1 border transition-colors ${arabicDigits ? 'border-fuchsia-500 text-fuchsia-300 bg-fuchsia-950/40' : 'border-white/10 text-slate-500 hover:text-white'}`}
+        title={t('locale.arabicDigits')}
+      >
+        ١٢٣
+      </button>
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,68 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { DEFAULT_LOCALE, Formatters, Lang, LocaleSettings, Translate, createFormatters, getDir, translate } from '../utils/i18n';
+
+// Per device: the counter can run in Arabic while the owner's phone shows English
+const LOCALE_KEY = 'ps_locale';
+
+interface I18nValue extends Formatters {
+  lang: Lang;
+  dir: 'rtl' | 'ltr';
+  arabicDigits: boolean;
+  arrow: string; // ' → ' or ' ← ', pointing the way the text reads
+  t: Translate;
+  setLang: (lang: Lang) => void;
+  setArabicDigits: (on: boolean) => void;
+}
+
+const readLocale = (): LocaleSettings => {
+  try {
+    return { ...DEFAULT_LOCALE, ...JSON.parse(localStorage.getItem(LOCALE_KEY) ?? '{}') };
+  } catch (e) {
+    return DEFAULT_LOCALE;
+  }
+};
+
+const buildValue = (settings: LocaleSettings, update: (patch: Partial<LocaleSettings>) => void): I18nValue => {
+  const formatters = createFormatters(settings);
+  return {
+    ...formatters,
+    lang: settings.lang,
+    dir: getDir(settings.lang),
+    arabicDigits: settings.arabicDigits,
+    arrow: settings.lang === 'ar' ? ' ← ' : ' → ',
+    // Numbers dropped into a message get the same digits as the rest of the screen
+    t: (key, params) => formatters.digits(translate(settings.lang, key, params)),
+    setLang: (lang) => update({ lang }),
+    setArabicDigits: (arabicDigits) => update({ arabicDigits })
+  };
+};
+
+const I18nContext = createContext<I18nValue>(buildValue(DEFAULT_LOCALE, () => {}));
+
+export const useI18n = () => useContext(I18nContext);
+
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<LocaleSettings>(readLocale);
+
+  const update = useCallback((patch: Partial<LocaleSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      try {
+        localStorage.setItem(LOCALE_KEY, JSON.stringify(next));
+      } catch (e) {
+        console.error('Failed to store language', e);
+      }
+      return next;
+    });
+  }, []);
+
+  // The whole page mirrors with the language
+  useEffect(() => {
+    document.documentElement.lang = settings.lang;
+    document.documentElement.dir = getDir(settings.lang);
+  }, [settings.lang]);
+
+  const value: I18nValue = React.useMemo(() => buildValue(settings, update), [settings, update]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
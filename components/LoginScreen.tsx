@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Gamepad2, KeyRound, ShieldCheck } from 'lucide-react';
+import { StaffMember } from '../types';
+import { useI18n } from './LocaleProvider';
+import LanguageSwitcher from './LanguageSwitcher';
+import { MessageKey } from '../utils/i18n';
+import { LoungeDispatch } from '../store/reducer';
+import { MIN_PIN_LENGTH, checkPin, createStaffMember, isValidPin } from '../utils/staff';
+
+interface LoginScreenProps {
+  staff: StaffMember[];
+  dispatch: LoungeDispatch;
+  onLogin: (memberId: string) => void;
+}
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+// Sign-in gate; on a fresh install it creates the owner account instead
+const LoginScreen: React.FC<LoginScreenProps> = ({ staff, dispatch, onLogin }) => {
+  const [memberId, setMemberId] = useState(staff.length === 1 ? staff[0].id : '');
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const { t } = useI18n();
+
+  const isSetup = staff.length === 0;
+  const member = staff.find(m => m.id === memberId);
+
+  const handleLogin = () => {
+    if (!member) return;
+    if (!checkPin(member, pin)) {
+      setError(t('login.wrongPin'));
+      setPin('');
+      return;
+    }
+    onLogin(member.id);
+  };
+
+  const handleSetup = () => {
+    if (!name.trim()) return setError(t('login.enterName'));
+    if (!isValidPin(pin)) return setError(t('login.pinLength', { min: MIN_PIN_LENGTH }));
+    if (pin !== confirmPin) return setError(t('login.pinMismatch'));
+    const owner = createStaffMember(newId(), name.trim(), 'OWNER', pin, Date.now());
+    dispatch({ type: 'ADD_STAFF', member: owner });
+    onLogin(owner.id);
+  };
+
+  const inputClass = 'w-full bg-black border border-white/10 text-white px-3 py-2 focus:outline-none focus:border-cyan-500 font-mono';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="bg-black border border-cyan-500/50 p-1 max-w-sm w-full shadow-[0_0_50px_rgba(6,182,212,0.2)]">
+        <div className="bg-slate-950 p-6 flex flex-col gap-5">
+          <div className="flex items-center gap-3 text-cyan-400">
+            <Gamepad2 className="w-7 h-7" />
+            <h3 className="text-xl font-bold font-tech uppercase tracking-widest">
+              {isSetup ? t('login.createOwner') : t('login.title')}
+            </h3>
+            <div className="ms-auto">
+              <LanguageSwitcher />
+            </div>
+          </div>
+
+          {isSetup ? (
+            <div className="flex flex-col gap-3">
+              <p className="text-[10px] text-slate-500 font-mono">
+                {t('login.setupHint')}
+              </p>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => { setName(e.target.value); setError(''); }}
+                placeholder={t('login.name')}
+                className={inputClass}
+                autoFocus
+              />
+              <input
+                type="password"
+                inputMode="numeric"
+                value={pin}
+                onChange={(e) => { setPin(e.target.value); setError(''); }}
+                placeholder={t('login.pin')}
+                className={inputClass}
+              />
+              <input
+                type="password"
+                inputMode="numeric"
+                value={confirmPin}
+                onChange={(e) => { setConfirmPin(e.target.value); setError(''); }}
+                onKeyDown={(e) => e.key === 'Enter' && handleSetup()}
+                placeholder={t('login.confirmPin')}
+                className={inputClass}
+              />
+            </div>
+          ) : (
+            <div className="flex flex-col gap-3">
+              <div className="grid grid-cols-2 gap-2">
+                {staff.map(m => (
+                  <button
+                    key={m.id}
+                    onClick={() => { setMemberId(m.id); setPin(''); setError(''); }}
+                    className={`px-3 py-2 border text-start transition-colors ${m.id === memberId ? 'border-cyan-500 bg-cyan-950/40 text-cyan-300' : 'border-white/10 text-slate-400 hover:text-white'}`}
+                  >
+                    <div className="text-sm font-bold truncate">{m.name}</div>
+                    <div className="text-[10px] font-tech uppercase tracking-widest text-slate-500">{t(`role.${m.role}` as MessageKey)}</div>
+                  </button>
+                ))}
+              </div>
+              {member && (
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  value={pin}
+                  onChange={(e) => { setPin(e.target.value); setError(''); }}
+                  onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+                  placeholder={t('login.pin')}
+                  className={`${inputClass} text-center tracking-[0.5em]`}
+                  autoFocus
+                />
+              )}
+            </div>
+          )}
+
+          {error && <div className="text-xs text-red-500 font-tech uppercase tracking-wider">{error}</div>}
+
+          <button
+            onClick={isSetup ? handleSetup : handleLogin}
+            disabled={!isSetup && (!member || !pin)}
+            className="flex items-center justify-center gap-2 bg-cyan-600/20 hover:bg-cyan-600 text-cyan-400 hover:text-white border border-cyan-600 py-3 font-bold font-tech uppercase tracking-wider transition-all duration-300 disabled:opacity-30 disabled:hover:bg-cyan-600/20 disabled:hover:text-cyan-400"
+          >
+            {isSetup ? <ShieldCheck className="w-4 h-4" /> : <KeyRound className="w-4 h-4" />}
+            {isSetup ? t('login.create') : t('login.signIn')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Printer, X, Save, Binary } from 'lucide-react';
+import { LedgerEntry, PaperWidth, ReceiptSettings, SessionRecord } from '../types';
+import { LoungeDispatch } from '../store/reducer';
+import { ReceiptLine, buildDailySummary, printReceipt, receiptToEscPos } from '../utils/receipt';
+import { downloadFile } from '../utils/backup';
+import { useI18n } from './LocaleProvider';
+
+interface PrintToolsProps {
+  receipt: ReceiptSettings;
+  allRecords: SessionRecord[]; // Current shift plus archived shifts
+  ledger: LedgerEntry[];
+  canEditSettings: boolean;
+  canPrintSummary: boolean;
+  dispatch: LoungeDispatch;
+  onClose: () => void;
+}
+
+const PAPER_WIDTHS: PaperWidth[] = [58, 80];
+
+// Local YYYY-MM-DD
+const today = () => new Date().toLocaleDateString('en-CA');
+
+// On-screen look of the roll, close enough to judge layout and wrapping
+const ReceiptPreview: React.FC<{ lines: ReceiptLine[]; paperWidth: PaperWidth }> = ({ lines, paperWidth }) => (
+  <div dir="rtl" className={`bg-white text-black font-sans text-xs leading-snug p-3 mx-auto shadow-lg ${paperWidth === 58 ? 'w-56' : 'w-72'}`}>
+    {lines.map((line, i) => {
+      switch (line.kind) {
+        case 'title': return <div key={i} className="text-center font-bold text-base">{line.text}</div>;
+        case 'text': return <div key={i} className="text-center">{line.text}</div>;
+        case 'note': return <div key={i} className="text-[10px] text-slate-600 pr-2">{line.text}</div>;
+        case 'divider': return <hr key={i} className="border-0 border-t border-dashed border-black my-1" />;
+        case 'row':
+          return (
+            <div key={i} className={`flex justify-between gap-2 ${line.strong ? 'font-bold text-sm' : ''}`}>
+              <span>{line.label}</span>
+              <bdi className="whitespace-nowrap">{line.value}</bdi>
+            </div>
+          );
+      }
+    })}
+  </div>
+);
+
+const PrintTools: React.FC<PrintToolsProps> = ({ receipt, allRecords, ledger, canEditSettings, canPrintSummary, dispatch, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<ReceiptSettings>(receipt);
+  const [day, setDay] = useState(today());
+
+  const summary = buildDailySummary(new Date(`${day}T00:00`).getTime(), allRecords, ledger, draft);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(receipt);
+
+  const update = (patch: Partial<ReceiptSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const inputClass = 'bg-black/40 border border-white/10 px-2 py-1.5 text-xs font-mono text-cyan-300 focus:outline-none focus:border-cyan-500/50';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-cyan-500/50 p-1 max-w-3xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(34,211,238,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-cyan-400">
+              <Printer className="w-6 h-6" />
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('print.title')}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto grid md:grid-cols-2 gap-6">
+            <div className="flex flex-col gap-6">
+              {/* Receipt header & printer */}
+              {canEditSettings && (
+                <section className="flex flex-col gap-3">
+                  <h4 className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest">{t('print.receipt')}</h4>
+                  <input type="text" dir="auto" value={draft.shopName} onChange={(e) => update({ shopName: e.target.value })} placeholder={t('print.shopName')} className={inputClass} />
+                  <input type="text" dir="auto" value={draft.address} onChange={(e) => update({ address: e.target.value })} placeholder={t('print.address')} className={inputClass} />
+                  <input type="text" dir="auto" value={draft.phone} onChange={(e) => update({ phone: e.target.value })} placeholder={t('print.phone')} className={inputClass} />
+                  <input type="text" dir="auto" value={draft.footer} onChange={(e) => update({ footer: e.target.value })} placeholder={t('print.footer')} className={inputClass} />
+
+                  <div className="flex items-center gap-2 text-[10px] text-slate-500 font-tech uppercase">
+                    {t('print.paper')}
+                    {PAPER_WIDTHS.map(w => (
+                      <button
+                        key={w}
+                        onClick={() => update({ paperWidth: w })}
+                        className={`px-3 py-1 border font-mono transition-colors ${
+                          draft.paperWidth === w ? 'border-cyan-500 bg-cyan-500/20 text-cyan-300' : 'border-white/10 text-slate-500 hover:text-cyan-400'
+                        }`}
+                      >
+                        {t('print.paperWidth', { n: w })}
+                      </button>
+                    ))}
+                  </div>
+
+                  <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+                    {t('print.bridgeUrl')}
+                    <input
+                      type="url"
+                      value={draft.bridgeUrl}
+                      onChange={(e) => update({ bridgeUrl: e.target.value.trim() })}
+                      placeholder="http://localhost:9100/print"
+                      className={inputClass}
+                      dir="ltr"
+                    />
+                    <span className="normal-case font-mono text-slate-600">
+                      {t('print.bridgeHint')}
+                    </span>
+                  </label>
+
+                  <button
+                    onClick={() => dispatch({ type: 'SET_RECEIPT_SETTINGS', receipt: draft })}
+                    disabled={!isDirty}
+                    className="flex items-center justify-center gap-2 border border-cyan-600 text-cyan-400 hover:bg-cyan-600 hover:text-white py-2 text-xs font-tech uppercase tracking-wider disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-cyan-400"
+                  >
+                    <Save className="w-4 h-4" /> {t('common.save')}
+                  </button>
+                </section>
+              )}
+
+              {/* Daily summary */}
+              {canPrintSummary && (
+                <section className={`flex flex-col gap-3 ${canEditSettings ? 'border-t border-white/5 pt-5' : ''}`}>
+                  <h4 className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest">{t('print.dailySummary')}</h4>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input type="date" value={day} max={today()} onChange={(e) => e.target.value && setDay(e.target.value)} className={inputClass} />
+                    <button
+                      onClick={() => printReceipt(summary, draft)}
+                      className="flex items-center gap-2 border border-fuchsia-500/50 text-fuchsia-400 hover:bg-fuchsia-500/10 px-3 py-1.5 text-xs font-tech uppercase tracking-wider"
+                    >
+                      <Printer className="w-4 h-4" /> {t('print.print')}
+                    </button>
+                    <button
+                      onClick={() => downloadFile(`daily-summary_${day}.bin`, receiptToEscPos(summary, draft.paperWidth), 'application/octet-stream')}
+                      className="flex items-center gap-2 border border-white/10 text-slate-400 hover:text-cyan-400 px-3 py-1.5 text-xs font-tech uppercase tracking-wider"
+                      title={t('print.rawHint')}
+                    >
+                      <Binary className="w-4 h-4" /> ESC/POS
+                    </button>
+                  </div>
+                </section>
+              )}
+            </div>
+
+            <ReceiptPreview lines={summary} paperWidth={draft.paperWidth} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrintTools;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Coffee, Plus, Trash2, X, Save } from 'lucide-react';
+import { Product } from '../types';
+import { useI18n } from './LocaleProvider';
+
+interface ProductManagerProps {
+  products: Product[];
+  onSave: (products: Product[]) => void;
+  onClose: () => void;
+}
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+const ProductManager: React.FC<ProductManagerProps> = ({ products, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Product[]>(() => products.map(p => ({ ...p })));
+  const { t } = useI18n();
+
+  const updateProduct = (productId: string, patch: Partial<Product>) => {
+    setDraft(prev => prev.map(p => p.id === productId ? { ...p, ...patch } : p));
+  };
+
+  const handleAddProduct = () => {
+    setDraft(prev => [...prev, { id: newId(), name: '', price: 0, stock: 0 }]);
+  };
+
+  const handleSave = () => {
+    onSave(draft.filter(p => p.name.trim()).map(p => ({ ...p, name: p.name.trim() })));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-cyan-500/50 p-1 max-w-xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(34,211,238,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-cyan-400">
+              <Coffee className="w-6 h-6" />
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('bar.title')}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto flex flex-col gap-2">
+            <div className="grid grid-cols-[1fr_6rem_5rem_2rem] gap-2 text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest px-1">
+              <span>{t('bar.item')}</span>
+              <span>{t('bar.price')}</span>
+              <span>{t('bar.stock')}</span>
+              <span></span>
+            </div>
+            {draft.map(product => (
+              <div key={product.id} className="grid grid-cols-[1fr_6rem_5rem_2rem] gap-2 items-center">
+                <input
+                  type="text"
+                  value={product.name}
+                  onChange={(e) => updateProduct(product.id, { name: e.target.value })}
+                  className="bg-black border border-white/10 text-white text-sm px-2 py-1.5 focus:outline-none focus:border-cyan-500"
+                  placeholder={t('bar.placeholder')}
+                />
+                <input
+                  type="number"
+                  value={product.price}
+                  onChange={(e) => updateProduct(product.id, { price: parseFloat(e.target.value) || 0 })}
+                  className="bg-black border border-white/10 text-white text-sm px-2 py-1.5 font-mono focus:outline-none focus:border-cyan-500"
+                />
+                <input
+                  type="number"
+                  value={product.stock}
+                  onChange={(e) => updateProduct(product.id, { stock: parseInt(e.target.value) || 0 })}
+                  className={`bg-black border border-white/10 text-sm px-2 py-1.5 font-mono focus:outline-none focus:border-cyan-500 ${product.stock <= 0 ? 'text-red-400' : 'text-white'}`}
+                />
+                <button
+                  onClick={() => setDraft(prev => prev.filter(p => p.id !== product.id))}
+                  className="text-slate-600 hover:text-red-500 flex justify-center"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+
+            <button
+              onClick={handleAddProduct}
+              className="mt-2 flex items-center justify-center gap-2 border border-dashed border-cyan-500/30 py-2 text-cyan-700 hover:text-cyan-400 hover:border-cyan-400 font-tech uppercase tracking-widest text-sm"
+            >
+              <Plus className="w-4 h-4" /> {t('bar.addItem')}
+            </button>
+          </div>
+
+          <div className="p-5 border-t border-white/5 flex gap-3 font-tech uppercase tracking-wider">
+            <button
+              onClick={handleSave}
+              className="flex-1 flex items-center justify-center gap-2 bg-cyan-600/20 hover:bg-cyan-600 text-cyan-400 hover:text-white border border-cyan-600 py-3 font-bold transition-all duration-300"
+            >
+              <Save className="w-4 h-4" /> {t('common.save')}
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-transparent hover:bg-white/10 text-slate-400 py-3 font-bold transition-colors border border-white/10"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductManager;
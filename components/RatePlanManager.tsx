@@ -0,0 +1,375 @@
+import React, { useState } from 'react';
+import { Tags, Plus, Trash2, X, Save } from 'lucide-react';
+import { BillingPolicy, OvertimeMode, OvertimePolicy, RatePlan, RateRule, RateTable, TimePackage } from '../types';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from './LocaleProvider';
+import { AMOUNT_ROUNDING, BILLING_BLOCKS, CONTROLLER_OPTIONS, DEFAULT_OVERTIME, EXACT_BILLING, getBilledSeconds } from '../utils/pricing';
+
+interface RatePlanManagerProps {
+  ratePlans: RatePlan[];
+  onSave: (plans: RatePlan[]) => void;
+  onClose: () => void;
+}
+
+const DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const OVERTIME_MODES: { mode: OvertimeMode; label: MessageKey }[] = [
+  { mode: 'RATE', label: 'rates.overtimeRate' },
+  { mode: 'BLOCKS', label: 'rates.overtimeBlocks' },
+  { mode: 'FREE', label: 'rates.overtimeFree' }
+];
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+const RateInputs: React.FC<{ rates: RateTable; onChange: (rates: RateTable) => void }> = ({ rates, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex gap-2">
+      {CONTROLLER_OPTIONS.map(count => (
+        <label key={count} className="flex items-center gap-1 border-b border-slate-700 bg-black/40 px-2 py-1">
+          <span className="text-[10px] text-slate-500 font-tech">{t('format.players', { n: count })}</span>
+          <input
+            type="number"
+            value={rates[count]}
+            onChange={(e) => onChange({ ...rates, [count]: parseFloat(e.target.value) || 0 })}
+            className="w-14 bg-transparent text-end text-sm font-mono text-white focus:outline-none"
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
+
+const BillingInputs: React.FC<{ billing: BillingPolicy; onChange: (patch: Partial<BillingPolicy>) => void }> = ({ billing, onChange }) => {
+  const { t, arrow } = useI18n();
+  return (
+    <div className="border-t border-white/5 pt-4 flex items-center gap-3 flex-wrap">
+      <span className="text-[10px] text-slate-500 font-tech uppercase tracking-widest" title={t('rates.billingScope')}>{t('rates.billing')}</span>
+      <div className="flex gap-1">
+        {BILLING_BLOCKS.map(minutes => (
+          <button
+            key={minutes}
+            onClick={() => onChange({ blockMinutes: minutes })}
+            className={`px-2 py-0.5 text-[10px] font-tech uppercase border ${billing.blockMinutes === minutes ? 'border-cyan-500/50 text-cyan-400 bg-cyan-950/30' : 'border-white/10 text-slate-600'}`}
+          >
+            {minutes ? t('format.minutes', { m: minutes }) : t('rates.exact')}
+          </button>
+        ))}
+      </div>
+      {billing.blockMinutes > 0 && (
+        <label className="flex items-center gap-1 border-b border-slate-700 bg-black/40 px-2 py-1">
+          <input
+            type="number"
+            min="0"
+            max={billing.blockMinutes - 1}
+            value={billing.graceMinutes}
+            onChange={(e) => onChange({ graceMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="w-12 bg-transparent text-end text-sm font-mono text-white focus:outline-none"
+          />
+          <span className="text-[10px] text-slate-500 font-tech">{t('rates.minGrace')}</span>
+        </label>
+      )}
+      <label className="flex items-center gap-1 border-b border-slate-700 bg-black/40 px-2 py-1">
+        <input
+          type="number"
+          min="0"
+          value={billing.minimumMinutes}
+          onChange={(e) => onChange({ minimumMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+          className="w-12 bg-transparent text-end text-sm font-mono text-white focus:outline-none"
+        />
+        <span className="text-[10px] text-slate-500 font-tech">{t('rates.minMinimum')}</span>
+      </label>
+      <div className="flex items-center gap-1">
+        <span className="text-[10px] text-slate-500 font-tech uppercase">{t('rates.round')}</span>
+        {AMOUNT_ROUNDING.map(step => (
+          <button
+            key={step}
+            onClick={() => onChange({ roundTo: step })}
+            className={`px-2 py-0.5 text-[10px] font-mono border ${billing.roundTo === step ? 'border-cyan-500/50 text-cyan-400 bg-cyan-950/30' : 'border-white/10 text-slate-600'}`}
+          >
+            {step || t('rates.off')}
+          </button>
+        ))}
+      </div>
+      <span className="ms-auto text-[10px] text-slate-600 font-mono" title={t('rates.billingExampleTitle')}>
+        {t('format.minutes', { m: 61 })}{arrow}{t('format.minutes', { m: Math.round(getBilledSeconds(61 * 60, billing) / 60) })}
+      </span>
+    </div>
+  );
+};
+
+const RatePlanManager: React.FC<RatePlanManagerProps> = ({ ratePlans, onSave, onClose }) => {
+  // Edit a draft copy so Cancel leaves running cards untouched
+  const [draft, setDraft] = useState<RatePlan[]>(() => JSON.parse(JSON.stringify(ratePlans)));
+  const { t, dayName, arrow } = useI18n();
+
+  const updatePlan = (planId: string, patch: Partial<RatePlan>) => {
+    setDraft(prev => prev.map(p => p.id === planId ? { ...p, ...patch } : p));
+  };
+
+  const updateRule = (plan: RatePlan, ruleId: string, patch: Partial<RateRule>) => {
+    updatePlan(plan.id, { rules: plan.rules.map(r => r.id === ruleId ? { ...r, ...patch } : r) });
+  };
+
+  const handleAddPlan = () => {
+    setDraft(prev => [...prev, {
+      id: newId(),
+      name: t('rates.planN', { n: prev.length + 1 }),
+      rates: { 1: 50, 2: 50, 4: 70 },
+      rules: []
+    }]);
+  };
+
+  const handleAddRule = (plan: RatePlan) => {
+    updatePlan(plan.id, {
+      rules: [...plan.rules, { id: newId(), label: t('rates.peak'), days: [], from: '18:00', to: '00:00', rates: { ...plan.rates } }]
+    });
+  };
+
+  const updatePackage = (plan: RatePlan, packageId: string, patch: Partial<TimePackage>) => {
+    updatePlan(plan.id, { packages: (plan.packages ?? []).map(p => p.id === packageId ? { ...p, ...patch } : p) });
+  };
+
+  const handleAddPackage = (plan: RatePlan) => {
+    updatePlan(plan.id, {
+      packages: [...(plan.packages ?? []), { id: newId(), name: t('rates.oneHour'), minutes: 60, price: plan.rates[1] }]
+    });
+  };
+
+  const updateOvertime = (plan: RatePlan, patch: Partial<OvertimePolicy>) => {
+    updatePlan(plan.id, { overtime: { ...DEFAULT_OVERTIME, ...plan.overtime, ...patch } });
+  };
+
+  const updateBilling = (plan: RatePlan, patch: Partial<BillingPolicy>) => {
+    updatePlan(plan.id, { billing: { ...EXACT_BILLING, ...plan.billing, ...patch } });
+  };
+
+  const toggleDay = (plan: RatePlan, rule: RateRule, day: number) => {
+    const days = rule.days.includes(day) ? rule.days.filter(d => d !== day) : [...rule.days, day].sort();
+    updateRule(plan, rule.id, { days });
+  };
+
+  const handleSave = () => {
+    onSave(draft.map(p => ({
+      ...p,
+      name: p.name.trim() || t('rates.unnamed'),
+      // A package without minutes can't be sold
+      packages: p.packages?.filter(pkg => pkg.minutes > 0).map(pkg => ({ ...pkg, name: pkg.name.trim() || t('rates.packageMinutes', { n: pkg.minutes }) })),
+      billing: p.billing && JSON.stringify({ ...EXACT_BILLING, ...p.billing }) !== JSON.stringify(EXACT_BILLING) ? p.billing : undefined
+    })));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-fuchsia-500/50 p-1 max-w-3xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(192,38,211,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-fuchsia-400">
+              <Tags className="w-6 h-6" />
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('rates.title')}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto flex flex-col gap-6">
+            {draft.map(plan => (
+              <div key={plan.id} className="border border-white/10 bg-black/40 p-4 flex flex-col gap-4">
+                <div className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    value={plan.name}
+                    onChange={(e) => updatePlan(plan.id, { name: e.target.value })}
+                    className="flex-1 bg-black border border-fuchsia-500/30 text-fuchsia-400 text-sm px-2 py-1 focus:outline-none focus:border-fuchsia-500 font-tech uppercase"
+                  />
+                  <button
+                    onClick={() => setDraft(prev => prev.filter(p => p.id !== plan.id))}
+                    disabled={draft.length === 1}
+                    className="text-slate-600 hover:text-red-500 disabled:opacity-30 disabled:hover:text-slate-600"
+                    title={t('rates.deletePlan')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div className="flex items-center justify-between gap-3 flex-wrap">
+                  <span className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest">{t('rates.baseRate')}</span>
+                  <RateInputs rates={plan.rates} onChange={(rates) => updatePlan(plan.id, { rates })} />
+                </div>
+
+                {plan.rules.map(rule => (
+                  <div key={rule.id} className="border-s-2 border-fuchsia-500/40 ps-3 flex flex-col gap-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <input
+                        type="text"
+                        value={rule.label}
+                        onChange={(e) => updateRule(plan, rule.id, { label: e.target.value })}
+                        className="w-32 bg-black border border-white/10 text-white text-xs px-2 py-1 focus:outline-none focus:border-cyan-500 font-tech uppercase"
+                      />
+                      <input
+                        type="time"
+                        value={rule.from}
+                        onChange={(e) => updateRule(plan, rule.id, { from: e.target.value })}
+                        className="bg-black border border-white/10 text-white text-xs px-2 py-1 font-mono"
+                      />
+                      <span className="text-slate-600 text-xs">{arrow.trim()}</span>
+                      <input
+                        type="time"
+                        value={rule.to}
+                        onChange={(e) => updateRule(plan, rule.id, { to: e.target.value })}
+                        className="bg-black border border-white/10 text-white text-xs px-2 py-1 font-mono"
+                      />
+                      <button
+                        onClick={() => updatePlan(plan.id, { rules: plan.rules.filter(r => r.id !== rule.id) })}
+                        className="ms-auto text-slate-600 hover:text-red-500"
+                        title={t('rates.deleteRule')}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <div className="flex items-center justify-between gap-3 flex-wrap">
+                      <div className="flex gap-1">
+                        {DAYS.map(day => (
+                          <button
+                            key={day}
+                            onClick={() => toggleDay(plan, rule, day)}
+                            className={`px-1.5 py-0.5 text-[10px] font-tech border ${rule.days.includes(day) ? 'border-cyan-500/50 text-cyan-400 bg-cyan-950/30' : 'border-white/10 text-slate-600'}`}
+                          >
+                            {dayName(day)}
+                          </button>
+                        ))}
+                      </div>
+                      <RateInputs rates={rule.rates} onChange={(rates) => updateRule(plan, rule.id, { rates })} />
+                    </div>
+                  </div>
+                ))}
+
+                <button
+                  onClick={() => handleAddRule(plan)}
+                  className="self-start flex items-center gap-1 text-[10px] text-cyan-600 hover:text-cyan-400 font-tech uppercase tracking-widest"
+                >
+                  <Plus className="w-3 h-3" /> {t('rates.timeWindow')}
+                </button>
+
+                {/* Prepaid packages */}
+                <div className="border-t border-white/5 pt-4 flex flex-col gap-2">
+                  <span className="text-[10px] text-slate-500 font-tech uppercase tracking-widest">{t('rates.packages')}</span>
+                  {(plan.packages ?? []).map(pkg => (
+                    <div key={pkg.id} className="flex items-center gap-2 flex-wrap">
+                      <input
+                        type="text"
+                        value={pkg.name}
+                        onChange={(e) => updatePackage(plan, pkg.id, { name: e.target.value })}
+                        className="bg-black border border-white/10 text-fuchsia-300 text-xs px-2 py-1 w-32 focus:outline-none font-tech uppercase"
+                      />
+                      <label className="flex items-center gap-1 border-b border-slate-700 bg-black/40 px-2 py-1">
+                        <input
+                          type="number"
+                          min="1"
+                          value={pkg.minutes}
+                          onChange={(e) => updatePackage(plan, pkg.id, { minutes: parseInt(e.target.value) || 0 })}
+                          className="w-14 bg-transparent text-end text-sm font-mono text-white focus:outline-none"
+                        />
+                        <span className="text-[10px] text-slate-500 font-tech">{t('rates.min')}</span>
+                      </label>
+                      <label className="flex items-center gap-1 border-b border-slate-700 bg-black/40 px-2 py-1">
+                        <input
+                          type="number"
+                          min="0"
+                          value={pkg.price}
+                          onChange={(e) => updatePackage(plan, pkg.id, { price: parseFloat(e.target.value) || 0 })}
+                          className="w-16 bg-transparent text-end text-sm font-mono text-white focus:outline-none"
+                        />
+                        <span className="text-[10px] text-slate-500 font-tech">{t('common.currency')}</span>
+                      </label>
+                      <button
+                        onClick={() => updatePlan(plan.id, { packages: (plan.packages ?? []).filter(p => p.id !== pkg.id) })}
+                        className="ms-auto text-slate-600 hover:text-red-500"
+                        title={t('rates.deletePackage')}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => handleAddPackage(plan)}
+                    className="self-start flex items-center gap-1 text-[10px] text-cyan-600 hover:text-cyan-400 font-tech uppercase tracking-widest"
+                  >
+                    <Plus className="w-3 h-3" /> {t('rates.package')}
+                  </button>
+                </div>
+
+                {/* What a fixed session costs once its time runs out */}
+                <div className="border-t border-white/5 pt-4 flex items-center gap-3 flex-wrap">
+                  <span className="text-[10px] text-slate-500 font-tech uppercase tracking-widest">{t('rates.overtime')}</span>
+                  <div className="flex gap-1">
+                    {OVERTIME_MODES.map(({ mode, label }) => (
+                      <button
+                        key={mode}
+                        onClick={() => updateOvertime(plan, { mode })}
+                        className={`px-2 py-0.5 text-[10px] font-tech uppercase border ${(plan.overtime ?? DEFAULT_OVERTIME).mode === mode ? 'border-cyan-500/50 text-cyan-400 bg-cyan-950/30' : 'border-white/10 text-slate-600'}`}
+                      >
+                        {t(label)}
+                      </button>
+                    ))}
+                  </div>
+                  {(plan.overtime ?? DEFAULT_OVERTIME).mode === 'BLOCKS' && (
+                    <label className="flex items-center gap-1 border-b border-slate-700 bg-black/40 px-2 py-1">
+                      <input
+                        type="number"
+                        min="1"
+                        value={(plan.overtime ?? DEFAULT_OVERTIME).blockMinutes}
+                        onChange={(e) => updateOvertime(plan, { blockMinutes: Math.max(1, parseInt(e.target.value) || 1) })}
+                        className="w-12 bg-transparent text-end text-sm font-mono text-white focus:outline-none"
+                      />
+                      <span className="text-[10px] text-slate-500 font-tech">{t('rates.minBlock')}</span>
+                    </label>
+                  )}
+                  {(plan.overtime ?? DEFAULT_OVERTIME).mode !== 'FREE' && (
+                    <label className="flex items-center gap-1 border-b border-slate-700 bg-black/40 px-2 py-1">
+                      <input
+                        type="number"
+                        min="0"
+                        value={(plan.overtime ?? DEFAULT_OVERTIME).graceMinutes}
+                        onChange={(e) => updateOvertime(plan, { graceMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                        className="w-12 bg-transparent text-end text-sm font-mono text-white focus:outline-none"
+                      />
+                      <span className="text-[10px] text-slate-500 font-tech">{t('rates.minGrace')}</span>
+                    </label>
+                  )}
+                </div>
+
+                {/* How time-billed sessions are charged */}
+                <BillingInputs billing={plan.billing ?? EXACT_BILLING} onChange={(patch) => updateBilling(plan, patch)} />
+              </div>
+            ))}
+
+            <button
+              onClick={handleAddPlan}
+              className="flex items-center justify-center gap-2 border border-dashed border-cyan-500/30 py-3 text-cyan-700 hover:text-cyan-400 hover:border-cyan-400 font-tech uppercase tracking-widest text-sm"
+            >
+              <Plus className="w-4 h-4" /> {t('rates.newPlan')}
+            </button>
+          </div>
+
+          <div className="p-5 border-t border-white/5 flex gap-3 font-tech uppercase tracking-wider">
+            <button
+              onClick={handleSave}
+              className="flex-1 flex items-center justify-center gap-2 bg-fuchsia-600/20 hover:bg-fuchsia-600 text-fuchsia-400 hover:text-white border border-fuchsia-600 py-3 font-bold transition-all duration-300"
+            >
+              <Save className="w-4 h-4" /> {t('common.save')}
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-transparent hover:bg-white/10 text-slate-400 py-3 font-bold transition-colors border border-white/10"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RatePlanManager;
@@ -0,0 +1,445 @@
+import React, { useState } from 'react';
+import { CalendarDays, X, Plus, ChevronLeft, ChevronRight, Save, Trash2, AlertTriangle, Ban, UserX } from 'lucide-react';
+import { ActiveSession, Customer, Reservation, ReservationStatus, Screen } from '../types';
+import { LoungeDispatch } from '../store/reducer';
+import { createCustomer, findCustomer } from '../utils/loyalty';
+import { bucketStart } from '../utils/analytics';
+import { findConflicts, getReservationEnd, getSessionBusyUntil, isBlocking, reservationsBetween } from '../utils/reservations';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface ReservationCalendarProps {
+  reservations: Reservation[];
+  screens: Screen[];
+  sessions: Record<string, ActiveSession>;
+  customers: Customer[];
+  dispatch: LoungeDispatch;
+  onClose: () => void;
+}
+
+type CalendarView = 'day' | 'week';
+
+// Form values as typed; converted to a Reservation on save
+interface ReservationForm {
+  id?: string;
+  screenId: string;
+  customerName: string;
+  phone: string;
+  date: string;
+  time: string;
+  durationMinutes: string;
+  deposit: string;
+  notes: string;
+}
+
+const DAY = 24 * 3600 * 1000;
+
+const STATUS_STYLES: Record<ReservationStatus, string> = {
+  BOOKED: 'border-fuchsia-500/60 bg-fuchsia-950/40 text-fuchsia-300',
+  SEATED: 'border-cyan-500/60 bg-cyan-950/40 text-cyan-300',
+  CANCELLED: 'border-white/10 bg-white/5 text-slate-600 line-through',
+  NO_SHOW: 'border-red-500/30 bg-red-950/20 text-red-400/70 line-through'
+};
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateInput = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+const toTimeInput = (ts: number) => {
+  const d = new Date(ts);
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+const addDays = (dayStart: number, days: number) => {
+  const d = new Date(dayStart);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days).getTime();
+};
+
+const ReservationCalendar: React.FC<ReservationCalendarProps> = ({ reservations, screens, sessions, customers, dispatch, onClose }) => {
+  const { t, dir, arrow, number, amount, date, dateTime, clock, dayName } = useI18n();
+  const now = Date.now();
+  const [view, setView] = useState<CalendarView>('day');
+  const [anchor, setAnchor] = useState(() => bucketStart(now, 'day'));
+  const [form, setForm] = useState<ReservationForm | null>(null);
+
+  const rangeStart = view === 'day' ? anchor : bucketStart(anchor, 'week');
+  const rangeEnd = addDays(rangeStart, view === 'day' ? 1 : 7);
+  const visible = reservationsBetween(reservations, rangeStart, rangeEnd);
+  const screenName = (screenId: string) => screens.find(s => s.id === screenId)?.name ?? screenId;
+
+  const openNew = (screenId = screens[0]?.id ?? '', at = Math.max(now, anchor + 18 * 3600 * 1000)) => {
+    setForm({
+      screenId,
+      customerName: '',
+      phone: '',
+      date: toDateInput(at),
+      time: toTimeInput(Math.ceil(at / (30 * 60 * 1000)) * 30 * 60 * 1000),
+      durationMinutes: '120',
+      deposit: '',
+      notes: ''
+    });
+  };
+
+  const openEdit = (reservation: Reservation) => {
+    setForm({
+      id: reservation.id,
+      screenId: reservation.screenId,
+      customerName: reservation.customerName,
+      phone: reservation.phone,
+      date: toDateInput(reservation.startTime),
+      time: toTimeInput(reservation.startTime),
+      durationMinutes: String(reservation.durationMinutes),
+      deposit: String(reservation.deposit || ''),
+      notes: reservation.notes
+    });
+  };
+
+  const existing = form?.id ? reservations.find(r => r.id === form.id) : undefined;
+  const startTime = form ? new Date(`${form.date}T${form.time}`).getTime() : NaN;
+  const durationMinutes = form ? parseInt(form.durationMinutes) || 0 : 0;
+
+  // The reservation as it would be saved, used for conflict checks before saving
+  const candidate: Reservation | null = form && !isNaN(startTime) && durationMinutes > 0
+    ? {
+        ...(existing ?? { status: 'BOOKED' as ReservationStatus, createdAt: now }),
+        id: form.id ?? '',
+        screenId: form.screenId,
+        customerName: form.customerName.trim(),
+        phone: form.phone.trim(),
+        startTime,
+        durationMinutes,
+        deposit: existing ? existing.deposit : Math.max(0, parseFloat(form.deposit) || 0),
+        notes: form.notes
+      }
+    : null;
+  const conflicts = candidate ? findConflicts(candidate, reservations, sessions, now) : [];
+  // Double bookings are refused; a running session may still finish in time, so it only warns
+  const isDoubleBooked = conflicts.some(c => c.kind === 'RESERVATION');
+  const canSave = !!candidate && !!candidate.customerName && !!candidate.screenId && !isDoubleBooked;
+
+  const handleSave = () => {
+    if (!candidate || !canSave) return;
+
+    if (existing) {
+      dispatch({ type: 'UPDATE_RESERVATION', reservation: candidate });
+      setForm(null);
+      return;
+    }
+
+    // Bookings go through the customer registry so the deposit has a wallet to land in
+    let customer = findCustomer(customers, candidate.phone) ?? findCustomer(customers, candidate.customerName);
+    if (!customer) {
+      customer = { ...createCustomer(newId(), candidate.customerName, now), phone: candidate.phone };
+      dispatch({ type: 'ADD_CUSTOMER', customer });
+    }
+
+    const reservation: Reservation = { ...candidate, id: newId(), customerId: customer.id, customerName: customer.name };
+    dispatch({ type: 'ADD_RESERVATION', reservation });
+    if (reservation.deposit > 0) {
+      dispatch({
+        type: 'POST_LEDGER_ENTRY',
+        entry: {
+          id: `${reservation.id}:deposit`,
+          customerId: customer.id,
+          at: now,
+          type: 'TOP_UP',
+          wallet: reservation.deposit,
+          tab: 0,
+          cash: reservation.deposit,
+          note: t('reservations.depositNote', { station: screenName(reservation.screenId), at: dateTime(reservation.startTime) })
+        }
+      });
+    }
+    setForm(null);
+  };
+
+  const setStatus = (reservation: Reservation, status: ReservationStatus) => {
+    dispatch({ type: 'UPDATE_RESERVATION', reservation: { ...reservation, status } });
+  };
+
+  const PrevIcon = dir === 'rtl' ? ChevronRight : ChevronLeft;
+  const NextIcon = dir === 'rtl' ? ChevronLeft : ChevronRight;
+  const inputClass = 'bg-black border border-white/10 text-white text-sm px-2 py-1.5 focus:outline-none focus:border-fuchsia-500';
+
+  const renderBlock = (reservation: Reservation) => {
+    const from = Math.max(reservation.startTime, rangeStart);
+    const to = Math.min(getReservationEnd(reservation), rangeEnd);
+    return (
+      <button
+        key={reservation.id}
+        onClick={() => openEdit(reservation)}
+        className={`absolute top-1 bottom-1 border text-[10px] font-mono px-1 truncate text-start ${STATUS_STYLES[reservation.status]}`}
+        style={{ insetInlineStart: `${((from - rangeStart) / DAY) * 100}%`, width: `${((to - from) / DAY) * 100}%` }}
+        title={`${reservation.customerName} · ${clock(reservation.startTime)}–${clock(getReservationEnd(reservation))}`}
+      >
+        {clock(reservation.startTime)} {reservation.customerName}
+      </button>
+    );
+  };
+
+  // Running sessions, drawn up to when they are expected to free the station
+  const renderSession = (session: ActiveSession) => {
+    const from = Math.max(session.startTime, rangeStart);
+    const to = Math.min(getSessionBusyUntil(session, now), rangeEnd);
+    if (to <= from) return null;
+    return (
+      <div
+        key={session.id}
+        className="absolute top-3 bottom-3 bg-cyan-500/20 border-y border-cyan-500/40 pointer-events-none"
+        style={{ insetInlineStart: `${((from - rangeStart) / DAY) * 100}%`, width: `${((to - from) / DAY) * 100}%` }}
+      />
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-fuchsia-500/50 p-1 max-w-5xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(192,38,211,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3 text-fuchsia-400">
+              <CalendarDays className="w-6 h-6" />
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('reservations.title')}</h3>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="flex border border-white/10">
+                {(['day', 'week'] as CalendarView[]).map(v => (
+                  <button
+                    key={v}
+                    onClick={() => setView(v)}
+                    className={`px-3 py-1 text-[10px] font-tech uppercase tracking-widest ${view === v ? 'bg-fuchsia-950/50 text-fuchsia-400' : 'text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {t(`reservations.view.${v}` as MessageKey)}
+                  </button>
+                ))}
+              </div>
+              <button onClick={() => setAnchor(addDays(anchor, view === 'day' ? -1 : -7))} className="text-slate-500 hover:text-white p-1">
+                <PrevIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setAnchor(bucketStart(now, 'day'))}
+                className="text-xs font-mono text-slate-300 hover:text-white px-2"
+                title={t('reservations.today')}
+              >
+                {date(rangeStart)}{view === 'week' && `${arrow}${date(rangeEnd - 1)}`}
+              </button>
+              <button onClick={() => setAnchor(addDays(anchor, view === 'day' ? 1 : 7))} className="text-slate-500 hover:text-white p-1">
+                <NextIcon className="w-4 h-4" />
+              </button>
+              <button onClick={onClose} className="text-slate-500 hover:text-white ms-2"><X className="w-5 h-5" /></button>
+            </div>
+          </div>
+
+          <div className="p-5 overflow-y-auto flex flex-col gap-6">
+            {/* Booking form */}
+            {form && (
+              <div className="border border-fuchsia-500/30 bg-fuchsia-950/10 p-4 flex flex-col gap-3">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <input
+                    type="text"
+                    value={form.customerName}
+                    onChange={(e) => setForm({ ...form, customerName: e.target.value })}
+                    list="reservation-customers"
+                    placeholder={t('reservations.customer')}
+                    className={`${inputClass} col-span-2`}
+                  />
+                  <datalist id="reservation-customers">
+                    {customers.map(c => <option key={c.id} value={c.name}>{c.phone}</option>)}
+                  </datalist>
+                  <input
+                    type="tel"
+                    value={form.phone}
+                    onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                    placeholder={t('reservations.phone')}
+                    className={`${inputClass} font-mono col-span-2`}
+                  />
+                  <select
+                    value={form.screenId}
+                    onChange={(e) => setForm({ ...form, screenId: e.target.value })}
+                    className={`${inputClass} font-tech uppercase`}
+                  >
+                    {screens.map(s => <option key={s.id} value={s.id} className="bg-black">{s.name}{s.maintenance ? t('reservations.outOfService') : ''}</option>)}
+                  </select>
+                  <input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} className={`${inputClass} font-mono`} />
+                  <input type="time" value={form.time} onChange={(e) => setForm({ ...form, time: e.target.value })} className={`${inputClass} font-mono`} />
+                  <label className="flex items-center gap-2 text-[10px] text-slate-500 font-tech uppercase">
+                    <input
+                      type="number"
+                      min="15"
+                      step="15"
+                      value={form.durationMinutes}
+                      onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })}
+                      className={`${inputClass} font-mono w-20`}
+                    />
+                    {t('reservations.min')}
+                  </label>
+                  <label className="flex items-center gap-2 text-[10px] text-slate-500 font-tech uppercase">
+                    {t('reservations.deposit')}
+                    <input
+                      type="number"
+                      min="0"
+                      value={form.deposit}
+                      disabled={!!existing}
+                      onChange={(e) => setForm({ ...form, deposit: e.target.value })}
+                      className={`${inputClass} font-mono w-24 disabled:opacity-50`}
+                    />
+                  </label>
+                  <input
+                    type="text"
+                    value={form.notes}
+                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                    placeholder={t('reservations.notes')}
+                    className={`${inputClass} col-span-2 md:col-span-3`}
+                  />
+                </div>
+
+                {conflicts.length > 0 && (
+                  <ul className="flex flex-col gap-1 text-xs font-mono">
+                    {conflicts.map(c => (
+                      <li key={c.id} className={`flex items-center gap-2 ${c.kind === 'RESERVATION' ? 'text-red-400' : 'text-yellow-500'}`}>
+                        <AlertTriangle className="w-3 h-3" />
+                        {t(c.kind === 'RESERVATION' ? 'reservations.booked' : 'reservations.inUse')} {clock(c.from)}–{clock(c.to)}{c.label && ` · ${c.label}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {!existing && (parseFloat(form.deposit) || 0) > 0 && (
+                  <p className="text-[10px] text-slate-500 font-mono">{t('reservations.depositHint')}</p>
+                )}
+
+                <div className="flex gap-3 font-tech uppercase tracking-wider">
+                  <button
+                    onClick={handleSave}
+                    disabled={!canSave}
+                    className="flex-1 flex items-center justify-center gap-2 bg-fuchsia-600/20 hover:bg-fuchsia-600 text-fuchsia-400 hover:text-white border border-fuchsia-600 py-2 font-bold transition-all duration-300 disabled:opacity-30 disabled:hover:bg-fuchsia-600/20 disabled:hover:text-fuchsia-400"
+                  >
+                    <Save className="w-4 h-4" /> {t(existing ? 'reservations.update' : 'reservations.book')}
+                  </button>
+                  <button
+                    onClick={() => setForm(null)}
+                    className="flex-1 bg-transparent hover:bg-white/10 text-slate-400 py-2 font-bold transition-colors border border-white/10"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                </div>
+              </div>
+            )}
+            {/* Day: one timeline per station */}
+            {view === 'day' && (
+              <div className="flex flex-col gap-1">
+                <div className="flex ps-[6.5rem] text-[10px] font-mono text-slate-600">
+                  {Array.from({ length: 8 }, (_, i) => (
+                    <span key={i} className="flex-1">{clock(rangeStart + i * 3 * 3600 * 1000)}</span>
+                  ))}
+                </div>
+                {screens.map(screen => (
+                  <div key={screen.id} className="flex items-center gap-2">
+                    <button
+                      onClick={() => openNew(screen.id)}
+                      className="w-24 shrink-0 text-start text-xs font-tech uppercase text-slate-400 hover:text-fuchsia-400 truncate"
+                      title={t('reservations.new')}
+                    >
+                      {screen.name}
+                    </button>
+                    <div className="relative flex-1 h-10 border border-white/10 bg-black/40 bg-[linear-gradient(90deg,rgba(255,255,255,0.05)_1px,transparent_1px)] bg-[length:12.5%_100%]">
+                      {sessions[screen.id] && renderSession(sessions[screen.id])}
+                      {visible.filter(r => r.screenId === screen.id && (isBlocking(r) || r.status === 'SEATED')).map(renderBlock)}
+                      {now >= rangeStart && now < rangeEnd && (
+                        <div className="absolute top-0 bottom-0 w-px bg-red-500" style={{ insetInlineStart: `${((now - rangeStart) / DAY) * 100}%` }} />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Week: a column per day, starting Saturday */}
+            {view === 'week' && (
+              <div className="grid grid-cols-7 gap-1">
+                {Array.from({ length: 7 }, (_, i) => {
+                  const dayStart = addDays(rangeStart, i);
+                  const dayEnd = addDays(dayStart, 1);
+                  const isToday = now >= dayStart && now < dayEnd;
+                  return (
+                    <div key={dayStart} className={`border min-h-[12rem] flex flex-col ${isToday ? 'border-fuchsia-500/40' : 'border-white/10'} bg-black/40`}>
+                      <button
+                        onClick={() => { setAnchor(dayStart); setView('day'); }}
+                        className={`px-2 py-1 text-[10px] font-tech uppercase tracking-widest text-start border-b border-white/5 ${isToday ? 'text-fuchsia-400' : 'text-slate-500'} hover:text-white`}
+                      >
+                        {dayName(new Date(dayStart).getDay())} {number(new Date(dayStart).getDate())}
+                      </button>
+                      <div className="flex flex-col gap-1 p-1">
+                        {reservationsBetween(visible, dayStart, dayEnd).filter(r => r.startTime >= dayStart).map(r => (
+                          <button
+                            key={r.id}
+                            onClick={() => openEdit(r)}
+                            className={`border px-1 py-0.5 text-[10px] font-mono text-start truncate ${STATUS_STYLES[r.status]}`}
+                          >
+                            {clock(r.startTime)} {screenName(r.screenId)}
+                            <div className="truncate">{r.customerName}</div>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Bookings in range */}
+            <div className="flex flex-col gap-1">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-slate-500 font-tech uppercase tracking-widest">{t('reservations.count', { n: visible.length })}</span>
+                <button
+                  onClick={() => openNew()}
+                  className="flex items-center gap-1 text-[10px] text-fuchsia-500 hover:text-fuchsia-300 font-tech uppercase tracking-widest"
+                >
+                  <Plus className="w-3 h-3" /> {t('reservations.add')}
+                </button>
+              </div>
+              <ul className="divide-y divide-white/5 font-mono text-xs border border-white/5">
+                {visible.length === 0 && (
+                  <li className="px-3 py-4 text-center text-slate-600">{t('reservations.empty')}</li>
+                )}
+                {visible.map(r => (
+                  <li key={r.id} className="flex items-center gap-3 px-3 py-2">
+                    <button onClick={() => openEdit(r)} className="flex-1 flex items-center gap-3 text-start min-w-0">
+                      <span className={`px-1 border text-[10px] ${STATUS_STYLES[r.status]}`}>{t(`reservations.status.${r.status}` as MessageKey)}</span>
+                      <span className="text-slate-400">{dateTime(r.startTime)}</span>
+                      <span className="text-slate-500">{t('format.minutes', { m: r.durationMinutes })}</span>
+                      <span className="text-white truncate">{screenName(r.screenId)} · {r.customerName}</span>
+                      {r.deposit > 0 && <span className="text-green-400">{amount(r.deposit)}</span>}
+                    </button>
+                    {isBlocking(r) && (
+                      <>
+                        <button onClick={() => setStatus(r, 'NO_SHOW')} className="text-slate-600 hover:text-red-400" title={t('reservations.noShow')}>
+                          <UserX className="w-3 h-3" />
+                        </button>
+                        <button onClick={() => setStatus(r, 'CANCELLED')} className="text-slate-600 hover:text-red-400" title={t('common.cancel')}>
+                          <Ban className="w-3 h-3" />
+                        </button>
+                      </>
+                    )}
+                    {!isBlocking(r) && r.status !== 'SEATED' && (
+                      <button
+                        onClick={() => dispatch({ type: 'DELETE_RESERVATION', reservationId: r.id })}
+                        className="text-slate-600 hover:text-red-500"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReservationCalendar;
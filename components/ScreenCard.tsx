@@ -1,49 +1,93 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Play, Square, Monitor, DollarSign, User, Pencil, Check, X, Zap, Clock, Hourglass, Bell } from 'lucide-react';
-import { SessionRecord } from '../types';
+import { createPortal } from 'react-dom';
+import { Play, Pause, Square, Monitor, DollarSign, User, Pencil, Check, X, Zap, Clock, Hourglass, Bell, Coffee, Plus, Minus, Star, ArrowRightLeft, TimerReset, CalendarClock, AlertTriangle, Wrench, Gamepad2, BellOff } from 'lucide-react';
+import { ActiveSession, RatePlan, ControllerCount, Product, SessionType, Customer, LoyaltySettings, SessionRecord, PaymentSplit, Screen, TimePackage, Reservation, StaffStamp, ReceiptSettings, DiscountRule, AlarmSettings } from '../types';
+import { LoungeDispatch } from '../store/reducer';
+import { resolveRate } from '../utils/pricing';
+import { getItemsTotal } from '../utils/records';
+import { buildSessionRecord, findRatePlan, getActiveSeconds, getSessionPlan, isSessionPaused, priceActiveSession } from '../utils/session';
+import { createCustomer, findCustomer } from '../utils/loyalty';
+import { canSeat, getNextReservation, getSessionBusyUntil, runsIntoReservation } from '../utils/reservations';
+import { ManualDiscount } from '../utils/discounts';
+import { controllerOptionsFor } from '../utils/stations';
+import { ShareDraft } from '../utils/shares';
+import { alarmLabel, getAlarmTone, getDueAlarm, playAlarmTone, requestNotifyPermission } from '../utils/alarms';
+import CheckoutDialog from './CheckoutDialog';
+import { useI18n } from './LocaleProvider';
+import { useToast } from './Toaster';
 
 interface ScreenCardProps {
-  id: string;
-  name: string;
-  onRename: (newName: string) => void;
-  onSessionComplete: (record: SessionRecord) => void;
+  screen: Screen;
+  session?: ActiveSession;
+  ratePlans: RatePlan[];
+  products: Product[];
+  customers: Customer[];
+  loyalty: LoyaltySettings;
+  discountRules: DiscountRule[];
+  idleScreens: Screen[]; // Other stations a running session can be moved to
+  reservations: Reservation[]; // Bookings on this station
+  operator: StaffStamp; // Signed-in staff member, stamped on sessions started or stopped here
+  canManageTerminals: boolean;
+  canDiscount: boolean;
+  receipt: ReceiptSettings;
+  alarms: AlarmSettings;
+  dispatch: LoungeDispatch;
 }
 
-type SessionType = 'OPEN' | 'FIXED';
-
-interface SavedState {
-  isActive: boolean;
-  startTime: number | null;
-  hourlyRate: string;
-  customerName: string;
-  sessionType: SessionType;
-  fixedMinutes: string;
-  isTimeUp: boolean;
-}
-
-const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionComplete }) => {
-  const storageKey = `screen_state_${id}`;
-
-  // State
-  const [isActive, setIsActive] = useState(false);
-  const [startTime, setStartTime] = useState<number | null>(null);
-  const [elapsedSeconds, setElapsedSeconds] = useState(0);
-  const [hourlyRate, setHourlyRate] = useState<string>('50');
-  const [customerName, setCustomerName] = useState('');
-  
-  // New State for Fixed Time
-  const [sessionType, setSessionType] = useState<SessionType>('OPEN');
-  const [fixedMinutes, setFixedMinutes] = useState<string>('60');
-  const [isTimeUp, setIsTimeUp] = useState(false);
+const ScreenCard: React.FC<ScreenCardProps> = ({ screen, session, ratePlans, products, customers, loyalty, discountRules, idleScreens, reservations, operator, canManageTerminals, canDiscount, receipt, alarms, dispatch }) => {
+  const { id, name } = screen;
+  const isOutOfService = !!screen.maintenance;
+  const controllerOptions = controllerOptionsFor(screen);
+  const { t, amount, clock, number, timer, arrow } = useI18n();
+  const toast = useToast();
+
+  // Setup form, used while the station is idle
+  const [draftPlanId, setDraftPlanId] = useState<string>(screen.defaultRatePlanId ?? ratePlans[0]?.id ?? '');
+  const [draftControllers, setDraftControllers] = useState<ControllerCount>(1);
+  const [draftCustomerName, setDraftCustomerName] = useState('');
+  // A name that isn't in the registry only becomes a customer when staff ask for it
+  const [draftSaveCustomer, setDraftSaveCustomer] = useState(false);
+  const [draftSessionType, setDraftSessionType] = useState<SessionType>('OPEN');
+  const [draftFixedMinutes, setDraftFixedMinutes] = useState<string>('60');
+  const [draftPackageId, setDraftPackageId] = useState('');
+  const [draftReservationId, setDraftReservationId] = useState('');
+
+  // While a session runs, its own settings take over from the form
+  const isActive = !!session;
+  const startTime = session?.startTime ?? null;
+  const sessionType = session?.sessionType ?? draftSessionType;
+  const fixedMinutes = session ? String(session.fixedMinutes) : draftFixedMinutes;
+  const controllers = session?.controllers ?? (controllerOptions.includes(draftControllers) ? draftControllers : controllerOptions[0]);
+  const customerName = session?.customerName ?? draftCustomerName;
+  const isTimeUp = session?.isTimeUp ?? false;
+  const isPaused = session ? isSessionPaused(session) : false;
+  const orders = session?.orders ?? [];
+  const customer = session
+    ? customers.find(c => c.id === session.customerId)
+    : findCustomer(customers, draftCustomerName);
+
+  const [elapsedSeconds, setElapsedSeconds] = useState(() =>
+    session ? getActiveSeconds(session.startTime, session.pauses, Date.now()) : 0
+  );
+  const [selectedProductId, setSelectedProductId] = useState('');
+  // Bill frozen at the moment Terminate was pressed, awaiting confirmation
+  const [checkoutRecord, setCheckoutRecord] = useState<SessionRecord | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+  const [moveTargetId, setMoveTargetId] = useState('');
+  const [movePlanId, setMovePlanId] = useState('');
   
   const [isEditingName, setIsEditingName] = useState(false);
   const [tempName, setTempName] = useState(name);
 
+  // Alarm ringing on this card until staff acknowledge it: minutes-left mark, 0 = time up
+  const [dueAlarm, setDueAlarm] = useState<number | null>(null);
+
   const timerRef = useRef<number | null>(null);
-  const alarmPlayedRef = useRef(false);
+  // Last time the alarm sounded, so it repeats at the configured interval
+  const lastRingRef = useRef<{ mark: number; at: number } | null>(null);
 
   // Sound Effect Helpers
-  const playTone = (type: 'start' | 'stop' | 'alarm') => {
+  const playTone = (type: 'start' | 'stop') => {
     try {
       const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
       if (!AudioContext) return;
@@ -80,19 +124,6 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
         
         osc.start();
         osc.stop(now + 0.3);
-      } else if (type === 'alarm') {
-        // Alarm Siren
-        osc.type = 'sawtooth';
-        osc.frequency.setValueAtTime(440, now);
-        osc.frequency.linearRampToValueAtTime(880, now + 0.1);
-        osc.frequency.linearRampToValueAtTime(440, now + 0.2);
-        osc.frequency.linearRampToValueAtTime(880, now + 0.3);
-        
-        gain.gain.setValueAtTime(0.1, now);
-        gain.gain.exponentialRampToValueAtTime(0.01, now + 0.5);
-        
-        osc.start();
-        osc.stop(now + 0.5);
       }
       
       // Clean up context after sound plays to prevent reaching browser limit
@@ -105,74 +136,14 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
     }
   };
 
-  // Browser Notification Helper
-  const sendNotification = () => {
-    if ('Notification' in window && Notification.permission === 'granted') {
-      try {
-        new Notification(`Time's Up!`, {
-          body: `Session on ${name} has finished.`,
-          icon: '/vite.svg'
-        });
-      } catch (e) {
-        console.error("Notification failed", e);
-      }
-    }
-  };
-
-  // Load state
-  useEffect(() => {
-    const saved = localStorage.getItem(storageKey);
-    if (saved) {
-      try {
-        const parsed: SavedState = JSON.parse(saved);
-        setHourlyRate(parsed.hourlyRate);
-        setCustomerName(parsed.customerName);
-        setSessionType(parsed.sessionType || 'OPEN');
-        setFixedMinutes(parsed.fixedMinutes || '60');
-        
-        if (parsed.isActive && parsed.startTime) {
-          setStartTime(parsed.startTime);
-          setIsActive(true);
-          setIsTimeUp(parsed.isTimeUp || false);
-          
-          const now = Date.now();
-          setElapsedSeconds(Math.floor((now - parsed.startTime) / 1000));
-        }
-      } catch (e) {
-        console.error("Failed to parse saved state", e);
-      }
-    }
-  }, [id, storageKey]);
-
-  // Save state
-  useEffect(() => {
-    const stateToSave: SavedState = {
-      isActive,
-      startTime,
-      hourlyRate,
-      customerName,
-      sessionType,
-      fixedMinutes,
-      isTimeUp
-    };
-    localStorage.setItem(storageKey, JSON.stringify(stateToSave));
-  }, [isActive, startTime, hourlyRate, customerName, sessionType, fixedMinutes, isTimeUp, storageKey]);
-
   useEffect(() => {
     setTempName(name);
   }, [name]);
 
-  // Format Helpers
-  const formatTime = (totalSeconds: number) => {
-    const isNegative = totalSeconds < 0;
-    const absSeconds = Math.abs(totalSeconds);
-    const hours = Math.floor(absSeconds / 3600);
-    const minutes = Math.floor((absSeconds % 3600) / 60);
-    const seconds = absSeconds % 60;
-    
-    const timeStr = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-    return isNegative ? `-${timeStr}` : timeStr;
-  };
+  // A new default plan for the station shows up in the setup form straight away
+  useEffect(() => {
+    if (screen.defaultRatePlanId) setDraftPlanId(screen.defaultRatePlanId);
+  }, [screen.defaultRatePlanId]);
 
   // Calculations
   const limitSeconds = parseInt(fixedMinutes) * 60;
@@ -183,15 +154,34 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
     return limitSeconds - elapsedSeconds;
   }, [sessionType, elapsedSeconds, limitSeconds]);
 
-  const currentCost = React.useMemo(() => {
-    const rate = parseFloat(hourlyRate) || 0;
-    const hours = elapsedSeconds / 3600;
-    return (hours * rate).toFixed(2);
-  }, [elapsedSeconds, hourlyRate]);
+  const ratePlan = session ? getSessionPlan(session, ratePlans) : findRatePlan(ratePlans, draftPlanId);
+
+  const currentRate = ratePlan ? resolveRate(ratePlan, Date.now(), controllers) : null;
+
+  const currentCost: number = React.useMemo(() => {
+    if (!session) return 0;
+    return priceActiveSession(session, ratePlans, Date.now()).total;
+    // elapsedSeconds is the tick that drives the recalculation
+  }, [elapsedSeconds, session, ratePlans]);
+
+  const itemsTotal = getItemsTotal(orders);
+  const packages = ratePlan?.packages ?? [];
+  const selectedPackage = packages.find(p => p.id === draftPackageId);
+
+  // The next booking on this station, other than the one being played right now
+  const nextReservation = getNextReservation(
+    reservations.filter(r => r.id !== session?.reservationId),
+    id,
+    Date.now()
+  );
+  const plannedMinutes = session ? 0 : parseInt(fixedMinutes) || 0;
+  const clashesWithBooking = !!nextReservation && (session
+    ? getSessionBusyUntil(session, Date.now()) > nextReservation.startTime
+    : sessionType === 'FIXED' && nextReservation.id !== draftReservationId && runsIntoReservation(nextReservation, Date.now(), plannedMinutes));
 
   // Edit Handlers
   const handleSaveName = () => {
-    if (tempName.trim()) onRename(tempName.trim());
+    if (tempName.trim() && canManageTerminals) dispatch({ type: 'RENAME_SCREEN', screenId: id, name: tempName.trim() });
     else setTempName(name);
     setIsEditingName(false);
   };
@@ -203,96 +193,201 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
 
   // Session Control
   const handleStart = () => {
-    if (!hourlyRate) {
-      alert('Enter Hourly Rate');
+    if (isOutOfService) return;
+    if (!ratePlan) {
+      toast(t('card.selectPlan'), 'error');
       return;
     }
     
     if (sessionType === 'FIXED') {
       if (!fixedMinutes || parseInt(fixedMinutes) <= 0) {
-        alert('Please enter valid minutes for fixed session');
+        toast(t('card.invalidMinutes'), 'error');
         return;
       }
       
-      // Safely request notification permission
-      if ('Notification' in window) {
-        if (Notification.permission !== 'granted' && Notification.permission !== 'denied') {
-          Notification.requestPermission().catch(err => console.error("Notification permission request failed", err));
-        }
-      }
+      requestNotifyPermission();
     }
 
     playTone('start');
     const now = Date.now();
-    setStartTime(now);
-    setIsActive(true);
-    setElapsedSeconds(0);
-    setIsTimeUp(false);
-    alarmPlayedRef.current = false;
+
+    let player = findCustomer(customers, customerName);
+    if (!player && customerName.trim() && draftSaveCustomer) {
+      player = createCustomer(now.toString(36) + Math.random().toString(36).substr(2), customerName.trim(), now);
+      dispatch({ type: 'ADD_CUSTOMER', customer: player });
+    }
+
+    dispatch({
+      type: 'START_SESSION',
+      session: {
+        id: now.toString(36) + Math.random().toString(36).substr(2),
+        screenId: id,
+        startTime: now,
+        sessionType,
+        fixedMinutes: parseInt(fixedMinutes) || 0,
+        package: sessionType === 'FIXED' && selectedPackage
+          ? { name: selectedPackage.name, minutes: selectedPackage.minutes, price: selectedPackage.price }
+          : undefined,
+        ratePlanId: ratePlan.id,
+        plan: ratePlan,
+        controllers,
+        customerName: player?.name ?? customerName.trim(),
+        customerId: player?.id,
+        reservationId: draftReservationId || undefined,
+        startedBy: operator,
+        pauses: [],
+        orders: [],
+        isTimeUp: false
+      }
+    });
     setIsEditingName(false);
+    setDraftReservationId('');
+    setDraftSaveCustomer(false);
   };
 
-  const handleStop = () => {
-    playTone('stop');
-    if (startTime) {
-      const endTime = Date.now();
-      const finalDuration = Math.floor((endTime - startTime) / 1000);
-      const finalCost = (finalDuration / 3600) * (parseFloat(hourlyRate) || 0);
+  // Fills the setup form from a booking; staff still press Start once the customer sits down
+  const handleLoadReservation = (reservation: Reservation) => {
+    setDraftCustomerName(reservation.customerName);
+    setDraftSessionType('FIXED');
+    setDraftFixedMinutes(String(reservation.durationMinutes));
+    setDraftPackageId('');
+    setDraftReservationId(reservation.id);
+  };
 
-      const uniqueId = Date.now().toString(36) + Math.random().toString(36).substr(2);
+  // Order Handlers
+  const handleAddItem = () => {
+    if (!selectedProductId) return;
+    dispatch({ type: 'ADD_ORDER_ITEM', screenId: id, productId: selectedProductId });
+  };
 
-      const record: SessionRecord = {
-        id: uniqueId,
-        screenId: id,
-        screenName: name,
-        startTime,
-        endTime,
-        durationSeconds: finalDuration,
-        totalCost: finalCost,
-        hourlyRate: parseFloat(hourlyRate),
-      };
+  const handleRemoveItem = (productId: string) => {
+    dispatch({ type: 'REMOVE_ORDER_ITEM', screenId: id, productId });
+  };
 
-      onSessionComplete(record);
+  // Packages add their own price; loose minutes on a package session cost the package's per-minute price
+  const handleExtend = (minutes: number, pkg?: TimePackage) => {
+    if (!session) return;
+    const price = pkg
+      ? pkg.price
+      : session.package && session.package.minutes > 0
+        ? Math.round((session.package.price / session.package.minutes) * minutes * 100) / 100
+        : undefined;
+    dispatch({
+      type: 'EXTEND_SESSION',
+      screenId: id,
+      extension: { at: Date.now(), minutes, price: session.package ? price : undefined, label: pkg?.name }
+    });
+  };
+
+  const handleOpenMove = () => {
+    setMoveTargetId(idleScreens[0]?.id ?? '');
+    setMovePlanId(session?.ratePlanId ?? '');
+    setIsMoving(true);
+  };
+
+  const handleMove = () => {
+    if (!moveTargetId) return;
+    dispatch({ type: 'MOVE_SESSION', fromScreenId: id, toScreenId: moveTargetId, at: Date.now(), ratePlanId: movePlanId || undefined });
+    setIsMoving(false);
+  };
+
+  // Mid-session the new count is priced from this moment on
+  const handleSetControllers = (count: ControllerCount) => {
+    if (!session) {
+      setDraftControllers(count);
+      return;
     }
+    if (count === session.controllers) return;
+    dispatch({ type: 'SET_CONTROLLERS', screenId: id, controllers: count, at: Date.now() });
+  };
+
+  const handlePause = () => {
+    if (!isActive || isPaused) return;
+    dispatch({ type: 'PAUSE_SESSION', screenId: id, at: Date.now() });
+  };
+
+  const handleResume = () => {
+    if (!isPaused) return;
+    dispatch({ type: 'RESUME_SESSION', screenId: id, at: Date.now() });
+  };
+
+  const handleStop = () => {
+    if (!session) return;
+    setCheckoutRecord({ ...buildSessionRecord(session, screen, ratePlans, Date.now()), stoppedBy: operator });
+  };
+
+  const handleConfirmStop = (redeemMinutes: number, payment: PaymentSplit, promoCode?: string, manualDiscount?: ManualDiscount, shares?: ShareDraft[]) => {
+    if (!checkoutRecord) return;
+    playTone('stop');
+    dispatch({
+      type: 'STOP_SESSION',
+      screenId: id,
+      endTime: checkoutRecord.endTime,
+      redeemMinutes,
+      payment,
+      stoppedBy: operator,
+      promoCode,
+      manualDiscount,
+      shares
+    });
+    setCheckoutRecord(null);
+    setDraftCustomerName('');
+  };
+
+  // Re-arm the alarm whenever a different session lands on this station,
+  // and drop a pending checkout if the session was stopped elsewhere
+  useEffect(() => {
+    lastRingRef.current = null;
+    setCheckoutRecord(null);
+    setIsMoving(false);
+  }, [session?.id]);
 
-    setIsActive(false);
-    setStartTime(null);
-    setElapsedSeconds(0);
-    setCustomerName('');
-    setIsTimeUp(false);
+  // Added time re-arms the alarm for the new limit
+  useEffect(() => {
+    lastRingRef.current = null;
+  }, [session?.fixedMinutes]);
+
+  const handleAckAlarm = () => {
+    if (dueAlarm === null) return;
+    dispatch({ type: 'ACK_ALARM', screenId: id, mark: dueAlarm });
+    setDueAlarm(null);
+    lastRingRef.current = null;
   };
 
   // Timer Interval
   useEffect(() => {
-    if (isActive && startTime) {
-      timerRef.current = window.setInterval(() => {
+    if (session) {
+      const tick = () => {
         const now = Date.now();
-        const newElapsed = Math.floor((now - startTime) / 1000);
+        const newElapsed = getActiveSeconds(session.startTime, session.pauses, now);
         setElapsedSeconds(newElapsed);
 
         // Check Fixed Time Limits
-        if (sessionType === 'FIXED') {
-          const limit = parseInt(fixedMinutes) * 60;
-          if (newElapsed >= limit) {
-            if (!isTimeUp) {
-              setIsTimeUp(true);
-            }
-            // Play alarm only once when crossing the threshold
-            if (!alarmPlayedRef.current) {
-              playTone('alarm');
-              sendNotification();
-              alarmPlayedRef.current = true;
-            }
-          }
+        if (session.sessionType === 'FIXED' && newElapsed >= session.fixedMinutes * 60 && !session.isTimeUp) {
+          dispatch({ type: 'MARK_TIME_UP', screenId: id });
+        }
+
+        // Warnings and time up keep ringing until acknowledged; the service worker
+        // covers the notification side while this tab is hidden
+        const due = getDueAlarm(session, alarms, now);
+        setDueAlarm(due);
+        const lastRing = lastRingRef.current;
+        if (due !== null && (!lastRing || lastRing.mark !== due || now - lastRing.at >= alarms.repeatSeconds * 1000)) {
+          playAlarmTone(getAlarmTone(due, alarms));
+          lastRingRef.current = { mark: due, at: now };
         }
-      }, 1000);
+      };
+      tick();
+      timerRef.current = window.setInterval(tick, 1000);
     } else {
+      setElapsedSeconds(0);
+      setDueAlarm(null);
       if (timerRef.current) clearInterval(timerRef.current);
     }
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
     };
-  }, [isActive, startTime, sessionType, fixedMinutes, isTimeUp]); // Added isTimeUp dependency to ensure state updates correctly
+  }, [session, id, dispatch, alarms]);
 
   // Visuals for ring
   // For Fixed: Scale 0 to 1 based on time remaining.
@@ -323,10 +418,10 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
     <div className={`relative flex flex-col overflow-hidden transition-all duration-300 group backdrop-blur-xl border ${cardBorderClass} ${cardBgClass} ${isActive ? 'z-10 scale-[1.02]' : ''}`}>
       
       {/* Decorative corners */}
-      <div className={`absolute top-0 left-0 w-2 h-2 border-t border-l transition-colors ${isActive ? (isTimeUp ? 'border-red-500' : 'border-cyan-400') : 'border-white/20'}`}></div>
-      <div className={`absolute top-0 right-0 w-2 h-2 border-t border-r transition-colors ${isActive ? (isTimeUp ? 'border-red-500' : 'border-cyan-400') : 'border-white/20'}`}></div>
-      <div className={`absolute bottom-0 left-0 w-2 h-2 border-b border-l transition-colors ${isActive ? (isTimeUp ? 'border-red-500' : 'border-cyan-400') : 'border-white/20'}`}></div>
-      <div className={`absolute bottom-0 right-0 w-2 h-2 border-b border-r transition-colors ${isActive ? (isTimeUp ? 'border-red-500' : 'border-cyan-400') : 'border-white/20'}`}></div>
+      <div className={`absolute top-0 start-0 w-2 h-2 border-t border-s transition-colors ${isActive ? (isTimeUp ? 'border-red-500' : 'border-cyan-400') : 'border-white/20'}`}></div>
+      <div className={`absolute top-0 end-0 w-2 h-2 border-t border-e transition-colors ${isActive ? (isTimeUp ? 'border-red-500' : 'border-cyan-400') : 'border-white/20'}`}></div>
+      <div className={`absolute bottom-0 start-0 w-2 h-2 border-b border-s transition-colors ${isActive ? (isTimeUp ? 'border-red-500' : 'border-cyan-400') : 'border-white/20'}`}></div>
+      <div className={`absolute bottom-0 end-0 w-2 h-2 border-b border-e transition-colors ${isActive ? (isTimeUp ? 'border-red-500' : 'border-cyan-400') : 'border-white/20'}`}></div>
 
       {/* Header */}
       <div className={`px-5 py-4 flex items-center justify-between border-b ${isActive ? (isTimeUp ? 'border-red-500/30 bg-red-950/30' : 'border-cyan-500/30 bg-cyan-950/20') : 'border-white/5 bg-white/[0.02]'}`}>
@@ -355,7 +450,7 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
             ) : (
               <div className="flex items-center gap-2 group/edit">
                 <h2 className={`text-lg font-bold font-tech tracking-wider uppercase truncate ${isActive ? (isTimeUp ? 'text-red-500 neon-glow' : 'text-cyan-400 neon-glow') : 'text-slate-300'}`}>{name}</h2>
-                {!isActive && (
+                {!isActive && canManageTerminals && (
                   <button 
                     onClick={() => setIsEditingName(true)}
                     className="opacity-0 group-hover/edit:opacity-100 transition-opacity text-slate-500 hover:text-fuchsia-400"
@@ -367,18 +462,21 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
             )}
             
             <div className="flex items-center gap-1.5 mt-1">
-              <span className={`w-1.5 h-1.5 ${isActive ? (isTimeUp ? 'bg-red-500 animate-bounce' : 'bg-cyan-400 animate-pulse') : 'bg-slate-600'}`}></span>
-              <span className={`text-[10px] font-mono uppercase tracking-widest ${isActive ? (isTimeUp ? 'text-red-500 font-bold' : 'text-cyan-400') : 'text-slate-500'}`}>
-                {isActive ? (isTimeUp ? 'TIME EXPIRED' : 'ACTIVE') : 'STANDBY'}
+              <span className={`w-1.5 h-1.5 ${isActive ? (isTimeUp ? 'bg-red-500 animate-bounce' : 'bg-cyan-400 animate-pulse') : isOutOfService ? 'bg-yellow-500' : 'bg-slate-600'}`}></span>
+              <span className={`text-[10px] font-mono uppercase tracking-widest ${isActive ? (isTimeUp ? 'text-red-500 font-bold' : 'text-cyan-400') : isOutOfService ? 'text-yellow-500' : 'text-slate-500'}`}>
+                {t(isActive ? (isTimeUp ? 'card.statusExpired' : isPaused ? 'card.statusPaused' : 'card.statusActive') : isOutOfService ? 'card.statusOutOfService' : 'card.statusStandby')}
+              </span>
+              <span className="text-[10px] font-mono text-slate-600 truncate">
+                · {screen.consoleType}{screen.zone && ` · ${screen.zone}`}
               </span>
             </div>
           </div>
         </div>
         
         {isActive && (
-          <div className={`flex items-center gap-1 ${isTimeUp ? 'text-red-500' : 'text-fuchsia-500'} animate-pulse`}>
-            {isTimeUp ? <Bell className="w-4 h-4 fill-current animate-ping" /> : <Zap className="w-3 h-3 fill-current" />}
-            <span className="text-[10px] font-bold font-tech">{isTimeUp ? 'ALARM' : 'LIVE'}</span>
+          <div className={`flex items-center gap-1 ${isTimeUp ? 'text-red-500' : isPaused ? 'text-yellow-500' : 'text-fuchsia-500'} animate-pulse`}>
+            {isTimeUp ? <Bell className="w-4 h-4 fill-current animate-ping" /> : isPaused ? <Pause className="w-3 h-3 fill-current" /> : <Zap className="w-3 h-3 fill-current" />}
+            <span className="text-[10px] font-bold font-tech">{t(isTimeUp ? 'card.indicatorAlarm' : isPaused ? 'card.indicatorHold' : 'card.indicatorLive')}</span>
           </div>
         )}
       </div>
@@ -388,22 +486,64 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
         {/* Scanline BG effect if active */}
         {isActive && <div className={`absolute inset-0 z-0 pointer-events-none bg-[length:100%_4px,6px_100%] opacity-20 ${isTimeUp ? 'bg-[linear-gradient(rgba(50,0,0,0)_50%,rgba(50,0,0,0.25)_50%),linear-gradient(90deg,rgba(255,0,0,0.1),rgba(255,0,0,0.05))]' : 'bg-[linear-gradient(rgba(18,16,16,0)_50%,rgba(0,0,0,0.25)_50%),linear-gradient(90deg,rgba(255,0,0,0.06),rgba(0,255,0,0.02),rgba(0,0,255,0.06))]'}`}></div>}
 
+        {/* Ringing alarm, silenced only from here */}
+        {dueAlarm !== null && (
+          <button
+            onClick={handleAckAlarm}
+            className={`relative z-10 -mt-1 flex items-center gap-2 border px-3 py-2 text-xs font-tech uppercase tracking-widest animate-pulse ${dueAlarm === 0 ? 'border-red-500 bg-red-950/60 text-red-400' : 'border-yellow-500/60 bg-yellow-950/40 text-yellow-400'}`}
+          >
+            <Bell className="w-4 h-4 shrink-0" />
+            <span className="flex-1 text-start">{alarmLabel(dueAlarm, t)}</span>
+            <span className="flex items-center gap-1 text-[10px] border border-current px-2 py-0.5">
+              <BellOff className="w-3 h-3" /> {t('card.ack')}
+            </span>
+          </button>
+        )}
+
+        {/* Upcoming booking */}
+        {nextReservation && (
+          <div className={`relative z-10 -mt-1 flex items-center gap-2 border px-3 py-1.5 text-[10px] font-mono ${clashesWithBooking ? 'border-yellow-500/50 bg-yellow-950/20 text-yellow-500' : 'border-fuchsia-500/30 bg-fuchsia-950/10 text-fuchsia-400'}`}>
+            {clashesWithBooking ? <AlertTriangle className="w-3 h-3 shrink-0" /> : <CalendarClock className="w-3 h-3 shrink-0" />}
+            <span className="truncate">
+              {t(clashesWithBooking ? 'card.runsIntoBooking' : 'card.reservedAt')} {clock(nextReservation.startTime)} · {nextReservation.customerName}
+            </span>
+            {!isActive && canSeat(nextReservation, Date.now()) && nextReservation.id !== draftReservationId && (
+              <button
+                onClick={() => handleLoadReservation(nextReservation)}
+                className="ms-auto shrink-0 px-2 border border-fuchsia-500/50 text-fuchsia-300 hover:bg-fuchsia-500/20 font-tech uppercase"
+              >
+                {t('card.seat')}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Out of service: the card stays visible but can't start a session */}
+        {isOutOfService && (
+          <div className="relative z-10 -mt-1 flex items-center gap-2 border border-yellow-500/50 bg-yellow-950/20 px-3 py-1.5 text-[10px] font-mono text-yellow-500">
+            <Wrench className="w-3 h-3 shrink-0" />
+            <span className="truncate">
+              {t(isActive ? 'card.lastSession' : 'card.maintenance')} · {t('card.since', { time: clock(screen.maintenance!.since) })}{screen.maintenance!.note && ` · ${screen.maintenance!.note}`}
+            </span>
+          </div>
+        )}
+
         {/* Mode Switcher (Only when not active) */}
         {!isActive && (
           <div className="flex bg-black/40 p-1 rounded-lg border border-white/10 relative z-10">
             <button 
-              onClick={() => setSessionType('OPEN')}
+              onClick={() => setDraftSessionType('OPEN')}
               className={`flex-1 flex items-center justify-center gap-2 py-1.5 rounded text-[10px] font-tech uppercase tracking-wider transition-all ${sessionType === 'OPEN' ? 'bg-cyan-950/50 text-cyan-400 border border-cyan-500/30' : 'text-slate-500 hover:text-slate-300'}`}
             >
               <Clock className="w-3 h-3" />
-              Open
+              {t('card.open')}
             </button>
             <button 
-              onClick={() => setSessionType('FIXED')}
+              onClick={() => setDraftSessionType('FIXED')}
               className={`flex-1 flex items-center justify-center gap-2 py-1.5 rounded text-[10px] font-tech uppercase tracking-wider transition-all ${sessionType === 'FIXED' ? 'bg-fuchsia-950/50 text-fuchsia-400 border border-fuchsia-500/30' : 'text-slate-500 hover:text-slate-300'}`}
             >
               <Hourglass className="w-3 h-3" />
-              Fixed
+              {t('card.fixed')}
             </button>
           </div>
         )}
@@ -412,15 +552,34 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
         {!isActive && sessionType === 'FIXED' && (
           <div className="relative z-10 animate-in fade-in slide-in-from-top-1">
              <div className="flex items-center border border-fuchsia-500/50 bg-fuchsia-950/10 px-3 py-2 rounded-lg">
-                <span className="text-[10px] text-fuchsia-400 font-tech uppercase mr-2">Time (Min)</span>
+                <span className="text-[10px] text-fuchsia-400 font-tech uppercase me-2 shrink-0">{t('card.timeMinutes')}</span>
                 <input 
                   type="number"
                   value={fixedMinutes}
-                  onChange={(e) => setFixedMinutes(e.target.value)}
-                  className="bg-transparent text-right w-full text-white font-mono focus:outline-none"
+                  onChange={(e) => {
+                    setDraftFixedMinutes(e.target.value);
+                    setDraftPackageId('');
+                  }}
+                  className="bg-transparent text-end w-full text-white font-mono focus:outline-none"
                   placeholder="60"
                 />
              </div>
+             {packages.length > 0 && (
+               <div className="flex flex-wrap gap-1 mt-2">
+                 {packages.map(pkg => (
+                   <button
+                     key={pkg.id}
+                     onClick={() => {
+                       setDraftPackageId(pkg.id === draftPackageId ? '' : pkg.id);
+                       setDraftFixedMinutes(String(pkg.minutes));
+                     }}
+                     className={`px-2 py-1 text-[10px] font-mono border transition-colors ${pkg.id === draftPackageId ? 'border-fuchsia-500 bg-fuchsia-950/40 text-fuchsia-300' : 'border-white/10 text-slate-500 hover:text-fuchsia-400'}`}
+                   >
+                     {pkg.name} · {t('format.minutes', { m: pkg.minutes })} = {amount(pkg.price)}
+                   </button>
+                 ))}
+               </div>
+             )}
           </div>
         )}
 
@@ -454,7 +613,7 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
                </svg>
             </div>
             <span className={`text-[10px] uppercase tracking-[0.2em] font-tech ${isTimeUp ? 'text-red-500 font-bold' : 'text-slate-500'}`}>
-              {sessionType === 'FIXED' ? 'Remaining' : 'Duration'}
+              {t(sessionType === 'FIXED' ? 'card.remaining' : 'card.duration')}
             </span>
           </div>
 
@@ -462,36 +621,87 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
             isActive 
               ? (isTimeUp ? 'text-red-500 neon-glow animate-pulse' : (displayTime < 300 && sessionType === 'FIXED' ? 'text-yellow-500' : 'text-cyan-400 neon-glow')) 
               : 'text-slate-700'
-          }`}>
-            {formatTime(displayTime)}
+          }`} dir="ltr">
+            {timer(displayTime)}
           </div>
         </div>
 
+        {/* Add time (running or expired fixed sessions) */}
+        {isActive && sessionType === 'FIXED' && (
+          <div className="relative z-10 -mt-2 flex flex-wrap items-center gap-1">
+            <TimerReset className={`w-3 h-3 me-1 ${isTimeUp ? 'text-red-500' : 'text-slate-600'}`} />
+            {[15, 30, 60].map(minutes => (
+              <button
+                key={minutes}
+                onClick={() => handleExtend(minutes)}
+                className={`px-2 py-1 text-[10px] font-mono border transition-colors ${isTimeUp ? 'border-red-500/50 text-red-400 hover:bg-red-500/10' : 'border-white/10 text-slate-500 hover:text-fuchsia-400 hover:border-fuchsia-500/50'}`}
+              >
+                +{t('format.minutes', { m: minutes })}
+              </button>
+            ))}
+            {session?.package && packages.map(pkg => (
+              <button
+                key={pkg.id}
+                onClick={() => handleExtend(pkg.minutes, pkg)}
+                className="px-2 py-1 text-[10px] font-mono border border-fuchsia-500/30 text-fuchsia-400 hover:bg-fuchsia-500/10 transition-colors"
+              >
+                +{pkg.name} ({amount(pkg.price)})
+              </button>
+            ))}
+            {session?.package && (
+              <span className="ms-auto text-[10px] font-mono text-fuchsia-500/70">{session.package.name}</span>
+            )}
+          </div>
+        )}
+
         {/* Stats Grid */}
         <div className="grid grid-cols-2 gap-4 relative z-10">
           <div className="group/input relative">
-            <label className="block text-[10px] text-slate-500 mb-1 font-tech uppercase tracking-wider">Hourly Rate</label>
+            <label className="block text-[10px] text-slate-500 mb-1 font-tech uppercase tracking-wider">{t('card.ratePlan')}</label>
             <div className="flex items-center border-b border-slate-700 group-focus-within/input:border-fuchsia-500 transition-colors bg-black/40 px-2 py-1">
-              <input
-                type="number"
+              <select
                 disabled={isActive}
-                value={hourlyRate}
-                onChange={(e) => setHourlyRate(e.target.value)}
-                className="w-full bg-transparent text-lg font-bold font-mono text-white placeholder-slate-700 focus:outline-none disabled:opacity-50 disabled:text-slate-500"
-                placeholder="00"
-              />
-              <span className="text-[10px] text-fuchsia-500 font-bold ml-1">EGP</span>
+                value={ratePlan?.id ?? ''}
+                onChange={(e) => setDraftPlanId(e.target.value)}
+                className="w-full bg-transparent text-sm font-bold font-mono text-white focus:outline-none disabled:opacity-50 disabled:text-slate-500"
+              >
+                {ratePlans.map(plan => (
+                  <option key={plan.id} value={plan.id} className="bg-black">{plan.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between mt-1.5">
+              <div className="flex gap-1">
+                {controllerOptions.map(count => (
+                  <button
+                    key={count}
+                    onClick={() => handleSetControllers(count)}
+                    className={`px-1.5 text-[10px] font-tech border transition-colors ${controllers === count ? 'border-fuchsia-500/50 text-fuchsia-400 bg-fuchsia-950/30' : 'border-white/10 text-slate-600 hover:text-slate-400'}`}
+                    title={t(isActive ? 'card.playersFromNow' : 'card.controllers')}
+                  >
+                    {t('format.players', { n: count })}
+                  </button>
+                ))}
+              </div>
+              <span className="text-[10px] text-fuchsia-500 font-bold font-mono" title={currentRate?.label}>
+                {t('card.perHour', { rate: number(currentRate ? currentRate.rate : 0) })}
+              </span>
             </div>
           </div>
 
           <div className={`transition-colors ${isActive ? 'opacity-100' : 'opacity-60'}`}>
-            <label className="block text-[10px] text-slate-500 mb-1 font-tech uppercase tracking-wider">Current Cost</label>
+            <label className="block text-[10px] text-slate-500 mb-1 font-tech uppercase tracking-wider">{t('card.currentCost')}</label>
             <div className="flex items-center justify-between border-b border-slate-700 bg-black/40 px-2 py-1">
               <span className={`text-lg font-bold font-mono ${isActive ? 'text-fuchsia-400 drop-shadow-[0_0_5px_rgba(232,121,249,0.8)]' : 'text-slate-500'}`}>
-                {currentCost}
+                {amount(currentCost)}
               </span>
               <DollarSign className={`w-3 h-3 ${isActive ? 'text-fuchsia-500' : 'text-slate-700'}`} />
             </div>
+            {itemsTotal > 0 && (
+              <div className="mt-1.5 text-[10px] text-cyan-400 font-mono text-end">
+                {t('card.itemsTotal', { amount: amount(itemsTotal) })}
+              </div>
+            )}
           </div>
         </div>
 
@@ -501,21 +711,150 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
             type="text"
             disabled={isActive}
             value={customerName}
-            onChange={(e) => setCustomerName(e.target.value)}
+            onChange={(e) => setDraftCustomerName(e.target.value)}
+            list={`customers-${id}`}
             className="w-full bg-black/30 border border-white/10 py-3 px-4 text-xs font-mono text-cyan-300 placeholder-slate-700 focus:outline-none focus:border-cyan-500/50 focus:bg-cyan-950/10 transition-all disabled:opacity-50"
-            placeholder="PLAYER NAME..."
+            placeholder={t('card.playerName')}
           />
-          <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none">
+          <div className="absolute end-3 top-1/2 -translate-y-1/2 pointer-events-none">
             <User className="w-3 h-3 text-slate-700 group-focus-within/input:text-cyan-500" />
           </div>
+          <datalist id={`customers-${id}`}>
+            {customers.map(c => (
+              <option key={c.id} value={c.name}>{c.phone}</option>
+            ))}
+          </datalist>
+          {customer ? (
+            <div className="mt-1 flex items-center gap-1 text-[10px] font-mono text-fuchsia-400">
+              <Star className="w-3 h-3 fill-current" /> {t('card.points', { n: customer.points })}{customer.phone && <span className="text-slate-600"> · {customer.phone}</span>}
+            </div>
+          ) : !isActive && draftCustomerName.trim() && (
+            <label className="mt-1 flex items-center gap-1 text-[10px] font-mono text-slate-500 cursor-pointer w-fit">
+              <input
+                type="checkbox"
+                checked={draftSaveCustomer}
+                onChange={(e) => setDraftSaveCustomer(e.target.checked)}
+                className="accent-fuchsia-500"
+              />
+              {t('card.saveAsCustomer')}
+            </label>
+          )}
         </div>
 
+        {/* Stations this visit was moved from */}
+        {session?.legs && session.legs.length > 0 && (
+          <div className="relative z-10 -mt-3 flex items-center gap-1 text-[10px] font-mono text-slate-500">
+            <ArrowRightLeft className="w-3 h-3" />
+            {session.legs.map(leg => `${leg.screenName} (${t('format.minutes', { m: Math.round(leg.seconds / 60) })})`).join(arrow)}{arrow}{name}
+          </div>
+        )}
+
+        {/* Player counts this session has been priced at */}
+        {session?.controllerLog && (
+          <div className="relative z-10 -mt-3 flex items-center gap-1 text-[10px] font-mono text-slate-500">
+            <Gamepad2 className="w-3 h-3" />
+            {session.controllerLog.map(entry => `${t('format.players', { n: entry.controllers })} ${clock(entry.at)}`).join(arrow)}
+          </div>
+        )}
+
+        {/* Orders (Only when active) */}
+        {isActive && (
+          <div className="relative z-10 flex flex-col gap-2">
+            <div className="flex gap-2">
+              <div className="flex-1 flex items-center gap-2 border border-white/10 bg-black/30 px-3">
+                <Coffee className="w-3 h-3 text-slate-600" />
+                <select
+                  value={selectedProductId}
+                  onChange={(e) => setSelectedProductId(e.target.value)}
+                  className="w-full bg-transparent py-2 text-xs font-mono text-cyan-300 focus:outline-none"
+                >
+                  <option value="" className="bg-black">{t('card.snacks')}</option>
+                  {products.map(product => (
+                    <option key={product.id} value={product.id} disabled={product.stock <= 0} className="bg-black">
+                      {product.name} — {amount(product.price)} ({number(product.stock)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={handleAddItem}
+                disabled={!selectedProductId}
+                className="px-3 border border-cyan-500/30 text-cyan-500 hover:bg-cyan-500/10 hover:text-cyan-400 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+
+            {orders.length > 0 && (
+              <ul className="flex flex-col gap-1 text-xs font-mono">
+                {orders.map(item => (
+                  <li key={item.productId} className="flex items-center justify-between border-b border-white/5 pb-1">
+                    <span className="text-slate-300 truncate">{number(item.quantity)}× {item.name}</span>
+                    <div className="flex items-center gap-2">
+                      <span className="text-cyan-400">{amount(item.unitPrice * item.quantity)}</span>
+                      <button
+                        onClick={() => handleRemoveItem(item.productId)}
+                        className="text-slate-600 hover:text-red-500"
+                      >
+                        <Minus className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Move to another station */}
+        {isActive && isMoving && (
+          <div className="relative z-10 flex flex-col gap-2 border border-cyan-500/30 bg-cyan-950/10 p-3 animate-in fade-in slide-in-from-top-1">
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={moveTargetId}
+                onChange={(e) => setMoveTargetId(e.target.value)}
+                className="bg-black/40 border border-white/10 px-2 py-1.5 text-xs font-mono text-cyan-300 focus:outline-none"
+              >
+                {idleScreens.map(target => (
+                  <option key={target.id} value={target.id} className="bg-black">{target.name}</option>
+                ))}
+              </select>
+              <select
+                value={movePlanId}
+                onChange={(e) => setMovePlanId(e.target.value)}
+                className="bg-black/40 border border-white/10 px-2 py-1.5 text-xs font-mono text-cyan-300 focus:outline-none"
+                title={t('card.movePlan')}
+              >
+                {ratePlans.map(plan => (
+                  <option key={plan.id} value={plan.id} className="bg-black">{plan.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-2 text-[10px] font-tech uppercase tracking-wider">
+              <button
+                onClick={handleMove}
+                disabled={!moveTargetId}
+                className="flex-1 border border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 py-1.5 disabled:opacity-30"
+              >
+                {t('card.move')}
+              </button>
+              <button
+                onClick={() => setIsMoving(false)}
+                className="flex-1 border border-white/10 text-slate-500 hover:text-white py-1.5"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Action Button */}
         <div className="mt-auto pt-2 z-10">
           {!isActive ? (
             <button
               onClick={handleStart}
-              className={`group relative w-full overflow-hidden border p-3.5 transition-all active:scale-[0.99] ${
+              disabled={isOutOfService}
+              className={`group relative w-full overflow-hidden border p-3.5 transition-all active:scale-[0.99] disabled:opacity-30 disabled:cursor-not-allowed ${
                 sessionType === 'FIXED' 
                   ? 'bg-fuchsia-950/20 border-fuchsia-500/50 hover:bg-fuchsia-500/10 hover:border-fuchsia-400 hover:shadow-[0_0_20px_rgba(232,121,249,0.2)]'
                   : 'bg-cyan-950/20 border-cyan-500/50 hover:bg-cyan-500/10 hover:border-cyan-400 hover:shadow-[0_0_20px_rgba(34,211,238,0.2)]'
@@ -525,7 +864,7 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
                 sessionType === 'FIXED' ? 'text-fuchsia-400' : 'text-cyan-400'
               }`}>
                 {sessionType === 'FIXED' ? <Hourglass className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-                <span>{sessionType === 'FIXED' ? 'Start Timer' : 'Initialize'}</span>
+                <span>{t(sessionType === 'FIXED' ? 'card.startTimer' : 'card.initialize')}</span>
               </div>
               {/* Button Glitch Effect Overlay */}
               <div className={`absolute inset-0 translate-y-full transition-transform duration-300 group-hover:translate-y-0 ${
@@ -533,19 +872,57 @@ const ScreenCard: React.FC<ScreenCardProps> = ({ id, name, onRename, onSessionCo
               }`}></div>
             </button>
           ) : (
-            <button
-              onClick={handleStop}
-              className="group relative w-full overflow-hidden border border-red-500/50 bg-red-950/20 p-3.5 transition-all hover:bg-red-500/10 hover:border-red-400 hover:shadow-[0_0_20px_rgba(239,68,68,0.2)] active:scale-[0.99]"
-            >
-              <div className="flex items-center justify-center gap-2 font-bold text-red-500 font-tech tracking-widest uppercase group-hover:text-red-400 transition-colors">
-                <Square className="w-4 h-4 fill-current" />
-                <span>Terminate</span>
-              </div>
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={isPaused ? handleResume : handlePause}
+                className={`group relative flex-1 overflow-hidden border p-3.5 transition-all active:scale-[0.99] ${
+                  isPaused
+                    ? 'border-cyan-500/50 bg-cyan-950/20 hover:bg-cyan-500/10 hover:border-cyan-400'
+                    : 'border-yellow-500/50 bg-yellow-950/20 hover:bg-yellow-500/10 hover:border-yellow-400'
+                }`}
+              >
+                <div className={`flex items-center justify-center gap-2 font-bold font-tech tracking-widest uppercase transition-colors ${isPaused ? 'text-cyan-400' : 'text-yellow-500'}`}>
+                  {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4 fill-current" />}
+                  <span>{t(isPaused ? 'card.resume' : 'card.pause')}</span>
+                </div>
+              </button>
+              <button
+                onClick={isMoving ? () => setIsMoving(false) : handleOpenMove}
+                disabled={idleScreens.length === 0}
+                className={`border px-3 transition-all disabled:opacity-20 disabled:cursor-not-allowed ${isMoving ? 'border-cyan-400 bg-cyan-500/10 text-cyan-300' : 'border-cyan-500/30 text-cyan-600 hover:text-cyan-400 hover:border-cyan-400'}`}
+                title={t('card.moveTitle')}
+              >
+                <ArrowRightLeft className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleStop}
+                className="group relative flex-1 overflow-hidden border border-red-500/50 bg-red-950/20 p-3.5 transition-all hover:bg-red-500/10 hover:border-red-400 hover:shadow-[0_0_20px_rgba(239,68,68,0.2)] active:scale-[0.99]"
+              >
+                <div className="flex items-center justify-center gap-2 font-bold text-red-500 font-tech tracking-widest uppercase group-hover:text-red-400 transition-colors">
+                  <Square className="w-4 h-4 fill-current" />
+                  <span>{t('card.terminate')}</span>
+                </div>
+              </button>
+            </div>
           )}
         </div>
 
       </div>
+
+      {/* Rendered on body: the card's transform would otherwise trap the fixed overlay */}
+      {checkoutRecord && createPortal(
+        <CheckoutDialog
+          record={checkoutRecord}
+          customer={customer}
+          loyalty={loyalty}
+          discountRules={discountRules}
+          canDiscount={canDiscount}
+          receipt={receipt}
+          onConfirm={handleConfirmStop}
+          onClose={() => setCheckoutRecord(null)}
+        />,
+        document.body
+      )}
     </div>
   );
 };
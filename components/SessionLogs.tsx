@@ -0,0 +1,377 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Trash2, Filter, ChevronLeft, ChevronRight, ArrowUp, ArrowDown, X, Merge, Printer } from 'lucide-react';
+import { Screen, SessionRecord } from '../types';
+import { getGrossCost, getRecordLegs, getRecordTotal } from '../utils/records';
+import { useI18n } from './LocaleProvider';
+import { MessageKey } from '../utils/i18n';
+import {
+  EMPTY_FILTER, HistoryFilter, HistoryTotals, SortDirection, SortKey,
+  filterRecords, getFilterRange, paginate, sortRecords, sumRecords
+} from '../utils/history';
+import { queryRecords } from '../store/persistence';
+
+interface SessionLogsProps {
+  currentRecords: SessionRecord[]; // Current shift; only these can be deleted
+  archivedRecords: SessionRecord[]; // Sessions of closed shifts
+  screens: Screen[];
+  onPrint: (record: SessionRecord) => void;
+  // Left out when the signed-in staff member isn't allowed to edit history
+  onDelete?: (recordId: string) => void;
+  onMerge?: (recordIds: [string, string]) => void;
+  onWipe?: () => void;
+}
+
+const PAGE_SIZE = 25;
+
+const SessionLogs: React.FC<SessionLogsProps> = ({ currentRecords, archivedRecords, screens, onPrint, onDelete, onMerge, onWipe }) => {
+  const [scope, setScope] = useState<'SHIFT' | 'ALL'>('SHIFT');
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>('startTime');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [page, setPage] = useState(0);
+  // First record picked for a merge; the next pick completes it
+  const [mergeSourceId, setMergeSourceId] = useState<string | null>(null);
+  const { t, amount, dateTime, duration, number, dir, arrow } = useI18n();
+  // Back points the way the page reads from
+  const PrevIcon = dir === 'rtl' ? ChevronRight : ChevronLeft;
+  const NextIcon = dir === 'rtl' ? ChevronLeft : ChevronRight;
+
+  const currentIds: Set<string> = useMemo(() => new Set(currentRecords.map(r => r.id)), [currentRecords]);
+
+  // Rows the date and station filters pick out through the storage indexes; null = use the lists in memory
+  const [indexed, setIndexed] = useState<SessionRecord[] | null>(null);
+  useEffect(() => {
+    setIndexed(null);
+    if (!filter.from && !filter.to && !filter.screenId) return;
+    let cancelled = false;
+    queryRecords({ ...getFilterRange(filter), screenId: filter.screenId }, scope === 'ALL').then(rows => {
+      if (!cancelled) setIndexed(rows);
+    });
+    return () => { cancelled = true; };
+    // The lists only matter as a sign that storage changed
+  }, [scope, filter.from, filter.to, filter.screenId, currentRecords, archivedRecords]);
+
+  const filtered: SessionRecord[] = useMemo(() => {
+    const source = indexed ?? (scope === 'SHIFT' ? currentRecords : [...currentRecords, ...archivedRecords]);
+    return sortRecords(filterRecords(source, filter), sortKey, sortDirection);
+  }, [indexed, scope, currentRecords, archivedRecords, filter, sortKey, sortDirection]);
+
+  const totals: HistoryTotals = useMemo(() => sumRecords(filtered), [filtered]);
+  const paged = paginate(filtered, page, PAGE_SIZE);
+
+  // Stations that only exist in history still need to be filterable
+  const stationOptions: [string, string][] = useMemo(() => {
+    const options = new Map(screens.map(s => [s.id, s.name]));
+    [...currentRecords, ...archivedRecords].forEach(r => {
+      if (!options.has(String(r.screenId))) options.set(String(r.screenId), r.screenName);
+    });
+    return [...options.entries()];
+  }, [screens, currentRecords, archivedRecords]);
+
+  const isFiltered = JSON.stringify(filter) !== JSON.stringify(EMPTY_FILTER);
+
+  const updateFilter = (patch: Partial<HistoryFilter>) => {
+    setFilter(prev => ({ ...prev, ...patch }));
+    setPage(0);
+  };
+
+  const handleMergePick = (recordId: string) => {
+    if (!mergeSourceId) setMergeSourceId(recordId);
+    else if (mergeSourceId === recordId) setMergeSourceId(null);
+    else {
+      onMerge?.([mergeSourceId, recordId]);
+      setMergeSourceId(null);
+    }
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection('desc');
+    }
+  };
+
+  const renderSortableHeader = (sortBy: SortKey, label: MessageKey, className = '') => (
+    <th className={`px-6 py-4 font-medium ${className}`}>
+      <button onClick={() => handleSort(sortBy)} className="inline-flex items-center gap-1 uppercase hover:text-cyan-300">
+        {t(label)}
+        {sortKey === sortBy && (sortDirection === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  const inputClass = 'bg-black/40 border border-white/10 px-2 py-1.5 text-xs font-mono text-cyan-300 focus:outline-none focus:border-cyan-500/50';
+
+  return (
+    <div className="relative border border-fuchsia-500/30 bg-black/80 backdrop-blur-xl rounded-sm overflow-hidden shadow-[0_0_30px_-10px_rgba(192,38,211,0.2)]">
+      {/* Decorative bar */}
+      <div className="absolute top-0 inset-x-0 h-0.5 bg-gradient-to-r from-cyan-500 via-fuchsia-500 to-cyan-500"></div>
+
+      <div className="p-5 border-b border-white/5 flex flex-wrap items-center justify-between gap-3 bg-white/[0.02]">
+        <div className="flex items-center gap-3">
+          <History className="w-5 h-5 text-fuchsia-500" />
+          <h3 className="font-bold text-white tracking-wider uppercase font-tech">{t('logs.title')}</h3>
+          <div className="flex border border-white/10 text-[10px] font-tech uppercase tracking-wider">
+            {(['SHIFT', 'ALL'] as const).map(value => (
+              <button
+                key={value}
+                onClick={() => { setScope(value); setPage(0); }}
+                className={`px-2 py-1 ${scope === value ? 'bg-fuchsia-950/50 text-fuchsia-400' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {t(value === 'SHIFT' ? 'logs.thisShift' : 'logs.allShifts')}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setIsFilterOpen(prev => !prev)}
+            className={`flex items-center gap-1 text-xs font-tech uppercase tracking-wider transition-colors ${isFiltered ? 'text-fuchsia-400' : 'text-slate-500 hover:text-cyan-400'}`}
+          >
+            <Filter className="w-4 h-4" /> {t('logs.filter')}
+          </button>
+          <span className="text-xs text-cyan-400 bg-cyan-950/30 border border-cyan-500/30 px-3 py-1 font-mono">
+            {t('logs.entries', { n: filtered.length })}
+          </span>
+          {onWipe && (
+            <button
+              onClick={onWipe}
+              className="text-slate-600 hover:text-red-500 transition-colors"
+              title={t('logs.wipe')}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isFilterOpen && (
+        <div className="p-4 border-b border-white/5 grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-2 items-end">
+          <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+            {t('logs.from')}
+            <input type="date" value={filter.from} onChange={(e) => updateFilter({ from: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+            {t('logs.to')}
+            <input type="date" value={filter.to} onChange={(e) => updateFilter({ to: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+            {t('logs.terminal')}
+            <select value={filter.screenId} onChange={(e) => updateFilter({ screenId: e.target.value })} className={inputClass}>
+              <option value="" className="bg-black">{t('logs.all')}</option>
+              {stationOptions.map(([stationId, stationName]) => (
+                <option key={stationId} value={stationId} className="bg-black">{stationName}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+            {t('logs.customer')}
+            <input type="text" value={filter.customer} onChange={(e) => updateFilter({ customer: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+            {t('logs.minTotal')}
+            <input type="number" value={filter.minAmount} onChange={(e) => updateFilter({ minAmount: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-tech uppercase">
+            {t('logs.type')}
+            <select value={filter.sessionType} onChange={(e) => updateFilter({ sessionType: e.target.value as HistoryFilter['sessionType'] })} className={inputClass}>
+              <option value="" className="bg-black">{t('logs.all')}</option>
+              <option value="OPEN" className="bg-black">{t('logs.typeOpen')}</option>
+              <option value="FIXED" className="bg-black">{t('logs.typeFixed')}</option>
+            </select>
+          </label>
+          <button
+            onClick={() => updateFilter(EMPTY_FILTER)}
+            disabled={!isFiltered}
+            className="flex items-center justify-center gap-1 border border-white/10 py-1.5 text-xs text-slate-400 hover:text-white font-tech uppercase disabled:opacity-30"
+          >
+            <X className="w-3 h-3" /> {t('logs.clear')}
+          </button>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-start" dir={dir}>
+          <thead className="bg-white/[0.03] text-cyan-500/70 text-xs uppercase tracking-wider font-tech">
+            <tr>
+              {renderSortableHeader('screenName', 'logs.colTerminal')}
+              {renderSortableHeader('startTime', 'logs.colStart')}
+              {renderSortableHeader('durationSeconds', 'logs.colDuration')}
+              <th className="px-6 py-4 font-medium">{t('logs.colRate')}</th>
+              {renderSortableHeader('total', 'logs.colTotal', 'text-end')}
+              <th className="px-6 py-4 font-medium text-center">{t('logs.colAction')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/10 font-mono text-sm">
+            {paged.items.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-slate-500 font-tech">
+                  {t('logs.noData')}
+                </td>
+              </tr>
+            ) : (
+              paged.items.map((session) => (
+                <tr
+                  key={session.id}
+                  className={`transition-colors group border-s-2 ${mergeSourceId === session.id ? 'bg-cyan-500/10 border-cyan-400' : 'hover:bg-cyan-500/5 border-transparent hover:border-cyan-400'}`}
+                >
+                  <td className="px-6 py-4">
+                    <span className="text-white font-bold">
+                      {session.screenName}
+                    </span>
+                    {session.legs && session.legs.length > 1 && (
+                      <div className="text-[10px] text-slate-500">
+                        {getRecordLegs(session).map(leg => `${leg.screenName} ${duration(leg.seconds)}`).join(arrow)}
+                      </div>
+                    )}
+                    {session.customerName && (
+                      <div className="text-[10px] text-cyan-400/70">{session.customerName}</div>
+                    )}
+                    {session.controllerLog && (
+                      <div className="text-[10px] text-slate-500">
+                        {session.controllerLog.map(entry => t('format.players', { n: entry.controllers })).join(arrow)}
+                      </div>
+                    )}
+                    {(session.startedBy || session.stoppedBy) && (
+                      <div className="text-[10px] text-slate-600">
+                        {session.startedBy?.name ?? '—'}{arrow}{session.stoppedBy?.name ?? '—'}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-slate-400">
+                    {dateTime(session.startTime)}
+                  </td>
+                  <td className="px-6 py-4 text-slate-400">
+                    {duration(session.durationSeconds)}
+                    {session.billedSeconds !== undefined && session.billedSeconds !== session.durationSeconds && (
+                      <div className="text-[10px] text-slate-600" title={t('logs.billedTitle')}>
+                        {t('logs.billed', { duration: duration(session.billedSeconds) })}
+                      </div>
+                    )}
+                  </td>
+                  <td
+                    className="px-6 py-4 text-slate-500"
+                    title={session.segments?.map(seg => t('logs.segment', { label: seg.label, rate: number(seg.rate), duration: duration(seg.seconds), cost: amount(seg.cost) })).join('\n')}
+                  >
+                    {session.ratePlanName ? (
+                      <span>
+                        {session.packageName ?? session.ratePlanName}
+                        {session.segments && session.segments.length > 1 && (
+                          <span className="text-fuchsia-500/70 text-xs"> ×{number(session.segments.length)}</span>
+                        )}
+                        {!!session.extensions?.length && (
+                          <span className="text-cyan-500/70 text-xs"> +{t('format.minutes', { m: session.extensions.reduce((acc, e) => acc + e.minutes, 0) })}</span>
+                        )}
+                        {!!session.overtimeSeconds && (
+                          <div className="text-[10px] text-red-400/70">
+                            {t('logs.overtime', { duration: duration(session.overtimeSeconds), cost: amount(session.overtimeCost ?? 0) })}
+                          </div>
+                        )}
+                      </span>
+                    ) : number(session.hourlyRate)}
+                  </td>
+                  <td
+                    className="px-6 py-4 text-end font-bold text-fuchsia-400 drop-shadow-[0_0_8px_rgba(192,38,211,0.4)]"
+                    title={session.items?.map(item => `${number(item.quantity)}× ${item.name}`).join('\n')}
+                  >
+                    {amount(getRecordTotal(session))}
+                    {!!session.itemsTotal && (
+                      <div className="text-[10px] font-normal text-cyan-400 drop-shadow-none">
+                        {t('logs.items', { amount: amount(session.itemsTotal) })}
+                      </div>
+                    )}
+                    {!!session.discounts?.length && (
+                      <div
+                        className="text-[10px] font-normal text-green-400 drop-shadow-none"
+                        title={session.discounts.map(d => `${d.code ?? d.name}: -${amount(d.amount)}`).join('\n')}
+                      >
+                        {t('logs.discountOf', { discount: amount(session.discounts.reduce((acc, d) => acc + d.amount, 0)), gross: amount(getGrossCost(session)) })}
+                      </div>
+                    )}
+                    {!!session.shares?.length && (
+                      <div
+                        className="text-[10px] font-normal text-slate-400 drop-shadow-none"
+                        title={session.shares.map(share => `${share.name}: ${amount(share.amount)}`).join('\n')}
+                      >
+                        {t('logs.split', { n: session.shares.length })}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-center">
+                    <div className="flex items-center justify-center gap-3">
+                      <button
+                        onClick={() => onPrint(session)}
+                        className="text-slate-600 hover:text-cyan-400 transition-colors opacity-50 group-hover:opacity-100"
+                        title={t('logs.print')}
+                      >
+                        <Printer className="w-4 h-4" />
+                      </button>
+                      {currentIds.has(session.id) && onMerge && (
+                        <button
+                          onClick={() => handleMergePick(session.id)}
+                          className={`transition-colors ${mergeSourceId === session.id ? 'text-cyan-400' : 'text-slate-600 hover:text-cyan-400 opacity-50 group-hover:opacity-100'}`}
+                          title={t(mergeSourceId && mergeSourceId !== session.id ? 'logs.mergeWith' : 'logs.mergeInto')}
+                        >
+                          <Merge className="w-4 h-4" />
+                        </button>
+                      )}
+                      {currentIds.has(session.id) && onDelete && (
+                        <button
+                          onClick={() => onDelete(session.id)}
+                          className="text-slate-600 hover:text-red-500 transition-colors opacity-50 group-hover:opacity-100"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+          {totals.count > 0 && (
+            <tfoot className="bg-white/[0.03] border-t border-fuchsia-500/30 font-mono text-sm">
+              <tr>
+                <td className="px-6 py-4 text-cyan-500/70 text-xs font-tech uppercase tracking-wider">
+                  {t(isFiltered ? 'logs.filteredTotal' : 'logs.total')}
+                </td>
+                <td className="px-6 py-4 text-slate-500">{t('logs.sessions', { n: totals.count })}</td>
+                <td className="px-6 py-4 text-slate-400">{duration(totals.seconds)}</td>
+                <td className="px-6 py-4 text-[10px] text-slate-500">
+                  {t('logs.revenueSplit', { play: amount(totals.playRevenue), items: amount(totals.itemsRevenue) })}
+                </td>
+                <td className="px-6 py-4 text-end font-bold text-fuchsia-400">{amount(totals.total)}</td>
+                <td></td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      {paged.pageCount > 1 && (
+        <div className="p-3 border-t border-white/5 flex items-center justify-center gap-4 font-mono text-xs text-slate-400">
+          <button
+            onClick={() => setPage(paged.page - 1)}
+            disabled={paged.page === 0}
+            className="p-1 hover:text-cyan-400 disabled:opacity-30"
+          >
+            <PrevIcon className="w-4 h-4" />
+          </button>
+          <span>{t('logs.page', { page: paged.page + 1, count: paged.pageCount })}</span>
+          <button
+            onClick={() => setPage(paged.page + 1)}
+            disabled={paged.page >= paged.pageCount - 1}
+            className="p-1 hover:text-cyan-400 disabled:opacity-30"
+          >
+            <NextIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionLogs;
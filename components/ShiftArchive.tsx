@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Archive, X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ClosedShift } from '../types';
+import ZReportView from './ZReportView';
+import { getRecordTotal } from '../utils/records';
+import { useI18n } from './LocaleProvider';
+
+interface ShiftArchiveProps {
+  shifts: ClosedShift[];
+  onClose: () => void;
+}
+
+const ShiftArchive: React.FC<ShiftArchiveProps> = ({ shifts, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = shifts.find(s => s.id === selectedId);
+  const { t, amount, dateTime, dir, arrow } = useI18n();
+  const BackIcon = dir === 'rtl' ? ChevronRight : ChevronLeft;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-cyan-500/50 p-1 max-w-3xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(34,211,238,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-cyan-400">
+              {selected ? (
+                <button onClick={() => setSelectedId(null)} className="hover:text-white"><BackIcon className="w-6 h-6" /></button>
+              ) : (
+                <Archive className="w-6 h-6" />
+              )}
+              <div>
+                <h3 className="text-xl font-bold font-tech uppercase tracking-widest">
+                  {t(selected ? 'archive.report' : 'archive.title')}
+                </h3>
+                {selected && (
+                  <p className="text-[10px] text-slate-500 font-mono">
+                    {dateTime(selected.openedAt)}{arrow}{dateTime(selected.closedAt)}
+                    {' · '}{selected.openedBy || '—'} / {selected.closedBy}
+                  </p>
+                )}
+              </div>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto">
+            {selected ? (
+              <div className="flex flex-col gap-6">
+                <ZReportView report={selected.report} />
+                <table className="w-full text-start font-mono text-sm">
+                  <thead className="text-cyan-500/70 text-[10px] uppercase tracking-wider font-tech">
+                    <tr>
+                      <th className="py-2 font-medium">{t('archive.terminal')}</th>
+                      <th className="py-2 font-medium">{t('archive.start')}</th>
+                      <th className="py-2 font-medium">{t('archive.end')}</th>
+                      <th className="py-2 font-medium text-end">{t('archive.total')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/10">
+                    {selected.sessions.map(session => (
+                      <tr key={session.id}>
+                        <td className="py-2 text-white">{session.screenName}</td>
+                        <td className="py-2 text-slate-400">{dateTime(session.startTime)}</td>
+                        <td className="py-2 text-slate-400">{dateTime(session.endTime)}</td>
+                        <td className="py-2 text-end text-fuchsia-400">{amount(getRecordTotal(session))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : shifts.length === 0 ? (
+              <div className="py-12 text-center text-slate-500 font-tech">{t('archive.empty')}</div>
+            ) : (
+              <ul className="flex flex-col divide-y divide-white/10 font-mono text-sm">
+                {shifts.map(shift => (
+                  <li key={shift.id}>
+                    <button
+                      onClick={() => setSelectedId(shift.id)}
+                      className="w-full flex items-center justify-between gap-4 py-3 px-2 hover:bg-cyan-500/5 transition-colors text-start"
+                    >
+                      <div className="flex flex-col">
+                        <span className="text-white">{dateTime(shift.openedAt)}{arrow}{dateTime(shift.closedAt)}</span>
+                        <span className="text-[10px] text-slate-500">
+                          {t('archive.summary', { sessions: shift.report.sessionCount, hours: shift.report.hoursSold.toFixed(1), by: shift.closedBy })}
+                        </span>
+                      </div>
+                      <span className="text-fuchsia-400 font-bold">{amount(shift.report.totalRevenue)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShiftArchive;
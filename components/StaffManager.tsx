@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { UserCog, X, Plus, Trash2, KeyRound } from 'lucide-react';
+import { StaffMember, StaffRole } from '../types';
+import { LoungeDispatch } from '../store/reducer';
+import { MIN_PIN_LENGTH, ROLE_PERMISSIONS, STAFF_ROLES, createStaffMember, hashPin, isLastOwner, isValidPin } from '../utils/staff';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface StaffManagerProps {
+  staff: StaffMember[];
+  currentMember: StaffMember;
+  dispatch: LoungeDispatch;
+  onClose: () => void;
+}
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+const StaffManager: React.FC<StaffManagerProps> = ({ staff, currentMember, dispatch, onClose }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<StaffRole>('CASHIER');
+  const [pin, setPin] = useState('');
+  const [resetId, setResetId] = useState<string | null>(null);
+  const [resetPin, setResetPin] = useState('');
+
+  const handleAdd = () => {
+    if (!name.trim() || !isValidPin(pin)) return;
+    dispatch({ type: 'ADD_STAFF', member: createStaffMember(newId(), name.trim(), role, pin, Date.now()) });
+    setName('');
+    setPin('');
+  };
+
+  const handleResetPin = (member: StaffMember) => {
+    if (!isValidPin(resetPin)) return;
+    dispatch({ type: 'UPDATE_STAFF', member: { ...member, pinHash: hashPin(resetPin, member.id) } });
+    setResetId(null);
+    setResetPin('');
+  };
+
+  const inputClass = 'bg-black border border-white/10 text-white text-sm px-2 py-1.5 focus:outline-none focus:border-cyan-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-cyan-500/50 p-1 max-w-2xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(6,182,212,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-cyan-400">
+              <UserCog className="w-6 h-6" />
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('staff.title')}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto flex flex-col gap-5">
+            <ul className="divide-y divide-white/5 border border-white/5 font-mono text-sm">
+              {staff.map(member => (
+                <li key={member.id} className="px-4 py-3 flex flex-col gap-2">
+                  <div className="flex items-center gap-3">
+                    <span className="flex-1 text-white truncate">
+                      {member.name}
+                      {member.id === currentMember.id && <span className="text-[10px] text-cyan-500">{t('staff.you')}</span>}
+                    </span>
+                    <select
+                      value={member.role}
+                      disabled={isLastOwner(staff, member.id)}
+                      onChange={(e) => dispatch({ type: 'UPDATE_STAFF', member: { ...member, role: e.target.value as StaffRole } })}
+                      className={`${inputClass} font-tech uppercase text-xs disabled:opacity-50`}
+                    >
+                      {STAFF_ROLES.map(r => <option key={r} value={r} className="bg-black">{t(`role.${r}` as MessageKey)}</option>)}
+                    </select>
+                    <button
+                      onClick={() => { setResetId(resetId === member.id ? null : member.id); setResetPin(''); }}
+                      className="text-slate-600 hover:text-cyan-400"
+                      title={t('staff.changePin')}
+                    >
+                      <KeyRound className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => dispatch({ type: 'DELETE_STAFF', memberId: member.id })}
+                      disabled={member.id === currentMember.id || isLastOwner(staff, member.id)}
+                      className="text-slate-600 hover:text-red-500 disabled:opacity-30 disabled:hover:text-slate-600"
+                      title={t('staff.remove')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {resetId === member.id && (
+                    <div className="flex gap-2">
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        value={resetPin}
+                        onChange={(e) => setResetPin(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleResetPin(member)}
+                        placeholder={t('staff.newPin')}
+                        className={`${inputClass} font-mono flex-1`}
+                        autoFocus
+                      />
+                      <button
+                        onClick={() => handleResetPin(member)}
+                        disabled={!isValidPin(resetPin)}
+                        className="px-4 border border-cyan-600 text-cyan-400 hover:bg-cyan-600 hover:text-white text-xs font-tech uppercase disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-cyan-400"
+                      >
+                        {t('common.save')}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {/* New account */}
+            <div className="flex flex-wrap gap-2 items-center">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('staff.name')}
+                className={`${inputClass} flex-1 min-w-[8rem]`}
+              />
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as StaffRole)}
+                className={`${inputClass} font-tech uppercase text-xs`}
+              >
+                {STAFF_ROLES.map(r => <option key={r} value={r} className="bg-black">{t(`role.${r}` as MessageKey)}</option>)}
+              </select>
+              <input
+                type="password"
+                inputMode="numeric"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder={t('staff.pin', { min: MIN_PIN_LENGTH })}
+                className={`${inputClass} font-mono w-28`}
+              />
+              <button
+                onClick={handleAdd}
+                disabled={!name.trim() || !isValidPin(pin)}
+                className="flex items-center gap-1 px-4 py-1.5 border border-cyan-600 text-cyan-400 hover:bg-cyan-600 hover:text-white text-xs font-tech uppercase disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-cyan-400"
+              >
+                <Plus className="w-4 h-4" /> {t('common.add')}
+              </button>
+            </div>
+
+            {/* What each role may do */}
+            <div className="grid grid-cols-3 gap-2 text-[10px] font-mono">
+              {STAFF_ROLES.map(r => (
+                <div key={r} className="border border-white/5 p-2 flex flex-col gap-1">
+                  <span className="font-tech uppercase tracking-widest text-cyan-500">{t(`role.${r}` as MessageKey)}</span>
+                  {ROLE_PERMISSIONS[r].length === 0
+                    ? <span className="text-slate-600">{t('staff.sessionsOnly')}</span>
+                    : ROLE_PERMISSIONS[r].map(p => <span key={p} className="text-slate-400">{t(`permission.${p}` as MessageKey)}</span>)}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StaffManager;
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { Monitor, Plus, Trash2, X, Save, GripVertical, Wrench, AlertTriangle } from 'lucide-react';
+import { ActiveSession, RatePlan, Reservation, Screen } from '../types';
+import { CONSOLE_TYPES, MAX_CONTROLLERS, createScreen, getZones } from '../utils/stations';
+import { useI18n } from './LocaleProvider';
+
+interface StationManagerProps {
+  screens: Screen[];
+  sessions: Record<string, ActiveSession>;
+  ratePlans: RatePlan[];
+  reservations: Reservation[];
+  onSave: (screens: Screen[]) => void;
+  onClose: () => void;
+}
+
+const StationManager: React.FC<StationManagerProps> = ({ screens, sessions, ratePlans, reservations, onSave, onClose }) => {
+  // Edit a draft copy so Cancel leaves the live stations untouched
+  const [draft, setDraft] = useState<Screen[]>(() => JSON.parse(JSON.stringify(screens)));
+  const [dragId, setDragId] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const zones = getZones(draft);
+  const removed = screens.filter(s => !draft.some(d => d.id === s.id));
+  const cancelledBookings = reservations.filter(r => r.status === 'BOOKED' && removed.some(s => s.id === r.screenId));
+
+  const updateScreen = (screenId: string, patch: Partial<Screen>) => {
+    setDraft(prev => prev.map(s => s.id === screenId ? { ...s, ...patch } : s));
+  };
+
+  const handleAdd = () => {
+    const id = Date.now().toString();
+    setDraft(prev => [...prev, createScreen(id, t('app.newStation', { n: String(prev.length + 1).padStart(2, '0') }))]);
+  };
+
+  // Drop a row onto another to take its place
+  const handleDrop = (targetId: string) => {
+    if (!dragId || dragId === targetId) return;
+    setDraft(prev => {
+      const moving = prev.find(s => s.id === dragId);
+      if (!moving) return prev;
+      const rest = prev.filter(s => s.id !== dragId);
+      const index = rest.findIndex(s => s.id === targetId);
+      const at = prev.findIndex(s => s.id === dragId) <= index ? index + 1 : index;
+      return [...rest.slice(0, at), moving, ...rest.slice(at)];
+    });
+    setDragId(null);
+  };
+
+  const toggleMaintenance = (screen: Screen) => {
+    updateScreen(screen.id, { maintenance: screen.maintenance ? undefined : { since: Date.now(), note: '' } });
+  };
+
+  const handleSave = () => {
+    onSave(draft.map(s => ({
+      ...s,
+      name: s.name.trim() || t('stations.fallbackName'),
+      zone: s.zone.trim().toUpperCase(),
+      defaultRatePlanId: s.defaultRatePlanId || undefined,
+      controllers: Math.min(Math.max(s.controllers, 1), MAX_CONTROLLERS)
+    })));
+    onClose();
+  };
+
+  const inputClass = 'bg-black border border-white/10 text-white text-xs px-2 py-1 focus:outline-none focus:border-cyan-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-black border border-cyan-500/50 p-1 max-w-4xl w-full max-h-[90vh] flex flex-col shadow-[0_0_50px_rgba(6,182,212,0.2)]">
+        <div className="bg-slate-950 flex flex-col min-h-0">
+          <div className="p-5 border-b border-white/5 flex items-center justify-between">
+            <div className="flex items-center gap-3 text-cyan-400">
+              <Monitor className="w-6 h-6" />
+              <h3 className="text-xl font-bold font-tech uppercase tracking-widest">{t('stations.title')}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="p-5 overflow-y-auto flex flex-col gap-2">
+            <datalist id="station-zones">
+              {zones.map(zone => <option key={zone} value={zone} />)}
+            </datalist>
+
+            {draft.map(screen => {
+              const isBusy = !!sessions[screen.id];
+              return (
+                <div
+                  key={screen.id}
+                  draggable={dragId === screen.id}
+                  onDragEnd={() => setDragId(null)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => handleDrop(screen.id)}
+                  className={`border p-3 flex flex-col gap-2 transition-colors ${
+                    dragId === screen.id ? 'opacity-40' : ''
+                  } ${screen.maintenance ? 'border-yellow-500/40 bg-yellow-950/10' : 'border-white/10 bg-black/40'}`}
+                >
+                  <div className="flex items-center gap-2 flex-wrap">
+                    {/* Only the handle starts a drag, so the inputs stay selectable */}
+                    <span
+                      onMouseDown={() => setDragId(screen.id)}
+                      onMouseUp={() => setDragId(null)}
+                      className="text-slate-600 hover:text-cyan-400 cursor-grab shrink-0"
+                      title={t('stations.dragToReorder')}
+                    >
+                      <GripVertical className="w-4 h-4" />
+                    </span>
+                    <input
+                      type="text"
+                      value={screen.name}
+                      onChange={(e) => updateScreen(screen.id, { name: e.target.value })}
+                      className="flex-1 min-w-[8rem] bg-black border border-cyan-500/30 text-cyan-400 text-sm px-2 py-1 focus:outline-none focus:border-cyan-500 font-tech uppercase"
+                    />
+                    <div className="flex gap-1">
+                      {CONSOLE_TYPES.map(type => (
+                        <button
+                          key={type}
+                          onClick={() => updateScreen(screen.id, { consoleType: type })}
+                          className={`px-2 py-0.5 text-[10px] font-tech border ${screen.consoleType === type ? 'border-cyan-500/50 text-cyan-400 bg-cyan-950/30' : 'border-white/10 text-slate-600'}`}
+                        >
+                          {type}
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => toggleMaintenance(screen)}
+                      className={`p-1 border ${screen.maintenance ? 'border-yellow-500/50 text-yellow-500 bg-yellow-950/30' : 'border-white/10 text-slate-600 hover:text-yellow-500'}`}
+                      title={t(screen.maintenance ? 'stations.backInService' : 'stations.outOfService')}
+                    >
+                      <Wrench className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setDraft(prev => prev.filter(s => s.id !== screen.id))}
+                      disabled={isBusy}
+                      className="text-slate-600 hover:text-red-500 disabled:opacity-20 disabled:hover:text-slate-600"
+                      title={t(isBusy ? 'stations.stopFirst' : 'stations.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  <div className="flex items-center gap-2 flex-wrap ps-6">
+                    <input
+                      type="text"
+                      value={screen.zone}
+                      onChange={(e) => updateScreen(screen.id, { zone: e.target.value })}
+                      list="station-zones"
+                      placeholder={t('stations.zone')}
+                      className={`${inputClass} w-32 uppercase`}
+                    />
+                    <select
+                      value={screen.defaultRatePlanId ?? ''}
+                      onChange={(e) => updateScreen(screen.id, { defaultRatePlanId: e.target.value || undefined })}
+                      className={`${inputClass} w-40`}
+                      title={t('stations.defaultPlan')}
+                    >
+                      <option value="" className="bg-black">{t('stations.firstPlan')}</option>
+                      {ratePlans.map(plan => (
+                        <option key={plan.id} value={plan.id} className="bg-black">{plan.name}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-1 text-[10px] text-slate-500 font-tech uppercase">
+                      {t('stations.pads')}
+                      <input
+                        type="number"
+                        min="1"
+                        max={MAX_CONTROLLERS}
+                        value={screen.controllers}
+                        onChange={(e) => updateScreen(screen.id, { controllers: parseInt(e.target.value) || 1 })}
+                        className={`${inputClass} w-14 text-end font-mono`}
+                      />
+                    </label>
+                    {screen.maintenance && (
+                      <input
+                        type="text"
+                        dir="auto"
+                        value={screen.maintenance.note}
+                        onChange={(e) => updateScreen(screen.id, { maintenance: { ...screen.maintenance!, note: e.target.value } })}
+                        placeholder={t('stations.whatsWrong')}
+                        className={`${inputClass} flex-1 min-w-[8rem] border-yellow-500/30`}
+                      />
+                    )}
+                    {isBusy && <span className="ms-auto text-[10px] font-mono text-cyan-400">{t('stations.inSession')}</span>}
+                  </div>
+                </div>
+              );
+            })}
+
+            <button
+              onClick={handleAdd}
+              className="mt-2 flex items-center justify-center gap-2 border border-dashed border-cyan-500/30 py-3 text-cyan-700 hover:text-cyan-400 hover:border-cyan-400 font-tech uppercase tracking-widest text-sm"
+            >
+              <Plus className="w-4 h-4" /> {t('stations.new')}
+            </button>
+          </div>
+
+          {cancelledBookings.length > 0 && (
+            <div className="px-5 py-3 border-t border-white/5 flex items-center gap-2 text-xs font-mono text-yellow-500 bg-yellow-950/20">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              {t('stations.cancelsBookings', { n: cancelledBookings.length })}
+            </div>
+          )}
+
+          <div className="p-5 border-t border-white/5 flex gap-3 font-tech uppercase tracking-wider">
+            <button
+              onClick={handleSave}
+              className="flex-1 flex items-center justify-center gap-2 bg-green-600/20 hover:bg-green-600 text-green-400 hover:text-white border border-green-600 py-3 font-bold transition-all duration-300"
+            >
+              <Save className="w-4 h-4" /> {t('common.save')}
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-transparent hover:bg-white/10 text-slate-400 py-3 font-bold transition-colors border border-white/10"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StationManager;
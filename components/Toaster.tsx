@@ -0,0 +1,57 @@
+import React, { createContext, useCallback, useContext, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Info, X } from 'lucide-react';
+
+export type ToastTone = 'info' | 'success' | 'error';
+
+interface Toast {
+  id: number;
+  message: string;
+  tone: ToastTone;
+}
+
+type ShowToast = (message: string, tone?: ToastTone) => void;
+
+const TOAST_MS = 4000;
+
+const TONE_CLASSES: Record<ToastTone, string> = {
+  info: 'border-cyan-500/60 text-cyan-300',
+  success: 'border-green-500/60 text-green-300',
+  error: 'border-red-500/60 text-red-300'
+};
+
+const ToastContext = createContext<ShowToast>(() => {});
+
+// In-app messages in place of alert(): they don't block the counter and they speak the UI's language
+export const useToast = () => useContext(ToastContext);
+
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const dismiss = useCallback((id: number) => setToasts(prev => prev.filter(t => t.id !== id)), []);
+
+  const show: ShowToast = useCallback((message, tone = 'info') => {
+    const id = Date.now() + Math.random();
+    setToasts(prev => [...prev, { id, message, tone }]);
+    window.setTimeout(() => dismiss(id), TOAST_MS);
+  }, [dismiss]);
+
+  return (
+    <ToastContext.Provider value={show}>
+      {children}
+      <div className="fixed bottom-4 inset-x-4 z-[60] flex flex-col items-center gap-2 pointer-events-none" role="status" aria-live="polite">
+        {toasts.map(toast => (
+          <div
+            key={toast.id}
+            className={`pointer-events-auto max-w-md w-full flex items-center gap-3 bg-black/95 border px-4 py-3 text-sm shadow-[0_0_30px_rgba(0,0,0,0.6)] animate-in fade-in duration-200 ${TONE_CLASSES[toast.tone]}`}
+          >
+            {toast.tone === 'error' ? <AlertTriangle className="w-4 h-4 shrink-0" /> : toast.tone === 'success' ? <CheckCircle2 className="w-4 h-4 shrink-0" /> : <Info className="w-4 h-4 shrink-0" />}
+            <span className="flex-1">{toast.message}</span>
+            <button onClick={() => dismiss(toast.id)} className="text-slate-500 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+};
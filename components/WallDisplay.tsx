@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { Gamepad2, Maximize, Wrench, CalendarClock, Pause } from 'lucide-react';
+import { ActiveSession, AlarmSettings, RatePlan, Reservation, Screen } from '../types';
+import { useLoungeStore } from '../store/useLoungeStore';
+import { getActiveSeconds, isSessionPaused, priceActiveSession } from '../utils/session';
+import { getItemsTotal } from '../utils/records';
+import { getRemainingSeconds, normalizeAlarmSettings } from '../utils/alarms';
+import { getNextReservation } from '../utils/reservations';
+import { useI18n } from './LocaleProvider';
+
+interface WallDisplayProps {
+  showCost: boolean;
+}
+
+interface StationTileProps {
+  screen: Screen;
+  session?: ActiveSession;
+  ratePlans: RatePlan[];
+  reservations: Reservation[];
+  alarms: AlarmSettings;
+  showCost: boolean;
+  now: number;
+}
+
+// One station as seen from across the room: status, a big clock and nothing to press
+const StationTile: React.FC<StationTileProps> = ({ screen, session, ratePlans, reservations, alarms, showCost, now }) => {
+  const { t, money, clock, timer } = useI18n();
+  const isFixed = session?.sessionType === 'FIXED';
+  const remaining = session && isFixed ? getRemainingSeconds(session, now) : 0;
+  const isTimeUp = !!session && isFixed && remaining <= 0;
+  const isPaused = !!session && isSessionPaused(session);
+  // Turns amber from the first warning on, like the counter sees it
+  const firstWarning = normalizeAlarmSettings(alarms).warningMinutes.find(m => m < (session?.fixedMinutes ?? 0)) ?? 0;
+  const isEnding = isFixed && !isTimeUp && remaining <= firstWarning * 60;
+  const nextReservation = getNextReservation(reservations.filter(r => r.id !== session?.reservationId), screen.id, now);
+
+  const status = t(session
+    ? isTimeUp ? 'card.statusExpired' : isPaused ? 'card.statusPaused' : 'card.statusActive'
+    : screen.maintenance ? 'card.statusOutOfService' : 'card.statusStandby');
+  const tone = isTimeUp
+    ? 'border-red-500 bg-red-950/50 text-red-400 animate-pulse'
+    : isEnding
+      ? 'border-yellow-500 bg-yellow-950/30 text-yellow-400'
+      : session
+        ? 'border-cyan-500 bg-cyan-950/20 text-cyan-400'
+        : screen.maintenance
+          ? 'border-yellow-500/30 bg-black/40 text-yellow-600'
+          : 'border-white/10 bg-black/40 text-slate-500';
+
+  const cost = session ? priceActiveSession(session, ratePlans, now).total + getItemsTotal(session.orders) : 0;
+
+  return (
+    <div className={`border-2 p-6 flex flex-col gap-4 ${tone}`}>
+      <div className="flex items-baseline justify-between gap-4">
+        <h2 className="text-4xl font-bold font-tech uppercase tracking-wider truncate">{screen.name}</h2>
+        <span className="text-lg font-mono text-slate-500 shrink-0">{screen.consoleType}{screen.zone && ` · ${screen.zone}`}</span>
+      </div>
+
+      <div className="flex items-center gap-3 text-2xl font-tech uppercase tracking-[0.3em]">
+        {screen.maintenance && !session && <Wrench className="w-7 h-7" />}
+        {isPaused && <Pause className="w-7 h-7 fill-current" />}
+        {status}
+      </div>
+
+      {session ? (
+        <>
+          <div className="text-8xl font-bold font-tech tabular-nums text-white" dir="ltr">
+            {timer(isFixed ? remaining : getActiveSeconds(session.startTime, session.pauses, now))}
+          </div>
+          <div className="flex items-center justify-between text-xl font-mono text-slate-400">
+            <span>{t(isFixed ? 'wall.left' : 'wall.played')}</span>
+            {showCost && <span className="text-fuchsia-400 font-bold">{money(cost)}</span>}
+          </div>
+        </>
+      ) : (
+        <div className="text-8xl font-bold font-tech text-slate-700" dir="ltr">--:--:--</div>
+      )}
+
+      {nextReservation && (
+        <div className="flex items-center gap-2 text-xl font-mono text-fuchsia-400">
+          <CalendarClock className="w-6 h-6" /> {t('card.reservedAt')} {clock(nextReservation.startTime)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Read-only board for a TV facing the customers. It shares the store with the counter, so
+// changes show up as they happen: from other tabs on this device, or through the LAN sync server.
+const WallDisplay: React.FC<WallDisplayProps> = ({ showCost }) => {
+  const [state, , isHydrated] = useLoungeStore();
+  const { t, clock } = useI18n();
+  const { screens, sessions, ratePlans, reservations, alarms, receipt } = state;
+
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleFullscreen = () => {
+    document.documentElement.requestFullscreen?.().catch(err => console.error('Fullscreen failed', err));
+  };
+
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-cyan-500 font-tech tracking-[0.3em] uppercase animate-pulse">
+        {t('common.loading')}
+      </div>
+    );
+  }
+
+  const freeCount = screens.filter(s => !sessions[s.id] && !s.maintenance).length;
+
+  return (
+    <div className="min-h-screen text-slate-200 p-8 flex flex-col gap-8 cursor-default select-none">
+      {/* Header */}
+      <header className="flex items-center justify-between gap-6 border-b border-fuchsia-500/30 pb-6">
+        <div className="flex items-center gap-4">
+          <Gamepad2 className="w-12 h-12 text-cyan-400" />
+          <h1 className="text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-fuchsia-400 tracking-wider uppercase font-tech neon-glow">
+            {receipt.shopName}
+          </h1>
+        </div>
+        <div className="flex items-center gap-8">
+          <span className="text-3xl font-tech uppercase tracking-widest text-green-400">
+            {t('wall.free', { n: freeCount })}
+          </span>
+          <span className="text-5xl font-bold font-tech tabular-nums text-white">{clock(now)}</span>
+          {!document.fullscreenElement && (
+            <button onClick={handleFullscreen} className="text-slate-600 hover:text-cyan-400" title={t('wall.fullScreen')}>
+              <Maximize className="w-8 h-8" />
+            </button>
+          )}
+        </div>
+      </header>
+
+      {/* Stations */}
+      <div className="grid gap-8 grid-cols-[repeat(auto-fill,minmax(28rem,1fr))]">
+        {screens.map(screen => (
+          <StationTile
+            key={screen.id}
+            screen={screen}
+            session={sessions[screen.id]}
+            ratePlans={ratePlans}
+            reservations={reservations}
+            alarms={alarms}
+            showCost={showCost}
+            now={now}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WallDisplay;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { ZReport } from '../types';
+import { useI18n } from './LocaleProvider';
+
+interface ZReportViewProps {
+  report: ZReport;
+}
+
+const ZReportView: React.FC<ZReportViewProps> = ({ report }) => {
+  const { t, amount, number } = useI18n();
+  const summary = [
+    { label: t('z.sessions'), value: number(report.sessionCount) },
+    { label: t('z.hoursSold'), value: amount(report.hoursSold) },
+    { label: t('z.play'), value: amount(report.playRevenue) },
+    { label: t('z.items'), value: amount(report.itemsRevenue) },
+  ];
+
+  return (
+    <div className="flex flex-col gap-4 font-mono text-sm">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {summary.map(item => (
+          <div key={item.label} className="border border-white/10 bg-black/40 px-3 py-2">
+            <div className="text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest">{item.label}</div>
+            <div className="text-white font-bold">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <table className="w-full text-start">
+        <thead className="text-cyan-500/70 text-[10px] uppercase tracking-wider font-tech">
+          <tr>
+            <th className="py-2 font-medium">{t('z.terminal')}</th>
+            <th className="py-2 font-medium">{t('z.sessions')}</th>
+            <th className="py-2 font-medium">{t('z.hours')}</th>
+            <th className="py-2 font-medium text-end">{t('z.revenue')}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/10">
+          {report.stations.length === 0 ? (
+            <tr>
+              <td colSpan={4} className="py-4 text-center text-slate-500 font-tech">{t('z.noSessions')}</td>
+            </tr>
+          ) : report.stations.map(station => (
+            <tr key={String(station.screenId)}>
+              <td className="py-2 text-white font-bold">{station.screenName}</td>
+              <td className="py-2 text-slate-400">{number(station.sessions)}</td>
+              <td className="py-2 text-slate-400">{amount(station.seconds / 3600)}</td>
+              <td className="py-2 text-end text-fuchsia-400">{amount(station.revenue)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Discounts given, payments that didn't go through the drawer, and account cash that did */}
+      {[
+        { label: t('z.discounts'), value: report.discounts },
+        { label: t('z.walletPaid'), value: report.walletPaid },
+        { label: t('z.tabCharged'), value: report.tabCharged },
+        { label: t('z.accountCash'), value: report.accountCash }
+      ].filter(row => row.value).map(row => (
+        <div key={row.label} className="flex items-center justify-between text-xs text-slate-400">
+          <span className="font-tech uppercase tracking-wider">{row.label}</span>
+          <span>{amount(row.value!)}</span>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between border-t border-fuchsia-500/30 pt-3">
+        <span className="text-[10px] text-cyan-500 font-tech uppercase tracking-widest">{t('z.cashExpected')}</span>
+        <span className="text-2xl font-bold text-fuchsia-400 font-tech drop-shadow-[0_0_5px_rgba(232,121,249,0.8)]">
+          {amount(report.cashExpected)} <span className="text-sm">{t('common.currency')}</span>
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ZReportView;
@@ -1,6 +1,27 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import WallDisplay from './components/WallDisplay';
+import { LocaleProvider } from './components/LocaleProvider';
+import { ToastProvider } from './components/Toaster';
+
+// `#/display` opens the customer-facing wall display; `#/display?cost=1` adds running costs
+const DISPLAY_ROUTE = '#/display';
+
+const Root: React.FC = () => {
+  const [hash, setHash] = useState(window.location.hash);
+  useEffect(() => {
+    const handleHashChange = () => setHash(window.location.hash);
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  if (hash.startsWith(DISPLAY_ROUTE)) {
+    const params = new URLSearchParams(hash.split('?')[1] ?? '');
+    return <WallDisplay showCost={params.get('cost') === '1'} />;
+  }
+  return <App />;
+};
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +31,10 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <LocaleProvider>
+      <ToastProvider>
+        <Root />
+      </ToastProvider>
+    </LocaleProvider>
   </React.StrictMode>
-);
\ No newline at end of file
+);
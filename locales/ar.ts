@@ -0,0 +1,564 @@
+import { MessageKey } from './en';
+
+// Arabic catalog; must cover every key in the English one
+export const ar: Record<MessageKey, string> = {
+  // Shared
+  'common.loading': 'جارٍ التحميل...',
+  'common.confirm': 'تأكيد',
+  'common.cancel': 'إلغاء',
+  'common.save': 'حفظ',
+  'common.close': 'إغلاق',
+  'common.delete': 'حذف',
+  'common.edit': 'تعديل',
+  'common.add': 'إضافة',
+  'common.currency': 'ج.م',
+  'common.none': 'لا يوجد',
+  'format.duration': '{h}س {m}د',
+  'format.minutes': '{m}د',
+  'format.players': '{n} لاعب',
+  'role.OWNER': 'المالك',
+  'role.MANAGER': 'مدير',
+  'role.CASHIER': 'كاشير',
+  'locale.switch': 'اللغة',
+  'locale.arabicDigits': 'أرقام هندية (٠١٢٣)',
+
+  // Main screen
+  'app.title': 'سايبر PS',
+  'app.tagline': 'النظام متصل v2.0',
+  'app.shiftRevenue': 'إيراد الوردية · {time}',
+  'app.revenueSplit': 'لعب {play} · بوفيه {items}',
+  'app.live': 'نشط {active}/{total} · +{running}',
+  'app.sync': 'المزامنة: {status}',
+  'app.syncQueued': ' · {n} في الانتظار',
+  'app.alarmsDelayed': 'قد تتأخر التنبيهات',
+  'app.alarmsDelayedHint': 'أبقِ هذه الصفحة مفتوحة وظاهرة واسمح بالإشعارات حتى ترن تنبيهات الوقت في موعدها.',
+  'app.syncConflicts': ' · {n} تعارض',
+  'sync.ONLINE': 'متصلة',
+  'sync.OFFLINE': 'غير متصلة',
+  'sync.CONNECTING': 'جارٍ الاتصال',
+  'sync.OFF': 'متوقفة',
+  'sync.UNPAIRED': 'غير مقترنة',
+  'app.ratePlans': 'خطط الأسعار',
+  'app.rates': 'الأسعار',
+  'app.discounts': 'الخصومات',
+  'app.snackBar': 'البوفيه',
+  'app.bar': 'البوفيه',
+  'app.reservations': 'الحجوزات',
+  'app.customers': 'العملاء',
+  'app.analytics': 'التحليلات',
+  'app.wallDisplay': 'شاشة العرض',
+  'app.dataTools': 'تصدير / نسخ احتياطي',
+  'app.shiftArchive': 'أرشيف الورديات',
+  'app.staff': 'الموظفون',
+  'app.auditLog': 'سجل التدقيق',
+  'app.printing': 'الطباعة',
+  'app.closeShift': 'إغلاق الوردية',
+  'app.signOut': 'تسجيل الخروج',
+  'app.allConsoles': 'كل الأجهزة',
+  'app.allZones': 'كل المناطق',
+  'app.anyStatus': 'أي حالة',
+  'app.statusFree': 'متاح',
+  'app.statusBusy': 'في جلسة',
+  'app.statusMaintenance': 'خارج الخدمة',
+  'app.noGrouping': 'بدون تجميع',
+  'app.groupByZone': 'حسب المنطقة',
+  'app.groupByConsole': 'حسب الجهاز',
+  'app.stations': 'الأجهزة',
+  'app.alarms': 'التنبيهات',
+  'app.newStation': 'جهاز {n}',
+  'app.addTerminal': 'إضافة جهاز',
+  'app.noZone': 'بدون منطقة',
+  'app.noMatches': 'لا توجد أجهزة تطابق هذه الفلاتر',
+  'app.systemAlert': 'تنبيه النظام',
+  'app.confirmDelete': 'هل أنت متأكد من حذف هذا السجل؟',
+  'app.confirmMerge': 'دمج هذين السجلين في زيارة واحدة؟ لا يمكن التراجع عن ذلك.',
+  'app.confirmWipe': 'تحذير: سيتم مسح جميع السجلات نهائياً.',
+
+  // Sign-in
+  'login.createOwner': 'إنشاء حساب المالك',
+  'login.title': 'دخول الموظفين',
+  'login.setupHint': 'يمكن للمالك إضافة المديرين والكاشير لاحقاً من لوحة الموظفين.',
+  'login.name': 'الاسم',
+  'login.pin': 'الرمز السري',
+  'login.confirmPin': 'تأكيد الرمز',
+  'login.wrongPin': 'رمز خاطئ',
+  'login.enterName': 'أدخل الاسم',
+  'login.pinLength': 'الرمز يجب أن يكون من {min} إلى 8 أرقام',
+  'login.pinMismatch': 'الرمزان غير متطابقين',
+  'login.create': 'إنشاء',
+  'login.signIn': 'دخول',
+
+  // Station card
+  'alarm.timeUp': 'انتهى الوقت',
+  'alarm.minutesLeft': 'متبقٍ {n} دقيقة',
+  'alarm.station': 'الجهاز',
+  'alarm.notifyTimeUp': 'انتهى الوقت!',
+  'alarm.notifyWarning': 'متبقٍ {n} دقيقة',
+  'alarm.notifyTimeUpBody': 'انتهت الجلسة على {name}.',
+  'alarm.notifyWarningBody': 'تنتهي الجلسة على {name} خلال {n} دقيقة.',
+  'card.selectPlan': 'اختر خطة أسعار أولاً',
+  'card.invalidMinutes': 'أدخل عدد دقائق صحيحاً للجلسة المحددة',
+  'card.statusExpired': 'انتهى الوقت',
+  'card.statusPaused': 'متوقف مؤقتاً',
+  'card.statusActive': 'نشط',
+  'card.statusOutOfService': 'خارج الخدمة',
+  'card.statusStandby': 'متاح',
+  'card.indicatorAlarm': 'تنبيه',
+  'card.indicatorHold': 'إيقاف',
+  'card.indicatorLive': 'مباشر',
+  'card.ack': 'إسكات',
+  'card.runsIntoBooking': 'يتعارض مع حجز',
+  'card.reservedAt': 'محجوز الساعة',
+  'card.seat': 'إجلاس',
+  'card.lastSession': 'لا جلسات جديدة بعد هذه',
+  'card.maintenance': 'صيانة',
+  'card.since': 'منذ {time}',
+  'card.open': 'مفتوح',
+  'card.fixed': 'محدد',
+  'card.timeMinutes': 'الوقت (دقيقة)',
+  'card.remaining': 'المتبقي',
+  'card.duration': 'المدة',
+  'card.ratePlan': 'خطة الأسعار',
+  'card.playersFromNow': 'عدد اللاعبين من الآن',
+  'card.controllers': 'عدد الأذرع',
+  'card.perHour': '{rate}/ساعة',
+  'card.currentCost': 'التكلفة الحالية',
+  'card.itemsTotal': '+{amount} بوفيه',
+  'card.playerName': 'اسم اللاعب...',
+  'card.points': '{n} نقطة',
+  'card.saveAsCustomer': 'حفظ كعميل جديد',
+  'card.snacks': 'مأكولات ومشروبات...',
+  'card.movePlan': 'خطة الأسعار على الجهاز الجديد',
+  'card.move': 'نقل',
+  'card.moveTitle': 'نقل إلى جهاز آخر',
+  'card.startTimer': 'بدء المؤقت',
+  'card.initialize': 'بدء الجلسة',
+  'card.resume': 'استئناف',
+  'card.pause': 'إيقاف مؤقت',
+  'card.terminate': 'إنهاء',
+
+  // Session history
+  'logs.title': 'سجل الجلسات',
+  'logs.thisShift': 'هذه الوردية',
+  'logs.allShifts': 'كل الورديات',
+  'logs.filter': 'تصفية',
+  'logs.entries': 'السجلات: {n}',
+  'logs.wipe': 'مسح السجلات',
+  'logs.from': 'من',
+  'logs.to': 'إلى',
+  'logs.terminal': 'الجهاز',
+  'logs.customer': 'العميل',
+  'logs.minTotal': 'أقل إجمالي',
+  'logs.type': 'النوع',
+  'logs.all': 'الكل',
+  'logs.typeOpen': 'مفتوح',
+  'logs.typeFixed': 'محدد',
+  'logs.clear': 'مسح',
+  'logs.colTerminal': 'الجهاز',
+  'logs.colStart': 'وقت البدء',
+  'logs.colDuration': 'المدة',
+  'logs.colRate': 'السعر',
+  'logs.colTotal': 'الإجمالي',
+  'logs.colAction': 'إجراء',
+  'logs.noData': 'لا توجد بيانات',
+  'logs.billedTitle': 'محسوبة حسب سياسة الفوترة للخطة',
+  'logs.billed': 'المحتسب {duration}',
+  'logs.segment': '{label}: {rate}/ساعة × {duration} = {cost}',
+  'logs.overtime': 'وقت إضافي {duration} · {cost}',
+  'logs.items': 'بوفيه {amount}',
+  'logs.discountOf': '-{discount} من {gross}',
+  'logs.split': 'مقسمة ×{n}',
+  'logs.print': 'طباعة الإيصال',
+  'logs.mergeWith': 'دمج مع السجل المحدد',
+  'logs.mergeInto': 'دمج في زيارة واحدة',
+  'logs.filteredTotal': 'إجمالي النتائج',
+  'logs.total': 'الإجمالي',
+  'logs.sessions': '{n} جلسة',
+  'logs.revenueSplit': 'لعب {play} · بوفيه {items}',
+  'logs.page': '{page} / {count}',
+
+  // Checkout
+  'payment.CASH': 'نقدي',
+  'payment.WALLET': 'المحفظة',
+  'payment.TAB': 'آجل',
+  'payment.SPLIT': 'مقسم',
+  'promo.UNKNOWN': 'كود غير معروف',
+  'promo.INACTIVE': 'الكود متوقف',
+  'promo.NOT_YET': 'الكود لم يبدأ بعد',
+  'promo.EXPIRED': 'انتهت صلاحية الكود',
+  'promo.USED_UP': 'تم استهلاك الكود',
+  'promo.CONDITIONS': 'الزيارة لا تستوفي الشروط',
+  'checkout.title': 'الحساب',
+  'checkout.time': 'الوقت',
+  'checkout.billed': '{duration} محتسبة',
+  'checkout.play': 'اللعب',
+  'checkout.rounding': 'شاملة تقريب الفاتورة',
+  'checkout.overtime': 'وقت إضافي {duration}',
+  'checkout.items': 'البوفيه',
+  'checkout.freeMinutes': '{n} دقيقة مجانية',
+  'checkout.promoCode': 'كود الخصم',
+  'checkout.discountKind': 'نسبة أو مبلغ ثابت',
+  'checkout.off': 'خصم',
+  'checkout.points': '{n} نقطة',
+  'checkout.pointsPerMinute': '{n} نقطة / دقيقة',
+  'checkout.redeem': 'دقائق مجانية (حد أقصى {n})',
+  'checkout.notEnoughPoints': 'النقاط غير كافية للاستبدال بعد',
+  'checkout.pointsEarned': '+{earned} نقطة مكتسبة{arrow}{total} نقطة',
+  'checkout.tabBalance': 'آجل {tab} / {limit}',
+  'checkout.onTab': 'على الحساب',
+  'checkout.split': 'تقسيم بين اللاعبين',
+  'checkout.playerN': 'لاعب {n}',
+  'checkout.printSlip': 'طباعة إيصال هذا اللاعب',
+  'checkout.removePlayer': 'حذف اللاعب',
+  'checkout.addPlayer': 'لاعب',
+  'checkout.sharesTooHigh': 'مجموع الحصص أكبر من الإجمالي',
+  'checkout.total': 'الإجمالي',
+  'checkout.terminate': 'إنهاء الجلسة',
+  'checkout.printBill': 'طباعة الفاتورة كما ستُحصّل',
+
+  // Wall display
+  'wall.left': 'متبقٍ',
+  'wall.played': 'مدة اللعب',
+  'wall.free': '{n} متاح',
+  'wall.fullScreen': 'ملء الشاشة',
+
+  // Rate plans
+  'rates.title': 'خطط الأسعار',
+  'rates.overtimeRate': 'سعر الخطة',
+  'rates.overtimeBlocks': 'بالفترة',
+  'rates.overtimeFree': 'مجاني',
+  'rates.billing': 'الفوترة',
+  'rates.exact': 'بالدقيقة',
+  'rates.minGrace': 'دقيقة سماح',
+  'rates.minMinimum': 'دقيقة حد أدنى',
+  'rates.round': 'تقريب',
+  'rates.off': 'بدون',
+  'rates.billingScope': 'للجلسات المحسوبة بالوقت؛ الوقت الإضافي للباقات يتبع إعداد الوقت الإضافي',
+  'rates.billingExampleTitle': 'مثال: كيف تُحتسب جلسة مدتها 61 دقيقة',
+  'rates.deletePlan': 'حذف الخطة',
+  'rates.baseRate': 'السعر الأساسي / ساعة',
+  'rates.deleteRule': 'حذف القاعدة',
+  'rates.timeWindow': 'فترة زمنية',
+  'rates.packages': 'الباقات',
+  'rates.min': 'دقيقة',
+  'rates.deletePackage': 'حذف الباقة',
+  'rates.package': 'باقة',
+  'rates.overtime': 'الوقت الإضافي',
+  'rates.minBlock': 'دقيقة للفترة',
+  'rates.newPlan': 'خطة جديدة',
+  'rates.planN': 'خطة {n}',
+  'rates.peak': 'ذروة',
+  'rates.oneHour': 'ساعة',
+  'rates.unnamed': 'بدون اسم',
+  'rates.packageMinutes': '{n} دقيقة',
+
+  // Snack bar
+  'bar.title': 'البوفيه',
+  'bar.item': 'الصنف',
+  'bar.price': 'السعر',
+  'bar.stock': 'المخزون',
+  'bar.placeholder': 'بيبسي، شيبسي...',
+  'bar.addItem': 'إضافة صنف',
+
+  // Shifts and Z-report
+  'shift.zReport': 'تقرير Z',
+  'shift.opened': 'فُتحت {time}',
+  'shift.closedBy': 'أغلقها',
+  'shift.nextOpenedBy': 'يفتح الوردية التالية',
+  'shift.staffName': 'اسم الموظف...',
+  'shift.close': 'إغلاق الوردية',
+  'z.sessions': 'الجلسات',
+  'z.hoursSold': 'الساعات المباعة',
+  'z.play': 'اللعب',
+  'z.items': 'البوفيه',
+  'z.terminal': 'الجهاز',
+  'z.hours': 'الساعات',
+  'z.revenue': 'الإيراد',
+  'z.noSessions': 'لا توجد جلسات',
+  'z.discounts': 'الخصومات الممنوحة',
+  'z.walletPaid': 'مدفوع من المحافظ',
+  'z.tabCharged': 'على الحساب',
+  'z.accountCash': 'شحن رصيد وسداد حسابات',
+  'z.cashExpected': 'النقدية المتوقعة',
+  'debtors.title': 'حسابات آجلة مستحقة',
+
+  // Shift archive
+  'archive.report': 'تقرير الوردية',
+  'archive.title': 'أرشيف الورديات',
+  'archive.terminal': 'الجهاز',
+  'archive.start': 'وقت البدء',
+  'archive.end': 'وقت الانتهاء',
+  'archive.total': 'الإجمالي',
+  'archive.empty': 'لا توجد ورديات مغلقة',
+  'archive.summary': '{sessions} جلسة · {hours} ساعة · {by}',
+
+  // Stations
+  'stations.title': 'الأجهزة',
+  'stations.dragToReorder': 'اسحب لإعادة الترتيب',
+  'stations.backInService': 'إعادة للخدمة',
+  'stations.outOfService': 'خارج الخدمة',
+  'stations.stopFirst': 'أنهِ الجلسة الجارية أولاً',
+  'stations.delete': 'حذف الجهاز',
+  'stations.zone': 'المنطقة',
+  'stations.defaultPlan': 'خطة الأسعار الافتراضية',
+  'stations.firstPlan': 'أول خطة',
+  'stations.pads': 'الأذرع',
+  'stations.whatsWrong': 'ما المشكلة؟',
+  'stations.inSession': 'في جلسة',
+  'stations.new': 'جهاز جديد',
+  'stations.fallbackName': 'جهاز',
+  'stations.cancelsBookings': 'الحفظ سيلغي {n} حجز قادم على الأجهزة المحذوفة.',
+
+  // Discounts
+  'discounts.title': 'الخصومات',
+  'discounts.kindPercent': 'خصم %',
+  'discounts.kindFixed': 'خصم مبلغ',
+  'discounts.kindFreeMinutes': 'دقائق مجانية',
+  'discounts.empty': 'لا توجد قواعد بعد · ساعات مخفضة، أكواد خصم، دقائق مجانية',
+  'discounts.active': 'مفعّلة',
+  'discounts.off': 'متوقفة',
+  'discounts.deleteRule': 'حذف القاعدة',
+  'discounts.after': 'بعد',
+  'discounts.minPlayed': 'دقيقة لعب',
+  'discounts.starts': 'يبدأ',
+  'discounts.code': 'الكود (فارغ = تلقائي)',
+  'discounts.validFrom': 'صالح من',
+  'discounts.validUntil': 'صالح حتى',
+  'discounts.used': 'استُخدم {n} /',
+  'discounts.newRule': 'قاعدة جديدة',
+  'discounts.unnamed': 'بدون اسم',
+
+  // Alarm settings
+  'alarmSettings.title': 'التنبيهات',
+  'alarmSettings.warnAt': 'تنبيه عند',
+  'alarmSettings.minutesLeft': 'متبقٍ {m}د',
+  'alarmSettings.min': 'دقيقة',
+  'alarmSettings.addWarning': 'إضافة تنبيه',
+  'alarmSettings.repeat': 'التكرار حتى التأكيد',
+  'alarmSettings.seconds': '{s}ث',
+  'alarmSettings.mayBeDelayed': 'قد تتأخر التنبيهات',
+  'alarmSettings.delivery': 'ترن التنبيهات على بطاقة الجهاز طالما هذه الصفحة مفتوحة وظاهرة. في الخلفية يبطئ المتصفح الصفحة وقد تصل الإشعارات متأخرة دقيقة أو أكثر، لذا أبقِ شاشة الصالة ظاهرة أثناء الجلسات المحددة.',
+  'alarmSettings.notify.granted': 'الإشعارات مفعلة',
+  'alarmSettings.notify.default': 'الإشعارات غير مفعلة',
+  'alarmSettings.notify.denied': 'الإشعارات محظورة في إعدادات المتصفح',
+  'alarmSettings.notify.unsupported': 'هذا المتصفح لا يدعم الإشعارات',
+  'alarmSettings.enableNotify': 'تفعيل',
+
+  // Customers
+  'customers.title': 'العملاء',
+  'customers.name': 'الاسم',
+  'customers.phone': 'الهاتف',
+  'customers.creditLimit': 'حد الآجل',
+  'customers.noTab': '0 = بدون آجل',
+  'customers.notes': 'ملاحظات',
+  'customers.settleFirst': 'سوِّ الحساب أولاً',
+  'customers.visits': 'الزيارات',
+  'customers.hours': 'الساعات',
+  'customers.lifetime': 'إجمالي الإنفاق',
+  'customers.points': 'النقاط',
+  'customers.owes': 'عليه {amount}',
+  'customers.amount': 'المبلغ',
+  'customers.note': 'ملاحظة (مطلوبة للتسويات)',
+  'customers.topUp': 'شحن',
+  'customers.payTab': 'سداد الآجل',
+  'customers.adjustWallet': 'تسوية المحفظة',
+  'customers.adjustTab': 'تسوية الآجل',
+  'customers.entry.TOP_UP': 'شحن',
+  'customers.entry.SESSION': 'جلسة',
+  'customers.entry.TAB_PAYMENT': 'سداد آجل',
+  'customers.entry.ADJUSTMENT': 'تسوية',
+  'customers.walletShort': 'م',
+  'customers.tabShort': 'آ',
+  'customers.noVisits': 'لا توجد زيارات بعد',
+  'customers.terminal': 'الجهاز',
+  'customers.start': 'البداية',
+  'customers.duration': 'المدة',
+  'customers.total': 'الإجمالي',
+  'customers.search': 'الاسم أو الهاتف...',
+  'customers.new': 'جديد',
+  'customers.empty': 'لا يوجد عملاء',
+  'customers.visitCount': '{n} زيارة',
+  'customers.loyalty': 'الولاء',
+  'customers.earn': 'الاكتساب',
+  'customers.perHour': 'لكل ساعة',
+  'customers.perEgp': 'لكل جنيه',
+  'customers.pointsPerFreeMinute': 'نقاط / دقيقة مجانية',
+
+  // Reservations
+  'reservations.title': 'الحجوزات',
+  'reservations.view.day': 'يوم',
+  'reservations.view.week': 'أسبوع',
+  'reservations.today': 'اليوم',
+  'reservations.customer': 'العميل',
+  'reservations.phone': 'الهاتف',
+  'reservations.outOfService': ' (خارج الخدمة)',
+  'reservations.min': 'دقيقة',
+  'reservations.deposit': 'العربون',
+  'reservations.notes': 'ملاحظات',
+  'reservations.booked': 'محجوز',
+  'reservations.inUse': 'مشغول',
+  'reservations.depositHint': 'يُضاف العربون إلى محفظة العميل ويمكن استخدامه لدفع الجلسة عند الحساب.',
+  'reservations.depositNote': 'عربون · {station} {at}',
+  'reservations.update': 'تحديث',
+  'reservations.book': 'احجز',
+  'reservations.new': 'حجز جديد',
+  'reservations.count': '{n} حجز',
+  'reservations.add': 'حجز',
+  'reservations.empty': 'لا توجد حجوزات',
+  'reservations.status.BOOKED': 'محجوز',
+  'reservations.status.SEATED': 'حضر',
+  'reservations.status.CANCELLED': 'ملغى',
+  'reservations.status.NO_SHOW': 'لم يحضر',
+  'reservations.noShow': 'لم يحضر',
+
+  // Analytics
+  'analytics.title': 'التحليلات',
+  'analytics.vs': 'مقابل {previous}',
+  'analytics.periodDays': '{n} يوم',
+  'analytics.vsPrevious': 'مقابل الـ {n} يوم السابقة',
+  'analytics.revenue': 'الإيراد',
+  'analytics.sessions': 'الجلسات',
+  'analytics.hours': 'الساعات',
+  'analytics.avgSession': 'متوسط الجلسة',
+  'analytics.avgTicket': 'متوسط الفاتورة',
+  'analytics.discounts': 'الخصومات',
+  'analytics.granularity.day': 'يوم',
+  'analytics.granularity.week': 'أسبوع',
+  'analytics.granularity.month': 'شهر',
+  'analytics.stations': 'الأجهزة',
+  'analytics.noData': 'لا توجد بيانات',
+  'analytics.stationHours': '{n} ساعة · ',
+  'analytics.occupancy': 'الإشغال (ساعات الأجهزة)',
+  'analytics.cellHours': '{n} س',
+  'analytics.uses': '{n}× · ',
+
+  // Audit
+  'audit.title': 'سجل المراجعة',
+  'audit.problem.HASH': 'تم تعديل هذا القيد',
+  'audit.problem.LINK': 'السلسلة مقطوعة قبل هذا القيد',
+  'audit.problem.GAP': 'قيود مفقودة قبل هذا القيد',
+  'audit.chainBroken': 'السلسلة مقطوعة · {broken} من {total} قيد لم تجتز التحقق',
+  'audit.chainVerified': 'السلسلة سليمة · {total} قيد',
+  'audit.allEvents': 'كل الأحداث',
+  'audit.allStaff': 'كل الموظفين',
+  'audit.search': 'بحث...',
+  'audit.empty': 'لا توجد قيود',
+  'audit.restoreHint': 'تعود السجلات المستعادة إلى سجل الوردية الحالية',
+  'audit.restore': 'استعادة {n}',
+  'audit.page': '{page} / {count}',
+  'audit.event.SESSION_START': 'بدء جلسة',
+  'audit.event.SESSION_STOP': 'إنهاء جلسة',
+  'audit.event.RECORD_DELETE': 'حذف سجل',
+  'audit.event.RECORD_RESTORE': 'استعادة سجل',
+  'audit.event.RECORD_MERGE': 'دمج سجلات',
+  'audit.event.HISTORY_RESET': 'مسح السجل',
+  'audit.event.RATES_CHANGE': 'تغيير الأسعار',
+  'audit.event.SCREEN_RENAME': 'إعادة تسمية جهاز',
+  'audit.event.BACKUP_IMPORT': 'استيراد نسخة احتياطية',
+  'audit.event.SHIFT_CLOSE': 'إغلاق وردية',
+  'audit.event.LEDGER_ENTRY': 'قيد حساب',
+  'audit.event.DISCOUNTS_CHANGE': 'تغيير الخصومات',
+  'audit.event.STATIONS_CHANGE': 'تغيير الأجهزة',
+
+  // Audit summaries
+  'auditMsg.open': 'مفتوحة',
+  'auditMsg.fixed': 'محددة {m}د',
+  'auditMsg.records': '{n} سجل',
+  'auditMsg.recordsChange': '{from} ← {to} سجل',
+  'auditMsg.sessions': '{n} جلسة',
+  'auditMsg.shifts': '{n} وردية',
+  'auditMsg.cash': 'نقدي {amount}',
+  'auditMsg.wallet': 'المحفظة {amount}',
+  'auditMsg.tab': 'الآجل {amount}',
+  'auditMsg.importMerge': 'دمج',
+  'auditMsg.importReplace': 'استبدال',
+  'auditMsg.noChange': 'لا تغيير',
+  'auditMsg.added': '+{name}',
+  'auditMsg.removed': '-{name}',
+  'auditMsg.edited': 'تعديل {name}',
+  'auditMsg.renamed': '{from} ← {to}',
+  'auditMsg.changed': '{from} ← {to}',
+  'auditMsg.rate': '{name} {pads} أذرع {from}←{to}',
+  'auditMsg.turnedOn': 'تفعيل {name}',
+  'auditMsg.turnedOff': 'إيقاف {name}',
+  'auditMsg.discount.PERCENT': '{name} {value}%',
+  'auditMsg.discount.FIXED': '{name} {value}',
+  'auditMsg.discount.FREE_MINUTES': '{name} {value}د',
+  'auditMsg.outOfService': '{name} خارج الخدمة',
+  'auditMsg.outOfServiceNote': '{name} خارج الخدمة ({note})',
+  'auditMsg.backInService': '{name} عاد للخدمة',
+  'auditMsg.reordered': 'إعادة ترتيب',
+
+  // Data
+  'data.title': 'البيانات',
+  'data.export': 'تصدير',
+  'data.from': 'من',
+  'data.to': 'إلى',
+  'data.csv': 'CSV ({n})',
+  'data.fullBackup': 'نسخة احتياطية كاملة (JSON)',
+  'data.restore': 'استعادة',
+  'data.chooseFile': 'اختر ملف النسخة الاحتياطية',
+  'data.invalidJson': 'الملف ليس JSON صالحاً',
+  'data.contents': '{screens} جهاز · {active} نشطة · {sessions} جلسة · {shifts} وردية',
+  'data.issues': '{n} مشكلة',
+  'data.skipped': ' — تم تخطيها',
+  'data.mergeHint': 'إضافة الناقص مع الإبقاء على السجلات الحالية',
+  'data.merge': 'دمج',
+  'data.replaceHint': 'تجاهل البيانات الحالية واستخدام النسخة الاحتياطية',
+  'data.replace': 'استبدال',
+  'data.lanSync': 'مزامنة الشبكة · {status}',
+  'data.pairingCode': 'رمز الاقتران',
+  'data.connect': 'اتصال',
+  'data.disconnect': 'قطع الاتصال',
+  'data.syncHelp': 'شغّل `npm run sync-server` على جهاز كمبيوتر في المحل وأدخل رمز الاقتران الذي يظهره. أول جهاز يتصل يرفع بياناته، وكل جهاز بعده ينتقل إلى نسخة الخادم. التغييرات التي تتم دون اتصال تُرسل عند عودة الاتصال.',
+  'data.autoDetect': 'اكتشاف تلقائي',
+
+  // Backup checks
+  'backup.notBackup': 'هذا الملف ليس نسخة احتياطية من PS Lounge',
+  'backup.unsupportedVersion': 'إصدار نسخة احتياطية غير مدعوم: {version}',
+  'backup.notAList': '{list}: كان المتوقع قائمة',
+  'backup.malformedRow': '{list} رقم {n}: صف تالف',
+  'backup.malformedRowId': '{list} رقم {n}: صف تالف ({id})',
+  'backup.badActiveSession': 'جلسة نشطة على {station}: بيانات تالفة أو جهاز غير معروف',
+  'backup.list.screen': 'جهاز',
+  'backup.list.session': 'جلسة',
+  'backup.list.shift': 'وردية',
+  'backup.list.shiftSession': 'جلسة في الوردية {id}',
+  'backup.list.ratePlan': 'خطة أسعار',
+  'backup.list.product': 'منتج',
+  'backup.list.customer': 'عميل',
+
+  // Printing
+  'print.title': 'الطباعة',
+  'print.receipt': 'الإيصال',
+  'print.shopName': 'اسم المحل',
+  'print.address': 'العنوان',
+  'print.phone': 'الهاتف',
+  'print.footer': 'التذييل',
+  'print.paper': 'الورق',
+  'print.paperWidth': '{n} مم',
+  'print.bridgeUrl': 'عنوان وسيط ESC/POS',
+  'print.bridgeHint': 'تُرسل الإيصالات إلى هذا العنوان كبايتات خام؛ اتركه فارغاً لاستخدام نافذة الطباعة في المتصفح.',
+  'print.dailySummary': 'الملخص اليومي',
+  'print.print': 'طباعة',
+  'print.rawHint': 'بايتات ESC/POS خام لوسيط الطباعة',
+
+  // Staff
+  'staff.title': 'الموظفون',
+  'staff.you': ' · أنت',
+  'staff.changePin': 'تغيير الرقم السري',
+  'staff.remove': 'إزالة',
+  'staff.newPin': 'رقم سري جديد',
+  'staff.name': 'الاسم',
+  'staff.pin': 'الرقم السري ({min}-8)',
+  'staff.sessionsOnly': 'الجلسات والطلبات فقط',
+  'permission.EDIT_HISTORY': 'تعديل السجل',
+  'permission.RESET_HISTORY': 'مسح السجل',
+  'permission.EDIT_RATES': 'تعديل الأسعار',
+  'permission.MANAGE_TERMINALS': 'إدارة الأجهزة',
+  'permission.CLOSE_SHIFT': 'إغلاق الوردية',
+  'permission.RESTORE_BACKUP': 'استعادة نسخة احتياطية',
+  'permission.MANAGE_STAFF': 'إدارة الموظفين',
+  'permission.VIEW_AUDIT': 'عرض سجل المراجعة',
+  'permission.GIVE_DISCOUNT': 'منح خصم'
+};
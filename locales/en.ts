@@ -0,0 +1,564 @@
+// English catalog, and the list of every message key. `{name}` marks a value filled in at runtime.
+export const en = {
+  // Shared
+  'common.loading': 'Loading...',
+  'common.confirm': 'Confirm',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.edit': 'Edit',
+  'common.add': 'Add',
+  'common.currency': 'EGP',
+  'common.none': 'None',
+  'format.duration': '{h}h {m}m',
+  'format.minutes': '{m}m',
+  'format.players': '{n}P',
+  'role.OWNER': 'Owner',
+  'role.MANAGER': 'Manager',
+  'role.CASHIER': 'Cashier',
+  'locale.switch': 'Language',
+  'locale.arabicDigits': 'Arabic-Indic digits (٠١٢٣)',
+
+  // Main screen
+  'app.title': 'CYBER PS',
+  'app.tagline': 'System Online v2.0',
+  'app.shiftRevenue': 'Shift Revenue · {time}',
+  'app.revenueSplit': 'PLAY {play} · F&B {items}',
+  'app.live': 'LIVE {active}/{total} · +{running}',
+  'app.sync': 'SYNC {status}',
+  'app.syncQueued': ' · {n} QUEUED',
+  'app.alarmsDelayed': 'ALARMS MAY BE DELAYED',
+  'app.alarmsDelayedHint': 'Keep this tab open and in view, and allow notifications, so time alerts ring on time.',
+  'app.syncConflicts': ' · {n} CONFLICT(S)',
+  'sync.ONLINE': 'ONLINE',
+  'sync.OFFLINE': 'OFFLINE',
+  'sync.CONNECTING': 'CONNECTING',
+  'sync.OFF': 'OFF',
+  'sync.UNPAIRED': 'NOT PAIRED',
+  'app.ratePlans': 'Rate Plans',
+  'app.rates': 'Rates',
+  'app.discounts': 'Discounts',
+  'app.snackBar': 'Snack Bar',
+  'app.bar': 'Bar',
+  'app.reservations': 'Reservations',
+  'app.customers': 'Customers',
+  'app.analytics': 'Analytics',
+  'app.wallDisplay': 'Wall Display',
+  'app.dataTools': 'Export / Backup',
+  'app.shiftArchive': 'Shift Archive',
+  'app.staff': 'Staff',
+  'app.auditLog': 'Audit Log',
+  'app.printing': 'Printing',
+  'app.closeShift': 'Close Shift',
+  'app.signOut': 'Sign out',
+  'app.allConsoles': 'ALL CONSOLES',
+  'app.allZones': 'ALL ZONES',
+  'app.anyStatus': 'ANY STATUS',
+  'app.statusFree': 'FREE',
+  'app.statusBusy': 'IN SESSION',
+  'app.statusMaintenance': 'OUT OF SERVICE',
+  'app.noGrouping': 'NO GROUPING',
+  'app.groupByZone': 'GROUP BY ZONE',
+  'app.groupByConsole': 'GROUP BY CONSOLE',
+  'app.stations': 'Stations',
+  'app.alarms': 'Alarms',
+  'app.newStation': 'STATION {n}',
+  'app.addTerminal': 'ADD TERMINAL',
+  'app.noZone': 'NO ZONE',
+  'app.noMatches': 'No stations match these filters',
+  'app.systemAlert': 'System Alert',
+  'app.confirmDelete': 'Delete this record? This cannot be undone.',
+  'app.confirmMerge': 'Merge these two records into a single visit? This cannot be undone.',
+  'app.confirmWipe': 'WARNING: System reset initiated. All records will be wiped.',
+
+  // Sign-in
+  'login.createOwner': 'Create Owner',
+  'login.title': 'Staff Login',
+  'login.setupHint': 'The owner can add managers and cashiers later from the staff panel.',
+  'login.name': 'NAME',
+  'login.pin': 'PIN',
+  'login.confirmPin': 'CONFIRM PIN',
+  'login.wrongPin': 'WRONG PIN',
+  'login.enterName': 'ENTER A NAME',
+  'login.pinLength': 'PIN MUST BE {min}-8 DIGITS',
+  'login.pinMismatch': 'PINS DO NOT MATCH',
+  'login.create': 'Create',
+  'login.signIn': 'Sign In',
+
+  // Station card
+  'alarm.timeUp': 'TIME UP',
+  'alarm.minutesLeft': '{n} MIN LEFT',
+  'alarm.station': 'Station',
+  'alarm.notifyTimeUp': 'Time\'s Up!',
+  'alarm.notifyWarning': '{n} minutes left',
+  'alarm.notifyTimeUpBody': 'Session on {name} has finished.',
+  'alarm.notifyWarningBody': 'Session on {name} ends in {n} minutes.',
+  'card.selectPlan': 'Select a rate plan first',
+  'card.invalidMinutes': 'Enter valid minutes for a fixed session',
+  'card.statusExpired': 'TIME EXPIRED',
+  'card.statusPaused': 'PAUSED',
+  'card.statusActive': 'ACTIVE',
+  'card.statusOutOfService': 'OUT OF SERVICE',
+  'card.statusStandby': 'STANDBY',
+  'card.indicatorAlarm': 'ALARM',
+  'card.indicatorHold': 'HOLD',
+  'card.indicatorLive': 'LIVE',
+  'card.ack': 'ACK',
+  'card.runsIntoBooking': 'RUNS INTO BOOKING',
+  'card.reservedAt': 'RESERVED AT',
+  'card.seat': 'Seat',
+  'card.lastSession': 'NO NEW SESSIONS AFTER THIS ONE',
+  'card.maintenance': 'MAINTENANCE',
+  'card.since': 'SINCE {time}',
+  'card.open': 'Open',
+  'card.fixed': 'Fixed',
+  'card.timeMinutes': 'Time (Min)',
+  'card.remaining': 'Remaining',
+  'card.duration': 'Duration',
+  'card.ratePlan': 'Rate Plan',
+  'card.playersFromNow': 'Players from now on',
+  'card.controllers': 'Controllers',
+  'card.perHour': '{rate}/HR',
+  'card.currentCost': 'Current Cost',
+  'card.itemsTotal': '+{amount} F&B',
+  'card.playerName': 'PLAYER NAME...',
+  'card.points': '{n} PTS',
+  'card.saveAsCustomer': 'SAVE AS NEW CUSTOMER',
+  'card.snacks': 'SNACKS & DRINKS...',
+  'card.movePlan': 'Rate plan on the new station',
+  'card.move': 'Move',
+  'card.moveTitle': 'Move to station',
+  'card.startTimer': 'Start Timer',
+  'card.initialize': 'Initialize',
+  'card.resume': 'Resume',
+  'card.pause': 'Pause',
+  'card.terminate': 'Terminate',
+
+  // Session history
+  'logs.title': 'Session Logs',
+  'logs.thisShift': 'This Shift',
+  'logs.allShifts': 'All Shifts',
+  'logs.filter': 'Filter',
+  'logs.entries': 'ENTRIES: {n}',
+  'logs.wipe': 'Wipe logs',
+  'logs.from': 'From',
+  'logs.to': 'To',
+  'logs.terminal': 'Terminal',
+  'logs.customer': 'Customer',
+  'logs.minTotal': 'Min Total',
+  'logs.type': 'Type',
+  'logs.all': 'ALL',
+  'logs.typeOpen': 'OPEN',
+  'logs.typeFixed': 'FIXED',
+  'logs.clear': 'Clear',
+  'logs.colTerminal': 'TERMINAL',
+  'logs.colStart': 'START TIME',
+  'logs.colDuration': 'DURATION',
+  'logs.colRate': 'RATE',
+  'logs.colTotal': 'TOTAL',
+  'logs.colAction': 'ACTION',
+  'logs.noData': 'NO DATA AVAILABLE',
+  'logs.billedTitle': 'Charged under the plan\'s billing policy',
+  'logs.billed': 'BILLED {duration}',
+  'logs.segment': '{label}: {rate}/hr × {duration} = {cost}',
+  'logs.overtime': 'OT {duration} · {cost}',
+  'logs.items': 'F&B {amount}',
+  'logs.discountOf': '-{discount} of {gross}',
+  'logs.split': 'SPLIT ×{n}',
+  'logs.print': 'Print receipt',
+  'logs.mergeWith': 'Merge with the selected record',
+  'logs.mergeInto': 'Merge into one visit',
+  'logs.filteredTotal': 'Filtered Total',
+  'logs.total': 'Total',
+  'logs.sessions': '{n} SESSIONS',
+  'logs.revenueSplit': 'PLAY {play} · F&B {items}',
+  'logs.page': '{page} / {count}',
+
+  // Checkout
+  'payment.CASH': 'Cash',
+  'payment.WALLET': 'Wallet',
+  'payment.TAB': 'Tab',
+  'payment.SPLIT': 'Split',
+  'promo.UNKNOWN': 'Unknown code',
+  'promo.INACTIVE': 'Code is switched off',
+  'promo.NOT_YET': 'Code is not valid yet',
+  'promo.EXPIRED': 'Code has expired',
+  'promo.USED_UP': 'Code has been used up',
+  'promo.CONDITIONS': 'Visit does not qualify',
+  'checkout.title': 'Checkout',
+  'checkout.time': 'Time',
+  'checkout.billed': '{duration} billed',
+  'checkout.play': 'Play',
+  'checkout.rounding': 'incl. billing rounding',
+  'checkout.overtime': 'Overtime {duration}',
+  'checkout.items': 'F&B',
+  'checkout.freeMinutes': '{n} free min',
+  'checkout.promoCode': 'PROMO CODE',
+  'checkout.discountKind': 'Percent or fixed amount',
+  'checkout.off': 'OFF',
+  'checkout.points': '{n} PTS',
+  'checkout.pointsPerMinute': '{n} pts / min',
+  'checkout.redeem': 'Free minutes (max {n})',
+  'checkout.notEnoughPoints': 'Not enough points to redeem yet',
+  'checkout.pointsEarned': '+{earned} PTS earned{arrow}{total} PTS',
+  'checkout.tabBalance': 'TAB {tab} / {limit}',
+  'checkout.onTab': 'On tab',
+  'checkout.split': 'Split between players',
+  'checkout.playerN': 'PLAYER {n}',
+  'checkout.printSlip': 'Print this player\'s slip',
+  'checkout.removePlayer': 'Remove player',
+  'checkout.addPlayer': 'Player',
+  'checkout.sharesTooHigh': 'Shares add up to more than the total',
+  'checkout.total': 'Total',
+  'checkout.terminate': 'Terminate',
+  'checkout.printBill': 'Print the bill as it will be settled',
+
+  // Wall display
+  'wall.left': 'LEFT',
+  'wall.played': 'PLAYED',
+  'wall.free': '{n} free',
+  'wall.fullScreen': 'Full screen',
+
+  // Rate plans
+  'rates.title': 'Rate Plans',
+  'rates.overtimeRate': 'Plan rate',
+  'rates.overtimeBlocks': 'Per block',
+  'rates.overtimeFree': 'Free',
+  'rates.billing': 'Billing',
+  'rates.exact': 'Exact',
+  'rates.minGrace': 'MIN GRACE',
+  'rates.minMinimum': 'MIN MINIMUM',
+  'rates.round': 'Round',
+  'rates.off': 'OFF',
+  'rates.billingScope': 'For time-billed sessions; package overtime follows the overtime setting',
+  'rates.billingExampleTitle': 'Example: what a 61-minute session is charged as',
+  'rates.deletePlan': 'Delete plan',
+  'rates.baseRate': 'Base Rate / HR',
+  'rates.deleteRule': 'Delete rule',
+  'rates.timeWindow': 'Time Window',
+  'rates.packages': 'Packages',
+  'rates.min': 'MIN',
+  'rates.deletePackage': 'Delete package',
+  'rates.package': 'Package',
+  'rates.overtime': 'Overtime',
+  'rates.minBlock': 'MIN BLOCK',
+  'rates.newPlan': 'New Plan',
+  'rates.planN': 'PLAN {n}',
+  'rates.peak': 'PEAK',
+  'rates.oneHour': '1 HOUR',
+  'rates.unnamed': 'UNNAMED',
+  'rates.packageMinutes': '{n} MIN',
+
+  // Snack bar
+  'bar.title': 'Snack Bar',
+  'bar.item': 'Item',
+  'bar.price': 'Price',
+  'bar.stock': 'Stock',
+  'bar.placeholder': 'Pepsi, Chips...',
+  'bar.addItem': 'Add Item',
+
+  // Shifts and Z-report
+  'shift.zReport': 'Z-Report',
+  'shift.opened': 'OPENED {time}',
+  'shift.closedBy': 'Closed By',
+  'shift.nextOpenedBy': 'Next Shift Opened By',
+  'shift.staffName': 'STAFF NAME...',
+  'shift.close': 'Close Shift',
+  'z.sessions': 'Sessions',
+  'z.hoursSold': 'Hours Sold',
+  'z.play': 'Play',
+  'z.items': 'F&B',
+  'z.terminal': 'Terminal',
+  'z.hours': 'Hours',
+  'z.revenue': 'Revenue',
+  'z.noSessions': 'NO SESSIONS',
+  'z.discounts': 'Discounts given',
+  'z.walletPaid': 'Paid from wallets',
+  'z.tabCharged': 'Put on tab',
+  'z.accountCash': 'Top-ups & tab payments',
+  'z.cashExpected': 'Cash Expected',
+  'debtors.title': 'Outstanding Tabs',
+
+  // Shift archive
+  'archive.report': 'Shift Report',
+  'archive.title': 'Shift Archive',
+  'archive.terminal': 'Terminal',
+  'archive.start': 'Start Time',
+  'archive.end': 'End Time',
+  'archive.total': 'Total',
+  'archive.empty': 'NO CLOSED SHIFTS',
+  'archive.summary': '{sessions} SESSIONS · {hours} HRS · {by}',
+
+  // Stations
+  'stations.title': 'Stations',
+  'stations.dragToReorder': 'Drag to reorder',
+  'stations.backInService': 'Back in service',
+  'stations.outOfService': 'Out of service',
+  'stations.stopFirst': 'Stop the running session first',
+  'stations.delete': 'Delete station',
+  'stations.zone': 'ZONE',
+  'stations.defaultPlan': 'Default rate plan',
+  'stations.firstPlan': 'FIRST PLAN',
+  'stations.pads': 'Pads',
+  'stations.whatsWrong': 'WHAT\'S WRONG?',
+  'stations.inSession': 'IN SESSION',
+  'stations.new': 'New Station',
+  'stations.fallbackName': 'STATION',
+  'stations.cancelsBookings': 'Saving cancels {n} upcoming booking(s) on removed stations.',
+
+  // Discounts
+  'discounts.title': 'Discounts',
+  'discounts.kindPercent': '% off',
+  'discounts.kindFixed': 'EGP off',
+  'discounts.kindFreeMinutes': 'Free min',
+  'discounts.empty': 'No rules yet · happy hours, promo codes, free minutes',
+  'discounts.active': 'Active',
+  'discounts.off': 'Off',
+  'discounts.deleteRule': 'Delete rule',
+  'discounts.after': 'After',
+  'discounts.minPlayed': 'min played',
+  'discounts.starts': 'Starts',
+  'discounts.code': 'CODE (EMPTY = AUTOMATIC)',
+  'discounts.validFrom': 'Valid from',
+  'discounts.validUntil': 'Valid until',
+  'discounts.used': 'Used {n} /',
+  'discounts.newRule': 'New Rule',
+  'discounts.unnamed': 'UNNAMED',
+
+  // Alarm settings
+  'alarmSettings.title': 'Alarms',
+  'alarmSettings.warnAt': 'Warn at',
+  'alarmSettings.minutesLeft': '{m}m left',
+  'alarmSettings.min': 'MIN',
+  'alarmSettings.addWarning': 'Add warning',
+  'alarmSettings.repeat': 'Repeat until acknowledged',
+  'alarmSettings.seconds': '{s}s',
+  'alarmSettings.mayBeDelayed': 'Alarms may be delayed',
+  'alarmSettings.delivery': 'Alarms ring on the station card while this tab is open and in view. In a background tab the browser slows the page down, and notifications can arrive a minute or more late, so keep the lounge screen visible during fixed sessions.',
+  'alarmSettings.notify.granted': 'Notifications on',
+  'alarmSettings.notify.default': 'Notifications off',
+  'alarmSettings.notify.denied': 'Notifications blocked in the browser settings',
+  'alarmSettings.notify.unsupported': 'This browser cannot show notifications',
+  'alarmSettings.enableNotify': 'Enable',
+
+  // Customers
+  'customers.title': 'Customers',
+  'customers.name': 'Name',
+  'customers.phone': 'Phone',
+  'customers.creditLimit': 'Credit limit',
+  'customers.noTab': '0 = no tab',
+  'customers.notes': 'Notes',
+  'customers.settleFirst': 'Settle the account first',
+  'customers.visits': 'Visits',
+  'customers.hours': 'Hours',
+  'customers.lifetime': 'Lifetime',
+  'customers.points': 'Points',
+  'customers.owes': 'OWES {amount}',
+  'customers.amount': 'Amount',
+  'customers.note': 'Note (required for adjustments)',
+  'customers.topUp': 'Top up',
+  'customers.payTab': 'Pay tab',
+  'customers.adjustWallet': 'Adjust wallet',
+  'customers.adjustTab': 'Adjust tab',
+  'customers.entry.TOP_UP': 'Top up',
+  'customers.entry.SESSION': 'Session',
+  'customers.entry.TAB_PAYMENT': 'Tab payment',
+  'customers.entry.ADJUSTMENT': 'Adjustment',
+  'customers.walletShort': 'W',
+  'customers.tabShort': 'T',
+  'customers.noVisits': 'NO VISITS YET',
+  'customers.terminal': 'Terminal',
+  'customers.start': 'Start Time',
+  'customers.duration': 'Duration',
+  'customers.total': 'Total',
+  'customers.search': 'NAME OR PHONE...',
+  'customers.new': 'New',
+  'customers.empty': 'NO CUSTOMERS',
+  'customers.visitCount': '{n} VISITS',
+  'customers.loyalty': 'Loyalty',
+  'customers.earn': 'Earn',
+  'customers.perHour': 'Per hour',
+  'customers.perEgp': 'Per EGP',
+  'customers.pointsPerFreeMinute': 'Points / free min',
+
+  // Reservations
+  'reservations.title': 'Reservations',
+  'reservations.view.day': 'Day',
+  'reservations.view.week': 'Week',
+  'reservations.today': 'Today',
+  'reservations.customer': 'CUSTOMER',
+  'reservations.phone': 'PHONE',
+  'reservations.outOfService': ' (OUT OF SERVICE)',
+  'reservations.min': 'Min',
+  'reservations.deposit': 'Deposit',
+  'reservations.notes': 'NOTES',
+  'reservations.booked': 'Booked',
+  'reservations.inUse': 'In use',
+  'reservations.depositHint': 'Deposit is added to the customer\'s wallet and can pay for the session at checkout.',
+  'reservations.depositNote': 'Deposit · {station} {at}',
+  'reservations.update': 'Update',
+  'reservations.book': 'Book',
+  'reservations.new': 'New reservation',
+  'reservations.count': '{n} bookings',
+  'reservations.add': 'Reservation',
+  'reservations.empty': 'NO BOOKINGS',
+  'reservations.status.BOOKED': 'BOOKED',
+  'reservations.status.SEATED': 'SEATED',
+  'reservations.status.CANCELLED': 'CANCELLED',
+  'reservations.status.NO_SHOW': 'NO-SHOW',
+  'reservations.noShow': 'No-show',
+
+  // Analytics
+  'analytics.title': 'Analytics',
+  'analytics.vs': 'vs {previous}',
+  'analytics.periodDays': '{n}D',
+  'analytics.vsPrevious': 'vs previous {n} days',
+  'analytics.revenue': 'Revenue',
+  'analytics.sessions': 'Sessions',
+  'analytics.hours': 'Hours',
+  'analytics.avgSession': 'Avg Session',
+  'analytics.avgTicket': 'Avg Ticket',
+  'analytics.discounts': 'Discounts',
+  'analytics.granularity.day': 'Day',
+  'analytics.granularity.week': 'Week',
+  'analytics.granularity.month': 'Month',
+  'analytics.stations': 'Stations',
+  'analytics.noData': 'NO DATA',
+  'analytics.stationHours': '{n} HRS · ',
+  'analytics.occupancy': 'Occupancy (station-hours)',
+  'analytics.cellHours': '{n} h',
+  'analytics.uses': '{n}× · ',
+
+  // Audit
+  'audit.title': 'Audit Log',
+  'audit.problem.HASH': 'Entry was edited',
+  'audit.problem.LINK': 'Chain broken before this entry',
+  'audit.problem.GAP': 'Entries missing before this one',
+  'audit.chainBroken': 'CHAIN BROKEN · {broken} of {total} entries fail verification',
+  'audit.chainVerified': 'CHAIN VERIFIED · {total} entries',
+  'audit.allEvents': 'ALL EVENTS',
+  'audit.allStaff': 'ALL STAFF',
+  'audit.search': 'SEARCH...',
+  'audit.empty': 'NO ENTRIES',
+  'audit.restoreHint': 'Restored records return to the current shift\'s log',
+  'audit.restore': 'Restore {n}',
+  'audit.page': '{page} / {count}',
+  'audit.event.SESSION_START': 'SESSION START',
+  'audit.event.SESSION_STOP': 'SESSION STOP',
+  'audit.event.RECORD_DELETE': 'RECORD DELETE',
+  'audit.event.RECORD_RESTORE': 'RECORD RESTORE',
+  'audit.event.RECORD_MERGE': 'RECORD MERGE',
+  'audit.event.HISTORY_RESET': 'HISTORY RESET',
+  'audit.event.RATES_CHANGE': 'RATES CHANGE',
+  'audit.event.SCREEN_RENAME': 'SCREEN RENAME',
+  'audit.event.BACKUP_IMPORT': 'BACKUP IMPORT',
+  'audit.event.SHIFT_CLOSE': 'SHIFT CLOSE',
+  'audit.event.LEDGER_ENTRY': 'LEDGER ENTRY',
+  'audit.event.DISCOUNTS_CHANGE': 'DISCOUNTS CHANGE',
+  'audit.event.STATIONS_CHANGE': 'STATIONS CHANGE',
+
+  // Audit summaries
+  'auditMsg.open': 'OPEN',
+  'auditMsg.fixed': 'FIXED {m}m',
+  'auditMsg.records': '{n} records',
+  'auditMsg.recordsChange': '{from} → {to} records',
+  'auditMsg.sessions': '{n} sessions',
+  'auditMsg.shifts': '{n} shifts',
+  'auditMsg.cash': 'cash {amount}',
+  'auditMsg.wallet': 'wallet {amount}',
+  'auditMsg.tab': 'tab {amount}',
+  'auditMsg.importMerge': 'MERGE',
+  'auditMsg.importReplace': 'REPLACE',
+  'auditMsg.noChange': 'No change',
+  'auditMsg.added': '+{name}',
+  'auditMsg.removed': '-{name}',
+  'auditMsg.edited': '{name} edited',
+  'auditMsg.renamed': '{from} → {to}',
+  'auditMsg.changed': '{from} → {to}',
+  'auditMsg.rate': '{name} {pads}P {from}→{to}',
+  'auditMsg.turnedOn': '{name} on',
+  'auditMsg.turnedOff': '{name} off',
+  'auditMsg.discount.PERCENT': '{name} {value}%',
+  'auditMsg.discount.FIXED': '{name} {value}',
+  'auditMsg.discount.FREE_MINUTES': '{name} {value}m',
+  'auditMsg.outOfService': '{name} out of service',
+  'auditMsg.outOfServiceNote': '{name} out of service ({note})',
+  'auditMsg.backInService': '{name} back in service',
+  'auditMsg.reordered': 'Reordered',
+
+  // Data
+  'data.title': 'Data',
+  'data.export': 'Export',
+  'data.from': 'From',
+  'data.to': 'To',
+  'data.csv': 'CSV ({n})',
+  'data.fullBackup': 'Full Backup (JSON)',
+  'data.restore': 'Restore',
+  'data.chooseFile': 'Choose Backup File',
+  'data.invalidJson': 'File is not valid JSON',
+  'data.contents': '{screens} SCREENS · {active} ACTIVE · {sessions} SESSIONS · {shifts} SHIFTS',
+  'data.issues': '{n} issue(s)',
+  'data.skipped': ' — skipped',
+  'data.mergeHint': 'Add what\'s missing, keep existing records',
+  'data.merge': 'Merge',
+  'data.replaceHint': 'Discard current data and use the backup',
+  'data.replace': 'Replace',
+  'data.lanSync': 'LAN Sync · {status}',
+  'data.pairingCode': 'Pairing code',
+  'data.connect': 'Connect',
+  'data.disconnect': 'Disconnect',
+  'data.syncHelp': 'Run `npm run sync-server` on a PC in the shop and enter the pairing code it prints. The first device to connect brings its data; every device after that switches to the server\'s copy. Changes made offline are sent when the connection returns.',
+  'data.autoDetect': 'Auto-detect',
+
+  // Backup checks
+  'backup.notBackup': 'Not a PS Lounge backup file',
+  'backup.unsupportedVersion': 'Unsupported backup version: {version}',
+  'backup.notAList': '{list}: expected a list',
+  'backup.malformedRow': '{list} #{n}: malformed row',
+  'backup.malformedRowId': '{list} #{n}: malformed row ({id})',
+  'backup.badActiveSession': 'Active session on {station}: malformed or unknown station',
+  'backup.list.screen': 'Station',
+  'backup.list.session': 'Session',
+  'backup.list.shift': 'Shift',
+  'backup.list.shiftSession': 'Shift {id} session',
+  'backup.list.ratePlan': 'Rate plan',
+  'backup.list.product': 'Product',
+  'backup.list.customer': 'Customer',
+
+  // Printing
+  'print.title': 'Printing',
+  'print.receipt': 'Receipt',
+  'print.shopName': 'SHOP NAME',
+  'print.address': 'ADDRESS',
+  'print.phone': 'PHONE',
+  'print.footer': 'FOOTER',
+  'print.paper': 'Paper',
+  'print.paperWidth': '{n}MM',
+  'print.bridgeUrl': 'ESC/POS bridge URL',
+  'print.bridgeHint': 'Receipts are POSTed here as raw bytes; leave empty to use the browser print dialog.',
+  'print.dailySummary': 'Daily Summary',
+  'print.print': 'Print',
+  'print.rawHint': 'Raw ESC/POS bytes for a print bridge',
+
+  // Staff
+  'staff.title': 'Staff',
+  'staff.you': ' · YOU',
+  'staff.changePin': 'Change PIN',
+  'staff.remove': 'Remove',
+  'staff.newPin': 'NEW PIN',
+  'staff.name': 'NAME',
+  'staff.pin': 'PIN ({min}-8)',
+  'staff.sessionsOnly': 'SESSIONS & ORDERS ONLY',
+  'permission.EDIT_HISTORY': 'EDIT HISTORY',
+  'permission.RESET_HISTORY': 'RESET HISTORY',
+  'permission.EDIT_RATES': 'EDIT RATES',
+  'permission.MANAGE_TERMINALS': 'MANAGE TERMINALS',
+  'permission.CLOSE_SHIFT': 'CLOSE SHIFT',
+  'permission.RESTORE_BACKUP': 'RESTORE BACKUP',
+  'permission.MANAGE_STAFF': 'MANAGE STAFF',
+  'permission.VIEW_AUDIT': 'VIEW AUDIT',
+  'permission.GIVE_DISCOUNT': 'GIVE DISCOUNT'
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,416 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { extname, join, normalize, resolve, sep } from 'path';
+import { networkInterfaces } from 'os';
+import { LoungeState } from '../types';
+import { LoungeAction, loungeReducer } from '../store/reducer';
+import { migrateState } from '../store/migrations';
+import { ClientMessage, SYNC_APP_ID, SYNC_TOKEN_PARAM, SYNC_WS_PATH, ServerMessage, SyncEvent, SyncOp, isLocalOnly } from '../store/syncProtocol';
+import { getStationStatus } from '../utils/stations';
+import { getActiveSeconds, priceActiveSession } from '../utils/session';
+import { getRemainingSeconds } from '../utils/alarms';
+import { getItemsTotal, getRecordTotal } from '../utils/records';
+import { requiresAudit } from '../utils/audit';
+import { can, requiredPermission } from '../utils/staff';
+import { SocketConnection, acceptWebSocket } from './websocket';
+import { isAction } from './payloads';
+
+// Optional sync server for the shop LAN: `npm run sync-server`, then point the app at
+// http://<this machine>:8787 (or open that address; it serves the built app too).
+// Nothing leaves the network. Devices pair with the code printed at start-up (or SYNC_TOKEN);
+// without it only /api/hello and the static app answer. Staff sign-in lives in the app, so the REST
+// API can't send audited or privileged actions, and never returns PIN hashes.
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const DATA_FILE = resolve(process.env.SYNC_DATA_FILE || 'ps-lounge-sync.json');
+const STATIC_DIR = resolve(process.env.SYNC_STATIC_DIR || 'dist');
+
+const LOG_LIMIT = 5000; // Events kept for devices catching up; older gaps get a snapshot
+const SEEN_LIMIT = 20000; // Op ids remembered so a replayed outbox can't apply twice
+const SAVE_DELAY_MS = 1000;
+const MAX_BODY_BYTES = 1024 * 1024; // REST ops are small; backups only travel over the socket
+
+interface StoreFile {
+  seq: number;
+  state: LoungeState | null;
+  seen: [string, number | null][];
+  token?: string;
+}
+
+type OpSource = 'device' | 'api';
+
+// --- State ---
+
+let state: LoungeState | null = null;
+let seq = 0;
+let log: SyncEvent[] = [];
+const seen = new Map<string, number | null>(); // op id -> seq, or null when it changed nothing
+let token = process.env.SYNC_TOKEN || '';
+
+const load = () => {
+  if (!existsSync(DATA_FILE)) return;
+  try {
+    const saved: StoreFile = JSON.parse(readFileSync(DATA_FILE, 'utf8'));
+    state = saved.state ? migrateState(saved.state) : null;
+    seq = saved.seq ?? 0;
+    (saved.seen ?? []).forEach(([id, at]) => seen.set(id, at));
+    token = token || saved.token || '';
+  } catch (e) {
+    console.error(`Could not read ${DATA_FILE}; refusing to start over it`, e);
+    process.exit(1);
+  }
+};
+
+let saveTimer: NodeJS.Timeout | null = null;
+
+// Written to a side file first so a crash mid-write can't leave half a store behind.
+// A failed write (disk full, file locked) is retried rather than taking the server down.
+const save = () => {
+  saveTimer = null;
+  const data: StoreFile = { seq, state, seen: Array.from(seen).slice(-SEEN_LIMIT), token };
+  try {
+    writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(data));
+    renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+  } catch (e) {
+    console.error(`Could not write ${DATA_FILE}; retrying`, e);
+    scheduleSave();
+  }
+};
+
+const scheduleSave = () => {
+  if (!saveTimer) saveTimer = setTimeout(save, SAVE_DELAY_MS);
+};
+
+const remember = (id: string, at: number | null) => {
+  seen.set(id, at);
+  if (seen.size > SEEN_LIMIT) seen.delete(seen.keys().next().value!);
+};
+
+// --- Access ---
+
+// e.g. 3f9a-01c7-b2e4
+const newToken = () => randomBytes(6).toString('hex').match(/.{4}/g)!.join('-');
+
+const presentedToken = (req: IncomingMessage, url: URL) =>
+  url.searchParams.get(SYNC_TOKEN_PARAM) ?? req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '';
+
+const isPaired = (req: IncomingMessage, url: URL) => {
+  const given = Buffer.from(presentedToken(req, url));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// Auditable and privileged actions must arrive wrapped with who sent them. On a device that
+// stamp must name a current staff member whose role allows the action (anything goes before the
+// first account exists, as in the app). The REST API has nobody signed in, so it can't send them at all.
+const isRefused = (current: LoungeState, action: LoungeAction, source: OpSource) => {
+  const inner = action.type === 'AUDITED' ? action.action : action;
+  if (isLocalOnly(inner) || inner.type === 'AUDITED') return true;
+  if (action.type !== 'AUDITED') return requiresAudit(action.type);
+  if (source === 'api') return true;
+  if (current.staff.length === 0) return false;
+  const member = current.staff.find(m => m.id === action.by?.id && m.name === action.by?.name);
+  const permission = requiredPermission(inner);
+  return !member || (!!permission && !can(member, permission));
+};
+
+// PIN hashes go only to paired devices, which need them to sign staff in
+const redactState = (current: LoungeState): LoungeState => ({ ...current, staff: [] });
+
+const redactAction = (action: LoungeAction): LoungeAction => {
+  switch (action.type) {
+    case 'AUDITED':
+      return { ...action, action: redactAction(action.action) };
+    case 'ADD_STAFF':
+    case 'UPDATE_STAFF':
+      return { ...action, member: { ...action.member, pinHash: '' } };
+    case 'IMPORT_BACKUP':
+      return { ...action, state: redactState(action.state) };
+    default:
+      return action;
+  }
+};
+
+// --- Ops ---
+
+// Applies ops in arrival order. An op that leaves the state unchanged lost a race
+// (or was already applied) and is settled without an event; so is one that's refused or malformed,
+// whether its payload fails the shape checks or the reducer throws on it.
+const applyOps = (ops: SyncOp[], source: OpSource) => {
+  const events: SyncEvent[] = [];
+  const settled: string[] = [];
+  const rejected: string[] = [];
+
+  ops.forEach(op => {
+    if (!op || typeof op.id !== 'string' || !op.action) return;
+    if (seen.has(op.id)) {
+      settled.push(op.id);
+      if (seen.get(op.id) === null) rejected.push(op.id);
+      return;
+    }
+    let next = state;
+    try {
+      if (state && isAction(op.action) && !isRefused(state, op.action, source)) next = loungeReducer(state, op.action);
+    } catch (e) {
+      console.error(`Rejected malformed op ${op.id}`, e);
+    }
+    if (!state || next === state) {
+      remember(op.id, null);
+      settled.push(op.id);
+      rejected.push(op.id);
+      return;
+    }
+    state = next;
+    seq += 1;
+    const event = { seq, op };
+    events.push(event);
+    log.push(event);
+    remember(op.id, seq);
+  });
+
+  if (log.length > LOG_LIMIT) log = log.slice(-LOG_LIMIT);
+  if (events.length > 0) scheduleSave();
+  return { events, settled, rejected };
+};
+
+// --- Live connections ---
+
+const clients = new Set<SocketConnection>();
+
+const sendTo = (client: SocketConnection, message: ServerMessage) => client.send(JSON.stringify(message));
+const broadcast = (message: ServerMessage) => {
+  const text = JSON.stringify(message);
+  clients.forEach(client => client.send(text));
+};
+
+// Every device hears every outcome, since other tabs on the sender's device track its ops too
+const publish = ({ events, settled, rejected }: ReturnType<typeof applyOps>) => {
+  if (events.length > 0) broadcast({ type: 'events', events });
+  if (settled.length > 0) broadcast({ type: 'settled', ids: settled, rejected });
+};
+
+const catchUp = (client: SocketConnection, since: number | null) => {
+  const canReplay = since !== null && since <= seq && (since === seq || log[0]?.seq <= since + 1);
+  if (canReplay) sendTo(client, { type: 'events', events: log.filter(e => e.seq > since!) });
+  else sendTo(client, { type: 'snapshot', seq, state });
+};
+
+const handleMessage = (client: SocketConnection, text: string) => {
+  let message: ClientMessage;
+  try {
+    message = JSON.parse(text);
+  } catch (e) {
+    return;
+  }
+
+  switch (message.type) {
+    case 'hello':
+      catchUp(client, message.since);
+      break;
+    case 'ops':
+      publish(applyOps(Array.isArray(message.ops) ? message.ops : [], 'device'));
+      break;
+    case 'seed':
+      // Only the very first device gets to seed; later ones are sent what's already here
+      if (!state && message.state) {
+        state = migrateState(message.state);
+        seq += 1;
+        log = [];
+        save();
+        broadcast({ type: 'snapshot', seq, state });
+      } else {
+        sendTo(client, { type: 'snapshot', seq, state });
+      }
+      break;
+  }
+};
+
+// --- REST ---
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+// null once the body passes MAX_BODY_BYTES; the rest is drained unread
+const readBody = (req: IncomingMessage) => new Promise<string | null>((done, fail) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+  });
+  req.on('end', () => done(size > MAX_BODY_BYTES ? null : Buffer.concat(chunks).toString('utf8')));
+  req.on('error', fail);
+});
+
+const startOfToday = (now: number) => {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// What the owner wants at a glance from a phone: who's playing and what came in today
+const buildStatus = (current: LoungeState, now: number) => {
+  const dayStart = startOfToday(now);
+  const todays = [...current.history, ...current.closedShifts.flatMap(s => s.sessions)].filter(r => r.endTime >= dayStart);
+  const stations = current.screens.map(screen => {
+    const session = current.sessions[screen.id];
+    return {
+      id: screen.id,
+      name: screen.name,
+      status: getStationStatus(screen, session),
+      sessionType: session?.sessionType,
+      elapsedSeconds: session ? getActiveSeconds(session.startTime, session.pauses, now) : undefined,
+      remainingSeconds: session?.sessionType === 'FIXED' ? getRemainingSeconds(session, now) : undefined,
+      runningCost: session ? priceActiveSession(session, current.ratePlans, now).total + getItemsTotal(session.orders) : undefined
+    };
+  });
+  return {
+    at: now,
+    seq,
+    stations,
+    revenue: {
+      today: todays.reduce((acc, r) => acc + getRecordTotal(r), 0),
+      shift: current.history.reduce((acc, r) => acc + getRecordTotal(r), 0),
+      running: stations.reduce((acc, s) => acc + (s.runningCost ?? 0), 0),
+      sessionsToday: todays.length
+    }
+  };
+};
+
+const handleApi = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  const route = `${req.method} ${url.pathname}`;
+  // The one open route, so devices can find the server before they're paired
+  if (route === 'GET /api/hello') return sendJSON(res, 200, { app: SYNC_APP_ID, paired: isPaired(req, url) });
+  if (!isPaired(req, url)) return sendJSON(res, 401, { error: 'Pairing code required' });
+
+  switch (route) {
+    case 'GET /api/state':
+      return sendJSON(res, 200, { seq, state: state && redactState(state) });
+    case 'GET /api/status':
+      return state ? sendJSON(res, 200, buildStatus(state, Date.now())) : sendJSON(res, 404, { error: 'Not seeded yet' });
+    case 'GET /api/events': {
+      const since = Number(url.searchParams.get('since') ?? 0);
+      if (since < seq && !(log[0]?.seq <= since + 1)) return sendJSON(res, 410, { error: 'Too far behind; fetch /api/state' });
+      return sendJSON(res, 200, { seq, events: log.filter(e => e.seq > since).map(e => ({ ...e, op: { ...e.op, action: redactAction(e.op.action) } })) });
+    }
+    case 'POST /api/ops': {
+      const text = await readBody(req);
+      if (text === null) return sendJSON(res, 413, { error: `Body over ${MAX_BODY_BYTES} bytes` });
+      try {
+        const body = JSON.parse(text);
+        const result = applyOps(Array.isArray(body.ops) ? body.ops : [], 'api');
+        publish(result);
+        return sendJSON(res, 200, { seq, applied: result.events.map(e => e.op.id), settled: result.settled, rejected: result.rejected });
+      } catch (e) {
+        return sendJSON(res, 400, { error: 'Expected {"ops": [{ "id", "action" }]}' });
+      }
+    }
+    default:
+      return sendJSON(res, 404, { error: `No route ${route}` });
+  }
+};
+
+// --- Static app ---
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon'
+};
+
+const serveStatic = (res: ServerResponse, url: URL) => {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(url.pathname);
+  } catch (e) {
+    res.writeHead(400, { 'Content-Type': 'text/plain' });
+    res.end('Bad request');
+    return;
+  }
+  const path = normalize(join(STATIC_DIR, pathname));
+  // The separator matters: a bare prefix check would also let through siblings like dist-server/
+  const inside = path === STATIC_DIR || path.startsWith(STATIC_DIR + sep);
+  const file = inside && existsSync(path) && extname(path) ? path : join(STATIC_DIR, 'index.html');
+  if (!existsSync(file)) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('App not built. Run `npm run build` next to the sync server to serve it from here.');
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] ?? 'application/octet-stream' });
+  res.end(readFileSync(file));
+};
+
+// --- Server ---
+
+load();
+if (!token) {
+  token = newToken();
+  save();
+}
+
+// No CORS headers: the app talks to the server over the socket, which carries the pairing code,
+// and other web pages on the LAN have no business reading the REST API
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (url.pathname.startsWith('/api/')) {
+    handleApi(req, res, url).catch(err => {
+      console.error('Request failed', err);
+      sendJSON(res, 500, { error: 'Internal error' });
+    });
+  } else {
+    serveStatic(res, url);
+  }
+});
+
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (url.pathname !== SYNC_WS_PATH) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+  const client = acceptWebSocket(req, socket);
+  if (!client) return;
+  // Browsers can't read an HTTP error on a refused upgrade, so the refusal is a message
+  if (!isPaired(req, url)) {
+    sendTo(client, { type: 'denied' });
+    client.close();
+    return;
+  }
+  clients.add(client);
+  client.onMessage(text => {
+    try {
+      handleMessage(client, text);
+    } catch (e) {
+      console.error('Sync message failed', e);
+    }
+  });
+  client.onClose(() => clients.delete(client));
+});
+
+const shutdown = () => {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    save();
+  }
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+server.listen(PORT, '0.0.0.0', () => {
+  const addresses = Object.values(networkInterfaces())
+    .flat()
+    .filter(info => info && info.family === 'IPv4' && !info.internal)
+    .map(info => `http://${info!.address}:${PORT}`);
+  console.log(`PS Lounge sync server on port ${PORT} · data in ${DATA_FILE}`);
+  addresses.forEach(address => console.log(`  ${address}`));
+  console.log(`Pairing code: ${token}`);
+  if (!state) console.log('Waiting for the first device to connect and bring its data.');
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { ActiveSession } from '../types';
+import { createInitialState } from '../store/reducer';
+import { isAction } from './payloads';
+
+const T0 = new Date(2025, 0, 6, 14, 0).getTime();
+
+const session: ActiveSession = {
+  id: 's1',
+  screenId: '1',
+  startTime: T0,
+  sessionType: 'OPEN',
+  fixedMinutes: 0,
+  ratePlanId: 'standard',
+  controllers: 2,
+  customerName: '',
+  pauses: [],
+  orders: [],
+  isTimeUp: false
+};
+
+describe('isAction', () => {
+  it('accepts actions as the app sends them', () => {
+    expect(isAction({ type: 'START_SESSION', session })).toBe(true);
+    expect(isAction({ type: 'AUDITED', id: 'a', at: T0, by: { id: 'o', name: 'Owner' }, action: { type: 'CLEAR_HISTORY' } })).toBe(true);
+    expect(isAction({ type: 'IMPORT_BACKUP', mode: 'merge', state: createInitialState(T0) })).toBe(true);
+  });
+
+  it('refuses a session that would break every screen showing it', () => {
+    const { pauses: _pauses, ...withoutPauses } = session;
+    expect(isAction({ type: 'START_SESSION', session: withoutPauses })).toBe(false);
+    expect(isAction({ type: 'START_SESSION', session: { ...session, orders: [{ productId: 'p1' }] } })).toBe(false);
+  });
+
+  it('checks the action inside an audited wrapper', () => {
+    expect(isAction({ type: 'AUDITED', id: 'a', at: T0, action: { type: 'DELETE_RECORD' } })).toBe(false);
+    expect(isAction({ type: 'AUDITED', id: 'a', at: T0, by: 'Owner', action: { type: 'CLEAR_HISTORY' } })).toBe(false);
+  });
+
+  it('refuses unknown, local-only and mistyped actions', () => {
+    expect(isAction({ type: 'DROP_TABLES' })).toBe(false);
+    expect(isAction({ type: 'toString' })).toBe(false);
+    expect(isAction({ type: 'HYDRATE', state: createInitialState(T0) })).toBe(false);
+    expect(isAction({ type: 'PAUSE_SESSION', screenId: 1, at: T0 })).toBe(false);
+    expect(isAction({ type: 'SET_RATE_PLANS', ratePlans: [{ id: 'x', name: 'X', rates: { 1: '50' }, rules: [] }] })).toBe(false);
+    expect(isAction(null)).toBe(false);
+  });
+
+  it('refuses a backup that would not pass the import checks', () => {
+    expect(isAction({ type: 'IMPORT_BACKUP', mode: 'replace', state: { ...createInitialState(T0), products: [{ id: 'p1' }] } })).toBe(false);
+    expect(isAction({ type: 'IMPORT_BACKUP', mode: 'overwrite', state: createInitialState(T0) })).toBe(false);
+  });
+});
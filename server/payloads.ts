@@ -0,0 +1,140 @@
+import { LoungeAction } from '../store/reducer';
+import { migrateState } from '../store/migrations';
+import { BACKUP_APP_ID, isActiveSession, isCustomer, isProduct, isRatePlan, isScreen, validateBackup } from '../utils/backup';
+import { STAFF_ROLES } from '../utils/staff';
+import { isNumber, isObject, isString } from '../utils/guards';
+
+// Shape checks for actions arriving from devices and the REST API. The reducer trusts its input,
+// so a payload missing a field it reads would be stored, broadcast and then break every screen.
+
+type Fields = Record<string, unknown>;
+
+const isOptional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || check(v);
+
+const isListOf = (v: unknown, check: (v: unknown) => boolean) => Array.isArray(v) && v.every(check);
+
+const isStamp = (v: unknown) => isObject(v) && isString(v.id) && isString(v.name);
+
+const isDiscountRule = (v: unknown) =>
+  isObject(v) &&
+  isString(v.id) &&
+  isString(v.name) &&
+  (v.kind === 'PERCENT' || v.kind === 'FIXED' || v.kind === 'FREE_MINUTES') &&
+  isNumber(v.value) &&
+  isNumber(v.minMinutes) &&
+  isListOf(v.days, isNumber) &&
+  isString(v.from) &&
+  isString(v.to) &&
+  isNumber(v.uses) &&
+  typeof v.active === 'boolean';
+
+const isLedgerEntry = (v: unknown) =>
+  isObject(v) &&
+  isString(v.id) &&
+  isString(v.customerId) &&
+  isNumber(v.at) &&
+  isString(v.type) &&
+  isNumber(v.wallet) &&
+  isNumber(v.tab) &&
+  isNumber(v.cash) &&
+  isString(v.note);
+
+const isReservation = (v: unknown) =>
+  isObject(v) &&
+  isString(v.id) &&
+  isString(v.screenId) &&
+  isString(v.customerName) &&
+  isNumber(v.startTime) &&
+  isNumber(v.durationMinutes) &&
+  isNumber(v.deposit) &&
+  isString(v.status) &&
+  isNumber(v.createdAt);
+
+const isStaffMember = (v: unknown) =>
+  isObject(v) &&
+  isString(v.id) &&
+  isString(v.name) &&
+  STAFF_ROLES.some(role => role === v.role) &&
+  isString(v.pinHash) &&
+  isNumber(v.createdAt);
+
+const isPayment = (v: unknown) => isObject(v) && isNumber(v.cash) && isNumber(v.wallet) && isNumber(v.tab);
+
+const isManualDiscount = (v: unknown) => isObject(v) && (v.kind === 'PERCENT' || v.kind === 'FIXED') && isNumber(v.value);
+
+const isReceipt = (v: unknown) =>
+  isObject(v) &&
+  isString(v.shopName) &&
+  isString(v.address) &&
+  isString(v.phone) &&
+  isString(v.footer) &&
+  (v.paperWidth === 58 || v.paperWidth === 80) &&
+  isString(v.bridgeUrl);
+
+const isShareDraft = (v: unknown) => isObject(v) && isString(v.name) && isOptional(v.amount, isNumber);
+
+// A backup travels already migrated; it has to come through the import checks without complaint
+const isBackupState = (v: unknown) => {
+  if (!isObject(v)) return false;
+  const { state, errors } = validateBackup({ app: BACKUP_APP_ID, state: v }, migrateState);
+  return !!state && errors.length === 0;
+};
+
+const onStation = (a: Fields) => isString(a.screenId);
+
+// One check per action type, so a new action can't be added without saying what it carries
+const PAYLOADS: Record<LoungeAction['type'], (a: Fields) => boolean> = {
+  HYDRATE: () => false,
+  AUDIT_STORED: () => false,
+  ADD_SCREEN: a => isScreen(a.screen),
+  RENAME_SCREEN: a => onStation(a) && isString(a.name),
+  SET_SCREENS: a => isListOf(a.screens, isScreen),
+  START_SESSION: a => isActiveSession(a.session),
+  PAUSE_SESSION: a => onStation(a) && isNumber(a.at),
+  RESUME_SESSION: a => onStation(a) && isNumber(a.at),
+  MARK_TIME_UP: onStation,
+  EXTEND_SESSION: a =>
+    onStation(a) && isObject(a.extension) && isNumber(a.extension.at) && isNumber(a.extension.minutes) &&
+    isOptional(a.extension.price, isNumber),
+  ACK_ALARM: a => onStation(a) && isNumber(a.mark),
+  SET_CONTROLLERS: a => onStation(a) && (a.controllers === 1 || a.controllers === 2 || a.controllers === 4) && isNumber(a.at),
+  ADD_ORDER_ITEM: a => onStation(a) && isString(a.productId),
+  REMOVE_ORDER_ITEM: a => onStation(a) && isString(a.productId),
+  MOVE_SESSION: a => isString(a.fromScreenId) && isString(a.toScreenId) && isNumber(a.at) && isOptional(a.ratePlanId, isString),
+  STOP_SESSION: a =>
+    onStation(a) &&
+    isNumber(a.endTime) &&
+    isOptional(a.redeemMinutes, isNumber) &&
+    isOptional(a.payment, isPayment) &&
+    isOptional(a.stoppedBy, isStamp) &&
+    isOptional(a.promoCode, isString) &&
+    isOptional(a.manualDiscount, isManualDiscount) &&
+    isOptional(a.shares, v => isListOf(v, isShareDraft)),
+  DELETE_RECORD: a => isString(a.recordId),
+  RESTORE_RECORDS: a => isString(a.auditEntryId),
+  MERGE_RECORDS: a => isListOf(a.recordIds, isString) && (a.recordIds as unknown[]).length === 2,
+  CLEAR_HISTORY: () => true,
+  SET_RATE_PLANS: a => isListOf(a.ratePlans, isRatePlan),
+  SET_PRODUCTS: a => isListOf(a.products, isProduct),
+  ADD_CUSTOMER: a => isCustomer(a.customer),
+  UPDATE_CUSTOMER: a => isCustomer(a.customer),
+  DELETE_CUSTOMER: a => isString(a.customerId),
+  SET_LOYALTY: a =>
+    isObject(a.loyalty) && isString(a.loyalty.earnMode) && isNumber(a.loyalty.earnRate) && isNumber(a.loyalty.pointsPerFreeMinute),
+  SET_DISCOUNT_RULES: a => isListOf(a.discountRules, isDiscountRule),
+  POST_LEDGER_ENTRY: a => isLedgerEntry(a.entry),
+  ADD_RESERVATION: a => isReservation(a.reservation),
+  UPDATE_RESERVATION: a => isReservation(a.reservation),
+  DELETE_RESERVATION: a => isString(a.reservationId),
+  ADD_STAFF: a => isStaffMember(a.member),
+  UPDATE_STAFF: a => isStaffMember(a.member),
+  DELETE_STAFF: a => isString(a.memberId),
+  SET_RECEIPT_SETTINGS: a => isReceipt(a.receipt),
+  SET_ALARM_SETTINGS: a => isObject(a.alarms) && isListOf(a.alarms.warningMinutes, isNumber) && isNumber(a.alarms.repeatSeconds),
+  CLOSE_SHIFT: a => isString(a.closedBy) && isString(a.nextOpenedBy) && isNumber(a.at),
+  IMPORT_BACKUP: a => (a.mode === 'merge' || a.mode === 'replace') && isBackupState(a.state),
+  AUDITED: a => isString(a.id) && isNumber(a.at) && isOptional(a.by, isStamp) && isAction(a.action)
+};
+
+export const isAction = (v: unknown): v is LoungeAction =>
+  isObject(v) && isString(v.type) && Object.prototype.hasOwnProperty.call(PAYLOADS, v.type) && PAYLOADS[v.type as LoungeAction['type']](v);
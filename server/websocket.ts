@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+
+// Just enough of RFC 6455 for JSON text messages, so the sync server needs no packages
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024 * 1024; // A backup import travels as one message
+
+const OPCODE = { CONTINUATION: 0x0, TEXT: 0x1, CLOSE: 0x8, PING: 0x9, PONG: 0xa } as const;
+
+export interface SocketConnection {
+  send: (text: string) => void;
+  close: () => void;
+  onMessage: (handler: (text: string) => void) => void;
+  onClose: (handler: () => void) => void;
+}
+
+const encodeFrame = (opcode: number, payload: Buffer) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Completes the upgrade handshake, or returns null after refusing a request that isn't a WebSocket
+export const acceptWebSocket = (req: IncomingMessage, socket: Duplex): SocketConnection | null => {
+  const key = req.headers['sec-websocket-key'];
+  if (typeof key !== 'string' || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  let messageHandler: (text: string) => void = () => {};
+  let closeHandler: () => void = () => {};
+  let closed = false;
+  let buffer = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    if (socket.writable) socket.end(encodeFrame(OPCODE.CLOSE, Buffer.alloc(0)));
+    closeHandler();
+  };
+
+  // Pulls every complete frame off the front of the buffer
+  const readFrames = () => {
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > MAX_MESSAGE_BYTES) return close();
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (buffer.length < offset + length) return;
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+      buffer = buffer.subarray(offset + length);
+
+      switch (opcode) {
+        case OPCODE.TEXT:
+        case OPCODE.CONTINUATION:
+          fragments.push(payload);
+          if (fin) {
+            const text = Buffer.concat(fragments).toString('utf8');
+            fragments = [];
+            messageHandler(text);
+          }
+          break;
+        case OPCODE.PING:
+          socket.write(encodeFrame(OPCODE.PONG, payload));
+          break;
+        case OPCODE.CLOSE:
+          return close();
+        default:
+          // Binary and pong frames carry nothing we use
+          break;
+      }
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    readFrames();
+  });
+  socket.on('close', close);
+  socket.on('error', close);
+
+  return {
+    send: (text) => {
+      if (!closed && socket.writable) socket.write(encodeFrame(OPCODE.TEXT, Buffer.from(text, 'utf8')));
+    },
+    close,
+    onMessage: (handler) => { messageHandler = handler; },
+    onClose: (handler) => { closeHandler = handler; }
+  };
+};
@@ -0,0 +1,116 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActiveSession, AuditEntry, ClosedShift, LoungeState, SessionRecord } from '../types';
+import { LoungeAction, createInitialState, loungeReducer } from './reducer';
+import { verifyAudit } from '../utils/audit';
+
+const T0 = new Date(2025, 0, 6, 14, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+
+const session = (screenId: string, id: string): ActiveSession => ({
+  id,
+  screenId,
+  startTime: T0,
+  sessionType: 'OPEN',
+  fixedMinutes: 0,
+  ratePlanId: 'standard',
+  controllers: 2,
+  customerName: '',
+  pauses: [],
+  orders: [],
+  isTimeUp: false
+});
+
+const audited = (id: string, action: LoungeAction): LoungeAction => ({ type: 'AUDITED', id, at: T0, action });
+
+const run = (state: LoungeState, ...actions: LoungeAction[]) => actions.reduce(loungeReducer, state);
+
+// A fresh database and module for each test, since the module keeps its connection open
+let db: typeof import('./db');
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  db = await import('./db');
+});
+
+describe('appending to the audit store', () => {
+  const a = audited('a', { type: 'START_SESSION', session: session('1', 's1') });
+  const b = audited('b', { type: 'START_SESSION', session: session('2', 's2') });
+
+  it('gives one clean chain when two tabs append at the same time', async () => {
+    // Each tab applies its own action first, so both number their entry 1
+    const tabA = run(createInitialState(T0), a);
+    const tabB = run(createInitialState(T0), b);
+    expect([tabA.audit[0].seq, tabB.audit[0].seq]).toEqual([1, 1]);
+
+    const [storedA, storedB] = await Promise.all([
+      db.writeBatch({ appendAudit: tabA.audit }),
+      db.writeBatch({ appendAudit: tabB.audit })
+    ]);
+    expect([storedA[0].seq, storedB[0].seq]).toEqual([1, 2]);
+
+    const all = await db.readAll<AuditEntry>(db.AUDIT_STORE);
+    expect(all.map(e => e.seq).sort()).toEqual([1, 2]);
+    expect(verifyAudit(all)).toEqual({});
+  });
+
+  it('stores an entry another tab already wrote only once', async () => {
+    const tabA = run(createInitialState(T0), a);
+    await db.writeBatch({ appendAudit: tabA.audit });
+    const [again] = await db.writeBatch({ appendAudit: tabA.audit });
+    expect(again).toEqual(tabA.audit[0]);
+    expect(await db.readAll<AuditEntry>(db.AUDIT_STORE)).toHaveLength(1);
+  });
+
+  it('leaves each tab\'s copy of the log matching storage once it takes the stored numbering', async () => {
+    const tabA = run(createInitialState(T0), a);
+    let tabB = run(createInitialState(T0), b);
+    await db.writeBatch({ appendAudit: tabA.audit });
+    tabB = loungeReducer(tabB, { type: 'AUDIT_STORED', entries: await db.writeBatch({ appendAudit: tabB.audit }) });
+
+    // Tab B hears about A's action after its own, numbers it 2 and writes it; storage already has it as 1
+    const received = run(tabB, a);
+    expect(Object.keys(verifyAudit(received.audit))).not.toHaveLength(0);
+    const stored = await db.writeBatch({ appendAudit: received.audit.filter(e => e.id === 'a') });
+    const synced = loungeReducer(received, { type: 'AUDIT_STORED', entries: stored });
+
+    expect(verifyAudit(synced.audit)).toEqual({});
+    expect(synced.audit.map(e => e.id)).toEqual(['b', 'a']);
+    expect(loungeReducer(synced, { type: 'AUDIT_STORED', entries: stored })).toBe(synced);
+  });
+});
+
+describe('indexed queries', () => {
+  const record = (id: string, screenId: string | number, startTime: number): SessionRecord => ({
+    id,
+    screenId,
+    screenName: `STATION ${screenId}`,
+    startTime,
+    endTime: startTime + HOUR,
+    durationSeconds: 3600,
+    totalCost: 50,
+    hourlyRate: 50
+  });
+
+  const shift = (id: string, closedAt: number, sessions: SessionRecord[]): ClosedShift =>
+    ({ id, openedAt: closedAt - 8 * HOUR, openedBy: '', closedAt, closedBy: '', sessions } as ClosedShift);
+
+  it('finds the current shift\'s records by start time', async () => {
+    await db.writeBatch({ putHistory: [record('r1', '1', T0), record('r2', '1', T0 + 3 * HOUR), record('r3', '2', T0 + 6 * HOUR)] });
+    const rows = await db.queryHistoryByDate(T0 + HOUR, T0 + 6 * HOUR);
+    expect(rows.map(r => r.id)).toEqual(['r2', 'r3']);
+  });
+
+  it('finds a station\'s records, including ones logged with a numeric id', async () => {
+    await db.writeBatch({ putHistory: [record('r1', '1', T0), record('r2', 1, T0 + HOUR), record('r3', '2', T0)] });
+    const rows = await db.queryHistoryByStation('1');
+    expect(rows.map(r => r.id).sort()).toEqual(['r1', 'r2']);
+  });
+
+  it('finds archived shifts by when they closed', async () => {
+    await db.writeBatch({ putShifts: [shift('a', T0, []), shift('b', T0 + 24 * HOUR, []), shift('c', T0 + 48 * HOUR, [])] });
+    const rows = await db.queryShiftsByDate(T0 + HOUR, T0 + 48 * HOUR);
+    expect(rows.map(s => s.id)).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,176 @@
+import { AuditEntry, ClosedShift, LoungeState, SessionRecord } from '../types';
+import { chainAuditEntry } from '../utils/audit';
+
+const DB_NAME = 'ps-lounge';
+const DB_VERSION = 2;
+
+// Object stores:
+// - state:   small singleton slices (screens, sessions, plans...) keyed by slice name
+// - history: current-shift SessionRecords, one row each, indexed for range queries
+// - shifts:  archived shifts, one row each
+// - audit:   append-only audit entries, one row each (v2)
+export const STATE_STORE = 'state';
+export const HISTORY_STORE = 'history';
+export const SHIFTS_STORE = 'shifts';
+export const AUDIT_STORE = 'audit';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// What the `state` store holds: everything but the lists kept one row per item
+export type StateSlices = Partial<Omit<LoungeState, 'history' | 'closedShifts' | 'audit'>>;
+
+export const isIndexedDBAvailable = () => typeof indexedDB !== 'undefined';
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STATE_STORE)) {
+        db.createObjectStore(STATE_STORE);
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        history.createIndex('byStartTime', 'startTime');
+        history.createIndex('byScreen', 'screenId');
+      }
+      if (!db.objectStoreNames.contains(SHIFTS_STORE)) {
+        const shifts = db.createObjectStore(SHIFTS_STORE, { keyPath: 'id' });
+        shifts.createIndex('byClosedAt', 'closedAt');
+      }
+      if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+        const audit = db.createObjectStore(AUDIT_STORE, { keyPath: 'id' });
+        audit.createIndex('bySeq', 'seq');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const readStateSlices = async (): Promise<StateSlices> => {
+  const db = await openDB();
+  const tx = db.transaction(STATE_STORE, 'readonly');
+  const store = tx.objectStore(STATE_STORE);
+  const [keys, values] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise(store.getAll())
+  ]);
+  const slices: StateSlices = {};
+  keys.forEach((key, i) => { slices[key as keyof StateSlices] = values[i]; });
+  return slices;
+};
+
+export const readAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDB();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+};
+
+// Appends entries after the stored head, oldest first. Every tab numbers entries from its own copy of the
+// log, so two tabs acting at once would each claim the same seq; chaining onto what is stored, inside the
+// write transaction, lets the database's own ordering decide. An entry already stored by another tab is skipped.
+// Fills `stored` with each entry as the database holds it once the transaction completes
+const appendAudit = (store: IDBObjectStore, entries: AuditEntry[], stored: AuditEntry[]) => {
+  const pending = [...entries].sort((a, b) => a.seq - b.seq);
+  const headRequest = store.index('bySeq').openCursor(null, 'prev');
+  headRequest.onsuccess = () => {
+    let head: AuditEntry | undefined = headRequest.result?.value;
+    const appendNext = () => {
+      const entry = pending.shift();
+      if (!entry) return;
+      const existing = store.get(entry.id);
+      existing.onsuccess = () => {
+        if (existing.result) {
+          stored.push(existing.result);
+        } else {
+          const { seq: _seq, prevHash: _prevHash, hash: _hash, ...details } = entry;
+          head = chainAuditEntry(details, head);
+          store.put(head);
+          stored.push(head);
+        }
+        appendNext();
+      };
+    };
+    appendNext();
+  };
+};
+
+export interface WriteBatch {
+  slices?: StateSlices;
+  putHistory?: SessionRecord[];
+  deleteHistory?: string[];
+  putShifts?: ClosedShift[];
+  deleteShifts?: string[];
+  putAudit?: AuditEntry[]; // Stored as they are; never deleted
+  appendAudit?: AuditEntry[]; // Entries just written by a tab, chained onto the stored log
+}
+
+// Applies a set of changes in a single transaction so a crash can't half-write them.
+// Resolves with the appended audit entries as they were numbered in storage
+export const writeBatch = async (batch: WriteBatch): Promise<AuditEntry[]> => {
+  const db = await openDB();
+  const tx = db.transaction([STATE_STORE, HISTORY_STORE, SHIFTS_STORE, AUDIT_STORE], 'readwrite');
+
+  const stateStore = tx.objectStore(STATE_STORE);
+  Object.entries(batch.slices ?? {}).forEach(([key, value]) => stateStore.put(value, key));
+
+  const historyStore = tx.objectStore(HISTORY_STORE);
+  batch.deleteHistory?.forEach(id => historyStore.delete(id));
+  batch.putHistory?.forEach(record => historyStore.put(record));
+
+  const shiftsStore = tx.objectStore(SHIFTS_STORE);
+  batch.deleteShifts?.forEach(id => shiftsStore.delete(id));
+  batch.putShifts?.forEach(shift => shiftsStore.put(shift));
+
+  const auditStore = tx.objectStore(AUDIT_STORE);
+  batch.putAudit?.forEach(entry => auditStore.put(entry));
+  const stored: AuditEntry[] = [];
+  if (batch.appendAudit?.length) appendAudit(auditStore, batch.appendAudit, stored);
+
+  await transactionDone(tx);
+  return stored;
+};
+
+// --- Indexed queries ---
+
+export const queryHistoryByDate = async (from: number, to: number): Promise<SessionRecord[]> => {
+  const db = await openDB();
+  const index = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index('byStartTime');
+  return requestToPromise(index.getAll(IDBKeyRange.bound(from, to)));
+};
+
+// Records logged before station ids were strings still carry a numeric one
+export const queryHistoryByStation = async (screenId: string): Promise<SessionRecord[]> => {
+  const db = await openDB();
+  const index = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index('byScreen');
+  const keys: (string | number)[] = /^\d+$/.test(screenId) ? [screenId, Number(screenId)] : [screenId];
+  const rows = await Promise.all(keys.map(key => requestToPromise(index.getAll(IDBKeyRange.only(key)))));
+  return rows.flat();
+};
+
+export const queryShiftsByDate = async (from: number, to: number): Promise<ClosedShift[]> => {
+  const db = await openDB();
+  const index = db.transaction(SHIFTS_STORE, 'readonly').objectStore(SHIFTS_STORE).index('byClosedAt');
+  return requestToPromise(index.getAll(IDBKeyRange.bound(from, to)));
+};
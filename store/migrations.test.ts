@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION } from './reducer';
+import { migrateState } from './migrations';
+import { DEFAULT_LOYALTY } from '../utils/loyalty';
+import { DEFAULT_RECEIPT } from '../utils/receipt';
+import { DEFAULT_ALARMS } from '../utils/alarms';
+
+// A store as version 1 wrote it: stations, sessions and the log, nothing else
+const V1 = {
+  version: 1,
+  screens: [{ id: 1, name: 'STATION 01' }],
+  sessions: {},
+  history: [{ id: 'r1', screenId: 1, screenName: 'STATION 01', startTime: 0, endTime: 3600000, durationSeconds: 3600, totalCost: 50, hourlyRate: 50 }],
+  ratePlans: [{ id: 'standard', name: 'STANDARD', rates: { 1: 50, 2: 50, 4: 70 }, rules: [] }],
+  products: [],
+  currentShift: { id: 'a', openedAt: 0, openedBy: '' },
+  closedShifts: []
+};
+
+describe('migrateState', () => {
+  it('brings a version 1 store up to the current schema', () => {
+    const state = migrateState(V1);
+    expect(state.version).toBe(SCHEMA_VERSION);
+    expect(state.history).toEqual(V1.history);
+    expect(state.screens[0]).toMatchObject({ id: '1', name: 'STATION 01', consoleType: 'PS4', zone: '', controllers: 4 });
+  });
+
+  it('leaves a current store as it is', () => {
+    const current = migrateState(V1);
+    expect(migrateState(current)).toEqual(current);
+  });
+
+  it('treats a store without a version as version 1', () => {
+    const { version: _version, ...unversioned } = V1;
+    expect(migrateState(unversioned)).toEqual(migrateState(V1));
+  });
+
+  // Each step run on its own, from a store saved at the version before it
+  it.each([
+    [1, { customers: [], loyalty: DEFAULT_LOYALTY }],
+    [3, { reservations: [] }],
+    [4, { staff: [] }],
+    [5, { audit: [] }],
+    [6, { receipt: DEFAULT_RECEIPT }],
+    [7, { discountRules: [] }],
+    [9, { alarms: DEFAULT_ALARMS }]
+  ])('v%i → v%i + 1 adds its defaults', (from, added) => {
+    expect(migrateState({ ...V1, version: from })).toMatchObject(added);
+  });
+
+  it('v2 → v3 opens an empty account for each customer and starts the ledger', () => {
+    const state = migrateState({ ...V1, version: 2, customers: [{ id: 'c1', name: 'Omar', phone: '', points: 5, wallet: 20 }] });
+    expect(state.customers).toEqual([{ id: 'c1', name: 'Omar', phone: '', points: 5, wallet: 20, tab: 0, creditLimit: 0 }]);
+    expect(state.ledger).toEqual([]);
+  });
+
+  it('v8 → v9 fills in station fields and keeps the ones already set', () => {
+    const state = migrateState({ ...V1, version: 8, screens: [{ id: 2, name: 'VR 1', consoleType: 'VR' }] });
+    expect(state.screens).toEqual([{ id: '2', name: 'VR 1', consoleType: 'VR', zone: '', controllers: 4 }]);
+  });
+
+  it('keeps data added by later versions when an earlier step runs', () => {
+    const state = migrateState({ ...V1, version: 9, staff: [{ id: 'o', name: 'Owner', role: 'OWNER', pinHash: 'x', createdAt: 0 }] });
+    expect(state.staff).toHaveLength(1);
+  });
+
+  it('refuses something that is not a saved state', () => {
+    expect(() => migrateState(null)).toThrow('Saved state is not an object');
+    expect(() => migrateState([V1])).toThrow('Saved state is not an object');
+  });
+
+  it('refuses a version it has no step for', () => {
+    expect(() => migrateState({ ...V1, version: 0 })).toThrow('No migration from schema version 0');
+  });
+});
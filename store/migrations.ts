@@ -0,0 +1,122 @@
+import { ActiveSession, LoungeState, OrderItem, PauseInterval, Screen } from '../types';
+import { SCHEMA_VERSION, createInitialState } from './reducer';
+import { DEFAULT_LOYALTY } from '../utils/loyalty';
+import { DEFAULT_RECEIPT } from '../utils/receipt';
+import { DEFAULT_ALARMS } from '../utils/alarms';
+import { normalizeScreen } from '../utils/stations';
+import { isNumber, isObject, isString, listOf } from '../utils/guards';
+
+// Keys written by the app before the central store existed
+export const LEGACY_KEYS = ['ps_screens', 'ps_history', 'ps_rate_plans', 'ps_products', 'ps_shift', 'ps_shifts'];
+export const LEGACY_SCREEN_PREFIX = 'screen_state_';
+
+// A store as some earlier version saved it; each step only relies on the fields it changes
+type StoredState = Record<string, unknown>;
+
+// Upgrades from version N to N + 1. Add an entry whenever LoungeState changes shape.
+const migrations: Record<number, (state: StoredState) => StoredState> = {
+  // v2: customer registry and loyalty settings
+  1: state => ({ ...state, customers: [], loyalty: DEFAULT_LOYALTY }),
+  // v3: prepaid wallets, credit tabs and the account ledger
+  2: state => ({
+    ...state,
+    customers: listOf(state.customers).filter(isObject).map(c => ({ wallet: 0, tab: 0, creditLimit: 0, ...c })),
+    ledger: []
+  }),
+  // v4: reservations
+  3: state => ({ ...state, reservations: [] }),
+  // v5: staff accounts; the first owner is created on next start
+  4: state => ({ ...state, staff: [] }),
+  // v6: audit trail
+  5: state => ({ ...state, audit: [] }),
+  // v7: receipt header and printer settings
+  6: state => ({ ...state, receipt: DEFAULT_RECEIPT }),
+  // v8: discount rules and promo codes
+  7: state => ({ ...state, discountRules: [] }),
+  // v9: console type, zone, default plan, pad count and maintenance per station
+  8: state => ({ ...state, screens: listOf(state.screens).map(normalizeScreen) }),
+  // v10: pre-expiry warnings and alarm repeat interval
+  9: state => ({ ...state, alarms: DEFAULT_ALARMS })
+};
+
+export const migrateState = (raw: unknown): LoungeState => {
+  if (!isObject(raw)) throw new Error('Saved state is not an object');
+  let state = raw;
+  let version = isNumber(raw.version) ? raw.version : 1;
+
+  while (version < SCHEMA_VERSION) {
+    const step = migrations[version];
+    if (!step) throw new Error(`No migration from schema version ${version}`);
+    state = step(state);
+    version += 1;
+  }
+  // Every step has run, so the fields are in the current shape
+  return { ...createInitialState(), ...state, version: SCHEMA_VERSION } as LoungeState;
+};
+
+const readJSON = (storage: Storage, key: string) => {
+  const value = storage.getItem(key);
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    console.error(`Failed to parse legacy key ${key}`, e);
+    return undefined;
+  }
+};
+
+// Per-card SavedState blob as ScreenCard used to store it
+const legacySessionFor = (screen: Screen, saved: unknown, fallbackPlanId: string): ActiveSession | null => {
+  if (!isObject(saved) || !saved.isActive || !isNumber(saved.startTime) || !saved.startTime) return null;
+  return {
+    id: saved.startTime.toString(36) + screen.id,
+    screenId: screen.id,
+    startTime: saved.startTime,
+    sessionType: saved.sessionType === 'FIXED' ? 'FIXED' : 'OPEN',
+    fixedMinutes: parseInt(String(saved.fixedMinutes)) || 60,
+    ratePlanId: isString(saved.ratePlanId) && saved.ratePlanId ? saved.ratePlanId : fallbackPlanId,
+    controllers: saved.controllers === 2 || saved.controllers === 4 ? saved.controllers : 1,
+    customerName: isString(saved.customerName) ? saved.customerName : '',
+    pauses: listOf(saved.pauses) as PauseInterval[],
+    orders: listOf(saved.orders) as OrderItem[],
+    isTimeUp: !!saved.isTimeUp
+  };
+};
+
+export const hasLegacyData = (storage: Storage) =>
+  LEGACY_KEYS.some(key => storage.getItem(key) !== null);
+
+export const migrateLegacyStorage = (storage: Storage, now = Date.now()): LoungeState => {
+  const state = createInitialState(now);
+
+  const screens: Screen[] = (readJSON(storage, 'ps_screens') ?? state.screens).map(normalizeScreen);
+  const ratePlans = readJSON(storage, 'ps_rate_plans') ?? state.ratePlans;
+  const sessions: Record<string, ActiveSession> = {};
+
+  for (const screen of screens) {
+    const session = legacySessionFor(screen, readJSON(storage, `${LEGACY_SCREEN_PREFIX}${screen.id}`), ratePlans[0]?.id ?? '');
+    if (session) sessions[screen.id] = session;
+  }
+
+  return {
+    ...state,
+    screens,
+    sessions,
+    ratePlans,
+    history: readJSON(storage, 'ps_history') ?? [],
+    products: readJSON(storage, 'ps_products') ?? [],
+    currentShift: readJSON(storage, 'ps_shift') ?? state.currentShift,
+    closedShifts: readJSON(storage, 'ps_shifts') ?? []
+  };
+};
+
+// Drops every legacy key, including screen_state_* left behind by removed screens
+export const clearLegacyStorage = (storage: Storage) => {
+  LEGACY_KEYS.forEach(key => storage.removeItem(key));
+  const orphaned: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key?.startsWith(LEGACY_SCREEN_PREFIX)) orphaned.push(key);
+  }
+  orphaned.forEach(key => storage.removeItem(key));
+};
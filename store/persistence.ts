@@ -0,0 +1,166 @@
+import { AuditEntry, ClosedShift, LoungeState, SessionRecord } from '../types';
+import { createInitialState } from './reducer';
+import { clearLegacyStorage, hasLegacyData, migrateLegacyStorage, migrateState } from './migrations';
+import {
+  AUDIT_STORE, HISTORY_STORE, SHIFTS_STORE, WriteBatch, isIndexedDBAvailable,
+  queryHistoryByDate, queryHistoryByStation, queryShiftsByDate, readAll, readStateSlices, writeBatch
+} from './db';
+
+// localStorage key used before the move to IndexedDB, and as the fallback when IndexedDB is unavailable
+export const STORE_KEY = 'ps_store';
+
+// LoungeState fields stored as whole values in the `state` object store
+const SLICE_KEYS = ['version', 'screens', 'sessions', 'ratePlans', 'products', 'customers', 'loyalty', 'discountRules', 'ledger', 'reservations', 'staff', 'receipt', 'alarms', 'currentShift'] as const;
+
+let useLocalFallback = !isIndexedDBAvailable();
+
+// The last write started, so queries can wait for the state they are asked about to be stored
+let lastWrite: Promise<unknown> = Promise.resolve();
+
+// --- localStorage ---
+
+const loadLocalState = (): LoungeState => {
+  const saved = localStorage.getItem(STORE_KEY);
+  if (saved) {
+    try {
+      return migrateState(JSON.parse(saved));
+    } catch (e) {
+      console.error('Failed to load store, starting fresh', e);
+      return createInitialState();
+    }
+  }
+
+  if (hasLegacyData(localStorage)) {
+    const migrated = migrateLegacyStorage(localStorage);
+    // Only drop the old keys once the migrated copy is safely written
+    saveLocalState(migrated);
+    clearLegacyStorage(localStorage);
+    return migrated;
+  }
+
+  return createInitialState();
+};
+
+const saveLocalState = (state: LoungeState) => {
+  localStorage.setItem(STORE_KEY, JSON.stringify(state));
+};
+
+// --- IndexedDB ---
+
+const fullBatch = (state: LoungeState): WriteBatch => ({
+  slices: Object.fromEntries(SLICE_KEYS.map(key => [key, state[key]])),
+  putHistory: state.history,
+  putShifts: state.closedShifts,
+  putAudit: state.audit
+});
+
+// Rows that were added or replaced, and ids that disappeared, between two versions of a list
+const diffById = <T extends { id: string }>(prev: T[], next: T[]) => {
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  return {
+    put: next.filter(item => prevById.get(item.id) !== item),
+    deleted: prev.filter(item => !nextIds.has(item.id)).map(item => item.id)
+  };
+};
+
+export const loadState = async (): Promise<LoungeState> => {
+  if (useLocalFallback) return loadLocalState();
+
+  try {
+    const slices = await readStateSlices();
+    if (slices.version !== undefined) {
+      const [history, closedShifts, audit] = await Promise.all([
+        readAll<SessionRecord>(HISTORY_STORE),
+        readAll<ClosedShift>(SHIFTS_STORE),
+        readAll<AuditEntry>(AUDIT_STORE)
+      ]);
+      return migrateState({
+        ...slices,
+        history: history.sort((a, b) => b.endTime - a.endTime),
+        closedShifts: closedShifts.sort((a, b) => b.closedAt - a.closedAt),
+        audit: audit.sort((a, b) => b.seq - a.seq)
+      });
+    }
+
+    // First run on IndexedDB: bring over whatever localStorage holds
+    const state = loadLocalState();
+    await writeBatch(fullBatch(state));
+    localStorage.removeItem(STORE_KEY);
+    return state;
+  } catch (e) {
+    console.error('IndexedDB unavailable, falling back to localStorage', e);
+    useLocalFallback = true;
+    return loadLocalState();
+  }
+};
+
+// Writes only what changed, so a new session doesn't re-serialize the whole history.
+// Resolves with the audit entries just appended, numbered as storage holds them
+export const persistChanges = async (prev: LoungeState, next: LoungeState): Promise<AuditEntry[]> => {
+  if (useLocalFallback) {
+    saveLocalState(next);
+    return [];
+  }
+
+  const changed = SLICE_KEYS.filter(key => prev[key] !== next[key]);
+  const batch: WriteBatch = { slices: Object.fromEntries(changed.map(key => [key, next[key]])) };
+
+  if (prev.history !== next.history) {
+    const { put, deleted } = diffById(prev.history, next.history);
+    batch.putHistory = put;
+    batch.deleteHistory = deleted;
+  }
+
+  if (prev.closedShifts !== next.closedShifts) {
+    const { put, deleted } = diffById(prev.closedShifts, next.closedShifts);
+    batch.putShifts = put;
+    batch.deleteShifts = deleted;
+  }
+
+  // Append-only: entries are only ever added, numbered after whatever the other tabs already stored
+  if (prev.audit !== next.audit) {
+    batch.appendAudit = diffById(prev.audit, next.audit).put;
+  }
+
+  try {
+    const write = writeBatch(batch);
+    lastWrite = write.catch(() => undefined);
+    return await write;
+  } catch (e) {
+    console.error('Failed to persist changes', e);
+    return [];
+  }
+};
+
+// --- Queries ---
+
+export interface RecordQuery {
+  from: number; // Start time bounds, inclusive; infinite when open
+  to: number;
+  screenId: string; // Empty = every station
+}
+
+// Records matching a date range or station, read through the indexes rather than scanning every row.
+// Current-shift rows come from the narrower index; archived shifts are picked by when they closed, since
+// one closed after `from` may still hold sessions from the range. null on the localStorage fallback,
+// which has no indexes
+export const queryRecords = async (query: RecordQuery, includeArchived: boolean): Promise<SessionRecord[] | null> => {
+  if (useLocalFallback) return null;
+  // Writes for the render that asked are started by effects that run after the caller's
+  await Promise.resolve();
+  await lastWrite;
+
+  try {
+    const [current, shifts] = await Promise.all([
+      query.from === -Infinity && query.to === Infinity && query.screenId
+        ? queryHistoryByStation(query.screenId)
+        : queryHistoryByDate(query.from, query.to),
+      includeArchived ? queryShiftsByDate(query.from, Infinity) : Promise.resolve([])
+    ]);
+    return [...current, ...shifts.flatMap(shift => shift.sessions)];
+  } catch (e) {
+    console.error('Indexed query failed', e);
+    return null;
+  }
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { ActiveSession, LoungeState } from '../types';
+import { LoungeAction, createInitialState, loungeReducer } from './reducer';
+
+const T0 = new Date(2025, 0, 6, 14, 0).getTime(); // A Monday afternoon
+const MIN = 60 * 1000;
+
+const session = (overrides: Partial<ActiveSession> = {}): ActiveSession => ({
+  id: 's1',
+  screenId: '1',
+  startTime: T0,
+  sessionType: 'OPEN',
+  fixedMinutes: 0,
+  ratePlanId: 'standard',
+  controllers: 2,
+  customerName: '',
+  pauses: [],
+  orders: [],
+  isTimeUp: false,
+  ...overrides
+});
+
+const run = (state: LoungeState, ...actions: LoungeAction[]) => actions.reduce(loungeReducer, state);
+
+describe('loungeReducer', () => {
+  it('starts a session on a free station', () => {
+    const state = run(createInitialState(T0), { type: 'START_SESSION', session: session() });
+    expect(state.sessions['1']?.id).toBe('s1');
+  });
+
+  it('keeps the lower id when two tabs start the same station', () => {
+    const state = run(
+      createInitialState(T0),
+      { type: 'START_SESSION', session: session({ id: 's2' }) },
+      { type: 'START_SESSION', session: session({ id: 's1' }) },
+      { type: 'START_SESSION', session: session({ id: 's3' }) }
+    );
+    expect(state.sessions['1'].id).toBe('s1');
+  });
+
+  it('refuses a station that is out of service', () => {
+    const initial = createInitialState(T0);
+    const screens = initial.screens.map(s => s.id === '1' ? { ...s, maintenance: { since: T0, note: '' } } : s);
+    const state = run({ ...initial, screens }, { type: 'START_SESSION', session: session() });
+    expect(state.sessions['1']).toBeUndefined();
+  });
+
+  it('opens one pause at a time and closes it on resume', () => {
+    const state = run(
+      createInitialState(T0),
+      { type: 'START_SESSION', session: session() },
+      { type: 'PAUSE_SESSION', screenId: '1', at: T0 + 10 * MIN },
+      { type: 'PAUSE_SESSION', screenId: '1', at: T0 + 12 * MIN },
+      { type: 'RESUME_SESSION', screenId: '1', at: T0 + 20 * MIN }
+    );
+    expect(state.sessions['1'].pauses).toEqual([{ start: T0 + 10 * MIN, end: T0 + 20 * MIN }]);
+  });
+
+  it('logs a stopped session without its paused time', () => {
+    const state = run(
+      createInitialState(T0),
+      { type: 'START_SESSION', session: session() },
+      { type: 'PAUSE_SESSION', screenId: '1', at: T0 + 30 * MIN },
+      { type: 'RESUME_SESSION', screenId: '1', at: T0 + 60 * MIN },
+      { type: 'STOP_SESSION', screenId: '1', endTime: T0 + 90 * MIN }
+    );
+    expect(state.sessions['1']).toBeUndefined();
+    expect(state.history).toHaveLength(1);
+    const [record] = state.history;
+    expect(record.id).toBe('s1');
+    expect(record.durationSeconds).toBe(60 * 60);
+    expect(record.pausedSeconds).toBe(30 * 60);
+    expect(record.totalCost).toBe(50); // One hour at the default 2-pad rate
+  });
+
+  it('prices a session at the plan it started on, even if the plan is edited meanwhile', () => {
+    const initial = createInitialState(T0);
+    const [plan] = initial.ratePlans;
+    const state = run(
+      initial,
+      { type: 'START_SESSION', session: session({ ratePlanId: plan.id, plan }) },
+      { type: 'SET_RATE_PLANS', ratePlans: [{ ...plan, rates: { 1: 100, 2: 100, 4: 140 } }] },
+      { type: 'STOP_SESSION', screenId: '1', endTime: T0 + 60 * MIN }
+    );
+    expect(state.history[0].totalCost).toBe(50);
+  });
+
+  it('logs a visit once when stopped from two tabs', () => {
+    const started = run(createInitialState(T0), { type: 'START_SESSION', session: session() });
+    const stop: LoungeAction = { type: 'STOP_SESSION', screenId: '1', endTime: T0 + 60 * MIN };
+    const once = loungeReducer(started, stop);
+    const twice = loungeReducer({ ...once, sessions: started.sessions }, stop);
+    expect(twice.history).toHaveLength(1);
+    expect(twice.sessions['1']).toBeUndefined();
+  });
+
+  it('splits the bill at checkout only when it fits between at least two players', () => {
+    const started = run(createInitialState(T0), { type: 'START_SESSION', session: session() });
+    const stop = (shares: { name: string; amount?: number }[]) =>
+      loungeReducer(started, { type: 'STOP_SESSION', screenId: '1', endTime: T0 + 60 * MIN, shares }).history[0];
+    expect(stop([{ name: 'A', amount: 20 }, { name: 'B' }]).shares?.map(s => s.amount)).toEqual([20, 30]);
+    expect(stop([{ name: 'A' }]).shares).toBeUndefined();
+    expect(stop([{ name: 'A', amount: 40 }, { name: 'B', amount: 40 }]).shares).toBeUndefined();
+  });
+
+  it('archives the shift with its Z report and opens the next one', () => {
+    const played = run(
+      createInitialState(T0),
+      { type: 'START_SESSION', session: session() },
+      { type: 'STOP_SESSION', screenId: '1', endTime: T0 + 60 * MIN }
+    );
+    const closedAt = T0 + 2 * 60 * MIN;
+    const state = loungeReducer(played, { type: 'CLOSE_SHIFT', closedBy: 'Mona', nextOpenedBy: 'Karim', at: closedAt });
+
+    expect(state.history).toEqual([]);
+    expect(state.closedShifts).toHaveLength(1);
+    const [shift] = state.closedShifts;
+    expect(shift.id).toBe(played.currentShift.id);
+    expect(shift.closedAt).toBe(closedAt);
+    expect(shift.closedBy).toBe('Mona');
+    expect(shift.sessions).toEqual(played.history);
+    expect(shift.report.sessionCount).toBe(1);
+    expect(shift.report.totalRevenue).toBe(50);
+    expect(state.currentShift).toEqual({ id: closedAt.toString(36), openedAt: closedAt, openedBy: 'Karim' });
+  });
+
+  it('leaves the state untouched for actions on a missing session', () => {
+    const initial = createInitialState(T0);
+    expect(loungeReducer(initial, { type: 'PAUSE_SESSION', screenId: '9', at: T0 })).toBe(initial);
+    expect(loungeReducer(initial, { type: 'STOP_SESSION', screenId: '9', endTime: T0 })).toBe(initial);
+  });
+});
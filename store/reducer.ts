@@ -0,0 +1,462 @@
+import { ActiveSession, AlarmSettings, AuditEntry, ClosedShift, ControllerCount, Customer, DiscountRule, LedgerEntry, LoungeState, LoyaltySettings, PaymentSplit, Product, RatePlan, ReceiptSettings, Reservation, Screen, SessionExtension, SessionRecord, StaffMember, StaffStamp } from '../types';
+import { DEFAULT_RATE_PLANS } from '../utils/pricing';
+import { buildLeg, buildSessionRecord, findRatePlan, getControllerLog } from '../utils/session';
+import { buildZReport } from '../utils/reports';
+import { DEFAULT_LOYALTY, applyLoyalty } from '../utils/loyalty';
+import { CASH_ONLY, applyLedgerEntry, applyPayment, entriesBetween, settlePayment } from '../utils/accounts';
+import { getRecordTotal, mergeRecords } from '../utils/records';
+import { RestoreMode, mergeStates } from '../utils/backup';
+import { isLastOwner } from '../utils/staff';
+import { buildAuditEntry, getRestorableRecords } from '../utils/audit';
+import { DEFAULT_RECEIPT } from '../utils/receipt';
+import { DEFAULT_ALARMS } from '../utils/alarms';
+import { ManualDiscount, applyDiscounts, countRuleUses } from '../utils/discounts';
+import { canStartOn, createScreen } from '../utils/stations';
+import { ShareDraft, resolveShares } from '../utils/shares';
+
+export const SCHEMA_VERSION = 10;
+
+export type LoungeAction =
+  | { type: 'HYDRATE'; state: LoungeState }
+  // Audit entries as storage numbered them, replacing this tab's own numbering
+  | { type: 'AUDIT_STORED'; entries: AuditEntry[] }
+  | { type: 'ADD_SCREEN'; screen: Screen }
+  | { type: 'RENAME_SCREEN'; screenId: string; name: string }
+  | { type: 'SET_SCREENS'; screens: Screen[] }
+  | { type: 'START_SESSION'; session: ActiveSession }
+  | { type: 'PAUSE_SESSION'; screenId: string; at: number }
+  | { type: 'RESUME_SESSION'; screenId: string; at: number }
+  | { type: 'MARK_TIME_UP'; screenId: string }
+  | { type: 'EXTEND_SESSION'; screenId: string; extension: SessionExtension }
+  | { type: 'ACK_ALARM'; screenId: string; mark: number }
+  | { type: 'SET_CONTROLLERS'; screenId: string; controllers: ControllerCount; at: number }
+  | { type: 'ADD_ORDER_ITEM'; screenId: string; productId: string }
+  | { type: 'REMOVE_ORDER_ITEM'; screenId: string; productId: string }
+  | { type: 'MOVE_SESSION'; fromScreenId: string; toScreenId: string; at: number; ratePlanId?: string }
+  | {
+      type: 'STOP_SESSION';
+      screenId: string;
+      endTime: number;
+      redeemMinutes?: number;
+      payment?: PaymentSplit;
+      stoppedBy?: StaffStamp;
+      promoCode?: string;
+      manualDiscount?: ManualDiscount;
+      shares?: ShareDraft[];
+    }
+  | { type: 'DELETE_RECORD'; recordId: string }
+  | { type: 'RESTORE_RECORDS'; auditEntryId: string }
+  | { type: 'MERGE_RECORDS'; recordIds: [string, string] }
+  | { type: 'CLEAR_HISTORY' }
+  | { type: 'SET_RATE_PLANS'; ratePlans: RatePlan[] }
+  | { type: 'SET_PRODUCTS'; products: Product[] }
+  | { type: 'ADD_CUSTOMER'; customer: Customer }
+  | { type: 'UPDATE_CUSTOMER'; customer: Customer }
+  | { type: 'DELETE_CUSTOMER'; customerId: string }
+  | { type: 'SET_LOYALTY'; loyalty: LoyaltySettings }
+  | { type: 'SET_DISCOUNT_RULES'; discountRules: DiscountRule[] }
+  | { type: 'POST_LEDGER_ENTRY'; entry: LedgerEntry }
+  | { type: 'ADD_RESERVATION'; reservation: Reservation }
+  | { type: 'UPDATE_RESERVATION'; reservation: Reservation }
+  | { type: 'DELETE_RESERVATION'; reservationId: string }
+  | { type: 'ADD_STAFF'; member: StaffMember }
+  | { type: 'UPDATE_STAFF'; member: StaffMember }
+  | { type: 'DELETE_STAFF'; memberId: string }
+  | { type: 'SET_RECEIPT_SETTINGS'; receipt: ReceiptSettings }
+  | { type: 'SET_ALARM_SETTINGS'; alarms: AlarmSettings }
+  | { type: 'CLOSE_SHIFT'; closedBy: string; nextOpenedBy: string; at: number }
+  | { type: 'IMPORT_BACKUP'; state: LoungeState; mode: RestoreMode }
+  // An action stamped with who did it, so it gets an audit entry
+  | { type: 'AUDITED'; id: string; at: number; by?: StaffStamp; action: LoungeAction };
+
+export type LoungeDispatch = (action: LoungeAction) => void;
+
+export const createInitialState = (now = Date.now()): LoungeState => ({
+  version: SCHEMA_VERSION,
+  screens: [
+    createScreen('1', 'STATION 01'),
+    createScreen('2', 'STATION 02'),
+    createScreen('3', 'STATION 03')
+  ],
+  sessions: {},
+  history: [],
+  ratePlans: DEFAULT_RATE_PLANS,
+  products: [],
+  customers: [],
+  loyalty: DEFAULT_LOYALTY,
+  discountRules: [],
+  ledger: [],
+  reservations: [],
+  staff: [],
+  audit: [],
+  receipt: DEFAULT_RECEIPT,
+  alarms: DEFAULT_ALARMS,
+  currentShift: { id: now.toString(36), openedAt: now, openedBy: '' },
+  closedShifts: []
+});
+
+const updateSession = (
+  state: LoungeState,
+  screenId: string,
+  update: (session: ActiveSession) => ActiveSession
+): LoungeState => {
+  const session = state.sessions[screenId];
+  if (!session) return state;
+  return { ...state, sessions: { ...state.sessions, [screenId]: update(session) } };
+};
+
+// A split needs at least two players; shares that don't fit the total are dropped
+const splitBill = (record: SessionRecord, drafts?: ShareDraft[]): SessionRecord => {
+  if (!drafts || drafts.length < 2) return record;
+  const shares = resolveShares(record.id, getRecordTotal(record), drafts);
+  return shares ? { ...record, shares } : record;
+};
+
+const adjustStock = (products: Product[], productId: string, delta: number) =>
+  products.map(p => p.id === productId ? { ...p, stock: p.stock + delta } : p);
+
+export const loungeReducer = (state: LoungeState, action: LoungeAction): LoungeState => {
+  switch (action.type) {
+    case 'HYDRATE':
+      return action.state;
+
+    case 'AUDIT_STORED': {
+      const stored = new Map(action.entries.map(e => [e.id, e]));
+      if (!state.audit.some(e => stored.has(e.id) && stored.get(e.id)!.hash !== e.hash)) return state;
+      return {
+        ...state,
+        audit: state.audit.map(e => stored.get(e.id) ?? e).sort((a, b) => b.seq - a.seq)
+      };
+    }
+
+    case 'ADD_SCREEN':
+      if (state.screens.some(s => s.id === action.screen.id)) return state;
+      return { ...state, screens: [...state.screens, action.screen] };
+
+    case 'RENAME_SCREEN':
+      return {
+        ...state,
+        screens: state.screens.map(s => s.id === action.screenId ? { ...s, name: action.name } : s)
+      };
+
+    case 'SET_SCREENS': {
+      // The list order is the grid order. A station with a running session can't be removed,
+      // so one dropped from the list (e.g. by a stale tab) comes back at the end.
+      const kept = state.screens.filter(s => state.sessions[s.id] && !action.screens.some(n => n.id === s.id));
+      const screens = [...action.screens, ...kept];
+      const ids = new Set(screens.map(s => s.id));
+      return {
+        ...state,
+        screens,
+        // Bookings on a removed station can't be honoured any more
+        reservations: state.reservations.map(r =>
+          r.status === 'BOOKED' && !ids.has(r.screenId) ? { ...r, status: 'CANCELLED' } : r
+        )
+      };
+    }
+
+    case 'START_SESSION': {
+      // A station runs one session at a time. If two tabs start one concurrently,
+      // both keep the lower id so they settle on the same session.
+      const existing = state.sessions[action.session.screenId];
+      if (existing && existing.id <= action.session.id) return state;
+      if (!existing && !canStartOn(state.screens.find(s => s.id === action.session.screenId))) return state;
+      const sessions = { ...state.sessions, [action.session.screenId]: action.session };
+      const { reservationId } = action.session;
+      if (!reservationId) return { ...state, sessions };
+      return {
+        ...state,
+        sessions,
+        reservations: state.reservations.map(r =>
+          r.id === reservationId && r.status === 'BOOKED' ? { ...r, status: 'SEATED', sessionId: action.session.id } : r
+        )
+      };
+    }
+
+    case 'PAUSE_SESSION':
+      return updateSession(state, action.screenId, s => {
+        const last = s.pauses[s.pauses.length - 1];
+        if (last && last.end === null) return s;
+        return { ...s, pauses: [...s.pauses, { start: action.at, end: null }] };
+      });
+
+    case 'RESUME_SESSION':
+      return updateSession(state, action.screenId, s => ({
+        ...s,
+        pauses: s.pauses.map(p => p.end === null ? { ...p, end: action.at } : p)
+      }));
+
+    case 'MARK_TIME_UP':
+      return updateSession(state, action.screenId, s => s.isTimeUp ? s : { ...s, isTimeUp: true });
+
+    case 'EXTEND_SESSION':
+      return updateSession(state, action.screenId, s => {
+        // The same extension replayed from another tab must only count once
+        if (s.sessionType !== 'FIXED' || s.extensions?.some(e => e.at === action.extension.at)) return s;
+        return {
+          ...s,
+          fixedMinutes: s.fixedMinutes + action.extension.minutes,
+          extensions: [...(s.extensions ?? []), action.extension],
+          isTimeUp: false,
+          // The new limit brings its own warnings
+          alarmAck: undefined
+        };
+      });
+
+    case 'ACK_ALARM':
+      // Keeps the most urgent mark, so a replayed older acknowledgement can't bring an alarm back
+      return updateSession(state, action.screenId, s =>
+        s.alarmAck !== undefined && s.alarmAck <= action.mark ? s : { ...s, alarmAck: action.mark }
+      );
+
+    case 'SET_CONTROLLERS':
+      return updateSession(state, action.screenId, s => {
+        // A change replayed from another tab must only be logged once
+        if (s.controllers === action.controllers || s.controllerLog?.some(e => e.at === action.at)) return s;
+        return {
+          ...s,
+          controllers: action.controllers,
+          controllerLog: [...getControllerLog(s), { at: action.at, controllers: action.controllers }]
+        };
+      });
+
+    case 'ADD_ORDER_ITEM': {
+      const product = state.products.find(p => p.id === action.productId);
+      const session = state.sessions[action.screenId];
+      if (!product || product.stock <= 0 || !session) return state;
+
+      const existing = session.orders.find(item => item.productId === product.id);
+      const orders = existing
+        ? session.orders.map(item => item.productId === product.id ? { ...item, quantity: item.quantity + 1 } : item)
+        : [...session.orders, { productId: product.id, name: product.name, unitPrice: product.price, quantity: 1 }];
+
+      return {
+        ...updateSession(state, action.screenId, s => ({ ...s, orders })),
+        products: adjustStock(state.products, product.id, -1)
+      };
+    }
+
+    case 'REMOVE_ORDER_ITEM': {
+      const session = state.sessions[action.screenId];
+      if (!session || !session.orders.some(item => item.productId === action.productId)) return state;
+
+      const orders = session.orders
+        .map(item => item.productId === action.productId ? { ...item, quantity: item.quantity - 1 } : item)
+        .filter(item => item.quantity > 0);
+
+      return {
+        ...updateSession(state, action.screenId, s => ({ ...s, orders })),
+        products: adjustStock(state.products, action.productId, 1)
+      };
+    }
+
+    case 'MOVE_SESSION': {
+      const session = state.sessions[action.fromScreenId];
+      const target = state.screens.find(s => s.id === action.toScreenId);
+      if (!session || !canStartOn(target) || state.sessions[target.id]) return state;
+
+      // Price the time on the old station now, so the new station's plan only applies from here on
+      const from = state.screens.find(s => s.id === action.fromScreenId);
+      const leg = buildLeg(session, from, state.ratePlans, action.at);
+      const { [action.fromScreenId]: _moved, ...sessions } = state.sessions;
+      const moved: ActiveSession = {
+        ...session,
+        screenId: target.id,
+        ratePlanId: action.ratePlanId ?? session.ratePlanId,
+        plan: action.ratePlanId && action.ratePlanId !== session.ratePlanId
+          ? findRatePlan(state.ratePlans, action.ratePlanId)
+          : session.plan,
+        legs: [...(session.legs ?? []), leg]
+      };
+      return { ...state, sessions: { ...sessions, [target.id]: moved } };
+    }
+
+    case 'STOP_SESSION': {
+      const session = state.sessions[action.screenId];
+      if (!session) return state;
+
+      const { [action.screenId]: _stopped, ...sessions } = state.sessions;
+      // Stopping twice (e.g. from two tabs) must not log the visit twice
+      if (state.history.some(r => r.id === session.id)) return { ...state, sessions };
+
+      const screen = state.screens.find(s => s.id === action.screenId);
+      const record = applyDiscounts(
+        { ...buildSessionRecord(session, screen, state.ratePlans, action.endTime), stoppedBy: action.stoppedBy },
+        state.discountRules,
+        { code: action.promoCode, manual: action.manualDiscount, at: action.endTime }
+      );
+      const discountRules = countRuleUses(state.discountRules, record.discounts);
+
+      const customer = state.customers.find(c => c.id === session.customerId);
+      if (!customer) {
+        const paid = splitBill(applyPayment(record, settlePayment(getRecordTotal(record), CASH_ONLY)), action.shares);
+        return { ...state, sessions, history: [paid, ...state.history], discountRules };
+      }
+
+      const loyalty = applyLoyalty(record, customer, state.loyalty, action.redeemMinutes);
+      const split = settlePayment(getRecordTotal(loyalty.record), action.payment ?? CASH_ONLY, customer);
+      const settled = splitBill(applyPayment(loyalty.record, split), action.shares);
+
+      let account: Customer = { ...customer, points: loyalty.points };
+      let ledger = state.ledger;
+      if (split.wallet > 0 || split.tab > 0) {
+        const entry: LedgerEntry = {
+          id: `${session.id}:pay`,
+          customerId: customer.id,
+          at: action.endTime,
+          type: 'SESSION',
+          wallet: -split.wallet,
+          tab: split.tab,
+          cash: 0,
+          note: settled.screenName,
+          recordId: settled.id
+        };
+        account = applyLedgerEntry(account, entry);
+        ledger = [entry, ...ledger];
+      }
+
+      return {
+        ...state,
+        sessions,
+        history: [settled, ...state.history],
+        customers: state.customers.map(c => c.id === customer.id ? account : c),
+        ledger,
+        discountRules
+      };
+    }
+
+    // The deleted record survives as a snapshot in its audit entry
+    case 'DELETE_RECORD':
+      return { ...state, history: state.history.filter(r => r.id !== action.recordId) };
+
+    case 'RESTORE_RECORDS': {
+      const entry = state.audit.find(e => e.id === action.auditEntryId);
+      const records = entry ? getRestorableRecords(entry, state) : [];
+      if (records.length === 0) return state;
+      return { ...state, history: [...state.history, ...records].sort((a, b) => b.endTime - a.endTime) };
+    }
+
+    case 'MERGE_RECORDS': {
+      const [a, b] = action.recordIds.map(id => state.history.find(r => r.id === id));
+      if (!a || !b || a === b) return state;
+      const merged = mergeRecords(a, b);
+      return {
+        ...state,
+        history: [merged, ...state.history.filter(r => r !== a && r !== b)].sort((x, y) => y.endTime - x.endTime)
+      };
+    }
+
+    case 'CLEAR_HISTORY':
+      return { ...state, history: [] };
+
+    case 'SET_RATE_PLANS':
+      return { ...state, ratePlans: action.ratePlans };
+
+    case 'SET_PRODUCTS':
+      return { ...state, products: action.products };
+
+    case 'ADD_CUSTOMER':
+      if (state.customers.some(c => c.id === action.customer.id)) return state;
+      return { ...state, customers: [...state.customers, action.customer] };
+
+    case 'UPDATE_CUSTOMER':
+      return {
+        ...state,
+        customers: state.customers.map(c => c.id === action.customer.id ? action.customer : c)
+      };
+
+    case 'DELETE_CUSTOMER':
+      // Records keep their customerName snapshot
+      return { ...state, customers: state.customers.filter(c => c.id !== action.customerId) };
+
+    case 'SET_LOYALTY':
+      return { ...state, loyalty: action.loyalty };
+
+    // Use counts only move at checkout, so an editor left open can't roll them back
+    case 'SET_DISCOUNT_RULES':
+      return {
+        ...state,
+        discountRules: action.discountRules.map(rule => ({
+          ...rule,
+          uses: state.discountRules.find(r => r.id === rule.id)?.uses ?? rule.uses
+        }))
+      };
+
+    case 'POST_LEDGER_ENTRY': {
+      const { entry } = action;
+      if (state.ledger.some(e => e.id === entry.id)) return state;
+      if (!state.customers.some(c => c.id === entry.customerId)) return state;
+      return {
+        ...state,
+        customers: state.customers.map(c => c.id === entry.customerId ? applyLedgerEntry(c, entry) : c),
+        ledger: [entry, ...state.ledger]
+      };
+    }
+
+    case 'ADD_RESERVATION':
+      if (state.reservations.some(r => r.id === action.reservation.id)) return state;
+      return { ...state, reservations: [...state.reservations, action.reservation] };
+
+    case 'UPDATE_RESERVATION':
+      return {
+        ...state,
+        reservations: state.reservations.map(r => r.id === action.reservation.id ? action.reservation : r)
+      };
+
+    case 'DELETE_RESERVATION':
+      return { ...state, reservations: state.reservations.filter(r => r.id !== action.reservationId) };
+
+    case 'ADD_STAFF':
+      if (state.staff.some(m => m.id === action.member.id)) return state;
+      return { ...state, staff: [...state.staff, action.member] };
+
+    case 'UPDATE_STAFF':
+      if (action.member.role !== 'OWNER' && isLastOwner(state.staff, action.member.id)) return state;
+      return { ...state, staff: state.staff.map(m => m.id === action.member.id ? action.member : m) };
+
+    case 'DELETE_STAFF':
+      if (isLastOwner(state.staff, action.memberId)) return state;
+      // Records keep their startedBy/stoppedBy stamps
+      return { ...state, staff: state.staff.filter(m => m.id !== action.memberId) };
+
+    case 'SET_RECEIPT_SETTINGS':
+      return { ...state, receipt: action.receipt };
+
+    case 'SET_ALARM_SETTINGS':
+      return { ...state, alarms: action.alarms };
+
+    case 'CLOSE_SHIFT': {
+      const archived: ClosedShift = {
+        ...state.currentShift,
+        closedAt: action.at,
+        closedBy: action.closedBy,
+        sessions: state.history,
+        report: buildZReport(state.history, entriesBetween(state.ledger, state.currentShift.openedAt, action.at + 1))
+      };
+      return {
+        ...state,
+        history: [],
+        closedShifts: [archived, ...state.closedShifts],
+        currentShift: { id: action.at.toString(36), openedAt: action.at, openedBy: action.nextOpenedBy }
+      };
+    }
+
+    // The audit trail belongs to this device and survives a restore
+    case 'IMPORT_BACKUP':
+      return action.mode === 'replace'
+        ? { ...action.state, version: SCHEMA_VERSION, audit: state.audit }
+        : mergeStates(state, action.state);
+
+    case 'AUDITED': {
+      // Only plain actions are wrapped; anything nested is ignored
+      if (action.action.type === 'AUDITED' || state.audit.some(e => e.id === action.id)) return state;
+      const next = loungeReducer(state, action.action);
+      if (next === state) return state;
+      const entry = buildAuditEntry(state, next, action.action, action);
+      return entry ? { ...next, audit: [entry, ...next.audit] } : next;
+    }
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,238 @@
+import { LoungeState } from '../types';
+import { loungeReducer } from './reducer';
+import { migrateState } from './migrations';
+import { ClientMessage, SYNC_APP_ID, SYNC_TOKEN_PARAM, SYNC_WS_PATH, ServerMessage, SyncEvent, SyncOp } from './syncProtocol';
+
+// Server address saved on this device. Missing = look for a sync server at the address the app
+// was loaded from; empty = sync switched off.
+const URL_KEY = 'ps_sync_url';
+// Pairing code the server printed when it started
+const TOKEN_KEY = 'ps_sync_token';
+// Ops not yet confirmed by the server, shared by every tab of this browser so a closed tab's
+// changes still go out when any tab reconnects
+const OUTBOX_KEY = 'ps_sync_outbox';
+
+const RETRY_MIN_MS = 2000;
+const RETRY_MAX_MS = 30000;
+const DISCOVERY_TIMEOUT_MS = 2000;
+const DONE_MEMORY = 500;
+
+export type SyncStatus = 'OFF' | 'CONNECTING' | 'ONLINE' | 'OFFLINE' | 'UNPAIRED';
+
+export interface SyncInfo {
+  status: SyncStatus;
+  url: string;
+  queued: number; // Local changes the server hasn't confirmed yet
+  conflicts: number; // Session changes dropped because another device got there first
+}
+
+export const SYNC_OFF: SyncInfo = { status: 'OFF', url: '', queued: 0, conflicts: 0 };
+
+export interface ServerSync {
+  push: (op: SyncOp) => void; // An action dispatched in this tab
+  track: (op: SyncOp) => boolean; // One relayed from another tab; false if the server already dealt with it
+  close: () => void;
+}
+
+// Rejections worth telling staff about; the rest are harmless repeats like MARK_TIME_UP from two tabs
+const CONFLICT_TYPES = ['START_SESSION', 'STOP_SESSION', 'MOVE_SESSION', 'EXTEND_SESSION'];
+
+const actionType = (op: SyncOp) => op.action.type === 'AUDITED' ? op.action.action.type : op.action.type;
+
+export const newOpId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+export const getSavedSyncUrl = () => localStorage.getItem(URL_KEY);
+
+export const saveSyncUrl = (url: string) => localStorage.setItem(URL_KEY, url.trim().replace(/\/+$/, ''));
+
+export const getSavedSyncToken = () => localStorage.getItem(TOKEN_KEY) ?? '';
+
+export const saveSyncToken = (token: string) => localStorage.setItem(TOKEN_KEY, token.trim());
+
+// Back to looking for a server where the app was loaded from
+export const clearSyncUrl = () => localStorage.removeItem(URL_KEY);
+
+// Configured address, or the page's own origin if a sync server answers there
+export const resolveSyncUrl = async (): Promise<string> => {
+  const saved = getSavedSyncUrl();
+  if (saved !== null) return saved;
+  try {
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => controller.abort(), DISCOVERY_TIMEOUT_MS);
+    const res = await fetch('/api/hello', { signal: controller.signal });
+    clearTimeout(timer);
+    const body = res.ok ? await res.json() : null;
+    return body && body.app === SYNC_APP_ID ? window.location.origin : '';
+  } catch (e) {
+    return '';
+  }
+};
+
+const readOutbox = (): SyncOp[] => {
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_KEY) ?? '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeOutbox = (ops: SyncOp[]) => {
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(ops));
+  } catch (e) {
+    console.error('Sync outbox could not be saved', e);
+  }
+};
+
+// Keeps this tab in step with the server. The server's order is the truth: the confirmed state
+// follows its events, and local changes it hasn't confirmed yet are replayed on top, so every
+// device lands on the same state whichever way the network interleaved them.
+export const createServerSync = (
+  url: string,
+  token: string,
+  getLocalState: () => LoungeState,
+  onState: (state: LoungeState) => void,
+  onInfo: (info: SyncInfo) => void
+): ServerSync => {
+  let confirmed: LoungeState | null = null;
+  let seq = 0;
+  let pending: SyncOp[] = [];
+  const recentlyDone: string[] = [];
+  let conflicts = 0;
+
+  let socket: WebSocket | null = null;
+  let status: SyncStatus = 'CONNECTING';
+  let retryMs = RETRY_MIN_MS;
+  let retryTimer: number | null = null;
+  let closed = false;
+
+  const report = () => onInfo({ status, url, queued: pending.length, conflicts });
+
+  const emit = () => {
+    if (confirmed) onState(pending.reduce((acc, op) => loungeReducer(acc, op.action), confirmed));
+    report();
+  };
+
+  const send = (message: ClientMessage) => {
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const forget = (ids: string[]) => {
+    const done = new Set(ids);
+    pending = pending.filter(op => !done.has(op.id));
+    writeOutbox(readOutbox().filter(op => !done.has(op.id)));
+  };
+
+  const applyEvents = (events: SyncEvent[]) => {
+    if (!confirmed) return;
+    for (const event of events) {
+      if (event.seq <= seq) continue;
+      // A gap means we missed something; start over from a snapshot
+      if (event.seq !== seq + 1) {
+        send({ type: 'hello', since: null });
+        return;
+      }
+      confirmed = loungeReducer(confirmed, event.op.action);
+      seq = event.seq;
+      recentlyDone.push(event.op.id);
+    }
+    recentlyDone.splice(0, Math.max(recentlyDone.length - DONE_MEMORY, 0));
+    forget(events.map(e => e.op.id));
+    emit();
+  };
+
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'snapshot': {
+        if (!message.state) {
+          // Empty server: this device's data becomes the starting point, changes and all
+          writeOutbox([]);
+          pending = [];
+          send({ type: 'seed', state: getLocalState() });
+          return;
+        }
+        confirmed = migrateState(message.state);
+        seq = message.seq;
+        pending = readOutbox();
+        emit();
+        if (pending.length > 0) send({ type: 'ops', ops: pending });
+        return;
+      }
+      case 'events':
+        applyEvents(message.events);
+        return;
+      case 'settled': {
+        const ours = new Set(pending.map(op => op.id));
+        conflicts += pending.filter(op => message.rejected.includes(op.id) && CONFLICT_TYPES.includes(actionType(op))).length;
+        recentlyDone.push(...message.ids);
+        forget(message.ids);
+        if (message.ids.some(id => ours.has(id))) emit();
+        else report();
+        return;
+      }
+      case 'denied':
+        // Retrying won't help until someone enters the right code
+        closed = true;
+        status = 'UNPAIRED';
+        report();
+        return;
+    }
+  };
+
+  const connect = () => {
+    if (closed) return;
+    status = 'CONNECTING';
+    report();
+    const ws = new WebSocket(`${url.replace(/^http/, 'ws')}${SYNC_WS_PATH}?${SYNC_TOKEN_PARAM}=${encodeURIComponent(token)}`);
+    socket = ws;
+
+    ws.onopen = () => {
+      status = 'ONLINE';
+      retryMs = RETRY_MIN_MS;
+      report();
+      send({ type: 'hello', since: confirmed ? seq : null });
+      // Anything queued while offline goes out behind the catch-up; the server drops repeats
+      const outbox = readOutbox();
+      if (confirmed && outbox.length > 0) send({ type: 'ops', ops: outbox });
+    };
+    ws.onmessage = (e: MessageEvent<string>) => {
+      try {
+        handleMessage(JSON.parse(e.data));
+      } catch (err) {
+        console.error('Malformed sync message', err);
+      }
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      if (closed) return;
+      status = 'OFFLINE';
+      report();
+      retryTimer = window.setTimeout(connect, retryMs);
+      retryMs = Math.min(retryMs * 2, RETRY_MAX_MS);
+    };
+  };
+
+  connect();
+
+  return {
+    push: (op) => {
+      pending.push(op);
+      writeOutbox([...readOutbox(), op]);
+      if (confirmed) send({ type: 'ops', ops: [op] });
+      report();
+    },
+    track: (op) => {
+      if (recentlyDone.includes(op.id)) return false;
+      pending.push(op);
+      report();
+      return true;
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+      socket = null;
+    }
+  };
+};
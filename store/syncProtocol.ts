@@ -0,0 +1,38 @@
+import { LoungeState } from '../types';
+import type { LoungeAction } from './reducer';
+
+// Messages between the app and the optional LAN sync server (server/index.ts).
+// The server runs the same reducer as every device and decides the order actions apply in.
+
+export const SYNC_APP_ID = 'ps-lounge-sync';
+export const SYNC_WS_PATH = '/ws';
+// Pairing code printed by the server; sent as ?token= on the socket, or as a Bearer token to the REST API
+export const SYNC_TOKEN_PARAM = 'token';
+
+// An action as dispatched on one device; the id lets it be sent again safely after a dropped connection
+export interface SyncOp {
+  id: string;
+  action: LoungeAction;
+}
+
+// An op the server applied, numbered in the order every device must apply it
+export interface SyncEvent {
+  seq: number;
+  op: SyncOp;
+}
+
+export type ClientMessage =
+  | { type: 'hello'; since: number | null } // null asks for a full snapshot
+  | { type: 'ops'; ops: SyncOp[] }
+  | { type: 'seed'; state: LoungeState }; // First device to connect to an empty server brings its data
+
+export type ServerMessage =
+  | { type: 'snapshot'; seq: number; state: LoungeState | null } // null: nothing seeded yet
+  | { type: 'events'; events: SyncEvent[] }
+  // Ops the server is done with without a new event: duplicates, and ones that changed nothing
+  // because the state had moved on (e.g. a station another device already started)
+  | { type: 'settled'; ids: string[]; rejected: string[] }
+  | { type: 'denied' }; // Missing or wrong pairing code; the server closes the socket after this
+
+// Local bookkeeping that never goes over the wire
+export const isLocalOnly = (action: LoungeAction) => action.type === 'HYDRATE' || action.type === 'AUDIT_STORED';
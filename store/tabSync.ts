@@ -0,0 +1,53 @@
+import { LoungeAction } from './reducer';
+
+const CHANNEL_NAME = 'ps-lounge-sync';
+const STORAGE_EVENT_KEY = 'ps_sync_event';
+
+// Identifies this tab so it ignores its own echoes
+const TAB_ID = Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+interface TabMessage {
+  origin: string;
+  action: LoungeAction;
+  opId?: string; // Set while a sync server is in use, so the server's copy isn't applied twice
+}
+
+export interface TabChannel {
+  post: (action: LoungeAction, opId?: string) => void;
+  close: () => void;
+}
+
+// Relays store actions between tabs of the same browser. Every tab runs the same reducer
+// over the same actions, so they converge without shipping whole state snapshots around.
+export const createTabChannel = (onAction: (action: LoungeAction, opId?: string) => void): TabChannel => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<TabMessage>) => {
+      if (e.data && e.data.origin !== TAB_ID) onAction(e.data.action, e.data.opId);
+    };
+    return {
+      post: (action, opId) => channel.postMessage({ origin: TAB_ID, action, opId } as TabMessage),
+      close: () => channel.close()
+    };
+  }
+
+  // Older browsers: a storage event fires in every other tab when the key changes
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_EVENT_KEY || !e.newValue) return;
+    try {
+      const message: TabMessage = JSON.parse(e.newValue);
+      if (message.origin !== TAB_ID) onAction(message.action, message.opId);
+    } catch (err) {
+      console.error('Malformed sync message', err);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    post: (action, opId) => {
+      // The nonce makes repeated identical actions still count as a change
+      localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ origin: TAB_ID, action, opId, nonce: Math.random() }));
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+};
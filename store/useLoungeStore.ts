@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import { LoungeState } from '../types';
+import { LoungeAction, LoungeDispatch, createInitialState, loungeReducer } from './reducer';
+import { loadState, persistChanges } from './persistence';
+import { TabChannel, createTabChannel } from './tabSync';
+import { SYNC_OFF, ServerSync, SyncInfo, createServerSync, getSavedSyncToken, newOpId, resolveSyncUrl } from './serverSync';
+import { isLocalOnly } from './syncProtocol';
+
+export const useLoungeStore = (): [LoungeState, LoungeDispatch, boolean, SyncInfo] => {
+  const [state, baseDispatch] = useReducer(loungeReducer, undefined, () => createInitialState());
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [syncInfo, setSyncInfo] = useState<SyncInfo>(SYNC_OFF);
+
+  // Last state known to be written to storage; null until loaded
+  const persistedRef = useRef<LoungeState | null>(null);
+  const channelRef = useRef<TabChannel | null>(null);
+  const syncRef = useRef<ServerSync | null>(null);
+  // Read when this device seeds an empty sync server
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Load from storage and listen to the other tabs
+  useEffect(() => {
+    let cancelled = false;
+
+    // Actions arriving before hydration are already part of what we're about to load
+    const channel = createTabChannel((action, opId) => {
+      if (!persistedRef.current) return;
+      if (opId && syncRef.current && !syncRef.current.track({ id: opId, action })) return;
+      baseDispatch(action);
+    });
+    channelRef.current = channel;
+
+    loadState().then((loaded) => {
+      if (cancelled) return;
+      persistedRef.current = loaded;
+      baseDispatch({ type: 'HYDRATE', state: loaded });
+      setIsHydrated(true);
+
+      // With a LAN sync server the server's order wins; what it sends replaces the local state
+      return resolveSyncUrl().then((url) => {
+        if (cancelled || !url) return;
+        syncRef.current = createServerSync(
+          url,
+          getSavedSyncToken(),
+          () => stateRef.current,
+          (synced) => baseDispatch({ type: 'HYDRATE', state: synced }),
+          setSyncInfo
+        );
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      channel.close();
+      channelRef.current = null;
+      syncRef.current?.close();
+      syncRef.current = null;
+    };
+  }, []);
+
+  // Persist
+  useEffect(() => {
+    const prev = persistedRef.current;
+    if (!isHydrated || !prev || prev === state) return;
+    persistedRef.current = state;
+    // Another tab may have appended first, so take the audit numbering storage settled on
+    persistChanges(prev, state).then((stored) => {
+      if (stored.length > 0) baseDispatch({ type: 'AUDIT_STORED', entries: stored });
+    });
+  }, [state, isHydrated]);
+
+  const dispatch = useCallback((action: LoungeAction) => {
+    baseDispatch(action);
+    const opId = syncRef.current && !isLocalOnly(action) ? newOpId() : undefined;
+    if (opId) syncRef.current!.push({ id: opId, action });
+    channelRef.current?.post(action, opId);
+  }, []);
+
+  return [state, dispatch, isHydrated, syncInfo];
+};
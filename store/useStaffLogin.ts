@@ -0,0 +1,30 @@
+import { useCallback, useState } from 'react';
+import { StaffMember } from '../types';
+
+// Per tab: each counter screen signs in on its own, and closing the tab signs out
+const LOGIN_KEY = 'ps_staff_login';
+
+const readLogin = () => {
+  try {
+    return sessionStorage.getItem(LOGIN_KEY);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const useStaffLogin = (staff: StaffMember[]): [StaffMember | undefined, (memberId: string | null) => void] => {
+  const [memberId, setMemberId] = useState<string | null>(readLogin);
+
+  const setLogin = useCallback((id: string | null) => {
+    try {
+      if (id) sessionStorage.setItem(LOGIN_KEY, id);
+      else sessionStorage.removeItem(LOGIN_KEY);
+    } catch (e) {
+      console.error('Failed to store staff login', e);
+    }
+    setMemberId(id);
+  }, []);
+
+  // A removed account is signed out everywhere on the next render
+  return [staff.find(m => m.id === memberId), setLogin];
+};
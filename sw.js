@@ -42,6 +42,9 @@ self.addEventListener('activate', (event) => {
 self.addEventListener('fetch', (event) => {
   const url = new URL(event.request.url);
 
+  // Sync server calls must always hit the network and never be cached
+  if (url.pathname.startsWith('/api/')) return;
+
   // Strategy: Network First for HTML/JS files (to get updates), Cache Fallback
   // Strategy: Cache First for CDNs (Tailwind, Fonts, React), Network Fallback
   
@@ -88,3 +91,111 @@ self.addEventListener('fetch', (event) => {
     );
   }
 });
+
+// --- Session alarms ---
+// The page sends its full alarm schedule whenever sessions change and every so often while open.
+// This is best effort, not a guarantee. Browsers stop an idle worker after about 30 seconds and its
+// timers with it, so a notification may only show once the page's next resend wakes the worker, and
+// a hidden page's timers are throttled to about once a minute. Notification triggers (TimestampTrigger)
+// would hand the alarm to the OS, but no browser ships them; they're used only if one ever does.
+// The station card's sound and banner stay the primary alarm, and the page warns staff when it
+// notices it is being throttled so they keep it in view.
+
+let alarmSchedule = [];
+let repeatMs = 30000;
+let alarmTimer = null;
+const lastShown = new Map(); // tag -> { id, at }
+
+const hasTriggers = typeof TimestampTrigger !== 'undefined' && 'showTrigger' in Notification.prototype;
+
+const showAlarm = (alarm, options = {}) =>
+  self.registration.showNotification(alarm.title, {
+    body: alarm.body,
+    tag: alarm.tag,
+    icon: '/vite.svg',
+    vibrate: alarm.vibrate,
+    renotify: true,
+    requireInteraction: true,
+    data: { id: alarm.id },
+    ...options
+  });
+
+const checkAlarms = () => {
+  if (alarmTimer) clearTimeout(alarmTimer);
+  alarmTimer = null;
+  const now = Date.now();
+  let nextAt = Infinity;
+
+  // Per station only the latest alarm it has reached rings, repeating until the page drops it
+  const dueByTag = new Map();
+  alarmSchedule.forEach(alarm => {
+    if (alarm.at > now) {
+      nextAt = Math.min(nextAt, alarm.at);
+      return;
+    }
+    const current = dueByTag.get(alarm.tag);
+    if (!current || alarm.at > current.at) dueByTag.set(alarm.tag, alarm);
+  });
+
+  const shows = [];
+  dueByTag.forEach((alarm, tag) => {
+    const shown = lastShown.get(tag);
+    if (!shown || shown.id !== alarm.id || now - shown.at >= repeatMs) {
+      shows.push(showAlarm(alarm).catch(() => {}));
+      lastShown.set(tag, { id: alarm.id, at: now });
+      nextAt = Math.min(nextAt, now + repeatMs);
+    } else {
+      nextAt = Math.min(nextAt, shown.at + repeatMs);
+    }
+  });
+
+  if (nextAt !== Infinity) alarmTimer = setTimeout(checkAlarms, Math.max(nextAt - now, 1000));
+  return Promise.all(shows);
+};
+
+// Acknowledged, stopped or extended sessions drop out of the schedule; their notifications go with them
+const closeStaleAlarms = () => {
+  const tags = new Set(alarmSchedule.map(alarm => alarm.tag));
+  Array.from(lastShown.keys()).forEach(tag => {
+    if (!tags.has(tag)) lastShown.delete(tag);
+  });
+  return self.registration.getNotifications(hasTriggers ? { includeTriggered: true } : undefined)
+    .then(notifications => notifications.forEach(n => {
+      const id = n.data && n.data.id;
+      if (id && !alarmSchedule.some(alarm => alarm.id === id && (alarm.at <= Date.now() || hasTriggers))) n.close();
+    }))
+    .catch(() => {});
+};
+
+// Alarms of a station share a tag and would replace each other, so only the next one is handed over
+const scheduleTriggers = () => {
+  if (!hasTriggers) return Promise.resolve();
+  const now = Date.now();
+  const nextByTag = new Map();
+  alarmSchedule.forEach(alarm => {
+    const current = nextByTag.get(alarm.tag);
+    if (alarm.at > now && (!current || alarm.at < current.at)) nextByTag.set(alarm.tag, alarm);
+  });
+  return Promise.all(Array.from(nextByTag.values()).map(alarm =>
+    showAlarm(alarm, { showTrigger: new TimestampTrigger(alarm.at) }).catch(() => {})
+  ));
+};
+
+self.addEventListener('message', (event) => {
+  const message = event.data;
+  if (!message || message.type !== 'SCHEDULE_ALARMS') return;
+  alarmSchedule = Array.isArray(message.alarms) ? message.alarms : [];
+  repeatMs = Math.max((message.repeatSeconds || 30) * 1000, 5000);
+  event.waitUntil(closeStaleAlarms().then(scheduleTriggers).then(checkAlarms));
+});
+
+// Tapping an alarm brings the lounge back up; staff acknowledge it on the station card
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      if (clients.length > 0) return clients[0].focus();
+      return self.clients.openWindow('/');
+    })
+  );
+});
@@ -4,20 +4,453 @@ export interface SessionRecord {
   screenName: string; // Added to preserve name in history
   startTime: number;
   endTime: number;
-  durationSeconds: number;
+  durationSeconds: number; // Played, to the second
+  billedSeconds?: number; // Charged under the plan's billing policy; unset = durationSeconds
+  billingAdjustment?: number; // Blocks, minimum charge and amount rounding; already in totalCost
   totalCost: number;
   hourlyRate: number;
+  pausedSeconds?: number; // Total paused time, excluded from durationSeconds
+  pauses?: PauseInterval[]; // When the paused time fell; missing on records from before it was kept
+  ratePlanId?: string;
+  ratePlanName?: string;
+  controllers?: ControllerCount;
+  segments?: RateSegment[]; // Cost breakdown per price window the session crossed
+  items?: OrderItem[]; // Food & drinks sold during the session
+  itemsTotal?: number; // Kept apart from totalCost, which is playtime only
+  customerName?: string; // Snapshot, so renaming a customer doesn't rewrite history
+  customerId?: string;
+  sessionType?: SessionType;
+  freeMinutes?: number; // Redeemed with loyalty points
+  loyaltyDiscount?: number; // Value of the free minutes, already taken off totalCost
+  pointsRedeemed?: number;
+  pointsEarned?: number;
+  paymentMethod?: PaymentMethod; // Missing on records from before payments were tracked: cash
+  payment?: PaymentSplit;
+  amountPaid?: number; // Cash + wallet
+  outstanding?: number; // Put on the customer's tab
+  legs?: StationLeg[]; // Set when the visit was moved between stations or merged
+  mergedFrom?: string[]; // Ids of the records folded into this one
+  extensions?: SessionExtension[];
+  packageName?: string;
+  overtimeSeconds?: number; // Played past the fixed budget
+  overtimeCost?: number;
+  reservationId?: string; // Booking the visit was started from
+  startedBy?: StaffStamp;
+  stoppedBy?: StaffStamp;
+  grossCost?: number; // Playtime before discounts and free minutes; unset = nothing was taken off
+  discounts?: AppliedDiscount[]; // Already taken off totalCost
+  controllerLog?: ControllerSpan[]; // Set when the player count changed during the visit
+  shares?: BillShare[]; // Set when the bill was split between players
+}
+
+// One player's part of a split bill; the shares of a record add up to its total
+export interface BillShare {
+  id: string; // `${recordId}:${n}`
+  name: string;
+  amount: number;
+}
+
+export interface PauseInterval {
+  start: number;
+  end: number | null; // null while the session is still paused
+}
+
+export type ConsoleType = 'PS4' | 'PS5' | 'VR' | 'PC';
+
+// Out of service: no new sessions until it is cleared
+export interface Maintenance {
+  since: number;
+  note: string;
 }
 
 export interface Screen {
   id: string;
   name: string;
+  consoleType: ConsoleType;
+  zone: string; // Room or area on the floor; empty when the lounge has just one
+  defaultRatePlanId?: string; // Preselected when a session is set up here
+  controllers: number; // Pads available at the station
+  maintenance?: Maintenance;
 }
 
-export interface ScreenState {
-  id: number;
-  isActive: boolean;
-  startTime: number | null;
-  hourlyRate: number;
+export type SessionType = 'OPEN' | 'FIXED';
+
+// Time added to a running FIXED session
+export interface SessionExtension {
+  at: number;
+  minutes: number;
+  price?: number; // Set for package sessions; time-billed sessions just get a longer budget
+  label?: string;
+}
+
+// Snapshot of the package a FIXED session was sold as, so editing the plan doesn't reprice it
+export interface SessionPackage {
+  name: string;
+  minutes: number;
+  price: number;
+}
+
+// Part of a visit spent on one station, priced with the plan that applied there
+export interface StationLeg {
+  screenId: string | number;
+  screenName: string;
+  from: number;
+  to: number;
+  seconds: number; // Played, excluding pauses
+  ratePlanId?: string;
+  ratePlanName?: string;
+  cost: number;
+  segments: RateSegment[];
+}
+
+// Player count from `at` on; the first entry is the count the session started with
+export interface ControllerSpan {
+  at: number;
+  controllers: ControllerCount;
+}
+
+// A session running on a station; becomes a SessionRecord (same id) when stopped
+export interface ActiveSession {
+  id: string;
+  screenId: string;
+  startTime: number;
+  sessionType: SessionType;
+  fixedMinutes: number;
+  ratePlanId: string;
+  plan?: RatePlan; // Copy taken at start (or on a move to another plan), so later edits don't reprice the session
+  controllers: ControllerCount; // Current count
+  controllerLog?: ControllerSpan[]; // Set once the count changes mid-session
   customerName: string;
-}
\ No newline at end of file
+  customerId?: string;
+  legs?: StationLeg[]; // Stations the session has already been moved away from
+  package?: SessionPackage; // Prepaid package billing instead of time x rate
+  extensions?: SessionExtension[];
+  reservationId?: string;
+  startedBy?: StaffStamp;
+  pauses: PauseInterval[];
+  orders: OrderItem[];
+  isTimeUp: boolean;
+  alarmAck?: number; // Minutes-left mark of the last alarm staff acknowledged; 0 = time up
+}
+
+// --- Pricing ---
+
+export type ControllerCount = 1 | 2 | 4;
+
+// EGP per hour, keyed by the number of controllers in use
+export type RateTable = Record<ControllerCount, number>;
+
+export interface RateRule {
+  id: string;
+  label: string;
+  days: number[]; // 0 = Sunday ... 6 = Saturday, empty = every day
+  from: string; // "HH:MM" local time
+  to: string; // "HH:MM", earlier than `from` when the window crosses midnight
+  rates: RateTable;
+}
+
+// Prepaid block of time for FIXED sessions, e.g. 60 min = 40 EGP
+export interface TimePackage {
+  id: string;
+  name: string;
+  minutes: number;
+  price: number;
+}
+
+// How time played past a package is charged
+export type OvertimeMode = 'RATE' | 'BLOCKS' | 'FREE';
+
+export interface OvertimePolicy {
+  mode: OvertimeMode;
+  blockMinutes: number; // BLOCKS: every started block is charged in full
+  graceMinutes: number; // Overtime up to this long is not charged
+}
+
+// How played time becomes the amount charged for time-billed sessions
+export interface BillingPolicy {
+  blockMinutes: number; // 0 = to the second; otherwise every started block is charged in full
+  graceMinutes: number; // Time into a block after the first that isn't charged yet
+  minimumMinutes: number; // Shortest time charged
+  roundTo: number; // Play amount rounded to the nearest multiple in EGP; 0 = no rounding
+}
+
+export interface RatePlan {
+  id: string;
+  name: string;
+  rates: RateTable; // Applies outside every rule window
+  rules: RateRule[]; // First matching rule wins
+  packages?: TimePackage[];
+  overtime?: OvertimePolicy;
+  billing?: BillingPolicy; // Unset = billed to the second
+}
+
+export interface RateSegment {
+  from: number;
+  to: number;
+  seconds: number;
+  rate: number;
+  label: string;
+  cost: number;
+}
+
+// --- Food & Drinks ---
+
+export interface Product {
+  id: string;
+  name: string;
+  price: number;
+  stock: number;
+}
+
+export interface OrderItem {
+  productId: string;
+  name: string; // Snapshot, so renaming a product doesn't rewrite history
+  unitPrice: number;
+  quantity: number;
+}
+
+// --- Customers ---
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  notes: string;
+  points: number;
+  createdAt: number;
+  wallet: number; // Prepaid balance
+  tab: number; // Amount owed
+  creditLimit: number; // 0 = no tab allowed
+}
+
+export type LoyaltyEarnMode = 'PER_HOUR' | 'PER_EGP';
+
+export interface LoyaltySettings {
+  earnMode: LoyaltyEarnMode;
+  earnRate: number; // Points per hour played or per EGP spent
+  pointsPerFreeMinute: number;
+}
+
+// --- Payments ---
+
+export type PaymentMethod = 'CASH' | 'WALLET' | 'TAB' | 'SPLIT';
+
+export interface PaymentSplit {
+  cash: number;
+  wallet: number;
+  tab: number;
+}
+
+export type LedgerEntryType = 'TOP_UP' | 'SESSION' | 'TAB_PAYMENT' | 'ADJUSTMENT';
+
+// A movement on a customer's account; the customer's wallet and tab are the sum of their entries
+export interface LedgerEntry {
+  id: string;
+  customerId: string;
+  at: number;
+  type: LedgerEntryType;
+  wallet: number; // Change to the prepaid balance
+  tab: number; // Change to the amount owed
+  cash: number; // Cash taken at the counter for this entry
+  note: string;
+  recordId?: string;
+}
+
+// --- Discounts ---
+
+export type DiscountKind = 'PERCENT' | 'FIXED' | 'FREE_MINUTES';
+
+// A discount on playtime. Rules without a code apply by themselves whenever their conditions hold
+export interface DiscountRule {
+  id: string;
+  name: string;
+  kind: DiscountKind;
+  value: number; // Percent off, EGP off, or minutes given free
+  code?: string; // Promo code typed at checkout
+  minMinutes: number; // Played at least this long, e.g. 120 for "play 2 hours get 30 min free"
+  days: number[]; // Window the session has to start in, same as RateRule; from === to = all day
+  from: string;
+  to: string;
+  validFrom?: number;
+  validUntil?: number;
+  maxUses?: number; // Unset = unlimited
+  uses: number;
+  active: boolean;
+}
+
+export interface AppliedDiscount {
+  ruleId: string; // MANUAL for a one-off discount given at checkout
+  name: string;
+  code?: string;
+  amount: number;
+}
+
+// --- Reservations ---
+
+export type ReservationStatus = 'BOOKED' | 'SEATED' | 'CANCELLED' | 'NO_SHOW';
+
+// A station booked ahead of time; the deposit is paid into the customer's wallet when booking
+export interface Reservation {
+  id: string;
+  screenId: string;
+  customerId?: string;
+  customerName: string;
+  phone: string;
+  startTime: number;
+  durationMinutes: number;
+  deposit: number;
+  notes: string;
+  status: ReservationStatus;
+  createdAt: number;
+  sessionId?: string; // Set once the booking is seated
+}
+
+// --- Staff ---
+
+export type StaffRole = 'OWNER' | 'MANAGER' | 'CASHIER';
+
+export type Permission =
+  | 'EDIT_HISTORY' // Delete or merge logged sessions
+  | 'RESET_HISTORY'
+  | 'EDIT_RATES'
+  | 'MANAGE_TERMINALS'
+  | 'CLOSE_SHIFT'
+  | 'RESTORE_BACKUP'
+  | 'MANAGE_STAFF'
+  | 'VIEW_AUDIT'
+  | 'GIVE_DISCOUNT'; // One-off discounts at checkout, beyond the configured rules
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  role: StaffRole;
+  pinHash: string;
+  createdAt: number;
+}
+
+// Who did something, kept by name so the record reads the same after the account is removed
+export interface StaffStamp {
+  id: string;
+  name: string;
+}
+
+// --- Audit ---
+
+export type AuditEvent =
+  | 'SESSION_START'
+  | 'SESSION_STOP'
+  | 'RECORD_DELETE'
+  | 'RECORD_RESTORE'
+  | 'RECORD_MERGE'
+  | 'HISTORY_RESET'
+  | 'RATES_CHANGE'
+  | 'SCREEN_RENAME'
+  | 'BACKUP_IMPORT'
+  | 'SHIFT_CLOSE'
+  | 'LEDGER_ENTRY'
+  | 'DISCOUNTS_CHANGE'
+  | 'STATIONS_CHANGE';
+
+// One link of the append-only audit chain; hash covers every other field plus prevHash
+// Text kept as a catalog key and its values, so it is worded in the reader's language when shown.
+// A value can itself be a message, for lists and labels that need translating too
+export interface StoredMessage {
+  key: string;
+  params?: Record<string, string | number | StoredMessage>;
+}
+
+export type MessagePart = string | StoredMessage; // Plain strings are names and notes, shown as typed
+
+export interface AuditEntry {
+  id: string;
+  seq: number;
+  at: number;
+  by?: StaffStamp;
+  event: AuditEvent;
+  summary: string | MessagePart[]; // Plain English on entries written before summaries were translated
+  amount?: number;
+  screenId?: string;
+  recordIds?: string[];
+  records?: SessionRecord[]; // Snapshots of records taken out of the log, so they can be restored
+  prevHash: string;
+  hash: string;
+}
+
+// --- Receipts ---
+
+export type PaperWidth = 58 | 80; // Thermal roll width in mm
+
+export interface ReceiptSettings {
+  shopName: string;
+  address: string;
+  phone: string;
+  footer: string;
+  paperWidth: PaperWidth;
+  bridgeUrl: string; // Local print bridge taking raw ESC/POS; empty = browser print dialog
+}
+
+// --- Alarms ---
+
+export interface AlarmSettings {
+  warningMinutes: number[]; // Minutes left at which a fixed session warns, e.g. [10, 5]
+  repeatSeconds: number; // How often an unacknowledged alarm rings again
+}
+
+// --- Shifts ---
+
+export interface Shift {
+  id: string;
+  openedAt: number;
+  openedBy: string;
+}
+
+export interface StationTotal {
+  screenId: string | number;
+  screenName: string;
+  sessions: number;
+  seconds: number;
+  revenue: number;
+}
+
+export interface ZReport {
+  sessionCount: number;
+  hoursSold: number;
+  playRevenue: number;
+  itemsRevenue: number;
+  totalRevenue: number;
+  discounts?: number; // Taken off playtime by discount rules and free minutes
+  walletPaid?: number; // Sessions paid from prepaid balances
+  tabCharged?: number; // Sessions put on credit
+  accountCash?: number; // Top-ups and tab payments taken in cash
+  cashExpected: number;
+  stations: StationTotal[];
+}
+
+export interface ClosedShift extends Shift {
+  closedAt: number;
+  closedBy: string;
+  sessions: SessionRecord[];
+  report: ZReport;
+}
+
+// --- Store ---
+
+export interface LoungeState {
+  version: number;
+  screens: Screen[];
+  sessions: Record<string, ActiveSession>; // Keyed by screen id
+  history: SessionRecord[]; // Current shift, newest first
+  ratePlans: RatePlan[];
+  products: Product[];
+  customers: Customer[];
+  loyalty: LoyaltySettings;
+  discountRules: DiscountRule[];
+  ledger: LedgerEntry[]; // Newest first
+  reservations: Reservation[];
+  staff: StaffMember[];
+  audit: AuditEntry[]; // Newest first
+  receipt: ReceiptSettings;
+  alarms: AlarmSettings;
+  currentShift: Shift;
+  closedShifts: ClosedShift[];
+}
@@ -0,0 +1,48 @@
+import { Customer, LedgerEntry, PaymentMethod, PaymentSplit, SessionRecord } from '../types';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const CASH_ONLY: PaymentSplit = { cash: 0, wallet: 0, tab: 0 };
+
+export const availableCredit = (customer: Customer) =>
+  Math.max(0, round2(customer.creditLimit - customer.tab));
+
+// Clamps the requested wallet/tab amounts to what the customer has; cash covers the rest
+export const settlePayment = (total: number, requested: PaymentSplit, customer?: Customer): PaymentSplit => {
+  if (!customer) return { cash: round2(total), wallet: 0, tab: 0 };
+  const wallet = round2(Math.min(Math.max(0, requested.wallet), Math.max(0, customer.wallet), total));
+  const tab = round2(Math.min(Math.max(0, requested.tab), availableCredit(customer), total - wallet));
+  return { cash: round2(total - wallet - tab), wallet, tab };
+};
+
+export const paymentMethodOf = (split: PaymentSplit): PaymentMethod => {
+  const used = (['cash', 'wallet', 'tab'] as const).filter(key => split[key] > 0);
+  if (used.length > 1) return 'SPLIT';
+  if (used[0] === 'wallet') return 'WALLET';
+  if (used[0] === 'tab') return 'TAB';
+  return 'CASH';
+};
+
+export const applyPayment = (record: SessionRecord, split: PaymentSplit): SessionRecord => ({
+  ...record,
+  paymentMethod: paymentMethodOf(split),
+  payment: split,
+  amountPaid: round2(split.cash + split.wallet),
+  outstanding: split.tab
+});
+
+export const applyLedgerEntry = (customer: Customer, entry: LedgerEntry): Customer => ({
+  ...customer,
+  wallet: round2(customer.wallet + entry.wallet),
+  tab: round2(customer.tab + entry.tab)
+});
+
+// Cash the drawer took for a record; records from before payments were tracked were all cash
+export const getCashPaid = (record: SessionRecord, total: number) =>
+  record.payment ? record.payment.cash : total;
+
+export const getDebtors = (customers: Customer[]) =>
+  customers.filter(c => c.tab > 0).sort((a, b) => b.tab - a.tab);
+
+export const entriesBetween = (ledger: LedgerEntry[], from: number, to = Infinity) =>
+  ledger.filter(e => e.at >= from && e.at < to);
@@ -0,0 +1,157 @@
+import { ActiveSession, AlarmSettings, Screen } from '../types';
+import { getActiveSeconds, isSessionPaused } from './session';
+import { Translate } from './i18n';
+
+export const DEFAULT_ALARMS: AlarmSettings = {
+  warningMinutes: [10, 5],
+  repeatSeconds: 30
+};
+
+export const REPEAT_OPTIONS = [15, 30, 60, 120];
+
+// Clock ticks further apart than this mean the browser is throttling the tab, and its alarms ring late
+export const THROTTLE_GAP_MS = 5000;
+// How long staff are warned after the last late tick
+export const ALARM_DELAY_NOTICE_MS = 10 * 60 * 1000;
+
+export type NotifyPermission = NotificationPermission | 'unsupported';
+
+// An alarm as handed to the service worker, which shows it even while the page sleeps
+export interface ScheduledAlarm {
+  id: string; // `${sessionId}:${mark}`
+  tag: string; // One notification per station; a later alarm replaces the earlier one
+  at: number;
+  title: string;
+  body: string;
+  vibrate: number[];
+}
+
+export interface AlarmTone {
+  wave: OscillatorType;
+  frequency: number;
+  beeps: number;
+  siren: boolean;
+}
+
+// Keeps whole positive minutes, most distant first
+export const normalizeAlarmSettings = (settings: AlarmSettings): AlarmSettings => ({
+  warningMinutes: Array.from(new Set(settings.warningMinutes.map(m => Math.floor(m)).filter(m => m > 0))).sort((a, b) => b - a),
+  repeatSeconds: Math.max(5, Math.floor(settings.repeatSeconds) || DEFAULT_ALARMS.repeatSeconds)
+});
+
+// Minutes-left marks that ring on a session, ending with 0 for time up.
+// A warning at or beyond the booked length would go off the moment the session starts, so it's skipped
+export const getAlarmMarks = (settings: AlarmSettings, fixedMinutes: number) =>
+  [...normalizeAlarmSettings(settings).warningMinutes.filter(m => m < fixedMinutes), 0];
+
+export const getRemainingSeconds = (session: ActiveSession, now: number) =>
+  session.fixedMinutes * 60 - getActiveSeconds(session.startTime, session.pauses, now);
+
+// The most urgent mark the session has passed that nobody has acknowledged yet, or null
+export const getDueAlarm = (session: ActiveSession | undefined, settings: AlarmSettings, now: number): number | null => {
+  if (!session || session.sessionType !== 'FIXED') return null;
+  const remaining = getRemainingSeconds(session, now);
+  const due = getAlarmMarks(settings, session.fixedMinutes)
+    .filter(mark => remaining <= mark * 60 && mark < (session.alarmAck ?? Infinity));
+  return due.length > 0 ? Math.min(...due) : null;
+};
+
+export const alarmLabel = (mark: number, t: Translate) => mark === 0 ? t('alarm.timeUp') : t('alarm.minutesLeft', { n: mark });
+
+// Each mark gets its own sound: warnings climb in pitch and beep count as time runs out, time up is a siren
+export const getAlarmTone = (mark: number, settings: AlarmSettings): AlarmTone => {
+  if (mark === 0) return { wave: 'sawtooth', frequency: 440, beeps: 4, siren: true };
+  const warnings = normalizeAlarmSettings(settings).warningMinutes;
+  const step = Math.max(warnings.indexOf(mark), 0);
+  return { wave: step % 2 === 0 ? 'sine' : 'square', frequency: 520 + step * 160, beeps: step + 2, siren: false };
+};
+
+// Notifications can't carry a custom sound, so the vibration pattern tells the alarms apart instead
+const vibrationFor = (tone: AlarmTone) =>
+  tone.siren ? [500, 200, 500, 200, 500] : Array.from({ length: tone.beeps }, () => [150, 100]).flat();
+
+export const playAlarmTone = (tone: AlarmTone) => {
+  try {
+    const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContext) return;
+
+    const ctx = new AudioContext();
+    const gain = ctx.createGain();
+    gain.connect(ctx.destination);
+    const now = ctx.currentTime;
+    const length = tone.siren ? 0.4 : 0.15;
+
+    for (let i = 0; i < tone.beeps; i++) {
+      const at = now + i * (length + 0.1);
+      const osc = ctx.createOscillator();
+      osc.type = tone.wave;
+      osc.connect(gain);
+      osc.frequency.setValueAtTime(tone.frequency, at);
+      if (tone.siren) {
+        osc.frequency.linearRampToValueAtTime(tone.frequency * 2, at + length / 2);
+        osc.frequency.linearRampToValueAtTime(tone.frequency, at + length);
+      }
+      gain.gain.setValueAtTime(tone.siren ? 0.1 : 0.2, at);
+      gain.gain.exponentialRampToValueAtTime(0.01, at + length);
+      osc.start(at);
+      osc.stop(at + length);
+    }
+
+    // Clean up context after sound plays to prevent reaching browser limit
+    setTimeout(() => {
+      ctx.close();
+    }, tone.beeps * (length + 0.1) * 1000 + 100);
+  } catch (e) {
+    console.error('Alarm sound failed', e);
+  }
+};
+
+// Every alarm still to come or still ringing. A paused session has no end time yet,
+// so only the alarms it already passed are kept
+export const buildAlarmSchedule = (
+  sessions: Record<string, ActiveSession>,
+  screens: Screen[],
+  settings: AlarmSettings,
+  now: number,
+  t: Translate
+): ScheduledAlarm[] =>
+  Object.values(sessions).flatMap(session => {
+    if (session.sessionType !== 'FIXED') return [];
+    const name = screens.find(s => s.id === session.screenId)?.name ?? t('alarm.station');
+    const remaining = getRemainingSeconds(session, now);
+    return getAlarmMarks(settings, session.fixedMinutes)
+      .filter(mark => mark < (session.alarmAck ?? Infinity))
+      .map(mark => ({ mark, at: now + (remaining - mark * 60) * 1000 }))
+      .filter(({ at }) => at <= now || !isSessionPaused(session))
+      .map(({ mark, at }) => ({
+        id: `${session.id}:${mark}`,
+        tag: `alarm-${session.screenId}`,
+        at,
+        title: mark === 0 ? t('alarm.notifyTimeUp') : t('alarm.notifyWarning', { n: mark }),
+        body: mark === 0 ? t('alarm.notifyTimeUpBody', { name }) : t('alarm.notifyWarningBody', { name, n: mark }),
+        vibrate: vibrationFor(getAlarmTone(mark, settings))
+      }));
+  });
+
+export const getNotifyPermission = (): NotifyPermission =>
+  'serviceWorker' in navigator && 'Notification' in window ? Notification.permission : 'unsupported';
+
+// Asks once; a browser that was already answered keeps its answer
+export const requestNotifyPermission = async (): Promise<NotifyPermission> => {
+  const permission = getNotifyPermission();
+  if (permission !== 'default') return permission;
+  try {
+    return await Notification.requestPermission();
+  } catch (err) {
+    console.error('Notification permission request failed', err);
+    return permission;
+  }
+};
+
+// Hands the full schedule to the service worker; it replaces whatever was scheduled before
+export const postAlarmSchedule = (alarms: ScheduledAlarm[], repeatSeconds: number) => {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.ready
+    .then(registration => registration.active?.postMessage({ type: 'SCHEDULE_ALARMS', alarms, repeatSeconds }))
+    .catch(err => console.error('Alarm schedule not delivered', err));
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecord } from '../types';
+import {
+  bucketStart,
+  comparePeriods,
+  discountBreakdown,
+  filterByPeriod,
+  occupancyHeatmap,
+  revenueByPeriod,
+  summarize
+} from './analytics';
+
+const T0 = new Date(2025, 0, 6, 14, 0).getTime(); // A Monday afternoon
+const MIN = 60 * 1000;
+const DAY = 24 * 60 * MIN;
+
+const record = (overrides: Partial<SessionRecord> = {}): SessionRecord => ({
+  id: 'r1',
+  screenId: '1',
+  screenName: 'STATION 01',
+  startTime: T0,
+  endTime: T0 + 60 * MIN,
+  durationSeconds: 3600,
+  totalCost: 50,
+  hourlyRate: 50,
+  ...overrides
+});
+
+describe('bucketStart', () => {
+  it('starts days at local midnight and months on the 1st', () => {
+    expect(bucketStart(T0, 'day')).toBe(new Date(2025, 0, 6).getTime());
+    expect(bucketStart(T0, 'month')).toBe(new Date(2025, 0, 1).getTime());
+  });
+
+  it('starts weeks on Saturday', () => {
+    expect(bucketStart(T0, 'week')).toBe(new Date(2025, 0, 4).getTime());
+    expect(bucketStart(new Date(2025, 0, 4, 23).getTime(), 'week')).toBe(new Date(2025, 0, 4).getTime());
+  });
+});
+
+describe('revenueByPeriod', () => {
+  it('fills the days without sessions so the chart has no gaps', () => {
+    const from = new Date(2025, 0, 5).getTime();
+    const buckets = revenueByPeriod(
+      [record({ items: [], itemsTotal: 15 }), record({ id: 'r2', startTime: T0 + 2 * DAY, endTime: T0 + 2 * DAY + 30 * MIN, durationSeconds: 1800 })],
+      'day',
+      from,
+      from + 4 * DAY
+    );
+    expect(buckets.map(b => b.revenue)).toEqual([0, 65, 0, 50]);
+    expect(buckets.map(b => b.sessions)).toEqual([0, 1, 0, 1]);
+    expect(buckets[3].hours).toBe(0.5);
+  });
+
+  it('leaves out sessions started outside the period', () => {
+    const from = new Date(2025, 0, 7).getTime();
+    expect(revenueByPeriod([record()], 'day', from, from + DAY)[0].sessions).toBe(0);
+    expect(filterByPeriod([record()], from, from + DAY)).toEqual([]);
+  });
+});
+
+describe('occupancyHeatmap', () => {
+  it('spreads a session over the hours it covered', () => {
+    const grid = occupancyHeatmap([record({ startTime: T0 + 30 * MIN, endTime: T0 + 90 * MIN })]);
+    expect(grid[1][14]).toBe(0.5);
+    expect(grid[1][15]).toBe(0.5);
+    expect(grid.flat().reduce((a, b) => a + b, 0)).toBe(1);
+  });
+
+  it('leaves paused time out', () => {
+    const grid = occupancyHeatmap([record({
+      endTime: T0 + 2 * 60 * MIN,
+      durationSeconds: 3600,
+      pausedSeconds: 3600,
+      pauses: [{ start: T0 + 30 * MIN, end: T0 + 90 * MIN }]
+    })]);
+    expect(grid[1][14]).toBe(0.5);
+    expect(grid[1][15]).toBe(0.5);
+  });
+
+  it('scales older records that only kept the paused total', () => {
+    const grid = occupancyHeatmap([record({ endTime: T0 + 2 * 60 * MIN, durationSeconds: 3600, pausedSeconds: 3600 })]);
+    expect(grid[1][14]).toBe(0.5);
+    expect(grid[1][15]).toBe(0.5);
+  });
+});
+
+describe('discountBreakdown', () => {
+  it('totals each rule, code and loyalty redemption, biggest first', () => {
+    const totals = discountBreakdown([
+      record({ discounts: [{ ruleId: 'happy', name: 'Happy hour', amount: 10 }] }),
+      record({ id: 'r2', discounts: [{ ruleId: 'happy', name: 'Happy hour', amount: 5 }], loyaltyDiscount: 20 }),
+      record({ id: 'r3', discounts: [{ ruleId: 'promo', name: 'Promo', code: 'EID', amount: 3 }] })
+    ]);
+    expect(totals).toEqual([
+      { name: 'Loyalty points', uses: 1, amount: 20 },
+      { name: 'Happy hour', uses: 2, amount: 15 },
+      { name: 'EID', uses: 1, amount: 3 }
+    ]);
+  });
+});
+
+describe('summarize', () => {
+  it('averages over the sessions and counts food & drinks in the ticket', () => {
+    const summary = summarize([record({ itemsTotal: 10 }), record({ id: 'r2', durationSeconds: 1800, totalCost: 25 })]);
+    expect(summary).toEqual({ revenue: 85, sessions: 2, hours: 1.5, avgSessionMinutes: 45, avgTicket: 42.5, discounts: 0 });
+  });
+
+  it('returns zeros for an empty period', () => {
+    expect(summarize([])).toEqual({ revenue: 0, sessions: 0, hours: 0, avgSessionMinutes: 0, avgTicket: 0, discounts: 0 });
+  });
+});
+
+describe('comparePeriods', () => {
+  const week = 7 * DAY;
+  const current = { from: T0 - 3 * DAY, to: T0 - 3 * DAY + week };
+  const previous = { from: current.from - week, to: current.from };
+
+  it('gives the relative change per metric', () => {
+    const { change } = comparePeriods(
+      [record(), record({ id: 'r2', totalCost: 50 }), record({ id: 'old', startTime: T0 - week, totalCost: 50 })],
+      current,
+      previous
+    );
+    expect(change.revenue).toBe(1);
+    expect(change.sessions).toBe(1);
+    expect(change.avgTicket).toBe(0);
+  });
+
+  it('has no change to report when the previous period was empty', () => {
+    const { change } = comparePeriods([record()], current, previous);
+    expect(change.revenue).toBeNull();
+    expect(change.discounts).toBeNull();
+  });
+});
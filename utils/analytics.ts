@@ -0,0 +1,161 @@
+import { SessionRecord, StationTotal } from '../types';
+import { getActiveMs } from './pricing';
+import { getDiscountTotal, getRecordTotal } from './records';
+import { buildZReport } from './reports';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface RevenueBucket {
+  start: number; // Local midnight the bucket begins at
+  revenue: number;
+  sessions: number;
+  hours: number;
+}
+
+export interface PeriodSummary {
+  revenue: number;
+  sessions: number;
+  hours: number;
+  avgSessionMinutes: number;
+  avgTicket: number;
+  discounts: number;
+}
+
+export interface DiscountTotal {
+  name: string; // Rule name or promo code
+  uses: number;
+  amount: number;
+}
+
+export interface PeriodComparison {
+  current: PeriodSummary;
+  previous: PeriodSummary;
+  // Relative change per metric, null when the previous period had nothing to compare with
+  change: Record<keyof PeriodSummary, number | null>;
+}
+
+const HOUR = 3600 * 1000;
+
+// Saturday, the start of the working week in Egypt
+export const WEEK_STARTS_ON = 6;
+
+export const bucketStart = (ts: number, granularity: Granularity, weekStartsOn = WEEK_STARTS_ON) => {
+  const d = new Date(ts);
+  if (granularity === 'month') return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+  const day = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  if (granularity === 'week') {
+    const offset = (day.getDay() - weekStartsOn + 7) % 7;
+    day.setDate(day.getDate() - offset);
+  }
+  return day.getTime();
+};
+
+const nextBucket = (start: number, granularity: Granularity) => {
+  const d = new Date(start);
+  if (granularity === 'month') return new Date(d.getFullYear(), d.getMonth() + 1, 1).getTime();
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + (granularity === 'week' ? 7 : 1)).getTime();
+};
+
+export const filterByPeriod = (records: SessionRecord[], from: number, to: number) =>
+  records.filter(r => r.startTime >= from && r.startTime < to);
+
+// Revenue per day/week/month between from and to, including empty buckets so charts have no gaps
+export const revenueByPeriod = (
+  records: SessionRecord[],
+  granularity: Granularity,
+  from: number,
+  to: number
+): RevenueBucket[] => {
+  const buckets = new Map<number, RevenueBucket>();
+  for (let start = bucketStart(from, granularity); start < to; start = nextBucket(start, granularity)) {
+    buckets.set(start, { start, revenue: 0, sessions: 0, hours: 0 });
+  }
+
+  filterByPeriod(records, from, to).forEach(r => {
+    const bucket = buckets.get(bucketStart(r.startTime, granularity));
+    if (!bucket) return;
+    bucket.revenue += getRecordTotal(r);
+    bucket.sessions += 1;
+    bucket.hours += r.durationSeconds / 3600;
+  });
+
+  return [...buckets.values()];
+};
+
+export const stationBreakdown = (records: SessionRecord[]): StationTotal[] =>
+  buildZReport(records).stations;
+
+// Occupied station-hours per [weekday][hour of day], spreading each session's played time over the hours it covered
+export const occupancyHeatmap = (records: SessionRecord[]): number[][] => {
+  const grid = Array.from({ length: 7 }, () => Array<number>(24).fill(0));
+
+  records.forEach(r => {
+    // Older records only kept the paused total, so their hours are scaled down by the share actually played
+    const span = r.endTime - r.startTime;
+    const playedShare = r.pauses || !r.pausedSeconds || span <= 0 ? 1 : Math.min(1, (r.durationSeconds * 1000) / span);
+    let cursor = r.startTime;
+    while (cursor < r.endTime) {
+      const d = new Date(cursor);
+      const hourEnd = new Date(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours() + 1).getTime();
+      const until = Math.min(hourEnd, r.endTime);
+      grid[d.getDay()][d.getHours()] += (getActiveMs(cursor, until, r.pauses ?? []) * playedShare) / HOUR;
+      cursor = until;
+    }
+  });
+
+  return grid;
+};
+
+// What each rule, code and loyalty redemption took off, biggest first
+export const discountBreakdown = (records: SessionRecord[]): DiscountTotal[] => {
+  const totals = new Map<string, DiscountTotal>();
+  const add = (name: string, amount: number) => {
+    const entry = totals.get(name) ?? { name, uses: 0, amount: 0 };
+    entry.uses += 1;
+    entry.amount += amount;
+    totals.set(name, entry);
+  };
+  records.forEach(r => {
+    r.discounts?.forEach(d => add(d.code ?? d.name, d.amount));
+    if (r.loyaltyDiscount) add('Loyalty points', r.loyaltyDiscount);
+  });
+  return [...totals.values()].sort((a, b) => b.amount - a.amount);
+};
+
+export const summarize = (records: SessionRecord[]): PeriodSummary => {
+  const revenue = records.reduce((acc, r) => acc + getRecordTotal(r), 0);
+  const seconds = records.reduce((acc, r) => acc + r.durationSeconds, 0);
+  const sessions = records.length;
+  return {
+    revenue,
+    sessions,
+    hours: seconds / 3600,
+    avgSessionMinutes: sessions ? seconds / 60 / sessions : 0,
+    avgTicket: sessions ? revenue / sessions : 0,
+    discounts: records.reduce((acc, r) => acc + getDiscountTotal(r), 0)
+  };
+};
+
+const relativeChange = (current: number, previous: number) =>
+  previous === 0 ? null : (current - previous) / previous;
+
+export const comparePeriods = (
+  records: SessionRecord[],
+  current: { from: number; to: number },
+  previous: { from: number; to: number }
+): PeriodComparison => {
+  const a = summarize(filterByPeriod(records, current.from, current.to));
+  const b = summarize(filterByPeriod(records, previous.from, previous.to));
+  return {
+    current: a,
+    previous: b,
+    change: {
+      revenue: relativeChange(a.revenue, b.revenue),
+      sessions: relativeChange(a.sessions, b.sessions),
+      hours: relativeChange(a.hours, b.hours),
+      avgSessionMinutes: relativeChange(a.avgSessionMinutes, b.avgSessionMinutes),
+      avgTicket: relativeChange(a.avgTicket, b.avgTicket),
+      discounts: relativeChange(a.discounts, b.discounts)
+    }
+  };
+};
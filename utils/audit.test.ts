@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ActiveSession, LoungeState } from '../types';
+import { LoungeAction, createInitialState, loungeReducer } from '../store/reducer';
+import { formatSummary, verifyAudit } from './audit';
+import { MessageKey, MessageParams, translate } from './i18n';
+
+const T0 = new Date(2025, 0, 6, 14, 0).getTime();
+const MIN = 60 * 1000;
+
+const session = (screenId: string, id: string): ActiveSession => ({
+  id,
+  screenId,
+  startTime: T0,
+  sessionType: 'FIXED',
+  fixedMinutes: 60,
+  ratePlanId: 'standard',
+  controllers: 2,
+  customerName: 'Omar',
+  pauses: [],
+  orders: [],
+  isTimeUp: false
+});
+
+const audited = (id: string, action: LoungeAction): LoungeAction => ({ type: 'AUDITED', id, at: T0, action });
+
+const run = (state: LoungeState, ...actions: LoungeAction[]) => actions.reduce(loungeReducer, state);
+
+const english = (key: MessageKey, params?: MessageParams) => translate('en', key, params);
+const arabic = (key: MessageKey, params?: MessageParams) => translate('ar', key, params);
+
+describe('audit trail', () => {
+  it('chains each entry onto the one before it', () => {
+    const state = run(
+      createInitialState(T0),
+      audited('a', { type: 'START_SESSION', session: session('1', 's1') }),
+      audited('b', { type: 'STOP_SESSION', screenId: '1', endTime: T0 + 60 * MIN })
+    );
+    expect(state.audit.map(e => e.seq)).toEqual([2, 1]);
+    expect(state.audit[0].prevHash).toBe(state.audit[1].hash);
+    expect(verifyAudit(state.audit)).toEqual({});
+  });
+
+  it('reports an edited entry', () => {
+    const state = run(createInitialState(T0), audited('a', { type: 'START_SESSION', session: session('1', 's1') }));
+    const edited = state.audit.map(e => ({ ...e, summary: 'nothing happened' }));
+    expect(verifyAudit(edited)).toEqual({ a: 'HASH' });
+  });
+
+  it('words summaries in the reader\'s language', () => {
+    const [entry] = run(createInitialState(T0), audited('a', { type: 'START_SESSION', session: session('1', 's1') })).audit;
+    expect(formatSummary(entry.summary, english)).toBe('STATION 01 · FIXED 60m · Omar');
+    expect(formatSummary(entry.summary, arabic)).toBe('STATION 01 · محددة 60د · Omar');
+  });
+
+  it('shows summaries written before translation as they are', () => {
+    expect(formatSummary('STATION 01 · OPEN', arabic)).toBe('STATION 01 · OPEN');
+  });
+});
@@ -0,0 +1,284 @@
+import { AuditEntry, AuditEvent, DiscountRule, LoungeState, MessagePart, RatePlan, Screen, SessionRecord, StaffStamp } from '../types';
+import type { LoungeAction, LoungeDispatch } from '../store/reducer';
+import { cyrb53 } from './hash';
+import { getDiscountTotal, getRecordTotal } from './records';
+import { MessageKey, Translate, formatMessage, message } from './i18n';
+import { isPrivileged } from './staff';
+
+export const GENESIS_HASH = '0';
+
+// Actions that leave a trace in the audit log
+const AUDITED_TYPES: LoungeAction['type'][] = [
+  'START_SESSION', 'STOP_SESSION', 'DELETE_RECORD', 'RESTORE_RECORDS', 'MERGE_RECORDS', 'CLEAR_HISTORY',
+  'SET_RATE_PLANS', 'RENAME_SCREEN', 'IMPORT_BACKUP', 'CLOSE_SHIFT', 'POST_LEDGER_ENTRY', 'SET_DISCOUNT_RULES',
+  'SET_SCREENS'
+];
+
+export const AUDIT_EVENTS: AuditEvent[] = [
+  'SESSION_START', 'SESSION_STOP', 'RECORD_DELETE', 'RECORD_RESTORE', 'RECORD_MERGE', 'HISTORY_RESET',
+  'RATES_CHANGE', 'SCREEN_RENAME', 'BACKUP_IMPORT', 'SHIFT_CLOSE', 'LEDGER_ENTRY', 'DISCOUNTS_CHANGE',
+  'STATIONS_CHANGE'
+];
+
+// Events whose removed records can be put back into the log
+export const RESTORABLE_EVENTS: AuditEvent[] = ['RECORD_DELETE', 'HISTORY_RESET'];
+
+type AuditDetails = Pick<AuditEntry, 'event' | 'summary' | 'amount' | 'screenId' | 'recordIds' | 'records'>;
+
+const sumTotals = (records: SessionRecord[]) =>
+  Math.round(records.reduce((acc, r) => acc + getRecordTotal(r), 0) * 100) / 100;
+
+const durationOf = (seconds: number) =>
+  message('format.duration', { h: Math.floor(seconds / 3600), m: Math.floor((seconds % 3600) / 60) });
+
+const describeRecord = (r: SessionRecord): MessagePart[] => [
+  r.screenName,
+  ...(r.customerName ? [r.customerName] : []),
+  durationOf(r.durationSeconds),
+  getRecordTotal(r).toFixed(2),
+  ...(r.discounts?.length ? [`-${getDiscountTotal(r).toFixed(2)} ${r.discounts.map(d => d.code ?? d.name).join('+')}`] : [])
+];
+
+// A list of changes, or a single "no change" when there were none
+const orNoChange = (changes: MessagePart[]) => changes.length ? changes : [message('auditMsg.noChange')];
+
+const describeRateChanges = (prev: RatePlan[], next: RatePlan[]) => {
+  const before = new Map(prev.map(p => [p.id, p]));
+  const changes = next.flatMap((plan): MessagePart[] => {
+    const old = before.get(plan.id);
+    if (!old) return [message('auditMsg.added', { name: plan.name })];
+    if (JSON.stringify(old) === JSON.stringify(plan)) return [];
+    const rates = (Object.keys(plan.rates) as unknown as (keyof RatePlan['rates'])[])
+      .filter(count => old.rates[count] !== plan.rates[count])
+      .map(count => message('auditMsg.rate', { name: plan.name, pads: count, from: old.rates[count], to: plan.rates[count] }));
+    return rates.length ? rates : [message('auditMsg.edited', { name: plan.name })];
+  });
+  const removed = prev.filter(p => !next.some(n => n.id === p.id)).map(p => message('auditMsg.removed', { name: p.name }));
+  return orNoChange([...changes, ...removed]);
+};
+
+const describeDiscountChanges = (prev: DiscountRule[], next: DiscountRule[]) => {
+  const before = new Map(prev.map(r => [r.id, r]));
+  const label = (r: DiscountRule) => message(`auditMsg.discount.${r.kind}` as MessageKey, { name: r.code ?? r.name, value: r.value });
+  const changes = next.flatMap(rule => {
+    const old = before.get(rule.id);
+    if (!old) return [message('auditMsg.added', { name: label(rule) })];
+    if (JSON.stringify(old) === JSON.stringify(rule)) return [];
+    return [old.active !== rule.active
+      ? message(rule.active ? 'auditMsg.turnedOn' : 'auditMsg.turnedOff', { name: label(rule) })
+      : message('auditMsg.changed', { from: label(old), to: label(rule) })];
+  });
+  const removed = prev.filter(r => !next.some(n => n.id === r.id)).map(r => message('auditMsg.removed', { name: label(r) }));
+  return orNoChange([...changes, ...removed]);
+};
+
+const describeStationChanges = (prev: Screen[], next: Screen[]) => {
+  const before = new Map(prev.map(s => [s.id, s]));
+  const changes = next.flatMap(screen => {
+    const old = before.get(screen.id);
+    if (!old) return [message('auditMsg.added', { name: screen.name })];
+    if (JSON.stringify(old) === JSON.stringify(screen)) return [];
+    if (!old.maintenance !== !screen.maintenance) {
+      if (!screen.maintenance) return [message('auditMsg.backInService', { name: screen.name })];
+      return [screen.maintenance.note
+        ? message('auditMsg.outOfServiceNote', { name: screen.name, note: screen.maintenance.note })
+        : message('auditMsg.outOfService', { name: screen.name })];
+    }
+    return [old.name !== screen.name
+      ? message('auditMsg.renamed', { from: old.name, to: screen.name })
+      : message('auditMsg.edited', { name: screen.name })];
+  });
+  const removed = prev.filter(s => !next.some(n => n.id === s.id)).map(s => message('auditMsg.removed', { name: s.name }));
+  const reordered = changes.length === 0 && removed.length === 0 && prev.length === next.length
+    && prev.some((s, i) => s.id !== next[i].id);
+  return orNoChange([...changes, ...removed, ...(reordered ? [message('auditMsg.reordered')] : [])]);
+};
+
+// What an action did, worked out from the state before and after it; null when it changed nothing
+const describe = (prev: LoungeState, next: LoungeState, action: LoungeAction): AuditDetails | null => {
+  switch (action.type) {
+    case 'START_SESSION': {
+      const session = next.sessions[action.session.screenId];
+      if (session?.id !== action.session.id) return null;
+      const screen = next.screens.find(s => s.id === session.screenId);
+      return {
+        event: 'SESSION_START',
+        summary: [
+          screen?.name ?? session.screenId,
+          session.sessionType === 'FIXED' ? message('auditMsg.fixed', { m: session.fixedMinutes }) : message('auditMsg.open'),
+          ...(session.customerName ? [session.customerName] : [])
+        ],
+        screenId: session.screenId,
+        recordIds: [session.id]
+      };
+    }
+    case 'STOP_SESSION': {
+      const record = next.history.find(r => !prev.history.includes(r));
+      if (!record) return null;
+      return {
+        event: 'SESSION_STOP',
+        summary: describeRecord(record),
+        amount: getRecordTotal(record),
+        screenId: action.screenId,
+        recordIds: [record.id]
+      };
+    }
+    case 'DELETE_RECORD': {
+      const record = prev.history.find(r => r.id === action.recordId);
+      if (!record) return null;
+      return { event: 'RECORD_DELETE', summary: describeRecord(record), amount: getRecordTotal(record), recordIds: [record.id], records: [record] };
+    }
+    case 'RESTORE_RECORDS': {
+      const restored = next.history.filter(r => !prev.history.includes(r));
+      if (restored.length === 0) return null;
+      return {
+        event: 'RECORD_RESTORE',
+        summary: restored.length === 1 ? describeRecord(restored[0]) : [message('auditMsg.records', { n: restored.length })],
+        amount: sumTotals(restored),
+        recordIds: restored.map(r => r.id)
+      };
+    }
+    case 'MERGE_RECORDS': {
+      const originals = prev.history.filter(r => action.recordIds.includes(r.id));
+      if (next.history === prev.history || originals.length !== 2) return null;
+      return {
+        event: 'RECORD_MERGE',
+        summary: [originals.map(r => r.screenName).join(' + ')],
+        amount: sumTotals(originals),
+        recordIds: originals.map(r => r.id),
+        records: originals
+      };
+    }
+    case 'CLEAR_HISTORY':
+      if (prev.history.length === 0) return null;
+      return {
+        event: 'HISTORY_RESET',
+        summary: [message('auditMsg.records', { n: prev.history.length })],
+        amount: sumTotals(prev.history),
+        recordIds: prev.history.map(r => r.id),
+        records: prev.history
+      };
+    case 'SET_RATE_PLANS':
+      return { event: 'RATES_CHANGE', summary: describeRateChanges(prev.ratePlans, next.ratePlans) };
+    case 'SET_DISCOUNT_RULES':
+      return { event: 'DISCOUNTS_CHANGE', summary: describeDiscountChanges(prev.discountRules, next.discountRules) };
+    case 'SET_SCREENS':
+      return { event: 'STATIONS_CHANGE', summary: describeStationChanges(prev.screens, next.screens) };
+    case 'RENAME_SCREEN': {
+      const before = prev.screens.find(s => s.id === action.screenId);
+      if (!before || before.name === action.name) return null;
+      return { event: 'SCREEN_RENAME', summary: [message('auditMsg.renamed', { from: before.name, to: action.name })], screenId: action.screenId };
+    }
+    case 'IMPORT_BACKUP':
+      return {
+        event: 'BACKUP_IMPORT',
+        summary: [
+          message(action.mode === 'merge' ? 'auditMsg.importMerge' : 'auditMsg.importReplace'),
+          message('auditMsg.recordsChange', { from: prev.history.length, to: next.history.length }),
+          message('auditMsg.shifts', { n: next.closedShifts.length })
+        ]
+      };
+    case 'CLOSE_SHIFT': {
+      const shift = next.closedShifts[0];
+      if (!shift || shift === prev.closedShifts[0]) return null;
+      return {
+        event: 'SHIFT_CLOSE',
+        summary: [
+          shift.closedBy || '—',
+          message('auditMsg.sessions', { n: shift.report.sessionCount }),
+          message('auditMsg.cash', { amount: shift.report.cashExpected.toFixed(2) })
+        ],
+        amount: shift.report.totalRevenue
+      };
+    }
+    case 'POST_LEDGER_ENTRY': {
+      const { entry } = action;
+      const customer = next.customers.find(c => c.id === entry.customerId);
+      return {
+        event: 'LEDGER_ENTRY',
+        summary: [
+          customer?.name ?? entry.customerId,
+          message(`customers.entry.${entry.type}` as MessageKey),
+          message('auditMsg.wallet', { amount: entry.wallet }),
+          message('auditMsg.tab', { amount: entry.tab }),
+          ...(entry.note ? [entry.note] : [])
+        ],
+        amount: entry.cash
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+// Everything but the hash itself, in a fixed order
+const hashInput = (entry: Omit<AuditEntry, 'hash'>) =>
+  JSON.stringify([
+    entry.id, entry.seq, entry.at, entry.by ?? null, entry.event, entry.summary, entry.amount ?? null,
+    entry.screenId ?? null, entry.recordIds ?? null, entry.records ?? null, entry.prevHash
+  ]);
+
+export const hashEntry = (entry: Omit<AuditEntry, 'hash'>) => cyrb53(hashInput(entry));
+
+// Numbers an entry to follow `head` (none for the first entry) and seals it with its hash
+export const chainAuditEntry = (entry: Omit<AuditEntry, 'seq' | 'prevHash' | 'hash'>, head?: AuditEntry): AuditEntry => {
+  const linked: Omit<AuditEntry, 'hash'> = {
+    ...entry,
+    seq: head ? head.seq + 1 : 1,
+    prevHash: head ? head.hash : GENESIS_HASH
+  };
+  return { ...linked, hash: hashEntry(linked) };
+};
+
+export const buildAuditEntry = (
+  prev: LoungeState,
+  next: LoungeState,
+  action: LoungeAction,
+  meta: { id: string; at: number; by?: StaffStamp }
+): AuditEntry | null => {
+  const details = describe(prev, next, action);
+  if (!details) return null;
+  return chainAuditEntry({ id: meta.id, at: meta.at, by: meta.by, ...details }, prev.audit[0]);
+};
+
+// The summary in the reader's language; entries from before summaries were translated keep their English text
+export const formatSummary = (summary: AuditEntry['summary'], t: Translate) =>
+  typeof summary === 'string' ? summary : summary.map(part => formatMessage(t, part)).join(' · ');
+
+export type AuditProblem = 'HASH' | 'LINK' | 'GAP';
+
+// Walks the chain from the first entry; any edited, removed or reordered entry breaks it from there on
+export const verifyAudit = (audit: AuditEntry[]): Record<string, AuditProblem> => {
+  const problems: Record<string, AuditProblem> = {};
+  const chain = [...audit].sort((a, b) => a.seq - b.seq);
+  chain.forEach((entry, i) => {
+    const previous = chain[i - 1];
+    const { hash, ...rest } = entry;
+    if (hashEntry(rest) !== hash) problems[entry.id] = 'HASH';
+    else if (entry.prevHash !== (previous ? previous.hash : GENESIS_HASH)) problems[entry.id] = 'LINK';
+    else if (entry.seq !== (previous ? previous.seq + 1 : 1)) problems[entry.id] = 'GAP';
+  });
+  return problems;
+};
+
+// Records of an entry that are no longer anywhere in the log
+export const getRestorableRecords = (entry: AuditEntry, state: Pick<LoungeState, 'history' | 'closedShifts'>) => {
+  if (!RESTORABLE_EVENTS.includes(entry.event) || !entry.records) return [];
+  const present = new Set([...state.history.map(r => r.id), ...state.closedShifts.flatMap(s => s.sessions.map(r => r.id))]);
+  return entry.records.filter(r => !present.has(r.id));
+};
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+// The app only ever sends these wrapped in AUDITED; the sync server refuses them bare.
+// Privileged actions outside the log are wrapped too, so the server can tell who sent them.
+export const requiresAudit = (type: LoungeAction['type']) => AUDITED_TYPES.includes(type) || isPrivileged(type);
+
+// Wraps auditable actions with who did them and when, so every tab appends the same entry
+export const withAudit = (dispatch: LoungeDispatch, by?: StaffStamp): LoungeDispatch => (action) => {
+  if (!requiresAudit(action.type)) {
+    dispatch(action);
+    return;
+  }
+  dispatch({ type: 'AUDITED', id: newId(), at: Date.now(), by, action });
+};
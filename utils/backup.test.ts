@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { migrateState } from '../store/migrations';
+import { createInitialState } from '../store/reducer';
+import { BACKUP_APP_ID, validateBackup } from './backup';
+import { MessageKey, MessageParams, formatMessage, translate } from './i18n';
+
+const T0 = new Date(2025, 0, 6, 14, 0).getTime();
+
+const english = (key: MessageKey, params?: MessageParams) => translate('en', key, params);
+
+const backupOf = (state: object) => ({ app: BACKUP_APP_ID, exportedAt: T0, state: { ...createInitialState(T0), ...state } });
+
+describe('validateBackup', () => {
+  it('refuses a file that is not a lounge backup', () => {
+    expect(validateBackup({ app: 'other', state: {} }, migrateState).state).toBeNull();
+    expect(validateBackup(null, migrateState).state).toBeNull();
+    expect(validateBackup({ app: BACKUP_APP_ID, state: 'x' }, migrateState).state).toBeNull();
+  });
+
+  it('accepts a clean backup without complaints', () => {
+    const result = validateBackup(backupOf({}), migrateState);
+    expect(result.errors).toEqual([]);
+    expect(result.state?.ratePlans).toEqual(createInitialState(T0).ratePlans);
+  });
+
+  it('drops malformed rate plans, products and customers and reports each one', () => {
+    const plan = createInitialState(T0).ratePlans[0];
+    const result = validateBackup(backupOf({
+      ratePlans: [plan, { id: 'broken', name: 'NO RATES', rules: [] }, { ...plan, id: 'text', rates: { 1: '50' } }],
+      products: [{ id: 'p1', name: 'Tea', price: 10, stock: 5 }, { id: 'p2', name: 'Cola', price: 'free', stock: 1 }],
+      customers: [
+        { id: 'c1', name: 'Omar', phone: '', notes: '', points: 0, createdAt: T0, wallet: 0, tab: 0, creditLimit: 0 },
+        { id: 'c2', name: 'Sara', points: 0, createdAt: T0, wallet: null, tab: 0, creditLimit: 0 }
+      ]
+    }), migrateState);
+
+    expect(result.state?.ratePlans.map(p => p.id)).toEqual([plan.id]);
+    expect(result.state?.products.map(p => p.id)).toEqual(['p1']);
+    expect(result.state?.customers.map(c => c.id)).toEqual(['c1']);
+    expect(result.errors.map(error => formatMessage(english, error))).toEqual([
+      'Rate plan #2: malformed row (broken)',
+      'Rate plan #3: malformed row (text)',
+      'Product #2: malformed row (p2)',
+      'Customer #2: malformed row (c2)'
+    ]);
+  });
+
+  it('fills in contact fields older customers were saved without', () => {
+    const result = validateBackup(backupOf({
+      customers: [{ id: 'c1', name: 'Omar', points: 3, createdAt: T0, wallet: 0, tab: 0, creditLimit: 0 }]
+    }), migrateState);
+    expect(result.state?.customers[0]).toMatchObject({ phone: '', notes: '' });
+  });
+});
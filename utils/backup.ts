@@ -0,0 +1,258 @@
+import { ActiveSession, ClosedShift, Customer, LoungeState, Product, RatePlan, Screen, SessionRecord, StoredMessage } from '../types';
+import { getDiscountTotal, getGrossCost, getRecordTotal } from './records';
+import { normalizeScreen } from './stations';
+import { isNumber, isObject, isString } from './guards';
+import { message } from './i18n';
+
+export const BACKUP_APP_ID = 'ps-lounge';
+
+export interface BackupFile {
+  app: typeof BACKUP_APP_ID;
+  exportedAt: number;
+  state: LoungeState;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupValidation {
+  state: LoungeState | null;
+  errors: StoredMessage[];
+}
+
+// --- Export ---
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isoLocal = (ts: number) => {
+  const d = new Date(ts);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export const recordsToCSV = (records: SessionRecord[]) => {
+  const header = [
+    'id', 'terminal', 'customer', 'type', 'start', 'end',
+    'duration_min', 'paused_min', 'rate_plan', 'play_gross', 'discount', 'play_total', 'fnb_total', 'total',
+    'payment', 'paid', 'outstanding', 'shares', 'started_by', 'stopped_by'
+  ];
+  const rows = records.map(r => [
+    r.id,
+    r.screenName,
+    r.customerName ?? '',
+    r.sessionType ?? 'OPEN',
+    isoLocal(r.startTime),
+    isoLocal(r.endTime),
+    (r.durationSeconds / 60).toFixed(1),
+    ((r.pausedSeconds ?? 0) / 60).toFixed(1),
+    r.ratePlanName ?? r.hourlyRate,
+    getGrossCost(r).toFixed(2),
+    getDiscountTotal(r).toFixed(2),
+    r.totalCost.toFixed(2),
+    (r.itemsTotal ?? 0).toFixed(2),
+    getRecordTotal(r).toFixed(2),
+    r.paymentMethod ?? 'CASH',
+    (r.amountPaid ?? getRecordTotal(r)).toFixed(2),
+    (r.outstanding ?? 0).toFixed(2),
+    (r.shares ?? []).map(share => `${share.name} ${share.amount.toFixed(2)}`).join(' | '),
+    r.startedBy?.name ?? '',
+    r.stoppedBy?.name ?? ''
+  ]);
+  // BOM so Excel opens Arabic names as UTF-8
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+export const buildBackup = (state: LoungeState): BackupFile => ({
+  app: BACKUP_APP_ID,
+  exportedAt: Date.now(),
+  state
+});
+
+export const downloadFile = (filename: string, content: BlobPart, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Import ---
+
+export const isScreen = (v: unknown): v is Screen =>
+  isObject(v) && isString(v.id) && isString(v.name);
+
+export const isSessionRecord = (v: unknown): v is SessionRecord =>
+  isObject(v) &&
+  isString(v.id) &&
+  (isString(v.screenId) || isNumber(v.screenId)) &&
+  isString(v.screenName) &&
+  isNumber(v.startTime) &&
+  isNumber(v.endTime) &&
+  isNumber(v.durationSeconds) &&
+  isNumber(v.totalCost) &&
+  isNumber(v.hourlyRate);
+
+export const isRatePlan = (v: unknown): v is RatePlan =>
+  isObject(v) &&
+  isString(v.id) &&
+  isString(v.name) &&
+  isObject(v.rates) &&
+  Object.values(v.rates).every(isNumber) &&
+  Array.isArray(v.rules);
+
+export const isProduct = (v: unknown): v is Product =>
+  isObject(v) && isString(v.id) && isString(v.name) && isNumber(v.price) && isNumber(v.stock);
+
+// Balances feed the ledger and checkout, so they must be numbers; contact fields may be missing on older rows
+export const isCustomer = (v: unknown): v is Customer =>
+  isObject(v) &&
+  isString(v.id) &&
+  isString(v.name) &&
+  isNumber(v.points) &&
+  isNumber(v.wallet) &&
+  isNumber(v.tab) &&
+  isNumber(v.creditLimit);
+
+const isPause = (v: unknown) => isObject(v) && isNumber(v.start) && (v.end === null || isNumber(v.end));
+
+const isOrderItem = (v: unknown) =>
+  isObject(v) && isString(v.productId) && isString(v.name) && isNumber(v.unitPrice) && isNumber(v.quantity);
+
+// Pauses and orders are read on every tick, so a session without them would break every screen showing it
+export const isActiveSession = (v: unknown): v is ActiveSession =>
+  isObject(v) &&
+  isString(v.id) &&
+  isString(v.screenId) &&
+  isNumber(v.startTime) &&
+  (v.sessionType === 'OPEN' || v.sessionType === 'FIXED') &&
+  isNumber(v.fixedMinutes) &&
+  isString(v.ratePlanId) &&
+  (v.controllers === 1 || v.controllers === 2 || v.controllers === 4) &&
+  isString(v.customerName) &&
+  Array.isArray(v.pauses) && v.pauses.every(isPause) &&
+  Array.isArray(v.orders) && v.orders.every(isOrderItem) &&
+  (v.plan === undefined || isRatePlan(v.plan)) &&
+  (v.legs === undefined || Array.isArray(v.legs)) &&
+  (v.extensions === undefined || Array.isArray(v.extensions)) &&
+  (v.controllerLog === undefined || Array.isArray(v.controllerLog));
+
+// Keeps the valid rows of a list and describes the rejected ones
+const validateList = <T>(
+  list: unknown,
+  label: StoredMessage,
+  check: (v: unknown) => v is T,
+  errors: StoredMessage[]
+): T[] => {
+  if (list === undefined) return [];
+  if (!Array.isArray(list)) {
+    errors.push(message('backup.notAList', { list: label }));
+    return [];
+  }
+  return list.filter((item, i) => {
+    if (check(item)) return true;
+    errors.push(isObject(item) && item.id
+      ? message('backup.malformedRowId', { list: label, n: i + 1, id: String(item.id) })
+      : message('backup.malformedRow', { list: label, n: i + 1 }));
+    return false;
+  });
+};
+
+export const validateBackup = (raw: unknown, migrate: (state: unknown) => LoungeState): BackupValidation => {
+  const errors: StoredMessage[] = [];
+  const saved = isObject(raw) && raw.app === BACKUP_APP_ID ? raw.state : undefined;
+  if (!isObject(saved)) {
+    return { state: null, errors: [message('backup.notBackup')] };
+  }
+
+  let state: LoungeState;
+  try {
+    state = migrate(saved);
+  } catch (e) {
+    console.error('Backup migration failed', e);
+    return { state: null, errors: [message('backup.unsupportedVersion', { version: String(saved.version ?? '?') })] };
+  }
+
+  const screens = validateList(saved.screens, message('backup.list.screen'), isScreen, errors).map(normalizeScreen);
+  const history = validateList(saved.history, message('backup.list.session'), isSessionRecord, errors);
+  // Checked after migrating, which fills in the fields older versions didn't have
+  const ratePlans = validateList(state.ratePlans, message('backup.list.ratePlan'), isRatePlan, errors);
+  const products = validateList(state.products, message('backup.list.product'), isProduct, errors);
+  const customers = validateList(state.customers, message('backup.list.customer'), isCustomer, errors)
+    .map(c => ({ ...c, phone: c.phone ?? '', notes: c.notes ?? '' }));
+  const closedShifts: ClosedShift[] = validateList(
+    saved.closedShifts,
+    message('backup.list.shift'),
+    (v: unknown): v is ClosedShift => isObject(v) && isString(v.id) && isNumber(v.closedAt) && Array.isArray(v.sessions),
+    errors
+  ).map(shift => ({
+    ...shift,
+    sessions: validateList(shift.sessions, message('backup.list.shiftSession', { id: shift.id }), isSessionRecord, errors)
+  }));
+
+  // Active sessions only make sense on a station that is part of the backup
+  const screenIds = new Set(screens.map(s => s.id));
+  const sessions = Object.fromEntries(
+    Object.entries(state.sessions ?? {}).filter(([screenId, session]) => {
+      const ok = screenIds.has(screenId) && isActiveSession(session);
+      if (!ok) errors.push(message('backup.badActiveSession', { station: screenId }));
+      return ok;
+    })
+  );
+
+  return {
+    state: { ...state, screens, history, ratePlans, products, customers, closedShifts, sessions },
+    errors
+  };
+};
+
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[], skip = new Set<string>()) => {
+  const ids = new Set([...current.map(item => item.id), ...skip]);
+  return [...current, ...incoming.filter(item => !ids.has(item.id))];
+};
+
+// Combines a validated backup with the current state without creating duplicate ids
+export const mergeStates = (current: LoungeState, incoming: LoungeState): LoungeState => {
+  // A record must exist once, whether it sits in the live log or inside an archived shift
+  const knownRecordIds = new Set([
+    ...current.history.map(r => r.id),
+    ...current.closedShifts.flatMap(s => s.sessions.map(r => r.id))
+  ]);
+
+  const closedShifts = mergeById(current.closedShifts, incoming.closedShifts.map(shift => ({
+    ...shift,
+    sessions: shift.sessions.filter(r => !knownRecordIds.has(r.id))
+  }))).sort((a, b) => b.closedAt - a.closedAt);
+
+  const archivedIds = new Set(closedShifts.flatMap(s => s.sessions.map(r => r.id)));
+
+  // Stations that are busy here keep their session; idle ones pick up the imported one
+  const sessions = { ...current.sessions };
+  Object.entries(incoming.sessions).forEach(([screenId, session]) => {
+    if (!sessions[screenId] && !knownRecordIds.has(session.id)) sessions[screenId] = session;
+  });
+
+  // Balances are the sum of ledger entries, so only customers new to this device bring their entries along
+  const knownCustomerIds = new Set(current.customers.map(c => c.id));
+  const incomingCustomers = incoming.customers ?? [];
+  const newCustomerIds = new Set(incomingCustomers.filter(c => !knownCustomerIds.has(c.id)).map(c => c.id));
+  const ledger = mergeById(current.ledger, (incoming.ledger ?? []).filter(e => newCustomerIds.has(e.customerId)))
+    .sort((a, b) => b.at - a.at);
+
+  return {
+    ...current,
+    screens: mergeById(current.screens, incoming.screens),
+    sessions,
+    history: mergeById(current.history, incoming.history, archivedIds).sort((a, b) => b.endTime - a.endTime),
+    ratePlans: mergeById(current.ratePlans, incoming.ratePlans),
+    products: mergeById(current.products, incoming.products),
+    customers: mergeById(current.customers, incomingCustomers),
+    discountRules: mergeById(current.discountRules, incoming.discountRules ?? []),
+    ledger,
+    reservations: mergeById(current.reservations, incoming.reservations ?? []),
+    staff: mergeById(current.staff, incoming.staff ?? []),
+    closedShifts
+  };
+};
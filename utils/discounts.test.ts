@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DiscountRule, SessionRecord } from '../types';
+import { MANUAL_DISCOUNT_ID, applyDiscounts, checkRule, countRuleUses, createDiscountRule } from './discounts';
+
+const T0 = new Date(2025, 0, 6, 14, 0).getTime(); // A Monday afternoon
+const MIN = 60 * 1000;
+
+// Two hours played for 100
+const record = (overrides: Partial<SessionRecord> = {}): SessionRecord => ({
+  id: 'r1',
+  screenId: '1',
+  screenName: 'STATION 01',
+  startTime: T0,
+  endTime: T0 + 120 * MIN,
+  durationSeconds: 7200,
+  totalCost: 100,
+  hourlyRate: 50,
+  itemsTotal: 30,
+  ...overrides
+});
+
+const rule = (id: string, overrides: Partial<DiscountRule> = {}): DiscountRule => ({ ...createDiscountRule(id), name: id, ...overrides });
+
+describe('checkRule', () => {
+  it('says why a rule can\'t be used', () => {
+    expect(checkRule(undefined, record(), T0)).toBe('UNKNOWN');
+    expect(checkRule(rule('a', { active: false }), record(), T0)).toBe('INACTIVE');
+    expect(checkRule(rule('a', { validFrom: T0 + MIN }), record(), T0)).toBe('NOT_YET');
+    expect(checkRule(rule('a', { validUntil: T0 - MIN }), record(), T0)).toBe('EXPIRED');
+    expect(checkRule(rule('a', { maxUses: 3, uses: 3 }), record(), T0)).toBe('USED_UP');
+    expect(checkRule(rule('a', { minMinutes: 180 }), record(), T0)).toBe('CONDITIONS');
+    expect(checkRule(rule('a'), record(), T0)).toBeNull();
+  });
+
+  it('checks the time window against when the visit started', () => {
+    const happyHour = rule('happy', { from: '13:00', to: '15:00' });
+    expect(checkRule(happyHour, record(), T0 + 120 * MIN)).toBeNull();
+    expect(checkRule(happyHour, record({ startTime: T0 + 90 * MIN }), T0)).toBe('CONDITIONS');
+  });
+});
+
+describe('applyDiscounts', () => {
+  it('stacks automatic rules, then the promo code, then the manual discount, each on the full playtime', () => {
+    const rules = [rule('auto', { value: 10 }), rule('promo', { code: 'EID', kind: 'FIXED', value: 15 })];
+    const result = applyDiscounts(record(), rules, { code: ' eid ', manual: { kind: 'PERCENT', value: 20 }, at: T0 });
+    expect(result.discounts).toEqual([
+      { ruleId: 'auto', name: 'auto', code: undefined, amount: 10 },
+      { ruleId: 'promo', name: 'promo', code: 'EID', amount: 15 },
+      { ruleId: MANUAL_DISCOUNT_ID, name: 'Manual', amount: 20 }
+    ]);
+    expect(result.grossCost).toBe(100);
+    expect(result.totalCost).toBe(55);
+    expect(result.itemsTotal).toBe(30);
+  });
+
+  it('stops at zero and leaves out what no longer fits', () => {
+    const rules = [rule('half', { value: 50 }), rule('big', { kind: 'FIXED', value: 80 }), rule('more', { kind: 'FIXED', value: 5 })];
+    const result = applyDiscounts(record(), rules, { at: T0 });
+    expect(result.discounts?.map(d => [d.ruleId, d.amount])).toEqual([['half', 50], ['big', 50]]);
+    expect(result.totalCost).toBe(0);
+  });
+
+  it('values free minutes at the visit\'s own rate', () => {
+    const result = applyDiscounts(record(), [rule('free', { kind: 'FREE_MINUTES', value: 30 })], { at: T0 });
+    expect(result.discounts?.[0].amount).toBe(25);
+  });
+
+  it('only uses a coded rule when its code is given, and only if it applies', () => {
+    const promo = rule('promo', { code: 'EID', value: 10 });
+    expect(applyDiscounts(record(), [promo], { at: T0 }).discounts).toBeUndefined();
+    expect(applyDiscounts(record(), [{ ...promo, maxUses: 1, uses: 1 }], { code: 'EID', at: T0 }).discounts).toBeUndefined();
+  });
+
+  it('returns the record untouched when nothing applies', () => {
+    const untouched = record();
+    expect(applyDiscounts(untouched, [rule('off', { active: false })], { manual: { kind: 'FIXED', value: 0 }, at: T0 })).toBe(untouched);
+  });
+});
+
+describe('countRuleUses', () => {
+  it('counts one use per rule applied, and none for a manual discount', () => {
+    const rules = [rule('a'), rule('b')];
+    const counted = countRuleUses(rules, [{ ruleId: 'a', name: 'a', amount: 5 }, { ruleId: MANUAL_DISCOUNT_ID, name: 'Manual', amount: 5 }]);
+    expect(counted.map(r => r.uses)).toEqual([1, 0]);
+    expect(countRuleUses(rules, [])).toBe(rules);
+  });
+});
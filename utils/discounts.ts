@@ -0,0 +1,92 @@
+import { AppliedDiscount, DiscountKind, DiscountRule, SessionRecord } from '../types';
+import { ruleMatches } from './pricing';
+import { freeMinutesValue } from './loyalty';
+
+export const MANUAL_DISCOUNT_ID = 'MANUAL';
+
+export const DISCOUNT_KINDS: DiscountKind[] = ['PERCENT', 'FIXED', 'FREE_MINUTES'];
+
+// A one-off discount given at checkout
+export interface ManualDiscount {
+  kind: Exclude<DiscountKind, 'FREE_MINUTES'>;
+  value: number;
+}
+
+export type RuleProblem = 'UNKNOWN' | 'INACTIVE' | 'NOT_YET' | 'EXPIRED' | 'USED_UP' | 'CONDITIONS';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+export const createDiscountRule = (id: string): DiscountRule => ({
+  id,
+  name: 'DISCOUNT',
+  kind: 'PERCENT',
+  value: 10,
+  minMinutes: 0,
+  days: [],
+  from: '00:00',
+  to: '00:00',
+  uses: 0,
+  active: true
+});
+
+export const findPromo = (rules: DiscountRule[], code: string) => {
+  const wanted = normalizeCode(code);
+  return wanted ? rules.find(r => r.code && normalizeCode(r.code) === wanted) : undefined;
+};
+
+// Why a rule can't be used on this visit at `at`, or null when it can.
+// Time windows are checked against when the session started, so a happy hour covers the whole visit
+export const checkRule = (rule: DiscountRule | undefined, record: SessionRecord, at: number): RuleProblem | null => {
+  if (!rule) return 'UNKNOWN';
+  if (!rule.active) return 'INACTIVE';
+  if (rule.validFrom && at < rule.validFrom) return 'NOT_YET';
+  if (rule.validUntil && at > rule.validUntil) return 'EXPIRED';
+  if (rule.maxUses && rule.uses >= rule.maxUses) return 'USED_UP';
+  if (record.durationSeconds < rule.minMinutes * 60 || !ruleMatches(rule, record.startTime)) return 'CONDITIONS';
+  return null;
+};
+
+const discountValue = (kind: DiscountKind, value: number, record: SessionRecord) => {
+  switch (kind) {
+    case 'PERCENT': return record.totalCost * Math.min(Math.max(value, 0), 100) / 100;
+    case 'FIXED': return Math.max(value, 0);
+    case 'FREE_MINUTES': return freeMinutesValue(record, value);
+  }
+};
+
+// Automatic rules, then the promo code, then a manual discount; each is worked out on the
+// undiscounted playtime and together they stop at zero. F&B is never discounted.
+export const applyDiscounts = (
+  record: SessionRecord,
+  rules: DiscountRule[],
+  options: { code?: string; manual?: ManualDiscount; at: number }
+): SessionRecord => {
+  const promo = options.code ? findPromo(rules, options.code) : undefined;
+  const candidates: (Omit<AppliedDiscount, 'amount'> & Pick<DiscountRule, 'kind' | 'value'>)[] = [
+    ...rules.filter(r => !r.code && checkRule(r, record, options.at) === null),
+    ...(promo && checkRule(promo, record, options.at) === null ? [promo] : [])
+  ].map(r => ({ ruleId: r.id, name: r.name, code: r.code, kind: r.kind, value: r.value }));
+  if (options.manual && options.manual.value > 0) {
+    candidates.push({ ruleId: MANUAL_DISCOUNT_ID, name: 'Manual', ...options.manual });
+  }
+
+  let remaining = record.totalCost;
+  const discounts: AppliedDiscount[] = [];
+  for (const { kind, value, ...rule } of candidates) {
+    const amount = round2(Math.min(remaining, discountValue(kind, value, record)));
+    if (amount <= 0) continue;
+    discounts.push({ ...rule, amount });
+    remaining = round2(remaining - amount);
+  }
+
+  if (discounts.length === 0) return record;
+  return { ...record, grossCost: record.totalCost, discounts, totalCost: remaining };
+};
+
+// Rules whose use count goes up after a visit was settled with them
+export const countRuleUses = (rules: DiscountRule[], discounts: AppliedDiscount[] = []) => {
+  const used = new Set(discounts.map(d => d.ruleId));
+  return used.size === 0 ? rules : rules.map(r => used.has(r.id) ? { ...r, uses: r.uses + 1 } : r);
+};
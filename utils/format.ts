@@ -0,0 +1,9 @@
+// Fixed wording for printed receipts; on-screen text goes through useI18n
+export const formatDuration = (seconds: number) => {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  return `${hrs}س ${mins}د`;
+};
+
+export const formatDateTime = (ts: number) =>
+  new Date(ts).toLocaleString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
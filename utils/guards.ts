@@ -0,0 +1,11 @@
+// Narrowing for data read back from storage, backups and the network, which is only trusted once checked
+
+export const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const isString = (v: unknown): v is string => typeof v === 'string';
+
+export const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+// The list, or nothing when the field is missing or not a list
+export const listOf = (v: unknown): unknown[] => Array.isArray(v) ? v : [];
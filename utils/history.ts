@@ -0,0 +1,91 @@
+import { SessionRecord, SessionType } from '../types';
+import { getRecordTotal } from './records';
+
+export interface HistoryFilter {
+  from: string; // "YYYY-MM-DD", inclusive, empty = no bound
+  to: string;
+  screenId: string;
+  customer: string;
+  minAmount: string;
+  sessionType: SessionType | '';
+}
+
+export const EMPTY_FILTER: HistoryFilter = {
+  from: '',
+  to: '',
+  screenId: '',
+  customer: '',
+  minAmount: '',
+  sessionType: ''
+};
+
+export type SortKey = 'screenName' | 'startTime' | 'durationSeconds' | 'total';
+export type SortDirection = 'asc' | 'desc';
+
+export interface HistoryTotals {
+  count: number;
+  seconds: number;
+  playRevenue: number;
+  itemsRevenue: number;
+  total: number;
+}
+
+// Local-time day bounds for an <input type="date"> value
+const dayStart = (value: string) => new Date(`${value}T00:00:00`).getTime();
+const dayEnd = (value: string) => new Date(`${value}T23:59:59.999`).getTime();
+
+// The start times a filter lets through; unbounded sides are infinite
+export const getFilterRange = (filter: HistoryFilter) => ({
+  from: filter.from ? dayStart(filter.from) : -Infinity,
+  to: filter.to ? dayEnd(filter.to) : Infinity
+});
+
+export const filterRecords = (records: SessionRecord[], filter: HistoryFilter) => {
+  const { from, to } = getFilterRange(filter);
+  const customer = filter.customer.trim().toLowerCase();
+  const minAmount = parseFloat(filter.minAmount);
+
+  return records.filter(r =>
+    r.startTime >= from &&
+    r.startTime <= to &&
+    (!filter.screenId || String(r.screenId) === filter.screenId) &&
+    (!customer || (r.customerName ?? '').toLowerCase().includes(customer)) &&
+    (isNaN(minAmount) || getRecordTotal(r) >= minAmount) &&
+    // Records from before session types were logged count as OPEN
+    (!filter.sessionType || (r.sessionType ?? 'OPEN') === filter.sessionType)
+  );
+};
+
+const sortValue = (record: SessionRecord, key: SortKey) =>
+  key === 'total' ? getRecordTotal(record) : record[key];
+
+export const sortRecords = (records: SessionRecord[], key: SortKey, direction: SortDirection) => {
+  const factor = direction === 'asc' ? 1 : -1;
+  return [...records].sort((a, b) => {
+    const va = sortValue(a, key);
+    const vb = sortValue(b, key);
+    if (typeof va === 'string' && typeof vb === 'string') return va.localeCompare(vb) * factor;
+    return ((va as number) - (vb as number)) * factor;
+  });
+};
+
+export const paginate = <T>(items: T[], page: number, pageSize: number) => {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(page, 0), pageCount - 1);
+  return {
+    page: current,
+    pageCount,
+    items: items.slice(current * pageSize, (current + 1) * pageSize)
+  };
+};
+
+export const sumRecords = (records: SessionRecord[]): HistoryTotals => records.reduce(
+  (acc, r) => ({
+    count: acc.count + 1,
+    seconds: acc.seconds + r.durationSeconds,
+    playRevenue: acc.playRevenue + r.totalCost,
+    itemsRevenue: acc.itemsRevenue + (r.itemsTotal ?? 0),
+    total: acc.total + getRecordTotal(r)
+  }),
+  { count: 0, seconds: 0, playRevenue: 0, itemsRevenue: 0, total: 0 }
+);
@@ -0,0 +1,101 @@
+import { en, MessageKey } from '../locales/en';
+import { ar } from '../locales/ar';
+import { MessagePart, StoredMessage } from '../types';
+
+export type Lang = 'ar' | 'en';
+export type { MessageKey };
+
+export interface LocaleSettings {
+  lang: Lang;
+  arabicDigits: boolean; // ٠١٢٣ instead of 0123
+}
+
+export type MessageParams = Record<string, string | number>;
+
+// What helpers outside React take to word their output
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export type MessageValue = string | number | StoredMessage;
+
+// Builds a message to store or pass around, checking the key against the catalog
+export const message = (key: MessageKey, params?: Record<string, MessageValue>): StoredMessage =>
+  params ? { key, params } : { key };
+
+// Words a stored message, its nested ones first. Keys dropped from the catalog show as the key itself
+export const formatMessage = (t: Translate, part: MessagePart): string => {
+  if (typeof part === 'string') return part;
+  const params = part.params && Object.fromEntries(
+    Object.entries(part.params).map(([name, value]) => [name, typeof value === 'object' ? formatMessage(t, value) : value])
+  );
+  return t(part.key as MessageKey, params);
+};
+
+export const LANGS: Lang[] = ['ar', 'en'];
+
+export const DEFAULT_LOCALE: LocaleSettings = { lang: 'ar', arabicDigits: false };
+
+const CATALOGS: Record<Lang, Record<MessageKey, string>> = { ar, en };
+
+const ARABIC_INDIC = '٠١٢٣٤٥٦٧٨٩';
+
+export const getDir = (lang: Lang): 'rtl' | 'ltr' => lang === 'ar' ? 'rtl' : 'ltr';
+
+// BCP 47 tag with the numbering system pinned, so digits follow the setting rather than the browser
+export const getIntlLocale = ({ lang, arabicDigits }: LocaleSettings) =>
+  `${lang === 'ar' ? 'ar-EG' : 'en-GB'}-u-nu-${arabicDigits ? 'arab' : 'latn'}`;
+
+// Fills `{name}` placeholders. A key missing from a catalog falls back to English, then to the key itself
+export const translate = (lang: Lang, key: MessageKey, params?: MessageParams) => {
+  const template = CATALOGS[lang][key] ?? en[key] ?? key;
+  return params
+    ? template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match)
+    : template;
+};
+
+export const localizeDigits = (text: string, arabicDigits: boolean) =>
+  arabicDigits ? text.replace(/[0-9]/g, d => ARABIC_INDIC[Number(d)]) : text;
+
+// Every number, amount, date and duration the UI shows goes through one of these
+export const createFormatters = (settings: LocaleSettings) => {
+  const locale = getIntlLocale(settings);
+  const fixed = new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const plain = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+  const currency = new Intl.NumberFormat(locale, { style: 'currency', currency: 'EGP', minimumFractionDigits: 2 });
+  const dateTime = new Intl.DateTimeFormat(locale, { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+  const date = new Intl.DateTimeFormat(locale, { day: '2-digit', month: '2-digit', year: 'numeric' });
+  const shortDate = new Intl.DateTimeFormat(locale, { day: '2-digit', month: '2-digit' });
+  const month = new Intl.DateTimeFormat(locale, { month: 'short', year: '2-digit' });
+  const clock = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+  const weekday = new Intl.DateTimeFormat(locale, { weekday: 'short', day: 'numeric', month: 'short' });
+  const dayName = new Intl.DateTimeFormat(locale, { weekday: 'short', timeZone: 'UTC' });
+  const digits = (text: string) => localizeDigits(text, settings.arabicDigits);
+
+  return {
+    number: (n: number) => plain.format(n),
+    amount: (n: number) => fixed.format(n), // Two decimals, no currency
+    money: (n: number) => currency.format(n),
+    dateTime: (ts: number) => dateTime.format(ts),
+    date: (ts: number) => date.format(ts),
+    shortDate: (ts: number) => shortDate.format(ts),
+    month: (ts: number) => month.format(ts),
+    clock: (ts: number) => clock.format(ts),
+    day: (ts: number) => weekday.format(ts),
+    // 0 = Sunday, as in Date.getDay(); 4 Jan 1970 was a Sunday
+    dayName: (day: number) => dayName.format(Date.UTC(1970, 0, 4 + day)),
+    digits,
+    // 1h 5m / 1س 5د
+    duration: (seconds: number) => {
+      const hrs = Math.floor(seconds / 3600);
+      const mins = Math.floor((seconds % 3600) / 60);
+      return translate(settings.lang, 'format.duration', { h: digits(String(hrs)), m: digits(String(mins)) });
+    },
+    // Running clock, e.g. 01:05:09; negative once a fixed session overruns
+    timer: (totalSeconds: number) => {
+      const abs = Math.abs(totalSeconds);
+      const parts = [Math.floor(abs / 3600), Math.floor((abs % 3600) / 60), abs % 60].map(n => String(n).padStart(2, '0'));
+      return digits(`${totalSeconds < 0 ? '-' : ''}${parts.join(':')}`);
+    }
+  };
+};
+
+export type Formatters = ReturnType<typeof createFormatters>;
@@ -0,0 +1,88 @@
+import { Customer, LoyaltySettings, SessionRecord } from '../types';
+import { getChargedSeconds, getRecordTotal } from './records';
+
+export const DEFAULT_LOYALTY: LoyaltySettings = {
+  earnMode: 'PER_HOUR',
+  earnRate: 10,
+  pointsPerFreeMinute: 5
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const createCustomer = (id: string, name: string, createdAt: number): Customer => ({
+  id,
+  name,
+  phone: '',
+  notes: '',
+  points: 0,
+  createdAt,
+  wallet: 0,
+  tab: 0,
+  creditLimit: 0
+});
+
+// Matches a typed name (case-insensitive) or a phone number against the registry
+export const findCustomer = (customers: Customer[], query: string): Customer | undefined => {
+  const q = query.trim().toLowerCase();
+  if (!q) return undefined;
+  return customers.find(c => c.name.trim().toLowerCase() === q || (c.phone && c.phone.trim() === q));
+};
+
+// Free minutes can't exceed the points on hand or the time actually played
+export const maxRedeemableMinutes = (record: SessionRecord, points: number, settings: LoyaltySettings) => {
+  if (settings.pointsPerFreeMinute <= 0) return 0;
+  return Math.max(0, Math.min(Math.floor(points / settings.pointsPerFreeMinute), Math.floor(getChargedSeconds(record) / 60)));
+};
+
+// Free minutes are worth the session's average rate, so peak minutes are worth more
+export const freeMinutesValue = (record: SessionRecord, minutes: number) => {
+  const seconds = getChargedSeconds(record);
+  if (seconds <= 0 || minutes <= 0) return 0;
+  return round2(record.totalCost * Math.min(1, (minutes * 60) / seconds));
+};
+
+export const pointsForRecord = (record: SessionRecord, settings: LoyaltySettings) => {
+  if (settings.earnMode === 'PER_EGP') return Math.floor(getRecordTotal(record) * settings.earnRate);
+  const paidSeconds = Math.max(0, record.durationSeconds - (record.freeMinutes ?? 0) * 60);
+  return Math.floor((paidSeconds / 3600) * settings.earnRate);
+};
+
+// Redeems free minutes, then credits points on what was actually paid
+export const applyLoyalty = (
+  record: SessionRecord,
+  customer: Customer,
+  settings: LoyaltySettings,
+  redeemMinutes = 0
+): { record: SessionRecord; points: number } => {
+  const freeMinutes = Math.min(Math.max(0, Math.floor(redeemMinutes)), maxRedeemableMinutes(record, customer.points, settings));
+  const discount = freeMinutesValue(record, freeMinutes);
+  const pointsRedeemed = freeMinutes * settings.pointsPerFreeMinute;
+
+  const redeemed: SessionRecord = freeMinutes > 0
+    ? { ...record, totalCost: round2(record.totalCost - discount), freeMinutes, loyaltyDiscount: discount, pointsRedeemed }
+    : record;
+  const pointsEarned = pointsForRecord(redeemed, settings);
+
+  return {
+    record: { ...redeemed, pointsEarned },
+    points: customer.points - pointsRedeemed + pointsEarned
+  };
+};
+
+export interface CustomerStats {
+  visits: number;
+  seconds: number;
+  spend: number;
+  lastVisit: number | null;
+}
+
+// Visits are matched by id; records from before the registry existed have none
+export const getCustomerStats = (records: SessionRecord[], customerId: string): CustomerStats =>
+  records
+    .filter(r => r.customerId === customerId)
+    .reduce<CustomerStats>((acc, r) => ({
+      visits: acc.visits + 1,
+      seconds: acc.seconds + r.durationSeconds,
+      spend: acc.spend + getRecordTotal(r),
+      lastVisit: Math.max(acc.lastVisit ?? 0, r.endTime)
+    }), { visits: 0, seconds: 0, spend: 0, lastVisit: null });
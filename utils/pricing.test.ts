@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { BillingPolicy, RatePlan, RateRule } from '../types';
+import { EXACT_BILLING, applyBillingPolicy, getActiveIntervals, getBilledSeconds, priceSession, roundAmount, ruleMatches } from './pricing';
+
+const MIN = 60 * 1000;
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 0, day, hour, minute).getTime(); // Jan 2025; the 6th is a Monday
+
+const night: RateRule = { id: 'night', label: 'NIGHT', days: [], from: '22:00', to: '06:00', rates: { 1: 80, 2: 80, 4: 100 } };
+
+const plan = (rules: RateRule[] = [night]): RatePlan => ({
+  id: 'standard',
+  name: 'STANDARD',
+  rates: { 1: 50, 2: 50, 4: 70 },
+  rules
+});
+
+describe('ruleMatches', () => {
+  it('covers a daytime window up to, not including, its end', () => {
+    const afternoon = { days: [], from: '12:00', to: '18:00' };
+    expect(ruleMatches(afternoon, at(6, 14))).toBe(true);
+    expect(ruleMatches(afternoon, at(6, 11, 59))).toBe(false);
+    expect(ruleMatches(afternoon, at(6, 18))).toBe(false);
+  });
+
+  it('covers an overnight window on both sides of midnight', () => {
+    expect(ruleMatches(night, at(6, 23))).toBe(true);
+    expect(ruleMatches(night, at(7, 2))).toBe(true);
+    expect(ruleMatches(night, at(7, 6))).toBe(false);
+    expect(ruleMatches(night, at(7, 21, 59))).toBe(false);
+  });
+
+  it('counts the hours after midnight as the day the window opened', () => {
+    const fridayNight = { days: [5], from: '22:00', to: '06:00' };
+    expect(ruleMatches(fridayNight, at(10, 23))).toBe(true); // Friday
+    expect(ruleMatches(fridayNight, at(11, 2))).toBe(true); // Saturday, still Friday night
+    expect(ruleMatches(fridayNight, at(10, 2))).toBe(false); // Friday, but Thursday night
+    expect(ruleMatches(fridayNight, at(11, 23))).toBe(false);
+  });
+
+  it('treats equal start and end as all day', () => {
+    expect(ruleMatches({ days: [1], from: '00:00', to: '00:00' }, at(6, 3))).toBe(true);
+    expect(ruleMatches({ days: [1], from: '00:00', to: '00:00' }, at(7, 3))).toBe(false);
+  });
+});
+
+describe('getActiveIntervals', () => {
+  const start = at(6, 14);
+  const end = at(6, 16);
+
+  it('is the whole session without pauses', () => {
+    expect(getActiveIntervals(start, end, [])).toEqual([[start, end]]);
+  });
+
+  it('splits around a pause, whatever order pauses were stored in', () => {
+    const pauses = [{ start: start + 90 * MIN, end: start + 100 * MIN }, { start: start + 30 * MIN, end: start + 60 * MIN }];
+    expect(getActiveIntervals(start, end, pauses)).toEqual([
+      [start, start + 30 * MIN],
+      [start + 60 * MIN, start + 90 * MIN],
+      [start + 100 * MIN, end]
+    ]);
+  });
+
+  it('runs an open pause up to the end', () => {
+    expect(getActiveIntervals(start, end, [{ start: start + 30 * MIN, end: null }])).toEqual([[start, start + 30 * MIN]]);
+  });
+
+  it('clips pauses that reach outside the session', () => {
+    const pauses = [{ start: start - 10 * MIN, end: start + 10 * MIN }, { start: end - 10 * MIN, end: end + 10 * MIN }];
+    expect(getActiveIntervals(start, end, pauses)).toEqual([[start + 10 * MIN, end - 10 * MIN]]);
+  });
+});
+
+describe('priceSession', () => {
+  it('charges each part of the session at the rate of the window it fell in', () => {
+    const pricing = priceSession(plan(), at(6, 21), at(6, 23), 2);
+    expect(pricing.segments.map(s => [s.label, s.rate, s.seconds, s.cost])).toEqual([
+      ['STANDARD', 50, 3600, 50],
+      ['NIGHT', 80, 3600, 80]
+    ]);
+    expect(pricing.total).toBe(130);
+  });
+
+  it('keeps one segment when only midnight is crossed', () => {
+    const pricing = priceSession(plan(), at(6, 23), at(7, 1), 4);
+    expect(pricing.segments).toHaveLength(1);
+    expect(pricing.total).toBe(200);
+  });
+
+  it('uses the first matching rule', () => {
+    const lateNight: RateRule = { ...night, id: 'late', label: 'LATE', from: '00:00', to: '06:00', rates: { 1: 30, 2: 30, 4: 30 } };
+    expect(priceSession(plan([night, lateNight]), at(7, 1), at(7, 2), 1).total).toBe(80);
+    expect(priceSession(plan([lateNight, night]), at(7, 1), at(7, 2), 1).total).toBe(30);
+  });
+
+  it('leaves paused time out of the price', () => {
+    const pricing = priceSession(plan(), at(6, 21), at(6, 23), 2, [{ start: at(6, 21, 30), end: at(6, 22) }]);
+    expect(pricing.total).toBe(105);
+    expect(pricing.segments[0]).toMatchObject({ seconds: 1800, cost: 25 });
+  });
+
+  it('charges nothing for a session that has not started', () => {
+    expect(priceSession(plan(), at(6, 14), at(6, 14), 2)).toEqual({ total: 0, segments: [] });
+  });
+});
+
+const policy = (overrides: Partial<BillingPolicy> = {}): BillingPolicy => ({ ...EXACT_BILLING, ...overrides });
+
+describe('getBilledSeconds', () => {
+  it('bills played time as it is without a policy', () => {
+    expect(getBilledSeconds(61 * 60, EXACT_BILLING)).toBe(61 * 60);
+    expect(getBilledSeconds(0, policy({ minimumMinutes: 30 }))).toBe(0);
+  });
+
+  it('charges every started block in full', () => {
+    expect(getBilledSeconds(16 * 60, policy({ blockMinutes: 15 }))).toBe(30 * 60);
+    expect(getBilledSeconds(30 * 60, policy({ blockMinutes: 15 }))).toBe(30 * 60);
+  });
+
+  it('always charges the first block, whatever the grace', () => {
+    expect(getBilledSeconds(240, policy({ blockMinutes: 15, graceMinutes: 5 }))).toBe(15 * 60);
+    expect(getBilledSeconds(1, policy({ blockMinutes: 15, graceMinutes: 5 }))).toBe(15 * 60);
+  });
+
+  it('lets the grace round down a later block that has only just started', () => {
+    const graced = policy({ blockMinutes: 15, graceMinutes: 5 });
+    expect(getBilledSeconds(19 * 60, graced)).toBe(15 * 60);
+    expect(getBilledSeconds(21 * 60, graced)).toBe(30 * 60);
+  });
+
+  it('never bills below the minimum', () => {
+    expect(getBilledSeconds(10 * 60, policy({ minimumMinutes: 30 }))).toBe(30 * 60);
+    expect(getBilledSeconds(10 * 60, policy({ blockMinutes: 15, minimumMinutes: 60 }))).toBe(60 * 60);
+  });
+});
+
+describe('roundAmount', () => {
+  it('rounds to the nearest step', () => {
+    expect(roundAmount(47.3, 5)).toBe(45);
+    expect(roundAmount(47.5, 5)).toBe(50);
+    expect(roundAmount(12.26, 0.5)).toBe(12.5);
+  });
+
+  it('leaves the amount alone without a step', () => {
+    expect(roundAmount(12.34, 0)).toBe(12.34);
+  });
+});
+
+describe('applyBillingPolicy', () => {
+  it('charges billed time at the visit\'s average rate', () => {
+    // 16 minutes played at 50/h, billed as 30
+    const raw = (16 / 60) * 50;
+    expect(applyBillingPolicy(raw, 16 * 60, policy({ blockMinutes: 15 }))).toEqual({ billedSeconds: 1800, total: 25, adjustment: 11.67 });
+  });
+
+  it('charges a short session its first block', () => {
+    const raw = (4 / 60) * 60;
+    const billing = applyBillingPolicy(raw, 240, policy({ blockMinutes: 15, graceMinutes: 5 }));
+    expect(billing.total).toBe(15);
+    expect(billing.adjustment).toBeGreaterThan(0);
+  });
+
+  it('rounds the charged amount', () => {
+    expect(applyBillingPolicy(47.3, 3600, policy({ roundTo: 5 }))).toEqual({ billedSeconds: 3600, total: 45, adjustment: -2.3 });
+  });
+
+  it('charges nothing for a session that was never played', () => {
+    expect(applyBillingPolicy(0, 0, policy({ minimumMinutes: 30 }))).toEqual({ billedSeconds: 0, total: 0, adjustment: 0 });
+  });
+});
@@ -0,0 +1,200 @@
+import { BillingPolicy, ControllerCount, OvertimePolicy, PauseInterval, RatePlan, RateRule, RateSegment } from '../types';
+
+export const CONTROLLER_OPTIONS: ControllerCount[] = [1, 2, 4];
+
+export const DEFAULT_RATE_PLANS: RatePlan[] = [
+  {
+    id: 'standard',
+    name: 'STANDARD',
+    rates: { 1: 50, 2: 50, 4: 70 },
+    rules: []
+  }
+];
+
+export const DEFAULT_OVERTIME: OvertimePolicy = { mode: 'RATE', blockMinutes: 15, graceMinutes: 0 };
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// "HH:MM" -> minutes since midnight
+export const parseClock = (value: string) => {
+  const [h, m] = value.split(':').map(n => parseInt(n, 10) || 0);
+  return Math.min(Math.max(h * 60 + m, 0), 24 * 60);
+};
+
+const startOfDay = (at: number) => {
+  const d = new Date(at);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+// Whether `at` falls in a weekly time window (rate rules, happy hours)
+export const ruleMatches = (rule: Pick<RateRule, 'days' | 'from' | 'to'>, at: number) => {
+  const date = new Date(at);
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const from = parseClock(rule.from);
+  const to = parseClock(rule.to);
+  const overnight = from > to;
+
+  let inWindow: boolean;
+  if (from === to) inWindow = true;
+  else if (overnight) inWindow = minute >= from || minute < to;
+  else inWindow = minute >= from && minute < to;
+  if (!inWindow) return false;
+
+  if (rule.days.length === 0) return true;
+  // The after-midnight part of an overnight window belongs to the day it started on
+  const day = overnight && minute < to ? (date.getDay() + 6) % 7 : date.getDay();
+  return rule.days.includes(day);
+};
+
+export const resolveRate = (plan: RatePlan, at: number, controllers: ControllerCount) => {
+  const rule = plan.rules.find(r => ruleMatches(r, at));
+  return rule
+    ? { rate: rule.rates[controllers] || 0, label: rule.label }
+    : { rate: plan.rates[controllers] || 0, label: plan.name };
+};
+
+// Next moment after `at` where the applicable rule may change
+const nextBoundary = (plan: RatePlan, at: number) => {
+  const dayStart = startOfDay(at);
+  const d = new Date(dayStart);
+  let next = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime();
+
+  for (const rule of plan.rules) {
+    for (const clock of [rule.from, rule.to]) {
+      const t = dayStart + parseClock(clock) * MINUTE;
+      if (t > at && t < next) next = t;
+    }
+  }
+  return next;
+};
+
+// Splits [startTime, endTime] into the intervals that were actually played
+export const getActiveIntervals = (startTime: number, endTime: number, pauses: PauseInterval[]) => {
+  const intervals: [number, number][] = [];
+  let cursor = startTime;
+  const sorted = [...pauses].sort((a, b) => a.start - b.start);
+
+  for (const p of sorted) {
+    const pauseStart = Math.max(p.start, cursor);
+    const pauseEnd = Math.min(p.end ?? endTime, endTime);
+    if (pauseStart > cursor) intervals.push([cursor, Math.min(pauseStart, endTime)]);
+    cursor = Math.max(cursor, pauseEnd);
+    if (cursor >= endTime) break;
+  }
+  if (cursor < endTime) intervals.push([cursor, endTime]);
+  return intervals.filter(([a, b]) => b > a);
+};
+
+export interface PriceBreakdown {
+  total: number;
+  segments: RateSegment[];
+}
+
+export const priceSession = (
+  plan: RatePlan,
+  startTime: number,
+  endTime: number,
+  controllers: ControllerCount,
+  pauses: PauseInterval[] = []
+): PriceBreakdown => {
+  const segments: RateSegment[] = [];
+
+  for (const [from, to] of getActiveIntervals(startTime, endTime, pauses)) {
+    let cursor = from;
+    while (cursor < to) {
+      const until = Math.min(nextBoundary(plan, cursor), to);
+      const { rate, label } = resolveRate(plan, cursor, controllers);
+      const ms = until - cursor;
+      const last = segments[segments.length - 1];
+
+      // Merge with the previous segment when nothing changed but a day/pause boundary
+      if (last && last.label === label && last.rate === rate) {
+        last.to = until;
+        last.seconds += ms / 1000;
+        last.cost += (ms / HOUR) * rate;
+      } else {
+        segments.push({ from: cursor, to: until, seconds: ms / 1000, rate, label, cost: (ms / HOUR) * rate });
+      }
+      cursor = until;
+    }
+  }
+
+  const rounded = segments.map(s => ({ ...s, seconds: Math.round(s.seconds) }));
+  return {
+    total: rounded.reduce((acc, s) => acc + s.cost, 0),
+    segments: rounded
+  };
+};
+
+// Played milliseconds between two moments, pauses excluded
+export const getActiveMs = (startTime: number, endTime: number, pauses: PauseInterval[]) =>
+  getActiveIntervals(startTime, endTime, pauses).reduce((acc, [a, b]) => acc + (b - a), 0);
+
+// The moment played time reaches `seconds`, or null if it hasn't by `now`
+export const activeTimeReachedAt = (startTime: number, pauses: PauseInterval[], seconds: number, now: number) => {
+  let remaining = seconds * 1000;
+  for (const [a, b] of getActiveIntervals(startTime, now, pauses)) {
+    if (b - a >= remaining) return a + remaining;
+    remaining -= b - a;
+  }
+  return null;
+};
+
+// Time played past a package, charged according to the plan's overtime policy
+export const priceOvertime = (
+  plan: RatePlan,
+  from: number,
+  to: number,
+  controllers: ControllerCount,
+  pauses: PauseInterval[] = []
+): PriceBreakdown => {
+  const policy = plan.overtime ?? DEFAULT_OVERTIME;
+  const seconds = Math.round(getActiveMs(from, to, pauses) / 1000);
+  if (seconds <= 0) return { total: 0, segments: [] };
+
+  const free = policy.mode === 'FREE' || seconds <= policy.graceMinutes * 60;
+  if (free) {
+    return { total: 0, segments: [{ from, to, seconds, rate: 0, label: 'OVERTIME', cost: 0 }] };
+  }
+
+  if (policy.mode === 'BLOCKS' && policy.blockMinutes > 0) {
+    const { rate } = resolveRate(plan, from, controllers);
+    const blocks = Math.ceil(seconds / (policy.blockMinutes * 60));
+    const cost = blocks * (policy.blockMinutes / 60) * rate;
+    return { total: cost, segments: [{ from, to, seconds, rate, label: `OVERTIME ${blocks}×${policy.blockMinutes}m`, cost }] };
+  }
+
+  const pricing = priceSession(plan, from, to, controllers, pauses);
+  return { ...pricing, segments: pricing.segments.map(s => ({ ...s, label: `OVERTIME · ${s.label}` })) };
+};
+
+export const EXACT_BILLING: BillingPolicy = { blockMinutes: 0, graceMinutes: 0, minimumMinutes: 0, roundTo: 0 };
+
+export const BILLING_BLOCKS = [0, 5, 15, 30];
+export const AMOUNT_ROUNDING = [0, 0.5, 1, 5];
+
+// Time charged for `seconds` played: the first block always counts, later started blocks
+// count in full once past the grace, and nothing is billed below the minimum
+export const getBilledSeconds = (seconds: number, policy: BillingPolicy) => {
+  if (seconds <= 0) return 0;
+  let billed = seconds;
+  if (policy.blockMinutes > 0) {
+    const block = policy.blockMinutes * 60;
+    const full = Math.floor(seconds / block);
+    const partial = seconds - full * block;
+    const blocks = full === 0 || partial > policy.graceMinutes * 60 ? full + 1 : full;
+    billed = blocks * block;
+  }
+  return Math.max(billed, policy.minimumMinutes * 60);
+};
+
+export const roundAmount = (amount: number, step: number) =>
+  step > 0 ? Math.round(Math.round(amount / step) * step * 100) / 100 : amount;
+
+// Billed time is charged at the visit's average rate, so peak windows keep their weight
+export const applyBillingPolicy = (rawCost: number, seconds: number, policy: BillingPolicy) => {
+  const billedSeconds = getBilledSeconds(seconds, policy);
+  const total = roundAmount(seconds > 0 ? rawCost * billedSeconds / seconds : 0, policy.roundTo);
+  return { billedSeconds, total, adjustment: Math.round((total - rawCost) * 100) / 100 };
+};
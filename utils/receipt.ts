@@ -0,0 +1,321 @@
+import { BillShare, LedgerEntry, PaperWidth, PaymentMethod, ReceiptSettings, SessionRecord } from '../types';
+import { getRecordLegs, getRecordTotal } from './records';
+import { buildZReport } from './reports';
+import { entriesBetween, getCashPaid } from './accounts';
+import { formatDateTime, formatDuration } from './format';
+
+// Printer-neutral receipt; rendered to HTML for the print dialog or to ESC/POS for a print bridge
+export type ReceiptLine =
+  | { kind: 'title'; text: string }
+  | { kind: 'text'; text: string }
+  | { kind: 'note'; text: string } // Small print under the row above it
+  | { kind: 'row'; label: string; value: string; strong?: boolean }
+  | { kind: 'divider' };
+
+export const DEFAULT_RECEIPT: ReceiptSettings = {
+  shopName: 'PS LOUNGE',
+  address: '',
+  phone: '',
+  footer: 'شكرا لزيارتكم',
+  paperWidth: 80,
+  bridgeUrl: ''
+};
+
+// Characters per line in the printer's standard font
+export const CHARS_PER_LINE: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+const PAYMENT_LABELS: Record<PaymentMethod, string> = {
+  CASH: 'نقدي',
+  WALLET: 'محفظة',
+  TAB: 'آجل',
+  SPLIT: 'مقسم'
+};
+
+const money = (n: number) => n.toFixed(2);
+
+const formatDay = (ts: number) =>
+  new Date(ts).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+const row = (label: string, value: string, strong = false): ReceiptLine => ({ kind: 'row', label, value, strong });
+const text = (value: string): ReceiptLine => ({ kind: 'text', text: value });
+const note = (value: string): ReceiptLine => ({ kind: 'note', text: value });
+const DIVIDER: ReceiptLine = { kind: 'divider' };
+
+// Lines only printed when there's something to show
+const when = (condition: unknown, ...lines: ReceiptLine[]) => condition ? lines : [];
+
+const shopHeader = (settings: ReceiptSettings): ReceiptLine[] => [
+  { kind: 'title', text: settings.shopName },
+  ...[settings.address, settings.phone].filter(Boolean).map(text),
+  DIVIDER
+];
+
+const shopFooter = (settings: ReceiptSettings) => when(settings.footer, DIVIDER, text(settings.footer));
+
+// --- Builders ---
+
+export const buildReceipt = (record: SessionRecord, settings: ReceiptSettings): ReceiptLine[] => {
+  const legs = getRecordLegs(record);
+  const payment = record.payment;
+
+  const playLines = legs.flatMap(leg => [
+    ...when(legs.length > 1, text(`${leg.screenName} · ${formatDuration(leg.seconds)}`)),
+    ...(leg.segments.length
+      ? leg.segments.flatMap(seg => [
+          row(seg.label, money(seg.cost)),
+          note(`${formatDuration(seg.seconds)} × ${money(seg.rate)}/س`)
+        ])
+      // Records from before rate segments were kept
+      : [
+          row(leg.ratePlanName ?? 'اللعب', money(leg.cost)),
+          note(`${formatDuration(leg.seconds)} × ${money(record.hourlyRate)}/س`)
+        ])
+  ]);
+
+  const paidBy = payment && record.paymentMethod !== 'CASH'
+    ? [
+        { label: 'نقدا', amount: payment.cash },
+        { label: 'من المحفظة', amount: payment.wallet },
+        { label: 'على الحساب', amount: payment.tab }
+      ].filter(p => p.amount > 0).map(p => row(p.label, money(p.amount)))
+    : [];
+
+  return [
+    ...shopHeader(settings),
+    row('رقم', record.id.slice(-6).toUpperCase()),
+    row('المحطة', legs.map(l => l.screenName).join(' > ')),
+    ...when(record.customerName, row('العميل', record.customerName ?? '')),
+    row('البداية', formatDateTime(record.startTime)),
+    row('النهاية', formatDateTime(record.endTime)),
+    row('المدة', formatDuration(record.durationSeconds)),
+    ...when(record.billedSeconds !== undefined && record.billedSeconds !== record.durationSeconds,
+      row('المدة المحتسبة', formatDuration(record.billedSeconds ?? 0))),
+    DIVIDER,
+    ...playLines,
+    // Segments are priced to the second; the plan's blocks, minimum and rounding settle the difference
+    ...when(record.billingAdjustment, row('تقريب المحاسبة', `${(record.billingAdjustment ?? 0) > 0 ? '+' : ''}${money(record.billingAdjustment ?? 0)}`)),
+    ...when(record.overtimeSeconds, note(`وقت إضافي ${formatDuration(record.overtimeSeconds ?? 0)}`)),
+    ...(record.items ?? []).map(item => row(`${item.name} × ${item.quantity}`, money(item.unitPrice * item.quantity))),
+    // totalCost already has these taken off; listed so the lines add up on paper
+    ...(record.discounts ?? []).map(d => row(d.code ?? d.name, `-${money(d.amount)}`)),
+    ...when(record.loyaltyDiscount, row(`خصم نقاط ${record.freeMinutes ?? 0}د`, `-${money(record.loyaltyDiscount ?? 0)}`)),
+    DIVIDER,
+    row('الإجمالي ج.م', money(getRecordTotal(record)), true),
+    row('الدفع', PAYMENT_LABELS[record.paymentMethod ?? 'CASH']),
+    ...paidBy,
+    ...when(record.shares?.length, DIVIDER, text('تقسيم الفاتورة'), ...(record.shares ?? []).map(share => row(share.name, money(share.amount)))),
+    ...when(record.stoppedBy, row('الكاشير', record.stoppedBy?.name ?? '')),
+    ...shopFooter(settings)
+  ];
+};
+
+// One player's slip from a split bill, pointing back to the full receipt by its number
+export const buildShareReceipt = (record: SessionRecord, share: BillShare, settings: ReceiptSettings): ReceiptLine[] => {
+  const shares = record.shares ?? [share];
+  return [
+    ...shopHeader(settings),
+    row('رقم', record.id.slice(-6).toUpperCase()),
+    row('الحصة', `${shares.findIndex(s => s.id === share.id) + 1} / ${shares.length}`),
+    row('المحطة', getRecordLegs(record).map(l => l.screenName).join(' > ')),
+    row('اللاعب', share.name),
+    row('المدة', formatDuration(record.durationSeconds)),
+    row('إجمالي الفاتورة', money(getRecordTotal(record))),
+    DIVIDER,
+    row('المطلوب ج.م', money(share.amount), true),
+    ...shopFooter(settings)
+  ];
+};
+
+// Every session that ended on the calendar day of `day`, current shift and archived alike
+export const buildDailySummary = (
+  day: number,
+  records: SessionRecord[],
+  ledger: LedgerEntry[],
+  settings: ReceiptSettings
+): ReceiptLine[] => {
+  const start = new Date(day);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+
+  const sessions = records.filter(r => r.endTime >= start.getTime() && r.endTime < end.getTime());
+  const report = buildZReport(sessions, entriesBetween(ledger, start.getTime(), end.getTime()));
+  const sessionCash = sessions.reduce((acc, r) => acc + getCashPaid(r, getRecordTotal(r)), 0);
+
+  return [
+    ...shopHeader(settings),
+    { kind: 'title', text: 'ملخص يومي' },
+    row('اليوم', formatDay(start.getTime())),
+    row('طبع في', formatDateTime(Date.now())),
+    DIVIDER,
+    row('الجلسات', String(report.sessionCount)),
+    row('الساعات', report.hoursSold.toFixed(1)),
+    row('اللعب', money(report.playRevenue)),
+    row('المأكولات والمشروبات', money(report.itemsRevenue)),
+    ...when(report.discounts, row('الخصومات', `-${money(report.discounts ?? 0)}`)),
+    row('الإيراد ج.م', money(report.totalRevenue), true),
+    DIVIDER,
+    row('نقدي من الجلسات', money(sessionCash)),
+    row('من المحافظ', money(report.walletPaid ?? 0)),
+    row('على الحساب', money(report.tabCharged ?? 0)),
+    row('شحن وسداد نقدا', money(report.accountCash ?? 0)),
+    row('النقدية المتوقعة', money(report.cashExpected), true),
+    ...when(report.stations.length, DIVIDER),
+    ...report.stations.flatMap(s => [
+      row(s.screenName, money(s.revenue)),
+      note(`${s.sessions} × ${formatDuration(s.seconds)}`)
+    ]),
+    ...shopFooter(settings)
+  ];
+};
+
+// --- HTML (browser print dialog) ---
+
+const escapeHTML = (text: string) =>
+  text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+const lineToHTML = (line: ReceiptLine) => {
+  switch (line.kind) {
+    case 'title': return `<div class="title">${escapeHTML(line.text)}</div>`;
+    case 'text': return `<div class="center">${escapeHTML(line.text)}</div>`;
+    case 'note': return `<div class="note">${escapeHTML(line.text)}</div>`;
+    case 'divider': return '<hr>';
+    case 'row':
+      return `<div class="row${line.strong ? ' strong' : ''}"><span>${escapeHTML(line.label)}</span><bdi>${escapeHTML(line.value)}</bdi></div>`;
+  }
+};
+
+export const receiptToHTML = (lines: ReceiptLine[], paperWidth: PaperWidth) => `<!doctype html>
+<html lang="ar" dir="rtl">
+<head>
+<meta charset="utf-8">
+<title>Receipt</title>
+<style>
+  @page { size: ${paperWidth}mm auto; margin: 0; }
+  * { box-sizing: border-box; }
+  body { width: ${paperWidth}mm; margin: 0; padding: 3mm; color: #000; font: ${paperWidth === 58 ? 11 : 13}px/1.4 Tahoma, Arial, sans-serif; }
+  .title { text-align: center; font-weight: bold; font-size: 1.4em; }
+  .center { text-align: center; }
+  .row { display: flex; justify-content: space-between; gap: 2mm; }
+  .row bdi { white-space: nowrap; }
+  .strong { font-weight: bold; font-size: 1.2em; }
+  .note { font-size: 0.85em; color: #333; padding-inline-start: 2mm; }
+  hr { border: 0; border-top: 1px dashed #000; margin: 1.5mm 0; }
+</style>
+</head>
+<body>
+${lines.map(lineToHTML).join('\n')}
+</body>
+</html>`;
+
+// Prints from a hidden frame so the app's own page and styles stay out of the receipt
+export const printHTML = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;width:0;height:0;border:0;';
+  document.body.appendChild(frame);
+  const win = frame.contentWindow!;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.addEventListener('afterprint', () => frame.remove());
+  win.focus();
+  win.print();
+};
+
+// --- ESC/POS (print bridge) ---
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// ESC t 50 selects WPC1256 (Arabic) on Epson-compatible printers
+const CODE_PAGE_1256 = 50;
+
+// Arabic block of Windows-1256; anything else outside ASCII prints as '?'
+const CP1256: Record<string, number> = {
+  '،': 0xa1, '؛': 0xba, '؟': 0xbf, 'ء': 0xc1, 'آ': 0xc2, 'أ': 0xc3, 'ؤ': 0xc4, 'إ': 0xc5, 'ئ': 0xc6,
+  'ا': 0xc7, 'ب': 0xc8, 'ة': 0xc9, 'ت': 0xca, 'ث': 0xcb, 'ج': 0xcc, 'ح': 0xcd, 'خ': 0xce, 'د': 0xcf,
+  'ذ': 0xd0, 'ر': 0xd1, 'ز': 0xd2, 'س': 0xd3, 'ش': 0xd4, 'ص': 0xd5, 'ض': 0xd6, '×': 0xd7, 'ط': 0xd8,
+  'ظ': 0xd9, 'ع': 0xda, 'غ': 0xdb, 'ـ': 0xdc, 'ف': 0xdd, 'ق': 0xde, 'ك': 0xdf, 'ل': 0xe1, 'م': 0xe3,
+  'ن': 0xe4, 'ه': 0xe5, 'و': 0xe6, 'ى': 0xec, 'ي': 0xed
+};
+
+const ARABIC = /[؀-ۿ]/;
+
+const encodeText = (text: string) =>
+  Array.from(text, c => c.charCodeAt(0) < 0x80 ? c.charCodeAt(0) : CP1256[c] ?? 0x3f);
+
+// Printers lay bytes out left to right without bidi, so Arabic text is sent in visual order:
+// runs of Latin letters and digits keep their order, everything else is mirrored
+const toVisual = (text: string) => {
+  if (!ARABIC.test(text)) return text;
+  const units = text.match(/[\x21-\x7E×](?:[\x20-\x7E×]*[\x21-\x7E×])?|[^]/g) ?? [];
+  return units.reverse().join('');
+};
+
+const fit = (text: string, width: number) => text.length > width ? text.slice(0, width) : text;
+
+// A right-to-left row on a left-to-right printer: value on the left, label on the right
+const rowText = (label: string, value: string, width: number) => {
+  const right = fit(label, Math.max(0, width - value.length - 1));
+  return toVisual(value) + ' '.repeat(Math.max(1, width - value.length - right.length)) + toVisual(right);
+};
+
+// Most thermal printers print Arabic letters in their isolated form, unjoined; the print dialog
+// is the better choice for readable Arabic, this stream is for counters that need a bridge
+export const receiptToEscPos = (lines: ReceiptLine[], paperWidth: PaperWidth): Uint8Array => {
+  const width = CHARS_PER_LINE[paperWidth];
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, CODE_PAGE_1256];
+  const align = (n: 0 | 1 | 2) => bytes.push(ESC, 0x61, n);
+  const print = (text: string) => bytes.push(...encodeText(text), LF);
+
+  for (const line of lines) {
+    switch (line.kind) {
+      case 'title':
+        align(1);
+        bytes.push(GS, 0x21, 0x11, ESC, 0x45, 1);
+        print(toVisual(fit(line.text, width / 2)));
+        bytes.push(GS, 0x21, 0x00, ESC, 0x45, 0);
+        break;
+      case 'text':
+        align(1);
+        print(toVisual(fit(line.text, width)));
+        break;
+      case 'note':
+        align(2);
+        print(toVisual(fit(line.text, width - 2)) + '  ');
+        break;
+      case 'divider':
+        align(0);
+        print('-'.repeat(width));
+        break;
+      case 'row':
+        align(0);
+        if (line.strong) bytes.push(ESC, 0x45, 1);
+        print(rowText(line.label, line.value, width));
+        if (line.strong) bytes.push(ESC, 0x45, 0);
+        break;
+    }
+  }
+  // Feed past the cutter, then a partial cut
+  bytes.push(ESC, 0x64, 4, GS, 0x56, 0x42, 0x00);
+  return new Uint8Array(bytes);
+};
+
+// Sends ESC/POS to the bridge when one is set up, falling back to the print dialog if it can't be reached
+export const printReceipt = async (lines: ReceiptLine[], settings: ReceiptSettings) => {
+  if (settings.bridgeUrl) {
+    try {
+      const res = await fetch(settings.bridgeUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: receiptToEscPos(lines, settings.paperWidth)
+      });
+      if (res.ok) return;
+      console.error(`Print bridge answered ${res.status}`);
+    } catch (e) {
+      console.error('Print bridge unreachable', e);
+    }
+  }
+  printHTML(receiptToHTML(lines, settings.paperWidth));
+};
@@ -0,0 +1,101 @@
+import { ControllerSpan, OrderItem, PaymentSplit, SessionRecord, StationLeg } from '../types';
+import { getCashPaid, paymentMethodOf } from './accounts';
+
+export const getItemsTotal = (items: OrderItem[]) =>
+  items.reduce((acc, item) => acc + item.unitPrice * item.quantity, 0);
+
+// What the customer pays for the visit: playtime plus food & drinks
+export const getRecordTotal = (record: SessionRecord) =>
+  record.totalCost + (record.itemsTotal ?? 0);
+
+// Playtime before discounts and free minutes were taken off, for records from before discounts too
+export const getGrossCost = (record: SessionRecord) =>
+  record.grossCost ?? record.totalCost + (record.loyaltyDiscount ?? 0);
+
+// Everything taken off playtime: discount rules and loyalty free minutes
+export const getDiscountTotal = (record: SessionRecord) =>
+  Math.round((getGrossCost(record) - record.totalCost) * 100) / 100;
+
+// A record that never moved is a single leg on its own station
+export const getRecordLegs = (record: SessionRecord): StationLeg[] =>
+  record.legs ?? [{
+    screenId: record.screenId,
+    screenName: record.screenName,
+    from: record.startTime,
+    to: record.endTime,
+    seconds: record.durationSeconds,
+    ratePlanId: record.ratePlanId,
+    ratePlanName: record.ratePlanName,
+    cost: record.totalCost,
+    segments: record.segments ?? []
+  }];
+
+// Time the customer was charged for, after the plan's billing policy
+export const getChargedSeconds = (record: SessionRecord) => record.billedSeconds ?? record.durationSeconds;
+
+const mergeItems = (a: OrderItem[], b: OrderItem[]) =>
+  b.reduce((items, item) => {
+    const existing = items.find(i => i.productId === item.productId && i.unitPrice === item.unitPrice);
+    return existing
+      ? items.map(i => i === existing ? { ...i, quantity: i.quantity + item.quantity } : i)
+      : [...items, item];
+  }, a);
+
+const sumOptional = (a?: number, b?: number) =>
+  a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+
+// Player-count changes of a record, or its single count from the start for records that never changed
+const recordControllerSpans = (record: SessionRecord): ControllerSpan[] =>
+  record.controllerLog ?? (record.controllers ? [{ at: record.startTime, controllers: record.controllers }] : []);
+
+// Folds two records of the same visit into one, keeping the earlier record's id
+export const mergeRecords = (x: SessionRecord, y: SessionRecord): SessionRecord => {
+  const [first, second] = x.startTime <= y.startTime ? [x, y] : [y, x];
+  const items = mergeItems(first.items ?? [], second.items ?? []);
+  const payment: PaymentSplit | undefined = first.payment || second.payment
+    ? {
+        cash: getCashPaid(first, getRecordTotal(first)) + getCashPaid(second, getRecordTotal(second)),
+        wallet: (first.payment?.wallet ?? 0) + (second.payment?.wallet ?? 0),
+        tab: (first.payment?.tab ?? 0) + (second.payment?.tab ?? 0)
+      }
+    : undefined;
+
+  return {
+    ...first,
+    screenId: second.screenId,
+    screenName: second.screenName,
+    endTime: Math.max(first.endTime, second.endTime),
+    durationSeconds: first.durationSeconds + second.durationSeconds,
+    billedSeconds: first.billedSeconds !== undefined || second.billedSeconds !== undefined
+      ? getChargedSeconds(first) + getChargedSeconds(second)
+      : undefined,
+    billingAdjustment: sumOptional(first.billingAdjustment, second.billingAdjustment),
+    pausedSeconds: sumOptional(first.pausedSeconds, second.pausedSeconds),
+    pauses: first.pauses || second.pauses ? [...(first.pauses ?? []), ...(second.pauses ?? [])] : undefined,
+    totalCost: first.totalCost + second.totalCost,
+    hourlyRate: second.hourlyRate,
+    segments: [...(first.segments ?? []), ...(second.segments ?? [])],
+    items,
+    itemsTotal: getItemsTotal(items),
+    customerName: first.customerName ?? second.customerName,
+    customerId: first.customerId ?? second.customerId,
+    freeMinutes: sumOptional(first.freeMinutes, second.freeMinutes),
+    loyaltyDiscount: sumOptional(first.loyaltyDiscount, second.loyaltyDiscount),
+    grossCost: first.grossCost !== undefined || second.grossCost !== undefined
+      ? getGrossCost(first) + getGrossCost(second)
+      : undefined,
+    discounts: first.discounts || second.discounts ? [...(first.discounts ?? []), ...(second.discounts ?? [])] : undefined,
+    pointsRedeemed: sumOptional(first.pointsRedeemed, second.pointsRedeemed),
+    pointsEarned: sumOptional(first.pointsEarned, second.pointsEarned),
+    paymentMethod: payment ? paymentMethodOf(payment) : undefined,
+    payment,
+    amountPaid: payment ? payment.cash + payment.wallet : undefined,
+    outstanding: payment ? payment.tab : undefined,
+    controllerLog: first.controllerLog || second.controllerLog
+      ? [...recordControllerSpans(first), ...recordControllerSpans(second)]
+      : undefined,
+    shares: undefined, // The split no longer adds up once the totals are combined
+    legs: [...getRecordLegs(first), ...getRecordLegs(second)],
+    mergedFrom: [...(first.mergedFrom ?? []), second.id, ...(second.mergedFrom ?? [])]
+  };
+};
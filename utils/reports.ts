@@ -0,0 +1,38 @@
+import { LedgerEntry, SessionRecord, StationTotal, ZReport } from '../types';
+import { getDiscountTotal, getRecordTotal } from './records';
+import { getCashPaid } from './accounts';
+
+// `ledger` holds the account movements made during the shift (top-ups, tab payments)
+export const buildZReport = (sessions: SessionRecord[], ledger: LedgerEntry[] = []): ZReport => {
+  const stations = new Map<string, StationTotal>();
+
+  for (const s of sessions) {
+    const key = String(s.screenId);
+    const entry = stations.get(key) ?? { screenId: s.screenId, screenName: s.screenName, sessions: 0, seconds: 0, revenue: 0 };
+    entry.sessions += 1;
+    entry.seconds += s.durationSeconds;
+    entry.revenue += getRecordTotal(s);
+    stations.set(key, entry);
+  }
+
+  const playRevenue = sessions.reduce((acc, s) => acc + s.totalCost, 0);
+  const itemsRevenue = sessions.reduce((acc, s) => acc + (s.itemsTotal ?? 0), 0);
+  const totalRevenue = playRevenue + itemsRevenue;
+  const sessionCash = sessions.reduce((acc, s) => acc + getCashPaid(s, getRecordTotal(s)), 0);
+  const accountCash = ledger.reduce((acc, e) => acc + e.cash, 0);
+
+  return {
+    sessionCount: sessions.length,
+    hoursSold: sessions.reduce((acc, s) => acc + s.durationSeconds, 0) / 3600,
+    playRevenue,
+    itemsRevenue,
+    totalRevenue,
+    discounts: sessions.reduce((acc, s) => acc + getDiscountTotal(s), 0),
+    walletPaid: sessions.reduce((acc, s) => acc + (s.payment?.wallet ?? 0), 0),
+    tabCharged: sessions.reduce((acc, s) => acc + (s.payment?.tab ?? 0), 0),
+    accountCash,
+    // Wallet and tab payments never reach the drawer; top-ups and tab repayments do
+    cashExpected: sessionCash + accountCash,
+    stations: [...stations.values()].sort((a, b) => b.revenue - a.revenue)
+  };
+};
@@ -0,0 +1,77 @@
+import { ActiveSession, Reservation } from '../types';
+import { getActiveSeconds } from './session';
+
+const MINUTE = 60 * 1000;
+
+// An open session has no end, so it is assumed to keep the station busy for this long
+export const OPEN_SESSION_HORIZON_MINUTES = 60;
+
+// How early a booking shows on its station's card and can be seated
+export const RESERVATION_NOTICE_HOURS = 12;
+export const EARLY_SEATING_MINUTES = 30;
+
+export interface ReservationConflict {
+  kind: 'RESERVATION' | 'SESSION';
+  id: string;
+  label: string;
+  from: number;
+  to: number;
+}
+
+export const getReservationEnd = (reservation: Reservation) =>
+  reservation.startTime + reservation.durationMinutes * MINUTE;
+
+// Cancelled bookings and no-shows free the station again
+export const isBlocking = (reservation: Reservation) => reservation.status === 'BOOKED';
+
+const overlaps = (aFrom: number, aTo: number, bFrom: number, bTo: number) => aFrom < bTo && bFrom < aTo;
+
+// When a running session is expected to free its station
+export const getSessionBusyUntil = (session: ActiveSession, now: number) => {
+  if (session.sessionType === 'OPEN') return now + OPEN_SESSION_HORIZON_MINUTES * MINUTE;
+  const remaining = session.fixedMinutes * 60 - getActiveSeconds(session.startTime, session.pauses, now);
+  return now + Math.max(0, remaining) * 1000;
+};
+
+// Other bookings and running sessions that overlap the candidate's time on the same station
+export const findConflicts = (
+  candidate: Reservation,
+  reservations: Reservation[],
+  sessions: Record<string, ActiveSession>,
+  now: number
+): ReservationConflict[] => {
+  const from = candidate.startTime;
+  const to = getReservationEnd(candidate);
+
+  const booked: ReservationConflict[] = reservations
+    .filter(r => r.id !== candidate.id && r.screenId === candidate.screenId && isBlocking(r))
+    .filter(r => overlaps(from, to, r.startTime, getReservationEnd(r)))
+    .map(r => ({ kind: 'RESERVATION', id: r.id, label: r.customerName, from: r.startTime, to: getReservationEnd(r) }));
+
+  const session = sessions[candidate.screenId];
+  const running: ReservationConflict[] = session && session.reservationId !== candidate.id
+    && overlaps(from, to, now, getSessionBusyUntil(session, now))
+    ? [{ kind: 'SESSION', id: session.id, label: session.customerName, from: session.startTime, to: getSessionBusyUntil(session, now) }]
+    : [];
+
+  return [...booked, ...running];
+};
+
+// The station's next booking that hasn't finished yet, within the notice window
+export const getNextReservation = (reservations: Reservation[], screenId: string, now: number) =>
+  reservations
+    .filter(r => r.screenId === screenId && isBlocking(r))
+    .filter(r => getReservationEnd(r) > now && r.startTime - now <= RESERVATION_NOTICE_HOURS * 3600 * 1000)
+    .sort((a, b) => a.startTime - b.startTime)[0];
+
+export const canSeat = (reservation: Reservation, now: number) =>
+  isBlocking(reservation) && now >= reservation.startTime - EARLY_SEATING_MINUTES * MINUTE && now < getReservationEnd(reservation);
+
+// Whether a session running from now for the given minutes would still be going when the booking starts
+export const runsIntoReservation = (reservation: Reservation, now: number, minutes: number) =>
+  reservation.startTime > now && now + minutes * MINUTE > reservation.startTime;
+
+export const reservationsBetween = (reservations: Reservation[], from: number, to: number) =>
+  reservations
+    .filter(r => overlaps(from, to, r.startTime, getReservationEnd(r)))
+    .sort((a, b) => a.startTime - b.startTime);
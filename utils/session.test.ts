@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { ActiveSession, OvertimePolicy, RatePlan } from '../types';
+import { priceActiveSession } from './session';
+
+const T0 = new Date(2025, 0, 6, 14, 0).getTime(); // A Monday afternoon
+const MIN = 60 * 1000;
+
+const planWith = (overrides: Partial<RatePlan> = {}): RatePlan => ({
+  id: 'standard',
+  name: 'STANDARD',
+  rates: { 1: 60, 2: 60, 4: 90 },
+  rules: [],
+  ...overrides
+});
+
+const overtime = (mode: OvertimePolicy['mode'], graceMinutes = 0, blockMinutes = 15): OvertimePolicy => ({ mode, blockMinutes, graceMinutes });
+
+const session = (overrides: Partial<ActiveSession> = {}): ActiveSession => ({
+  id: 's1',
+  screenId: '1',
+  startTime: T0,
+  sessionType: 'OPEN',
+  fixedMinutes: 0,
+  ratePlanId: 'standard',
+  controllers: 2,
+  customerName: '',
+  pauses: [],
+  orders: [],
+  isTimeUp: false,
+  ...overrides
+});
+
+// One hour prepaid for 40
+const packaged = (overrides: Partial<ActiveSession> = {}) =>
+  session({ sessionType: 'FIXED', fixedMinutes: 60, package: { name: '1 HOUR', minutes: 60, price: 40 }, ...overrides });
+
+describe('priceActiveSession with a package', () => {
+  it('charges the package price while inside the budget', () => {
+    const pricing = priceActiveSession(packaged(), [planWith()], T0 + 45 * MIN);
+    expect(pricing.total).toBe(40);
+    expect(pricing.overtimeSeconds).toBe(0);
+    expect(pricing.segments[0]).toMatchObject({ label: '1 HOUR', seconds: 45 * 60, cost: 40 });
+  });
+
+  it('adds extensions to the prepaid amount and the budget', () => {
+    const extended = packaged({ fixedMinutes: 90, extensions: [{ at: T0 + 50 * MIN, minutes: 30, price: 20 }] });
+    const pricing = priceActiveSession(extended, [planWith()], T0 + 80 * MIN);
+    expect(pricing.total).toBe(60);
+    expect(pricing.overtimeCost).toBe(0);
+    expect(pricing.segments[0].label).toBe('1 HOUR +30m');
+  });
+
+  it('charges overtime at the plan rate once past the grace, counting from the end of the package', () => {
+    const plans = [planWith({ overtime: overtime('RATE', 5) })];
+    expect(priceActiveSession(packaged(), plans, T0 + 65 * MIN).total).toBe(40);
+    const pricing = priceActiveSession(packaged(), plans, T0 + 80 * MIN);
+    expect(pricing.overtimeSeconds).toBe(20 * 60);
+    expect(pricing.overtimeCost).toBe(20);
+    expect(pricing.total).toBe(60);
+  });
+
+  it('charges overtime in started blocks', () => {
+    const plans = [planWith({ overtime: overtime('BLOCKS', 0, 15) })];
+    expect(priceActiveSession(packaged(), plans, T0 + 61 * MIN).overtimeCost).toBe(15);
+    expect(priceActiveSession(packaged(), plans, T0 + 76 * MIN).overtimeCost).toBe(30);
+  });
+
+  it('never charges overtime in free mode, whatever the grace', () => {
+    const pricing = priceActiveSession(packaged(), [planWith({ overtime: overtime('FREE', 5) })], T0 + 120 * MIN);
+    expect(pricing.total).toBe(40);
+    expect(pricing.overtimeSeconds).toBe(60 * 60);
+    expect(pricing.segments[1]).toMatchObject({ label: 'OVERTIME', cost: 0 });
+  });
+
+  it('moves the end of the package back by the time spent paused', () => {
+    const paused = packaged({ pauses: [{ start: T0 + 10 * MIN, end: T0 + 40 * MIN }] });
+    expect(priceActiveSession(paused, [planWith({ overtime: overtime('RATE') })], T0 + 80 * MIN).overtimeCost).toBe(0);
+  });
+
+  it('leaves the plan\'s billing policy to time-billed sessions', () => {
+    const billing = { blockMinutes: 30, graceMinutes: 0, minimumMinutes: 120, roundTo: 5 };
+    const plans = [planWith({ overtime: overtime('RATE'), billing })];
+    const pricing = priceActiveSession(packaged(), plans, T0 + 70 * MIN);
+    expect(pricing.total).toBe(50);
+    expect(pricing.billedSeconds).toBeUndefined();
+    expect(pricing.billingAdjustment).toBeUndefined();
+    // The same plan bills an open session under the policy
+    expect(priceActiveSession(session(), plans, T0 + 70 * MIN).total).toBe(120);
+  });
+});
+
+describe('priceActiveSession with a changing player count', () => {
+  const changed = (overrides: Partial<ActiveSession> = {}) => session({
+    controllers: 4,
+    controllerLog: [{ at: T0, controllers: 2 }, { at: T0 + 30 * MIN, controllers: 4 }],
+    ...overrides
+  });
+
+  it('prices each stretch at the count in use', () => {
+    const pricing = priceActiveSession(changed(), [planWith()], T0 + 60 * MIN);
+    expect(pricing.segments.map(s => [s.label, s.cost])).toEqual([['STANDARD · 2P', 30], ['STANDARD · 4P', 45]]);
+    expect(pricing.total).toBe(75);
+  });
+
+  it('leaves paused time out of whichever stretch it fell in', () => {
+    const paused = changed({ pauses: [{ start: T0 + 20 * MIN, end: T0 + 40 * MIN }] });
+    const pricing = priceActiveSession(paused, [planWith()], T0 + 60 * MIN);
+    expect(pricing.segments.map(s => s.seconds)).toEqual([20 * 60, 20 * 60]);
+    expect(pricing.total).toBe(50);
+  });
+
+  it('charges package overtime at the count in use when the package ran out', () => {
+    const pkg = packaged({ controllers: 2, controllerLog: [{ at: T0, controllers: 2 }, { at: T0 + 50 * MIN, controllers: 4 }, { at: T0 + 70 * MIN, controllers: 2 }] });
+    expect(priceActiveSession(pkg, [planWith({ overtime: overtime('RATE') })], T0 + 80 * MIN).overtimeCost).toBe(30);
+  });
+});
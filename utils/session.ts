@@ -0,0 +1,194 @@
+import { ActiveSession, ControllerCount, PauseInterval, RatePlan, RateSegment, Screen, SessionPackage, SessionRecord, StationLeg } from '../types';
+import { PriceBreakdown, activeTimeReachedAt, applyBillingPolicy, getActiveMs, priceOvertime, priceSession } from './pricing';
+import { getItemsTotal } from './records';
+
+// Total paused milliseconds; an open pause counts up to `now`
+export const getPausedMs = (pauses: PauseInterval[], now: number) =>
+  pauses.reduce((acc, p) => acc + ((p.end ?? now) - p.start), 0);
+
+// Billable seconds: wall-clock time since start minus every pause
+export const getActiveSeconds = (startTime: number, pauses: PauseInterval[], now: number) =>
+  Math.max(0, Math.floor((now - startTime - getPausedMs(pauses, now)) / 1000));
+
+export const isSessionPaused = (session: ActiveSession) =>
+  session.pauses.length > 0 && session.pauses[session.pauses.length - 1].end === null;
+
+// Fall back to the first plan if the session's plan was deleted meanwhile
+export const findRatePlan = (plans: RatePlan[], planId: string): RatePlan | undefined =>
+  plans.find(p => p.id === planId) ?? plans[0];
+
+// Sessions started before plans were copied onto them still follow the live plan
+export const getSessionPlan = (session: ActiveSession, plans: RatePlan[]): RatePlan | undefined =>
+  session.plan ?? findRatePlan(plans, session.ratePlanId);
+
+export const getControllerLog = (session: ActiveSession) =>
+  session.controllerLog?.length ? session.controllerLog : [{ at: session.startTime, controllers: session.controllers }];
+
+// Player count in use at a given moment
+export const getControllersAt = (session: ActiveSession, at: number): ControllerCount => {
+  const log = getControllerLog(session);
+  return [...log].reverse().find(entry => entry.at <= at)?.controllers ?? log[0].controllers;
+};
+
+// Prices [from, to] piece by piece, each at the player count in use at the time
+const priceByControllers = (session: ActiveSession, plan: RatePlan, from: number, to: number): PriceBreakdown => {
+  if (!session.controllerLog?.length) return priceSession(plan, from, to, session.controllers, session.pauses);
+  const log = session.controllerLog;
+  const parts = log
+    .map((entry, i) => ({ from: Math.max(entry.at, from), to: Math.min(log[i + 1]?.at ?? to, to), controllers: entry.controllers }))
+    .filter(span => span.to > span.from)
+    .map(span => {
+      const pricing = priceSession(plan, span.from, span.to, span.controllers, session.pauses);
+      return { ...pricing, segments: pricing.segments.map(s => ({ ...s, label: `${s.label} · ${span.controllers}P` })) };
+    });
+  return {
+    total: parts.reduce((acc, p) => acc + p.total, 0),
+    segments: parts.flatMap(p => p.segments)
+  };
+};
+
+// The current station's share starts where the last move left off
+export const getLegStart = (session: ActiveSession) =>
+  session.legs?.length ? session.legs[session.legs.length - 1].to : session.startTime;
+
+// Closes the part of the session played on its current station
+export const buildLeg = (
+  session: ActiveSession,
+  screen: Screen | undefined,
+  plans: RatePlan[],
+  to: number
+): StationLeg => {
+  const from = getLegStart(session);
+  const plan = getSessionPlan(session, plans);
+  // A package covers the whole visit, so its legs only track time
+  const pricing = plan && !session.package
+    ? priceByControllers(session, plan, from, to)
+    : { total: 0, segments: [] };
+  const seconds = getActiveMs(from, to, session.pauses) / 1000;
+
+  return {
+    screenId: session.screenId,
+    screenName: screen?.name ?? session.screenId,
+    from,
+    to,
+    seconds: Math.floor(seconds),
+    ratePlanId: plan?.id,
+    ratePlanName: plan?.name,
+    cost: pricing.total,
+    segments: pricing.segments
+  };
+};
+
+export interface SessionPricing {
+  total: number;
+  segments: RateSegment[];
+  overtimeSeconds?: number;
+  overtimeCost?: number;
+  billedSeconds?: number;
+  billingAdjustment?: number;
+}
+
+// Prepaid package plus its extensions; only time played past the budget depends on the plan
+const pricePackageSession = (
+  session: ActiveSession,
+  pkg: SessionPackage,
+  plan: RatePlan | undefined,
+  now: number
+): SessionPricing => {
+  const extensions = session.extensions ?? [];
+  const prepaid = extensions.reduce((acc, e) => acc + (e.price ?? 0), pkg.price);
+  const budgetSeconds = session.fixedMinutes * 60;
+  const overtimeFrom = activeTimeReachedAt(session.startTime, session.pauses, budgetSeconds, now);
+  // Overtime is charged at the player count in use when the package ran out
+  const overtime = plan && overtimeFrom !== null
+    ? priceOvertime(plan, overtimeFrom, now, getControllersAt(session, overtimeFrom), session.pauses)
+    : { total: 0, segments: [] };
+  const extraMinutes = extensions.reduce((acc, e) => acc + e.minutes, 0);
+
+  const packageSegment: RateSegment = {
+    from: session.startTime,
+    to: overtimeFrom ?? now,
+    seconds: Math.round(Math.min(getActiveMs(session.startTime, now, session.pauses) / 1000, budgetSeconds)),
+    rate: pkg.minutes > 0 ? pkg.price / (pkg.minutes / 60) : 0,
+    label: extraMinutes ? `${pkg.name} +${extraMinutes}m` : pkg.name,
+    cost: prepaid
+  };
+
+  return {
+    total: prepaid + overtime.total,
+    segments: [packageSegment, ...overtime.segments],
+    overtimeSeconds: overtimeFrom !== null ? Math.round(getActiveMs(overtimeFrom, now, session.pauses) / 1000) : 0,
+    overtimeCost: overtime.total
+  };
+};
+
+// Stations already left keep the price they had; only the current one is still running
+export const priceActiveSession = (session: ActiveSession, plans: RatePlan[], now: number): SessionPricing => {
+  const legs = session.legs ?? [];
+  const plan = getSessionPlan(session, plans);
+  // A package is charged its price plus overtime, which has its own blocks and grace;
+  // the plan's billing policy (blocks, minimum, rounding) is for time-billed sessions only
+  if (session.package) return pricePackageSession(session, session.package, plan, now);
+
+  const current = plan
+    ? priceByControllers(session, plan, getLegStart(session), now)
+    : { total: 0, segments: [] };
+  const raw = legs.reduce((acc, leg) => acc + leg.cost, current.total);
+  const segments = [...legs.flatMap(leg => leg.segments), ...current.segments];
+  if (!plan?.billing) return { total: raw, segments };
+
+  // The policy of the plan the visit ends on covers the whole visit
+  const billing = applyBillingPolicy(raw, getActiveSeconds(session.startTime, session.pauses, now), plan.billing);
+  return {
+    total: billing.total,
+    segments,
+    billedSeconds: billing.billedSeconds,
+    billingAdjustment: billing.adjustment || undefined
+  };
+};
+
+export const buildSessionRecord = (
+  session: ActiveSession,
+  screen: Screen | undefined,
+  plans: RatePlan[],
+  endTime: number
+): SessionRecord => {
+  // Close a pause that is still open so it counts as paused, not played
+  const pauses = session.pauses.map(p => p.end === null ? { ...p, end: endTime } : p);
+  const closed = { ...session, pauses };
+  const plan = getSessionPlan(session, plans);
+  const pricing = priceActiveSession(closed, plans, endTime);
+  const legs = session.legs?.length ? [...session.legs, buildLeg(closed, screen, plans, endTime)] : undefined;
+
+  return {
+    id: session.id,
+    screenId: session.screenId,
+    screenName: screen?.name ?? session.screenId,
+    startTime: session.startTime,
+    endTime,
+    durationSeconds: getActiveSeconds(session.startTime, pauses, endTime),
+    billedSeconds: pricing.billedSeconds,
+    billingAdjustment: pricing.billingAdjustment,
+    totalCost: pricing.total,
+    hourlyRate: plan ? plan.rates[session.controllers] : 0,
+    pausedSeconds: Math.floor(getPausedMs(pauses, endTime) / 1000),
+    pauses: pauses.length ? pauses : undefined,
+    ratePlanId: plan?.id,
+    ratePlanName: plan?.name,
+    controllers: session.controllers,
+    controllerLog: session.controllerLog,
+    segments: pricing.segments,
+    items: session.orders,
+    itemsTotal: getItemsTotal(session.orders),
+    customerName: session.customerName || undefined,
+    customerId: session.customerId,
+    sessionType: session.sessionType,
+    legs,
+    extensions: session.extensions?.length ? session.extensions : undefined,
+    packageName: session.package?.name,
+    overtimeSeconds: pricing.overtimeSeconds || undefined,
+    overtimeCost: pricing.overtimeCost || undefined,
+    reservationId: session.reservationId,
+    startedBy: session.startedBy
+  };
+};
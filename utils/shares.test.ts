@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { resolveShares } from './shares';
+
+const amounts = (shares: ReturnType<typeof resolveShares>) => shares?.map(s => s.amount);
+
+describe('resolveShares', () => {
+  it('splits evenly between players without an amount', () => {
+    expect(amounts(resolveShares('r1', 90, [{ name: 'A' }, { name: 'B' }, { name: 'C' }]))).toEqual([30, 30, 30]);
+  });
+
+  it('splits what the fixed shares leave between the others', () => {
+    expect(amounts(resolveShares('r1', 100, [{ name: 'A', amount: 40 }, { name: 'B' }, { name: 'C' }]))).toEqual([40, 30, 30]);
+  });
+
+  it('puts the rounding leftover on the last even share', () => {
+    expect(amounts(resolveShares('r1', 100, [{ name: 'A' }, { name: 'B' }, { name: 'C' }, { name: 'D', amount: 0 }]))).toEqual([33.33, 33.33, 33.34, 0]);
+  });
+
+  it('puts the leftover on the last share when every amount was typed', () => {
+    expect(amounts(resolveShares('r1', 100, [{ name: 'A', amount: 30 }, { name: 'B', amount: 50 }]))).toEqual([30, 70]);
+  });
+
+  it('refuses fixed amounts that go over the total', () => {
+    expect(resolveShares('r1', 50, [{ name: 'A', amount: 40 }, { name: 'B', amount: 20 }])).toBeNull();
+  });
+
+  it('numbers the shares after the record and names unnamed players', () => {
+    const shares = resolveShares('r1', 20, [{ name: ' Omar ' }, { name: '' }]);
+    expect(shares).toEqual([
+      { id: 'r1:1', name: 'Omar', amount: 10 },
+      { id: 'r1:2', name: 'PLAYER 2', amount: 10 }
+    ]);
+  });
+});
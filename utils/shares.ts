@@ -0,0 +1,32 @@
+import { BillShare } from '../types';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// A share as typed at checkout; no amount = an even part of what the others leave
+export interface ShareDraft {
+  name: string;
+  amount?: number;
+}
+
+// Turns drafts into shares that add up to `total` exactly, or null when the fixed amounts
+// already go over it. Rounding leftovers land on the last even share (or the last share).
+export const resolveShares = (recordId: string, total: number, drafts: ShareDraft[]): BillShare[] | null => {
+  const fixed = drafts.reduce((acc, d) => acc + (d.amount !== undefined ? Math.max(0, d.amount) : 0), 0);
+  if (round2(fixed) > round2(total)) return null;
+
+  const evenCount = drafts.filter(d => d.amount === undefined).length;
+  const even = evenCount > 0 ? Math.floor((total - fixed) / evenCount * 100) / 100 : 0;
+  const shares = drafts.map((d, i) => ({
+    id: `${recordId}:${i + 1}`,
+    name: d.name.trim() || `PLAYER ${i + 1}`,
+    amount: d.amount !== undefined ? round2(Math.max(0, d.amount)) : even
+  }));
+
+  const leftover = round2(total - shares.reduce((acc, s) => acc + s.amount, 0));
+  if (leftover !== 0 && shares.length > 0) {
+    const lastEven = drafts.map(d => d.amount === undefined).lastIndexOf(true);
+    const at = lastEven >= 0 ? lastEven : shares.length - 1;
+    shares[at] = { ...shares[at], amount: round2(shares[at].amount + leftover) };
+  }
+  return shares;
+};
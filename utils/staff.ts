@@ -0,0 +1,65 @@
+import { Permission, StaffMember, StaffRole, StaffStamp } from '../types';
+import type { LoungeAction } from '../store/reducer';
+import { cyrb53 } from './hash';
+
+export const STAFF_ROLES: StaffRole[] = ['OWNER', 'MANAGER', 'CASHIER'];
+
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  OWNER: ['EDIT_HISTORY', 'RESET_HISTORY', 'EDIT_RATES', 'MANAGE_TERMINALS', 'CLOSE_SHIFT', 'RESTORE_BACKUP', 'MANAGE_STAFF', 'VIEW_AUDIT', 'GIVE_DISCOUNT'],
+  MANAGER: ['EDIT_HISTORY', 'EDIT_RATES', 'MANAGE_TERMINALS', 'CLOSE_SHIFT', 'VIEW_AUDIT', 'GIVE_DISCOUNT'],
+  CASHIER: []
+};
+
+// Actions behind a permission in the app; the sync server checks them again against who sent them
+const ACTION_PERMISSIONS: Partial<Record<LoungeAction['type'], Permission>> = {
+  ADD_SCREEN: 'MANAGE_TERMINALS',
+  RENAME_SCREEN: 'MANAGE_TERMINALS',
+  SET_SCREENS: 'MANAGE_TERMINALS',
+  SET_ALARM_SETTINGS: 'MANAGE_TERMINALS',
+  SET_RECEIPT_SETTINGS: 'MANAGE_TERMINALS',
+  SET_RATE_PLANS: 'EDIT_RATES',
+  SET_DISCOUNT_RULES: 'EDIT_RATES',
+  DELETE_RECORD: 'EDIT_HISTORY',
+  RESTORE_RECORDS: 'EDIT_HISTORY',
+  MERGE_RECORDS: 'EDIT_HISTORY',
+  CLEAR_HISTORY: 'RESET_HISTORY',
+  CLOSE_SHIFT: 'CLOSE_SHIFT',
+  IMPORT_BACKUP: 'RESTORE_BACKUP',
+  ADD_STAFF: 'MANAGE_STAFF',
+  UPDATE_STAFF: 'MANAGE_STAFF',
+  DELETE_STAFF: 'MANAGE_STAFF'
+};
+
+export const isPrivileged = (type: LoungeAction['type']) => type in ACTION_PERMISSIONS;
+
+// A checkout only needs a permission when staff give a one-off discount
+export const requiredPermission = (action: LoungeAction): Permission | undefined =>
+  action.type === 'STOP_SESSION' && action.manualDiscount ? 'GIVE_DISCOUNT' : ACTION_PERMISSIONS[action.type];
+
+export const MIN_PIN_LENGTH = 4;
+
+export const can = (member: StaffMember | undefined, permission: Permission) =>
+  !!member && ROLE_PERMISSIONS[member.role].includes(permission);
+
+// A short PIN can't withstand brute force whatever the hash; this only keeps
+// PINs out of plain sight in storage and backups. Salted with the member id.
+export const hashPin = (pin: string, salt: string) => cyrb53(`${salt}:${pin}`);
+
+export const isValidPin = (pin: string) => new RegExp(`^\\d{${MIN_PIN_LENGTH},8}$`).test(pin);
+
+export const checkPin = (member: StaffMember, pin: string) => member.pinHash === hashPin(pin, member.id);
+
+export const createStaffMember = (id: string, name: string, role: StaffRole, pin: string, createdAt: number): StaffMember => ({
+  id,
+  name,
+  role,
+  pinHash: hashPin(pin, id),
+  createdAt
+});
+
+export const stampOf = (member: StaffMember): StaffStamp => ({ id: member.id, name: member.name });
+
+// The last owner can't be removed or demoted, or nobody could manage staff again
+export const isLastOwner = (staff: StaffMember[], memberId: string) =>
+  staff.filter(m => m.role === 'OWNER').every(m => m.id === memberId) &&
+  staff.some(m => m.id === memberId && m.role === 'OWNER');
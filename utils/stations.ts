@@ -0,0 +1,55 @@
+import { ActiveSession, ConsoleType, Screen } from '../types';
+import { CONTROLLER_OPTIONS } from './pricing';
+import { isObject, isString } from './guards';
+
+export const CONSOLE_TYPES: ConsoleType[] = ['PS4', 'PS5', 'VR', 'PC'];
+
+export type StationStatus = 'FREE' | 'BUSY' | 'MAINTENANCE';
+export type StationGrouping = 'NONE' | 'ZONE' | 'CONSOLE';
+
+export const MAX_CONTROLLERS = 8;
+
+export const createScreen = (id: string, name: string): Screen => ({
+  id,
+  name,
+  consoleType: 'PS4',
+  zone: '',
+  controllers: 4
+});
+
+// Fills in the fields stations saved before they had a console type, zone and pad count
+export const normalizeScreen = (raw: unknown): Screen => {
+  const saved = isObject(raw) ? raw : {};
+  return {
+    ...createScreen(String(saved.id), isString(saved.name) ? saved.name : ''),
+    ...saved,
+    id: String(saved.id)
+  };
+};
+
+// Player counts a station can be priced for, limited by the pads it has
+export const controllerOptionsFor = (screen: Screen) => {
+  const options = CONTROLLER_OPTIONS.filter(count => count <= screen.controllers);
+  return options.length > 0 ? options : CONTROLLER_OPTIONS.slice(0, 1);
+};
+
+export const getStationStatus = (screen: Screen, session?: ActiveSession): StationStatus =>
+  session ? 'BUSY' : screen.maintenance ? 'MAINTENANCE' : 'FREE';
+
+// A session keeps running if its station goes into maintenance; it just can't start new ones
+export const canStartOn = (screen: Screen | undefined) => !!screen && !screen.maintenance;
+
+export const getZones = (screens: Screen[]) =>
+  Array.from(new Set(screens.map(s => s.zone.trim()).filter(Boolean))).sort();
+
+// Group label for stations without a zone; the UI shows it translated
+export const NO_ZONE = 'NO ZONE';
+
+// Splits the grid into labelled groups, keeping the configured station order within each
+export const groupStations = (screens: Screen[], grouping: StationGrouping): { label: string; screens: Screen[] }[] => {
+  if (grouping === 'NONE' || screens.length === 0) return [{ label: '', screens }];
+  const keyOf = (s: Screen) => grouping === 'ZONE' ? s.zone.trim() || NO_ZONE : s.consoleType;
+  const groups = new Map<string, Screen[]>();
+  screens.forEach(s => groups.set(keyOf(s), [...(groups.get(keyOf(s)) ?? []), s]));
+  return Array.from(groups, ([label, members]) => ({ label, screens: members }));
+};